@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Database migration CLI
+ *
+ * Usage:
+ *   pnpm run db:migrate up [targetVersion]
+ *   pnpm run db:migrate down [steps]
+ *   pnpm run db:migrate status
+ *   pnpm run db:migrate create <name>
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import dotenv from 'dotenv';
+import { EnterpriseSecretsManager } from '@libs/secrets';
+import { createDatabasePool } from './pool';
+import { MigrationRunner } from './migrator';
+import { migrations } from './migrations';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('./migrations/', import.meta.url));
+
+const toCamelCase = (name: string): string =>
+  name.replace(/[-_]+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * Scaffolds a new migration file and registers it in migrations/index.ts
+ * @param name - Descriptive snake_case name, e.g. "add_user_roles"
+ * @param directory - Directory holding the migration modules
+ * @returns Path of the created file
+ */
+export async function createMigration(name: string, directory = MIGRATIONS_DIR): Promise<string> {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error('Migration name must contain letters or numbers');
+  }
+
+  const files = await fs.readdir(directory);
+  const versions = files
+    .map((file) => /^(\d{4})_.+\.ts$/.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => parseInt(match[1], 10));
+  const version = Math.max(0, ...versions) + 1;
+  const fileBase = `${String(version).padStart(4, '0')}_${slug}`;
+  const filePath = path.join(directory, `${fileBase}.ts`);
+
+  await fs.writeFile(filePath, `import { Migration } from '../migrator';
+
+export const migration: Migration = {
+  version: ${version},
+  name: '${slug}',
+  up: \`
+  \`,
+  down: \`
+  \`,
+};
+`);
+
+  // Register the migration in the ordered index
+  const indexPath = path.join(directory, 'index.ts');
+  const alias = toCamelCase(slug);
+  let index = await fs.readFile(indexPath, 'utf8');
+  const imports = index.match(/^import .*;$/gm) ?? [];
+  const lastImport = imports[imports.length - 1];
+  index = index.replace(lastImport, `${lastImport}\nimport { migration as ${alias} } from './${fileBase}';`);
+  index = index.replace(/\n\];/, `\n  ${alias},\n];`);
+  await fs.writeFile(indexPath, index);
+
+  return filePath;
+}
+
+async function run(command: string | undefined, argument: string | undefined): Promise<void> {
+  if (command === 'create') {
+    if (!argument) {
+      throw new Error('Usage: migrate create <name>');
+    }
+    const filePath = await createMigration(argument);
+    console.log(`📝 Created migration ${path.relative(process.cwd(), filePath)}`);
+    return;
+  }
+
+  const secretsManager = new EnterpriseSecretsManager();
+  const pool = createDatabasePool(await secretsManager.getDatabaseCredentials());
+  const runner = new MigrationRunner(pool, migrations);
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await runner.up(argument ? parseInt(argument, 10) : undefined);
+        console.log(applied.length ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await runner.down(argument ? parseInt(argument, 10) : 1);
+        console.log(`✅ Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status': {
+        const statuses = await runner.status();
+        console.table(statuses.map((status) => ({
+          version: status.version,
+          name: status.name,
+          state: status.state,
+          appliedAt: status.appliedAt ?? '-',
+        })));
+        break;
+      }
+      default:
+        throw new Error('Usage: migrate <up|down|status|create> [argument]');
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+// Only execute when invoked directly, not when imported by tests
+if (process.argv[1] && fileURLToPath(import.meta.url) === path.resolve(process.argv[1])) {
+  dotenv.config();
+  run(process.argv[2], process.argv[3]).catch((error) => {
+    console.error('❌ Migration command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
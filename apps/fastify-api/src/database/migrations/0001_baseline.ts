@@ -0,0 +1,130 @@
+import { Migration } from '../migrator';
+
+/**
+ * Baseline schema previously created by infrastructure/postgres/init.sql
+ * and the audit section of enterprise-config.sql. Every statement is
+ * idempotent so databases initialised by those scripts can adopt migrations.
+ */
+export const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+    CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+    CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+    CREATE TABLE IF NOT EXISTS users (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      email VARCHAR(255) UNIQUE NOT NULL,
+      password_hash VARCHAR(255) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      is_active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash VARCHAR(255) NOT NULL,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      event_type VARCHAR(100) NOT NULL,
+      user_id UUID REFERENCES users(id),
+      data JSONB,
+      published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      kafka_offset BIGINT,
+      kafka_partition INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS api_requests (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID REFERENCES users(id),
+      method VARCHAR(10) NOT NULL,
+      endpoint VARCHAR(255) NOT NULL,
+      status_code INTEGER NOT NULL,
+      response_time_ms INTEGER,
+      ip_address INET,
+      user_agent TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_token_hash ON user_sessions(token_hash);
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_events_event_type ON events(event_type);
+    CREATE INDEX IF NOT EXISTS idx_events_user_id ON events(user_id);
+    CREATE INDEX IF NOT EXISTS idx_events_published_at ON events(published_at);
+    CREATE INDEX IF NOT EXISTS idx_api_requests_user_id ON api_requests(user_id);
+    CREATE INDEX IF NOT EXISTS idx_api_requests_created_at ON api_requests(created_at);
+
+    CREATE OR REPLACE FUNCTION update_updated_at_column()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.updated_at = CURRENT_TIMESTAMP;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+    CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    CREATE SCHEMA IF NOT EXISTS audit;
+
+    CREATE TABLE IF NOT EXISTS audit.data_changes (
+      id BIGSERIAL PRIMARY KEY,
+      table_name TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      old_data JSONB,
+      new_data JSONB,
+      changed_by TEXT,
+      changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      session_user TEXT DEFAULT SESSION_USER,
+      client_addr INET DEFAULT INET_CLIENT_ADDR()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_table_name ON audit.data_changes(table_name);
+    CREATE INDEX IF NOT EXISTS idx_audit_changed_at ON audit.data_changes(changed_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_changed_by ON audit.data_changes(changed_by);
+
+    CREATE OR REPLACE FUNCTION audit.log_changes()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        INSERT INTO audit.data_changes (table_name, operation, old_data)
+        VALUES (TG_TABLE_NAME, TG_OP, to_jsonb(OLD));
+        RETURN OLD;
+      ELSIF TG_OP = 'UPDATE' THEN
+        INSERT INTO audit.data_changes (table_name, operation, old_data, new_data)
+        VALUES (TG_TABLE_NAME, TG_OP, to_jsonb(OLD), to_jsonb(NEW));
+        RETURN NEW;
+      ELSIF TG_OP = 'INSERT' THEN
+        INSERT INTO audit.data_changes (table_name, operation, new_data)
+        VALUES (TG_TABLE_NAME, TG_OP, to_jsonb(NEW));
+        RETURN NEW;
+      END IF;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    -- Default admin and demo users (password: "password")
+    INSERT INTO users (email, password_hash, name) VALUES
+      ('admin@example.com', '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', 'Admin User'),
+      ('demo@example.com', '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', 'Demo User')
+    ON CONFLICT (email) DO NOTHING;
+  `,
+  down: `
+    DROP FUNCTION IF EXISTS audit.log_changes();
+    DROP TABLE IF EXISTS audit.data_changes;
+    DROP TABLE IF EXISTS api_requests;
+    DROP TABLE IF EXISTS events;
+    DROP TABLE IF EXISTS user_sessions;
+    DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+    DROP TABLE IF EXISTS users;
+    DROP FUNCTION IF EXISTS update_updated_at_column();
+  `,
+};
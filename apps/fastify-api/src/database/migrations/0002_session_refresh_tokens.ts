@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';
+
+/**
+ * Turns user_sessions into a refresh token store. Rotated tokens share a
+ * family_id so reuse of an old token can revoke the whole chain.
+ */
+export const migration: Migration = {
+  version: 2,
+  name: 'session_refresh_tokens',
+  up: `
+    ALTER TABLE user_sessions
+      ADD COLUMN IF NOT EXISTS family_id UUID NOT NULL DEFAULT uuid_generate_v4(),
+      ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES user_sessions(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS user_agent TEXT,
+      ADD COLUMN IF NOT EXISTS ip_address INET;
+
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_family_id ON user_sessions(family_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_user_sessions_family_id;
+
+    ALTER TABLE user_sessions
+      DROP COLUMN IF EXISTS ip_address,
+      DROP COLUMN IF EXISTS user_agent,
+      DROP COLUMN IF EXISTS last_used_at,
+      DROP COLUMN IF EXISTS revoked_at,
+      DROP COLUMN IF EXISTS replaced_by,
+      DROP COLUMN IF EXISTS family_id;
+  `,
+};
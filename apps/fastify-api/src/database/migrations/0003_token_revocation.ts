@@ -0,0 +1,29 @@
+import { Migration } from '../migrator';
+
+/**
+ * Denylist tables for access tokens revoked before they expire: single
+ * tokens by jti and per-user "issued before" cutoffs for logout-all.
+ */
+export const migration: Migration = {
+  version: 3,
+  name: 'token_revocation',
+  up: `
+    CREATE TABLE IF NOT EXISTS revoked_tokens (
+      jti VARCHAR(64) PRIMARY KEY,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      revoked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires_at ON revoked_tokens(expires_at);
+
+    CREATE TABLE IF NOT EXISTS user_token_revocations (
+      user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      revoked_before TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS user_token_revocations;
+    DROP INDEX IF EXISTS idx_revoked_tokens_expires_at;
+    DROP TABLE IF EXISTS revoked_tokens;
+  `,
+};
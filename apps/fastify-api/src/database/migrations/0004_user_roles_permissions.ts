@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';
+
+/**
+ * Stores roles and directly granted permissions on each user. Role to
+ * permission mapping lives in middleware/permissions.ts; the seeded admin
+ * account becomes an admin, everyone else starts as a customer.
+ */
+export const migration: Migration = {
+  version: 4,
+  name: 'user_roles_permissions',
+  up: `
+    ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS roles TEXT[] NOT NULL DEFAULT ARRAY['customer']::TEXT[],
+      ADD COLUMN IF NOT EXISTS permissions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+    ALTER TABLE users
+      ADD CONSTRAINT users_roles_valid
+      CHECK (roles <@ ARRAY['admin', 'fleet_manager', 'branch_staff', 'customer']::TEXT[]);
+
+    CREATE INDEX IF NOT EXISTS idx_users_roles ON users USING GIN (roles);
+
+    UPDATE users SET roles = ARRAY['admin']::TEXT[] WHERE email = 'admin@example.com';
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_users_roles;
+
+    ALTER TABLE users
+      DROP CONSTRAINT IF EXISTS users_roles_valid,
+      DROP COLUMN IF EXISTS permissions,
+      DROP COLUMN IF EXISTS roles;
+  `,
+};
@@ -0,0 +1,26 @@
+import { Migration } from '../migrator';
+
+/**
+ * Single-use password reset tokens. Only the SHA-256 hash of each token is
+ * stored; used_at marks a token as consumed.
+ */
+export const migration: Migration = {
+  version: 5,
+  name: 'password_reset_tokens',
+  up: `
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash CHAR(64) UNIQUE NOT NULL,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      requested_ip INET,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS password_reset_tokens;
+  `,
+};
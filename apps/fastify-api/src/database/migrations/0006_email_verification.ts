@@ -0,0 +1,18 @@
+import { Migration } from '../migrator';
+
+/**
+ * Tracks when each user verified their email address. Accounts that existed
+ * before verification was introduced are treated as verified.
+ */
+export const migration: Migration = {
+  version: 6,
+  name: 'email_verification',
+  up: `
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+    UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
+  `,
+  down: `
+    ALTER TABLE users DROP COLUMN IF EXISTS email_verified_at;
+  `,
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../migrator';
+
+/**
+ * TOTP second factor per user plus single-use recovery codes. A row in
+ * user_mfa with enabled_at NULL is an enrollment awaiting confirmation;
+ * last_used_step blocks replay of an already accepted code.
+ */
+export const migration: Migration = {
+  version: 7,
+  name: 'user_mfa',
+  up: `
+    CREATE TABLE IF NOT EXISTS user_mfa (
+      user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      secret VARCHAR(64) NOT NULL,
+      enabled_at TIMESTAMP WITH TIME ZONE,
+      last_used_step BIGINT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      code_hash CHAR(64) NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, code_hash)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS mfa_recovery_codes;
+    DROP TABLE IF EXISTS user_mfa;
+  `,
+};
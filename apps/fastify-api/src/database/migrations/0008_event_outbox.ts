@@ -0,0 +1,32 @@
+import { Migration } from '../migrator';
+
+/**
+ * Transactional outbox for the `events` table. An event and its outbox row
+ * are written together; the relay publishes the event to Kafka, records the
+ * partition and offset on `events` and deletes the outbox row. `published_at`
+ * loses its default so NULL means "not yet on the broker".
+ */
+export const migration: Migration = {
+  version: 8,
+  name: 'event_outbox',
+  up: `
+    ALTER TABLE events ALTER COLUMN published_at DROP DEFAULT;
+    ALTER TABLE events ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+
+    CREATE TABLE IF NOT EXISTS event_outbox (
+      event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+      topic VARCHAR(255) NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      last_error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_outbox_next_attempt_at ON event_outbox(next_attempt_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS event_outbox;
+    ALTER TABLE events DROP COLUMN IF EXISTS created_at;
+    ALTER TABLE events ALTER COLUMN published_at SET DEFAULT CURRENT_TIMESTAMP;
+  `,
+};
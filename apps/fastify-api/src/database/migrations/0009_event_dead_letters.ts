@@ -0,0 +1,36 @@
+import { Migration } from '../migrator';
+
+/**
+ * Messages a consumer group gave up on after exhausting its retries. The
+ * raw payload is kept so the message can be inspected and replayed even when
+ * it could not be parsed; a redelivered message updates its existing row.
+ */
+export const migration: Migration = {
+  version: 9,
+  name: 'event_dead_letters',
+  up: `
+    CREATE TABLE IF NOT EXISTS event_dead_letters (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      consumer_group VARCHAR(255) NOT NULL,
+      topic VARCHAR(255) NOT NULL,
+      kafka_partition INTEGER NOT NULL,
+      kafka_offset BIGINT NOT NULL,
+      event_id UUID,
+      event_type VARCHAR(100),
+      payload TEXT NOT NULL,
+      headers JSONB NOT NULL DEFAULT '{}',
+      error TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'replayed')),
+      replayed_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (consumer_group, topic, kafka_partition, kafka_offset)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_dead_letters_status ON event_dead_letters(status, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS event_dead_letters;
+  `,
+};
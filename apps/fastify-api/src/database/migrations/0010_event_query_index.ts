@@ -0,0 +1,16 @@
+import { Migration } from '../migrator';
+
+/**
+ * Index for GET /api/events and event replay, which read `events` in
+ * creation order and page with a `(created_at, id)` cursor.
+ */
+export const migration: Migration = {
+  version: 10,
+  name: 'event_query_index',
+  up: `
+    CREATE INDEX IF NOT EXISTS idx_events_created_at_id ON events(created_at, id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_events_created_at_id;
+  `,
+};
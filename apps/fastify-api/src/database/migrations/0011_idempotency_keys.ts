@@ -0,0 +1,29 @@
+import { Migration } from '../migrator';
+
+/**
+ * Responses stored for requests sent with an Idempotency-Key header. `key`
+ * combines the user and the client's key. A pending row locks the key while
+ * the first request runs; `expires_at` is the lock expiry for pending rows
+ * and the retention for completed ones.
+ */
+export const migration: Migration = {
+  version: 11,
+  name: 'idempotency_keys',
+  up: `
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      key VARCHAR(512) PRIMARY KEY,
+      fingerprint CHAR(64) NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'completed')),
+      response_status INTEGER,
+      response_headers JSONB,
+      response_body TEXT,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS idempotency_keys;
+  `,
+};
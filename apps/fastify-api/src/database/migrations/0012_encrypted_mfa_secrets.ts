@@ -0,0 +1,21 @@
+import { Migration } from '../migrator';
+
+/**
+ * TOTP secrets are stored as field encryption envelopes, which are longer
+ * than the base32 secret. secret_key_version records the master key that
+ * wraps the value; NULL marks plaintext written before encryption was
+ * enabled, which `db:reencrypt` encrypts. Reverting fails while encrypted
+ * secrets are stored, since they do not fit the old column.
+ */
+export const migration: Migration = {
+  version: 12,
+  name: 'encrypted_mfa_secrets',
+  up: `
+    ALTER TABLE user_mfa ALTER COLUMN secret TYPE TEXT;
+    ALTER TABLE user_mfa ADD COLUMN IF NOT EXISTS secret_key_version INTEGER;
+  `,
+  down: `
+    ALTER TABLE user_mfa DROP COLUMN IF EXISTS secret_key_version;
+    ALTER TABLE user_mfa ALTER COLUMN secret TYPE VARCHAR(64);
+  `,
+};
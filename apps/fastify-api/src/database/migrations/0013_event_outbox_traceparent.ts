@@ -0,0 +1,17 @@
+import { Migration } from '../migrator';
+
+/**
+ * W3C traceparent of the request that stored an outbox event, so the relay's
+ * publish span joins that request's trace and consumers receive it as a
+ * Kafka header. NULL for events stored outside a trace.
+ */
+export const migration: Migration = {
+  version: 13,
+  name: 'event_outbox_traceparent',
+  up: `
+    ALTER TABLE event_outbox ADD COLUMN IF NOT EXISTS traceparent VARCHAR(55);
+  `,
+  down: `
+    ALTER TABLE event_outbox DROP COLUMN IF EXISTS traceparent;
+  `,
+};
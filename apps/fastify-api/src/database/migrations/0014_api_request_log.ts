@@ -0,0 +1,25 @@
+import { Migration } from '../migrator';
+
+/**
+ * Request log written by the API's onResponse hook. `endpoint` holds the
+ * route template, never the raw URL. `sample_rate` is the share of requests
+ * recorded when the row was written, so counts can be scaled back up.
+ * Deleting a user keeps their requests for usage totals.
+ */
+export const migration: Migration = {
+  version: 14,
+  name: 'api_request_log',
+  up: `
+    ALTER TABLE api_requests ADD COLUMN IF NOT EXISTS request_id VARCHAR(128);
+    ALTER TABLE api_requests ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1;
+    ALTER TABLE api_requests DROP CONSTRAINT IF EXISTS api_requests_user_id_fkey;
+    ALTER TABLE api_requests ADD CONSTRAINT api_requests_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+  `,
+  down: `
+    ALTER TABLE api_requests DROP CONSTRAINT IF EXISTS api_requests_user_id_fkey;
+    ALTER TABLE api_requests ADD CONSTRAINT api_requests_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);
+    ALTER TABLE api_requests DROP COLUMN IF EXISTS sample_rate;
+    ALTER TABLE api_requests DROP COLUMN IF EXISTS request_id;
+  `,
+};
@@ -0,0 +1,33 @@
+import { Migration } from '../migrator';
+import { migration as baseline } from './0001_baseline';
+import { migration as sessionRefreshTokens } from './0002_session_refresh_tokens';
+import { migration as tokenRevocation } from './0003_token_revocation';
+import { migration as userRolesPermissions } from './0004_user_roles_permissions';
+import { migration as passwordResetTokens } from './0005_password_reset_tokens';
+import { migration as emailVerification } from './0006_email_verification';
+import { migration as userMfa } from './0007_user_mfa';
+import { migration as eventOutbox } from './0008_event_outbox';
+import { migration as eventDeadLetters } from './0009_event_dead_letters';
+import { migration as eventQueryIndex } from './0010_event_query_index';
+import { migration as idempotencyKeys } from './0011_idempotency_keys';
+import { migration as encryptedMfaSecrets } from './0012_encrypted_mfa_secrets';
+import { migration as eventOutboxTraceparent } from './0013_event_outbox_traceparent';
+import { migration as apiRequestLog } from './0014_api_request_log';
+
+// Ordered list of every schema migration; `migrate create` appends new entries
+export const migrations: Migration[] = [
+  baseline,
+  sessionRefreshTokens,
+  tokenRevocation,
+  userRolesPermissions,
+  passwordResetTokens,
+  emailVerification,
+  userMfa,
+  eventOutbox,
+  eventDeadLetters,
+  eventQueryIndex,
+  idempotencyKeys,
+  encryptedMfaSecrets,
+  eventOutboxTraceparent,
+  apiRequestLog,
+];
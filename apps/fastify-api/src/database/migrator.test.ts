@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  MigrationRunner,
+  MigrationError,
+  Migration,
+  MigrationDatabase,
+  checksumMigration
+} from './migrator';
+import { createMigration } from './migrate';
+
+interface StoredRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+// Fake PostgreSQL session that understands the runner's bookkeeping queries
+const createFakeDatabase = () => {
+  const rows: StoredRow[] = [];
+  const executed: string[] = [];
+  const release = vi.fn();
+
+  const query = vi.fn(async (text: string, values: unknown[] = []) => {
+    const sql = text.trim();
+    executed.push(sql);
+
+    if (sql.startsWith('SELECT version, name, checksum, applied_at')) {
+      return { rows: [...rows].sort((a, b) => a.version - b.version) };
+    }
+    if (sql.startsWith('INSERT INTO schema_migrations')) {
+      rows.push({ version: values[0] as number, name: values[1] as string, checksum: values[2] as string, applied_at: new Date() });
+    }
+    if (sql.startsWith('DELETE FROM schema_migrations')) {
+      rows.splice(rows.findIndex((row) => row.version === values[0]), 1);
+    }
+    if (sql.includes('FAIL')) {
+      throw new Error('syntax error at or near "FAIL"');
+    }
+    return { rows: [] };
+  });
+
+  const db: MigrationDatabase = {
+    connect: vi.fn(async () => ({ query, release })) as unknown as MigrationDatabase['connect'],
+  };
+
+  return { db, rows, executed, release };
+};
+
+const migrationA: Migration = { version: 1, name: 'baseline', up: 'CREATE TABLE a (id INT);', down: 'DROP TABLE a;' };
+const migrationB: Migration = { version: 2, name: 'add_b', up: 'CREATE TABLE b (id INT);', down: 'DROP TABLE b;' };
+const silentLogger = { info: vi.fn(), warn: vi.fn() };
+
+describe('MigrationRunner', () => {
+  let fake: ReturnType<typeof createFakeDatabase>;
+
+  beforeEach(() => {
+    fake = createFakeDatabase();
+  });
+
+  it('should apply pending migrations in version order', async () => {
+    const runner = new MigrationRunner(fake.db, [migrationB, migrationA], { logger: silentLogger });
+
+    const applied = await runner.up();
+
+    expect(applied.map((migration) => migration.version)).toEqual([1, 2]);
+    expect(fake.rows.map((row) => row.version)).toEqual([1, 2]);
+    expect(fake.executed.indexOf('CREATE TABLE a (id INT);')).toBeLessThan(fake.executed.indexOf('CREATE TABLE b (id INT);'));
+  });
+
+  it('should hold the advisory lock and release the connection', async () => {
+    const runner = new MigrationRunner(fake.db, [migrationA], { logger: silentLogger, lockKey: 42 });
+
+    await runner.up();
+
+    expect(fake.executed[0]).toBe('SELECT pg_advisory_lock($1)');
+    expect(fake.executed[fake.executed.length - 1]).toBe('SELECT pg_advisory_unlock($1)');
+    expect(fake.release).toHaveBeenCalledOnce();
+  });
+
+  it('should be a no-op when everything is applied', async () => {
+    const runner = new MigrationRunner(fake.db, [migrationA], { logger: silentLogger });
+    await runner.up();
+
+    expect(await runner.up()).toEqual([]);
+  });
+
+  it('should stop at the target version', async () => {
+    const runner = new MigrationRunner(fake.db, [migrationA, migrationB], { logger: silentLogger });
+
+    await runner.up(1);
+
+    expect(fake.rows.map((row) => row.version)).toEqual([1]);
+  });
+
+  it('should roll back and report failed migrations', async () => {
+    const broken: Migration = { version: 2, name: 'broken', up: 'FAIL;', down: '' };
+    const runner = new MigrationRunner(fake.db, [migrationA, broken], { logger: silentLogger });
+
+    await expect(runner.up()).rejects.toThrow(MigrationError);
+
+    expect(fake.executed).toContain('ROLLBACK');
+    expect(fake.rows.map((row) => row.version)).toEqual([1]);
+    expect(fake.executed[fake.executed.length - 1]).toBe('SELECT pg_advisory_unlock($1)');
+  });
+
+  it('should refuse to run when an applied migration was edited', async () => {
+    await new MigrationRunner(fake.db, [migrationA], { logger: silentLogger }).up();
+    const edited = { ...migrationA, up: 'CREATE TABLE a (id BIGINT);' };
+
+    await expect(new MigrationRunner(fake.db, [edited], { logger: silentLogger }).up())
+      .rejects.toThrow('Checksum mismatch');
+  });
+
+  it('should refuse to apply migrations older than the latest applied version', async () => {
+    await new MigrationRunner(fake.db, [migrationB], { logger: silentLogger }).up();
+
+    await expect(new MigrationRunner(fake.db, [migrationA, migrationB], { logger: silentLogger }).up())
+      .rejects.toThrow('older than applied version 2');
+  });
+
+  it('should reject duplicate versions', () => {
+    expect(() => new MigrationRunner(fake.db, [migrationA, { ...migrationB, version: 1 }])).toThrow('Duplicate migration version 1');
+  });
+
+  it('should revert the newest migrations first', async () => {
+    const runner = new MigrationRunner(fake.db, [migrationA, migrationB], { logger: silentLogger });
+    await runner.up();
+
+    const reverted = await runner.down(2);
+
+    expect(reverted.map((migration) => migration.version)).toEqual([2, 1]);
+    expect(fake.rows).toHaveLength(0);
+    expect(fake.executed.indexOf('DROP TABLE b;')).toBeLessThan(fake.executed.indexOf('DROP TABLE a;'));
+  });
+
+  it('should report applied, pending, mismatched and missing migrations', async () => {
+    await new MigrationRunner(fake.db, [migrationA, { version: 3, name: 'removed', up: 'SELECT 1;', down: '' }], { logger: silentLogger }).up();
+    fake.rows[0].checksum = 'tampered';
+
+    const statuses = await new MigrationRunner(fake.db, [migrationA, migrationB], { logger: silentLogger }).status();
+
+    expect(statuses.map((status) => [status.version, status.state])).toEqual([
+      [1, 'checksum_mismatch'],
+      [2, 'pending'],
+      [3, 'missing'],
+    ]);
+    expect(statuses[1].checksum).toBe(checksumMigration(migrationB));
+  });
+});
+
+describe('createMigration', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-'));
+    await fs.writeFile(path.join(directory, '0001_baseline.ts'), '');
+    await fs.writeFile(path.join(directory, 'index.ts'), [
+      "import { Migration } from '../migrator';",
+      "import { migration as baseline } from './0001_baseline';",
+      '',
+      'export const migrations: Migration[] = [',
+      '  baseline,',
+      '];',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should scaffold the next version and register it', async () => {
+    const filePath = await createMigration('Add user roles', directory);
+
+    expect(path.basename(filePath)).toBe('0002_add_user_roles.ts');
+    expect(await fs.readFile(filePath, 'utf8')).toContain('version: 2');
+
+    const index = await fs.readFile(path.join(directory, 'index.ts'), 'utf8');
+    expect(index).toContain("import { migration as addUserRoles } from './0002_add_user_roles';");
+    expect(index).toContain('  baseline,\n  addUserRoles,\n];');
+  });
+
+  it('should reject empty names', async () => {
+    await expect(createMigration('!!!', directory)).rejects.toThrow('Migration name');
+  });
+});
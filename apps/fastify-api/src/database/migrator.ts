@@ -0,0 +1,270 @@
+import { createHash } from 'crypto';
+import { Queryable } from './pool';
+
+/**
+ * A single versioned schema change. `up` and `down` are plain SQL and each
+ * runs inside its own transaction.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'checksum_mismatch' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  checksum: string;
+  appliedAt: string | null;
+}
+
+// Dedicated connection; advisory locks are held per session
+export interface MigrationConnection extends Queryable {
+  release(): void;
+}
+
+export interface MigrationDatabase {
+  connect(): Promise<MigrationConnection>;
+}
+
+export interface MigrationRunnerOptions {
+  tableName?: string;
+  lockKey?: number;
+  logger?: Pick<Console, 'info' | 'warn'>;
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date | string;
+}
+
+/**
+ * Raised when migrations cannot be applied safely, e.g. an applied
+ * migration was edited after the fact or versions are out of order
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Arbitrary but stable key shared by every API instance
+const DEFAULT_LOCK_KEY = 7_302_514_001;
+
+/**
+ * Computes the checksum recorded for a migration so later edits can be detected
+ * @param migration - Migration definition
+ * @returns Hex encoded SHA-256 of the up and down scripts
+ */
+export function checksumMigration(migration: Migration): string {
+  return createHash('sha256')
+    .update(`${migration.up}\n-- down --\n${migration.down}`)
+    .digest('hex');
+}
+
+/**
+ * Applies and reverts versioned migrations, tracking them in `schema_migrations`.
+ * All operations hold a PostgreSQL advisory lock so concurrent API pods
+ * never migrate the same database at the same time.
+ */
+export class MigrationRunner {
+  private readonly migrations: Migration[];
+  private readonly tableName: string;
+  private readonly lockKey: number;
+  private readonly logger: Pick<Console, 'info' | 'warn'>;
+
+  constructor(
+    private readonly db: MigrationDatabase,
+    migrations: Migration[],
+    options: MigrationRunnerOptions = {}
+  ) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.tableName = options.tableName ?? 'schema_migrations';
+    this.lockKey = options.lockKey ?? DEFAULT_LOCK_KEY;
+    this.logger = options.logger ?? console;
+
+    for (let i = 1; i < this.migrations.length; i++) {
+      if (this.migrations[i].version === this.migrations[i - 1].version) {
+        throw new MigrationError(`Duplicate migration version ${this.migrations[i].version}`);
+      }
+    }
+  }
+
+  /**
+   * Applies every pending migration up to and including `targetVersion`
+   * @param targetVersion - Highest version to apply (defaults to latest)
+   * @returns Migrations that were applied
+   */
+  async up(targetVersion?: number): Promise<Migration[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.loadApplied(connection);
+      this.verifyChecksums(applied);
+
+      const latestApplied = Math.max(0, ...applied.keys());
+      const pending = this.migrations.filter(
+        (migration) => !applied.has(migration.version) &&
+          (targetVersion === undefined || migration.version <= targetVersion)
+      );
+
+      const outOfOrder = pending.find((migration) => migration.version < latestApplied);
+      if (outOfOrder) {
+        throw new MigrationError(
+          `Migration ${outOfOrder.version}_${outOfOrder.name} is older than applied version ${latestApplied}`
+        );
+      }
+
+      for (const migration of pending) {
+        await this.runInTransaction(connection, migration, 'up');
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations
+   * @param steps - Number of migrations to revert
+   * @returns Migrations that were reverted, newest first
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.loadApplied(connection);
+      this.verifyChecksums(applied);
+
+      const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+      const reverted: Migration[] = [];
+
+      for (const version of versions) {
+        const migration = this.migrations.find((candidate) => candidate.version === version);
+        if (!migration) {
+          throw new MigrationError(`Applied migration ${version} has no definition and cannot be reverted`);
+        }
+        await this.runInTransaction(connection, migration, 'down');
+        reverted.push(migration);
+      }
+
+      return reverted;
+    });
+  }
+
+  /**
+   * Reports the state of every known and applied migration
+   * @returns Status entries ordered by version
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async (connection) => {
+      const applied = await this.loadApplied(connection);
+      const statuses: MigrationStatus[] = this.migrations.map((migration) => {
+        const row = applied.get(migration.version);
+        const checksum = checksumMigration(migration);
+        let state: MigrationState = 'pending';
+        if (row) {
+          state = row.checksum === checksum ? 'applied' : 'checksum_mismatch';
+        }
+        return {
+          version: migration.version,
+          name: migration.name,
+          state,
+          checksum,
+          appliedAt: row ? new Date(row.applied_at).toISOString() : null,
+        };
+      });
+
+      for (const row of applied.values()) {
+        if (!this.migrations.some((migration) => migration.version === row.version)) {
+          statuses.push({
+            version: row.version,
+            name: row.name,
+            state: 'missing',
+            checksum: row.checksum,
+            appliedAt: new Date(row.applied_at).toISOString(),
+          });
+        }
+      }
+
+      return statuses.sort((a, b) => a.version - b.version);
+    });
+  }
+
+  private async withLock<T>(operation: (connection: MigrationConnection) => Promise<T>): Promise<T> {
+    const connection = await this.db.connect();
+    try {
+      await connection.query('SELECT pg_advisory_lock($1)', [this.lockKey]);
+      try {
+        await this.ensureTable(connection);
+        return await operation(connection);
+      } finally {
+        await connection.query('SELECT pg_advisory_unlock($1)', [this.lockKey]);
+      }
+    } finally {
+      connection.release();
+    }
+  }
+
+  private async ensureTable(connection: MigrationConnection): Promise<void> {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        execution_time_ms INTEGER NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  private async loadApplied(connection: MigrationConnection): Promise<Map<number, AppliedMigrationRow>> {
+    const result = await connection.query<AppliedMigrationRow>(
+      `SELECT version, name, checksum, applied_at FROM ${this.tableName} ORDER BY version`
+    );
+    return new Map(result.rows.map((row) => [Number(row.version), { ...row, version: Number(row.version) }]));
+  }
+
+  private verifyChecksums(applied: Map<number, AppliedMigrationRow>): void {
+    for (const migration of this.migrations) {
+      const row = applied.get(migration.version);
+      if (row && row.checksum.trim() !== checksumMigration(migration)) {
+        throw new MigrationError(
+          `Checksum mismatch for applied migration ${migration.version}_${migration.name}; ` +
+          'create a new migration instead of editing an applied one'
+        );
+      }
+    }
+  }
+
+  private async runInTransaction(
+    connection: MigrationConnection,
+    migration: Migration,
+    direction: 'up' | 'down'
+  ): Promise<void> {
+    const label = `${migration.version}_${migration.name}`;
+    const startedAt = Date.now();
+
+    await connection.query('BEGIN');
+    try {
+      await connection.query(migration[direction]);
+      if (direction === 'up') {
+        await connection.query(
+          `INSERT INTO ${this.tableName} (version, name, checksum, execution_time_ms) VALUES ($1, $2, $3, $4)`,
+          [migration.version, migration.name, checksumMigration(migration), Date.now() - startedAt]
+        );
+      } else {
+        await connection.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [migration.version]);
+      }
+      await connection.query('COMMIT');
+    } catch (error) {
+      await connection.query('ROLLBACK');
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new MigrationError(`Migration ${label} (${direction}) failed: ${message}`);
+    }
+
+    this.logger.info(`${direction === 'up' ? '⬆️  Applied' : '⬇️  Reverted'} migration ${label} in ${Date.now() - startedAt}ms`);
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withTransaction } from './pool';
+
+const createClient = () => ({
+  query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+  release: vi.fn(),
+});
+
+describe('withTransaction', () => {
+  it('should commit and release after the work succeeds', async () => {
+    const client = createClient();
+
+    const result = await withTransaction({ connect: async () => client }, async (tx) => {
+      await tx.query('INSERT INTO events DEFAULT VALUES');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'INSERT INTO events DEFAULT VALUES', 'COMMIT']);
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll back, release and rethrow when the work fails', async () => {
+    const client = createClient();
+
+    await expect(withTransaction({ connect: async () => client }, async () => {
+      throw new Error('constraint violated');
+    })).rejects.toThrow('constraint violated');
+
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'ROLLBACK']);
+    expect(client.release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,71 @@
+import pg from 'pg';
+import type { Pool, QueryResult, QueryResultRow } from 'pg';
+import type { DatabaseCredentials } from '@libs/secrets';
+
+/**
+ * Minimal query surface shared by pg.Pool and pg.PoolClient.
+ * Repositories depend on this so they can run inside or outside a transaction.
+ */
+export interface Queryable {
+  query<R extends QueryResultRow = QueryResultRow>(text: string, values?: unknown[]): Promise<QueryResult<R>>;
+}
+
+// Source of dedicated connections, such as pg.Pool
+export interface ConnectionSource {
+  connect(): Promise<Queryable & { release(): void }>;
+}
+
+/**
+ * Runs work on one connection inside BEGIN/COMMIT, rolling back when it throws.
+ * Repositories constructed with the transaction share its atomicity.
+ * @param db - Pool to take the connection from
+ * @param work - Queries to run in the transaction
+ * @returns Result of work
+ */
+export async function withTransaction<T>(db: ConnectionSource, work: (tx: Queryable) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    try {
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Creates a PostgreSQL connection pool from the credentials
+ * resolved by EnterpriseSecretsManager
+ * @param credentials - Database credentials
+ * @param resolvePassword - Looked up for every new connection, so a rotated
+ * password is used without a restart; defaults to `credentials.password`
+ * @returns Configured connection pool
+ */
+export function createDatabasePool(
+  credentials: DatabaseCredentials,
+  resolvePassword?: () => Promise<string>
+): Pool {
+  const pool = new pg.Pool({
+    host: credentials.host,
+    port: credentials.port,
+    database: credentials.database,
+    user: credentials.username,
+    password: resolvePassword ?? credentials.password,
+    max: parseInt(process.env['DB_POOL_MAX'] || '10'),
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 5000,
+  });
+
+  // Idle client errors would otherwise crash the process
+  pool.on('error', (error) => {
+    console.error('❌ Unexpected PostgreSQL pool error:', error);
+  });
+
+  return pool;
+}
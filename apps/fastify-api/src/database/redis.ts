@@ -0,0 +1,20 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Creates a Redis client for shared state such as token revocation
+ * @param url - Redis connection URL, e.g. redis://:password@localhost:6379
+ * @returns Connected ioredis client
+ */
+export function createRedisClient(url: string): Redis {
+  const client = new Redis(url, {
+    maxRetriesPerRequest: 3,
+    enableOfflineQueue: true,
+  });
+
+  // Connection errors are retried by ioredis; log instead of crashing
+  client.on('error', (error) => {
+    console.error('❌ Redis connection error:', error.message);
+  });
+
+  return client;
+}
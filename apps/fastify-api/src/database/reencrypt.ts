@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+/**
+ * Re-encrypts encrypted columns with the current field encryption key
+ *
+ * Usage:
+ *   pnpm run db:reencrypt [batchSize]
+ *
+ * Run after rotating `field-encryption-keys`, and once after the key set is
+ * first stored to encrypt existing plaintext. Safe to run while the API is
+ * serving; rows changed in the meantime are skipped, as they were already
+ * written with the current key.
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import dotenv from 'dotenv';
+import { EnterpriseSecretsManager, FieldEncryptor } from '@libs/secrets';
+import { createDatabasePool } from './pool';
+import { mfaSecretColumns } from '../repositories/mfa-repository';
+
+/**
+ * Every table with encrypted columns
+ * @param encryptor - Loaded field encryptor
+ * @returns Column helpers
+ */
+export const encryptedTables = (encryptor: FieldEncryptor) => [
+  mfaSecretColumns(encryptor),
+];
+
+async function run(batchSize: number): Promise<void> {
+  const secretsManager = new EnterpriseSecretsManager();
+  const encryptor = new FieldEncryptor(secretsManager);
+  await encryptor.load();
+  const pool = createDatabasePool(await secretsManager.getDatabaseCredentials());
+
+  try {
+    let failed = 0;
+    for (const table of encryptedTables(encryptor)) {
+      const result = await table.reencrypt(pool, {
+        batchSize,
+        onBatch: (progress) => console.log(`🔄 ${progress.table}: ${progress.reencrypted}/${progress.scanned} rows`),
+      });
+      console.log(`✅ ${result.table}: ${result.reencrypted} re-encrypted, ${result.skipped} changed meanwhile, ${result.failed.length} failed`);
+      for (const id of result.failed) {
+        console.error(`❌ ${result.table} row ${id} cannot be decrypted`);
+      }
+      failed += result.failed.length;
+    }
+
+    if (failed > 0) {
+      throw new Error(`${failed} row(s) could not be re-encrypted`);
+    }
+    console.log(`🔐 Every row uses key version ${encryptor.currentKeyVersion}; older keys can be retired`);
+  } finally {
+    secretsManager.close();
+    await pool.end();
+  }
+}
+
+// Only execute when invoked directly, not when imported by tests
+if (process.argv[1] && fileURLToPath(import.meta.url) === path.resolve(process.argv[1])) {
+  dotenv.config();
+  run(process.argv[2] ? parseInt(process.argv[2], 10) : 500).catch((error) => {
+    console.error('❌ Re-encryption failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
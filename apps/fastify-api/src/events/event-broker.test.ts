@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InMemoryEventBroker, KafkaEventBroker, createEventBroker } from './event-broker';
+
+const message = { topic: 'app-events', key: 'user-1', value: '{"id":"event-1"}', headers: { 'event-id': 'event-1' } };
+
+describe('Event brokers', () => {
+  describe('KafkaEventBroker', () => {
+    const createProducer = () => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+      send: vi.fn().mockResolvedValue([{ topicName: 'app-events', partition: 2, errorCode: 0, baseOffset: '41' }]),
+    });
+
+    const createConsumer = () => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      run: vi.fn().mockResolvedValue(undefined),
+    });
+
+    const createAdmin = () => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+      describeCluster: vi.fn().mockResolvedValue({ brokers: [{ nodeId: 1, host: 'kafka', port: 29092 }], controller: 1, clusterId: 'c1' }),
+    });
+
+    const createBroker = (producer = createProducer(), consumer = createConsumer(), admin = createAdmin()) =>
+      new KafkaEventBroker({ brokers: ['kafka:29092'], clientId: 'test' }, {
+        producer: () => producer,
+        consumer: () => consumer,
+        admin: () => admin,
+      });
+
+    it('should connect once and return the acknowledged position', async () => {
+      const producer = createProducer();
+      const broker = createBroker(producer);
+
+      expect(await broker.publish(message)).toEqual({ partition: 2, offset: '41' });
+      await broker.publish(message);
+
+      expect(producer.connect).toHaveBeenCalledTimes(1);
+      expect(producer.send).toHaveBeenCalledWith({
+        topic: 'app-events',
+        acks: -1,
+        messages: [{ key: 'user-1', value: '{"id":"event-1"}', headers: { 'event-id': 'event-1' } }],
+      });
+    });
+
+    it('should reconnect on the next publish after a failed connect', async () => {
+      const producer = createProducer();
+      producer.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const broker = createBroker(producer);
+
+      await expect(broker.publish(message)).rejects.toThrow('ECONNREFUSED');
+      await expect(broker.publish(message)).resolves.toEqual({ partition: 2, offset: '41' });
+      expect(producer.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should check health by describing the cluster with one admin connection', async () => {
+      const admin = createAdmin();
+      const broker = createBroker(createProducer(), createConsumer(), admin);
+
+      await broker.healthCheck();
+      await broker.healthCheck();
+      expect(admin.connect).toHaveBeenCalledTimes(1);
+      expect(admin.describeCluster).toHaveBeenCalledTimes(2);
+
+      await broker.disconnect();
+      expect(admin.disconnect).toHaveBeenCalled();
+    });
+
+    it('should fail the health check and reconnect next time when the cluster is unreachable', async () => {
+      const admin = createAdmin();
+      admin.connect.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const broker = createBroker(createProducer(), createConsumer(), admin);
+
+      await expect(broker.healthCheck()).rejects.toThrow('ECONNREFUSED');
+      await expect(broker.healthCheck()).resolves.toBeUndefined();
+      expect(admin.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hand consumed messages to the handler with decoded headers', async () => {
+      const consumer = createConsumer();
+      const handler = vi.fn().mockResolvedValue(undefined);
+      const subscription = await createBroker(createProducer(), consumer).subscribe({ groupId: 'audit', topics: ['app-events'] }, handler);
+
+      const { eachMessage } = consumer.run.mock.calls[0][0];
+      await eachMessage({
+        topic: 'app-events',
+        partition: 1,
+        message: { offset: '7', key: Buffer.from('user-1'), value: Buffer.from('{}'), headers: { 'event-id': Buffer.from('event-1') } },
+      });
+
+      expect(consumer.subscribe).toHaveBeenCalledWith({ topics: ['app-events'], fromBeginning: true });
+      expect(handler).toHaveBeenCalledWith({
+        topic: 'app-events',
+        partition: 1,
+        offset: '7',
+        key: 'user-1',
+        value: '{}',
+        headers: { 'event-id': 'event-1' },
+      });
+
+      await subscription.stop();
+      expect(consumer.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('InMemoryEventBroker', () => {
+    it('should count offsets per partition and keep keys on one partition', async () => {
+      const broker = new InMemoryEventBroker(4);
+
+      const first = await broker.publish(message);
+      const second = await broker.publish(message);
+
+      expect(second).toEqual({ partition: first.partition, offset: '1' });
+      expect(broker.messages('app-events')).toHaveLength(2);
+      expect(broker.messages('other')).toEqual([]);
+    });
+
+    it('should deliver to each consumer group and commit after the handler resolves', async () => {
+      const broker = new InMemoryEventBroker();
+      const audit = vi.fn().mockResolvedValue(undefined);
+      const mailer = vi.fn().mockResolvedValue(undefined);
+      await broker.publish(message);
+      await broker.subscribe({ groupId: 'audit', topics: ['app-events'] }, audit);
+      await broker.subscribe({ groupId: 'mailer', topics: ['app-events'] }, mailer);
+
+      await broker.publish(message);
+      await broker.flush();
+
+      expect(audit).toHaveBeenCalledTimes(2);
+      expect(mailer).toHaveBeenCalledTimes(2);
+      expect(broker.committedOffsets('audit')).toEqual({ 'app-events:0': '2' });
+    });
+
+    it('should redeliver a message whose handler failed', async () => {
+      const broker = new InMemoryEventBroker();
+      const handler = vi.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValue(undefined);
+      await broker.subscribe({ groupId: 'audit', topics: ['app-events'] }, handler);
+
+      await broker.publish({ ...message, value: 'first' });
+      await broker.flush();
+      expect(broker.committedOffsets('audit')).toEqual({});
+
+      await broker.publish({ ...message, value: 'second' });
+      await broker.flush();
+      expect(handler.mock.calls.map(([consumed]) => consumed.value)).toEqual(['first', 'first', 'second']);
+    });
+
+    it('should start a new group at the end of the topic when asked', async () => {
+      const broker = new InMemoryEventBroker();
+      await broker.publish({ ...message, value: 'history' });
+      const handler = vi.fn().mockResolvedValue(undefined);
+      await broker.subscribe({ groupId: 'live', topics: ['app-events'], fromBeginning: false }, handler);
+
+      await broker.publish({ ...message, value: 'live' });
+      await broker.flush();
+
+      expect(handler.mock.calls.map(([consumed]) => consumed.value)).toEqual(['live']);
+    });
+
+    it('should resume a group from its committed offset', async () => {
+      const broker = new InMemoryEventBroker();
+      const first = await broker.subscribe({ groupId: 'audit', topics: ['app-events'] }, vi.fn().mockResolvedValue(undefined));
+      await broker.publish(message);
+      await broker.flush();
+      await first.stop();
+
+      await broker.publish({ ...message, value: 'while stopped' });
+      const handler = vi.fn().mockResolvedValue(undefined);
+      await broker.subscribe({ groupId: 'audit', topics: ['app-events'] }, handler);
+      await broker.flush();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toMatchObject({ value: 'while stopped', offset: '1' });
+    });
+  });
+
+  describe('createEventBroker', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should use Kafka when brokers are configured', () => {
+      vi.stubEnv('KAFKA_BROKERS', 'kafka:29092, kafka-2:29092');
+
+      expect(createEventBroker()).toBeInstanceOf(KafkaEventBroker);
+    });
+
+    it('should fall back to memory without brokers', () => {
+      vi.stubEnv('KAFKA_BROKERS', '');
+
+      expect(createEventBroker()).toBeInstanceOf(InMemoryEventBroker);
+    });
+
+    it('should require brokers when Kafka is requested', () => {
+      vi.stubEnv('KAFKA_BROKERS', '');
+      vi.stubEnv('EVENT_BROKER', 'kafka');
+
+      expect(() => createEventBroker()).toThrow('KAFKA_BROKERS must be set when EVENT_BROKER=kafka');
+    });
+  });
+});
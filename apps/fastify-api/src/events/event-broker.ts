@@ -0,0 +1,368 @@
+import { Admin, Kafka, Consumer, IHeaders, Producer } from 'kafkajs';
+import { PublishedPosition } from '../repositories/event-repository';
+
+export interface BrokerMessage {
+  topic: string;
+  // Messages with the same key land on the same partition, in order
+  key: string | null;
+  value: string;
+  headers: Record<string, string>;
+}
+
+// Message with its position, as stored by the broker and handed to consumers
+export interface StoredBrokerMessage extends BrokerMessage, PublishedPosition {}
+
+/**
+ * Processes one consumed message. Resolving commits the message's offset for
+ * the consumer group; rejecting leaves it uncommitted so it is redelivered.
+ */
+export type MessageHandler = (message: StoredBrokerMessage) => Promise<void>;
+
+export interface SubscribeOptions {
+  // Members of a group share the work and the committed offsets
+  groupId: string;
+  topics: string[];
+  // Where a group without committed offsets starts; defaults to true
+  fromBeginning?: boolean;
+}
+
+export interface Subscription {
+  // Stops consuming after the message in progress
+  stop(): Promise<void>;
+}
+
+/**
+ * Message broker the outbox relay publishes events to and consumers read
+ * them from. New consumer groups start at the beginning of each topic
+ * unless they subscribe with `fromBeginning: false`.
+ */
+export interface EventBroker {
+  publish(message: BrokerMessage): Promise<PublishedPosition>;
+  subscribe(options: SubscribeOptions, handler: MessageHandler): Promise<Subscription>;
+  disconnect(): Promise<void>;
+  // Confirms the broker answers; brokers that cannot be down leave it out
+  healthCheck?(): Promise<void>;
+}
+
+export interface KafkaBrokerOptions {
+  brokers: string[];
+  clientId: string;
+}
+
+type KafkaProducer = Pick<Producer, 'connect' | 'disconnect' | 'send'>;
+type KafkaConsumer = Pick<Consumer, 'connect' | 'disconnect' | 'subscribe' | 'run'>;
+type KafkaAdmin = Pick<Admin, 'connect' | 'disconnect' | 'describeCluster'>;
+
+// Factory surface of the kafkajs client, replaceable in tests
+export interface KafkaClient {
+  producer(config: { idempotent: boolean; maxInFlightRequests: number }): KafkaProducer;
+  consumer(config: { groupId: string }): KafkaConsumer;
+  admin(): KafkaAdmin;
+}
+
+const decodeHeaders = (headers: IHeaders | undefined): Record<string, string> => {
+  const decoded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) {
+      decoded[name] = first.toString();
+    }
+  }
+  return decoded;
+};
+
+/**
+ * EventBroker that publishes to Kafka. The producer is idempotent and waits
+ * for all in-sync replicas, so a send that resolves is durable and a retried
+ * send is not duplicated within the producer session.
+ */
+export class KafkaEventBroker implements EventBroker {
+  private readonly kafka: KafkaClient;
+  private readonly producer: KafkaProducer;
+  private readonly consumers = new Set<KafkaConsumer>();
+  private connecting: Promise<void> | null = null;
+  // Admin client of health checks, connected on the first one
+  private admin: { client: KafkaAdmin; connecting: Promise<void> } | null = null;
+
+  constructor(options: KafkaBrokerOptions, kafka?: KafkaClient) {
+    this.kafka = kafka ?? new Kafka({ clientId: options.clientId, brokers: options.brokers });
+    this.producer = this.kafka.producer({ idempotent: true, maxInFlightRequests: 1 });
+  }
+
+  async publish(message: BrokerMessage): Promise<PublishedPosition> {
+    await this.connect();
+
+    const [metadata] = await this.producer.send({
+      topic: message.topic,
+      acks: -1,
+      messages: [{ key: message.key, value: message.value, headers: message.headers }],
+    });
+    const offset = metadata?.baseOffset ?? metadata?.offset;
+    if (!metadata || offset === undefined) {
+      throw new Error(`Kafka did not return an offset for topic ${message.topic}`);
+    }
+    return { partition: metadata.partition, offset };
+  }
+
+  async subscribe(options: SubscribeOptions, handler: MessageHandler): Promise<Subscription> {
+    const consumer = this.kafka.consumer({ groupId: options.groupId });
+    await consumer.connect();
+    await consumer.subscribe({ topics: options.topics, fromBeginning: options.fromBeginning ?? true });
+
+    // kafkajs commits each offset once eachMessage resolves
+    await consumer.run({
+      eachMessage: async ({ topic, partition, message }) => handler({
+        topic,
+        partition,
+        offset: message.offset,
+        key: message.key?.toString() ?? null,
+        value: message.value?.toString() ?? '',
+        headers: decodeHeaders(message.headers),
+      }),
+    });
+    this.consumers.add(consumer);
+
+    return {
+      stop: async () => {
+        if (this.consumers.delete(consumer)) {
+          await consumer.disconnect();
+        }
+      },
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all([...this.consumers].map((consumer) => consumer.disconnect()));
+    this.consumers.clear();
+    if (this.admin) {
+      const { client } = this.admin;
+      this.admin = null;
+      await client.disconnect();
+    }
+    if (this.connecting) {
+      this.connecting = null;
+      await this.producer.disconnect();
+    }
+  }
+
+  /**
+   * Asks the cluster for its brokers, which fails when none is reachable.
+   * The producer's connection cannot tell: it reconnects only on the next send.
+   */
+  async healthCheck(): Promise<void> {
+    if (!this.admin) {
+      const client = this.kafka.admin();
+      this.admin = { client, connecting: client.connect() };
+    }
+    const admin = this.admin;
+    try {
+      await admin.connecting;
+    } catch (error) {
+      // Forget a failed attempt so the next check reconnects
+      if (this.admin === admin) {
+        this.admin = null;
+      }
+      throw error;
+    }
+    await admin.client.describeCluster();
+  }
+
+  private connect(): Promise<void> {
+    if (!this.connecting) {
+      // Forget a failed attempt so the next publish reconnects
+      this.connecting = this.producer.connect().catch((error) => {
+        this.connecting = null;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+}
+
+interface InMemorySubscriber {
+  topics: string[];
+  // The group's committed offsets
+  offsets: Map<string, number>;
+  handler: MessageHandler;
+  draining: Promise<void> | null;
+  // A publish arrived while draining
+  pending: boolean;
+  stopped: boolean;
+}
+
+/**
+ * EventBroker kept in process memory, standing in for Kafka in tests and
+ * local development. Offsets count up per partition like Kafka's, and each
+ * consumer group commits its own offsets, which outlive its subscriber.
+ */
+export class InMemoryEventBroker implements EventBroker {
+  private readonly topics = new Map<string, StoredBrokerMessage[]>();
+  private readonly subscribers = new Map<string, InMemorySubscriber>();
+  // group -> `topic:partition` -> next offset to deliver
+  private readonly offsets = new Map<string, Map<string, number>>();
+
+  constructor(private readonly partitions = 1) {}
+
+  async publish(message: BrokerMessage): Promise<PublishedPosition> {
+    const log = this.topics.get(message.topic) ?? [];
+    const partition = message.key === null ? 0 : partitionFor(message.key, this.partitions);
+    const offset = String(log.filter((stored) => stored.partition === partition).length);
+
+    log.push({ ...message, partition, offset });
+    this.topics.set(message.topic, log);
+
+    for (const subscriber of this.subscribers.values()) {
+      if (subscriber.topics.includes(message.topic)) {
+        this.deliver(subscriber);
+      }
+    }
+    return { partition, offset };
+  }
+
+  async subscribe(options: SubscribeOptions, handler: MessageHandler): Promise<Subscription> {
+    // Kafka would split partitions between members; one member is enough here
+    if (this.subscribers.has(options.groupId)) {
+      throw new Error(`Consumer group ${options.groupId} already has a subscriber`);
+    }
+
+    let offsets = this.offsets.get(options.groupId);
+    if (!offsets) {
+      offsets = new Map<string, number>();
+      if (options.fromBeginning === false) {
+        // Skip what is already stored, like Kafka's `latest` reset
+        for (const topic of options.topics) {
+          for (const message of this.topics.get(topic) ?? []) {
+            offsets.set(`${topic}:${message.partition}`, Number(message.offset) + 1);
+          }
+        }
+      }
+      this.offsets.set(options.groupId, offsets);
+    }
+
+    const subscriber: InMemorySubscriber = { topics: options.topics, offsets, handler, draining: null, pending: false, stopped: false };
+    this.subscribers.set(options.groupId, subscriber);
+    this.deliver(subscriber);
+
+    return {
+      stop: async () => {
+        subscriber.stopped = true;
+        this.subscribers.delete(options.groupId);
+        await subscriber.draining;
+      },
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    const stopping = [...this.subscribers.values()].map((subscriber) => {
+      subscriber.stopped = true;
+      return subscriber.draining;
+    });
+    this.subscribers.clear();
+    await Promise.all(stopping);
+  }
+
+  /**
+   * Messages published to a topic, in publish order
+   * @param topic - Topic name
+   * @returns Copies of the stored messages
+   */
+  messages(topic: string): StoredBrokerMessage[] {
+    return (this.topics.get(topic) ?? []).map((message) => ({ ...message }));
+  }
+
+  /**
+   * Next offset each partition will deliver to a consumer group
+   * @param groupId - Consumer group
+   * @returns Offsets keyed by `topic:partition`
+   */
+  committedOffsets(groupId: string): Record<string, string> {
+    return Object.fromEntries(
+      [...(this.offsets.get(groupId) ?? [])].map(([position, offset]) => [position, String(offset)])
+    );
+  }
+
+  /**
+   * Waits until every subscriber has handled all messages it can
+   */
+  async flush(): Promise<void> {
+    let draining = [...this.subscribers.values()].map((subscriber) => subscriber.draining).filter(Boolean);
+    while (draining.length > 0) {
+      await Promise.all(draining);
+      draining = [...this.subscribers.values()].map((subscriber) => subscriber.draining).filter(Boolean);
+    }
+  }
+
+  private deliver(subscriber: InMemorySubscriber): void {
+    if (subscriber.draining) {
+      subscriber.pending = true;
+      return;
+    }
+    subscriber.pending = false;
+    subscriber.draining = this.drain(subscriber).finally(() => {
+      subscriber.draining = null;
+      if (subscriber.pending && !subscriber.stopped) {
+        this.deliver(subscriber);
+      }
+    });
+  }
+
+  private async drain(subscriber: InMemorySubscriber): Promise<void> {
+    const { offsets } = subscriber;
+
+    // Let the publisher or subscriber finish before handlers run
+    await Promise.resolve();
+
+    for (const topic of subscriber.topics) {
+      for (const message of this.topics.get(topic) ?? []) {
+        if (subscriber.stopped) {
+          return;
+        }
+        const position = `${topic}:${message.partition}`;
+        if (Number(message.offset) < (offsets.get(position) ?? 0)) {
+          continue;
+        }
+        try {
+          await subscriber.handler({ ...message });
+        } catch {
+          // Left uncommitted; redelivered with the next publish
+          return;
+        }
+        offsets.set(position, Number(message.offset) + 1);
+      }
+    }
+  }
+}
+
+// Stable string hash so a key always maps to the same partition
+const partitionFor = (key: string, partitions: number): number => {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % partitions;
+};
+
+/**
+ * Selects an event broker from EVENT_BROKER (kafka or memory). Defaults to
+ * Kafka when KAFKA_BROKERS is set.
+ * @returns Configured broker
+ */
+export function createEventBroker(): EventBroker {
+  const brokers = (process.env['KAFKA_BROKERS'] || '')
+    .split(',')
+    .map((broker) => broker.trim())
+    .filter(Boolean);
+  const backend = process.env['EVENT_BROKER'] || (brokers.length > 0 ? 'kafka' : 'memory');
+
+  if (backend === 'kafka') {
+    if (brokers.length === 0) {
+      throw new Error('KAFKA_BROKERS must be set when EVENT_BROKER=kafka');
+    }
+    return new KafkaEventBroker({ brokers, clientId: process.env['KAFKA_CLIENT_ID'] || 'fastify-api' });
+  }
+
+  if (process.env['NODE_ENV'] === 'production') {
+    console.warn('⚠️  KAFKA_BROKERS is not configured; events are only kept in process memory');
+  }
+  return new InMemoryEventBroker();
+}
@@ -0,0 +1,81 @@
+import { EventTypeDefinition } from './event-schema-registry';
+
+/**
+ * TypeScript shape of each catalog entry's `data`, keyed by versioned type.
+ * Keep in step with the schemas below so consumer handlers are typed.
+ */
+export interface EventPayloads {
+  'user.registered.v1': {
+    email: string;
+  };
+  'equipment.checked_out.v1': {
+    equipmentId: string;
+    branchId?: string;
+    customerId?: string;
+    dueAt: string;
+    notes?: string;
+  };
+  'equipment.returned.v1': {
+    equipmentId: string;
+    branchId?: string;
+    returnedAt: string;
+    condition?: 'good' | 'damaged' | 'needs_service';
+    notes?: string;
+  };
+}
+
+/**
+ * Event types accepted by the API. To change a payload, append a new
+ * version below the existing ones instead of editing a published schema;
+ * older versions stay valid for producers that have not upgraded.
+ */
+export const EVENT_CATALOG: EventTypeDefinition[] = [
+  {
+    name: 'user.registered',
+    version: 1,
+    description: 'A user account was created through POST /api/auth/register',
+    internal: true,
+    schema: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email' },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'equipment.checked_out',
+    version: 1,
+    description: 'A piece of equipment was handed over to a customer',
+    schema: {
+      type: 'object',
+      required: ['equipmentId', 'dueAt'],
+      properties: {
+        equipmentId: { type: 'string', minLength: 1 },
+        branchId: { type: 'string', minLength: 1 },
+        customerId: { type: 'string', minLength: 1 },
+        dueAt: { type: 'string', format: 'date-time' },
+        notes: { type: 'string', maxLength: 1000 },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'equipment.returned',
+    version: 1,
+    description: 'Checked out equipment came back to a branch',
+    schema: {
+      type: 'object',
+      required: ['equipmentId', 'returnedAt'],
+      properties: {
+        equipmentId: { type: 'string', minLength: 1 },
+        branchId: { type: 'string', minLength: 1 },
+        returnedAt: { type: 'string', format: 'date-time' },
+        condition: { type: 'string', enum: ['good', 'damaged', 'needs_service'] },
+        notes: { type: 'string', maxLength: 1000 },
+      },
+      additionalProperties: false,
+    },
+  },
+];
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventConsumer } from './event-consumer';
+import { InMemoryEventBroker } from './event-broker';
+import { EventSchemaRegistry } from './event-schema-registry';
+import { EVENT_CATALOG } from './event-catalog';
+import { toBrokerMessage } from './outbox-relay';
+import { InMemoryDeadLetterRepository } from '../repositories/dead-letter-repository';
+import { EventRecord } from '../types';
+
+const returned = (overrides: Partial<EventRecord> = {}): EventRecord => ({
+  id: 'event-1',
+  type: 'equipment.returned.v1',
+  userId: 'user-1',
+  data: { equipmentId: 'eq-1', returnedAt: '2024-01-01T10:00:00Z', condition: 'damaged' },
+  createdAt: '2024-01-01T10:00:01.000Z',
+  publishedAt: null,
+  kafkaPartition: null,
+  kafkaOffset: null,
+  ...overrides,
+});
+
+describe('EventConsumer', () => {
+  let broker: InMemoryEventBroker;
+  let deadLetters: InMemoryDeadLetterRepository;
+  let consumer: EventConsumer;
+  const logger = { warn: vi.fn(), error: vi.fn() };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    broker = new InMemoryEventBroker();
+    deadLetters = new InMemoryDeadLetterRepository();
+    consumer = new EventConsumer(broker, deadLetters, {
+      groupId: 'maintenance',
+      topics: ['app-events'],
+      maxAttempts: 3,
+      baseRetryDelayMs: 100,
+      registry: new EventSchemaRegistry(EVENT_CATALOG),
+      logger,
+    });
+  });
+
+  afterEach(async () => {
+    await consumer.stop();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should dispatch typed events to their handler and skip other types', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    consumer.on('equipment.returned.v1', handler);
+    await consumer.start();
+
+    await broker.publish(toBrokerMessage(returned(), 'app-events'));
+    await broker.publish(toBrokerMessage(returned({ id: 'event-2', type: 'user.registered.v1', data: { email: 'a@b.co' } }), 'app-events'));
+    await broker.flush();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      id: 'event-1',
+      userId: 'user-1',
+      data: { condition: 'damaged' },
+      partition: 0,
+      offset: '0',
+      attempt: 1,
+    });
+    expect(consumer.status()).toMatchObject({ processed: 1, skipped: 1, positions: { 'app-events:0': '1' } });
+    expect(broker.committedOffsets('maintenance')).toEqual({ 'app-events:0': '2' });
+  });
+
+  it('should retry with exponential backoff before succeeding', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('database down'))
+      .mockRejectedValueOnce(new Error('database down'))
+      .mockResolvedValue(undefined);
+    consumer.on('equipment.returned.v1', handler);
+    await consumer.start();
+
+    await broker.publish(toBrokerMessage(returned(), 'app-events'));
+    await vi.advanceTimersByTimeAsync(99);
+    expect(handler).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await broker.flush();
+
+    expect(handler.mock.calls.map(([event]) => event.attempt)).toEqual([1, 2, 3]);
+    expect(consumer.status()).toMatchObject({ processed: 1, retried: 2, deadLettered: 0 });
+  });
+
+  it('should dead-letter a message after the last attempt and move on', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('service desk unavailable'));
+    consumer.on('equipment.returned.v1', handler);
+    await consumer.start();
+
+    await broker.publish(toBrokerMessage(returned(), 'app-events'));
+    await vi.advanceTimersByTimeAsync(300);
+    await broker.flush();
+
+    const { items } = await deadLetters.list({ limit: 10, offset: 0 });
+    expect(items).toEqual([expect.objectContaining({
+      consumerGroup: 'maintenance',
+      eventId: 'event-1',
+      eventType: 'equipment.returned.v1',
+      error: 'service desk unavailable',
+      attempts: 3,
+      status: 'pending',
+    })]);
+    expect(broker.committedOffsets('maintenance')).toEqual({ 'app-events:0': '1' });
+  });
+
+  it('should dead-letter undecodable and invalid payloads without retrying', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    consumer.on('equipment.returned.v1', handler);
+    await consumer.start();
+
+    await broker.publish({ topic: 'app-events', key: null, value: 'not json', headers: {} });
+    await broker.publish(toBrokerMessage(returned({ data: { equipmentId: 'eq-1' } }), 'app-events'));
+    await broker.flush();
+
+    const { items } = await deadLetters.list({ limit: 10, offset: 0 });
+    expect(items.map(({ error, attempts }) => ({ error, attempts }))).toEqual([
+      { error: "Invalid payload for event type equipment.returned.v1 (/ must have required property 'returnedAt')", attempts: 1 },
+      { error: 'Message value is not valid JSON', attempts: 1 },
+    ]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should leave a message uncommitted when stopped during a retry', async () => {
+    consumer.on('equipment.returned.v1', vi.fn().mockRejectedValue(new Error('database down')));
+    await consumer.start();
+    await broker.publish(toBrokerMessage(returned(), 'app-events'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    await consumer.stop();
+
+    expect(broker.committedOffsets('maintenance')).toEqual({});
+    expect((await deadLetters.list({ limit: 10, offset: 0 })).total).toBe(0);
+  });
+
+  it('should replay dead letters and record failed replays', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('still down'));
+    consumer.on('equipment.returned.v1', handler);
+    await consumer.start();
+    await broker.publish(toBrokerMessage(returned(), 'app-events'));
+    await vi.advanceTimersByTimeAsync(300);
+    await broker.flush();
+    const [deadLetter] = (await deadLetters.list({ limit: 1, offset: 0 })).items;
+
+    const failed = await consumer.replay(deadLetter);
+    expect(failed).toMatchObject({ error: 'still down', deadLetter: { status: 'pending', attempts: 4 } });
+
+    handler.mockResolvedValue(undefined);
+    const replayed = await consumer.replay(deadLetter);
+    expect(replayed).toMatchObject({ error: null, deadLetter: { status: 'replayed' } });
+    expect(handler.mock.calls.at(-1)?.[0]).toMatchObject({ id: 'event-1', attempt: 4 });
+  });
+
+  it('should refuse a second handler for a type', () => {
+    consumer.on('equipment.returned.v1', vi.fn());
+
+    expect(() => consumer.on('equipment.returned.v1', vi.fn()))
+      .toThrow('A handler for equipment.returned.v1 is already registered in consumer group maintenance');
+  });
+});
@@ -0,0 +1,314 @@
+import { DeadLetter } from '../types';
+import { DeadLetterRepository } from '../repositories/dead-letter-repository';
+import { EventBroker, StoredBrokerMessage, Subscription } from './event-broker';
+import { EventPayloads } from './event-catalog';
+import { EventSchemaError, EventSchemaRegistry } from './event-schema-registry';
+
+// Event handed to a handler, decoded from the relay's message value
+export interface ConsumedEvent<T = unknown> {
+  id: string;
+  type: string;
+  userId: string | null;
+  data: T;
+  createdAt: string;
+  topic: string;
+  partition: number;
+  offset: string;
+  // 1 on first delivery; counts retries and dead-letter replays
+  attempt: number;
+}
+
+/**
+ * Handles one event. Handlers must be idempotent: delivery is at least
+ * once, and a message may be retried or replayed after a partial run.
+ */
+export type EventHandler<T> = (event: ConsumedEvent<T>) => Promise<void>;
+
+export interface EventConsumerOptions {
+  groupId: string;
+  topics: string[];
+  // Handler runs per message before it is dead-lettered
+  maxAttempts?: number;
+  // First retry delay; doubles per attempt up to maxRetryDelayMs
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  // Validates payloads before handlers see them
+  registry?: EventSchemaRegistry;
+  logger?: Pick<Console, 'warn' | 'error'>;
+}
+
+// Snapshot returned by GET /api/events/consumers
+export interface EventConsumerStatus {
+  groupId: string;
+  topics: string[];
+  handlers: string[];
+  running: boolean;
+  // Last handled offset keyed by `topic:partition`
+  positions: Record<string, string>;
+  processed: number;
+  skipped: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export interface ReplayResult {
+  deadLetter: DeadLetter;
+  // Handler error when the replay failed
+  error: string | null;
+}
+
+type DecodedEvent = Omit<ConsumedEvent, 'attempt'>;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Consumes events for one consumer group and dispatches them to typed
+ * handlers by versioned type. A failing handler is retried in place with
+ * exponential backoff; after maxAttempts the message is stored as a dead
+ * letter and its offset committed so the partition keeps moving. Messages
+ * that cannot be decoded or fail schema validation are dead-lettered
+ * without retrying, and types without a handler are skipped.
+ */
+export class EventConsumer {
+  private readonly maxAttempts: number;
+  private readonly baseRetryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly logger: Pick<Console, 'warn' | 'error'>;
+  private readonly handlers = new Map<string, EventHandler<unknown>>();
+  private readonly positions = new Map<string, string>();
+  private readonly counters = { processed: 0, skipped: 0, retried: 0, deadLettered: 0 };
+
+  private subscription: Subscription | null = null;
+  private running = false;
+  // Cuts a retry delay short when the consumer stops
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private readonly broker: EventBroker,
+    private readonly deadLetters: DeadLetterRepository,
+    private readonly options: EventConsumerOptions
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? 500;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30_000;
+    this.logger = options.logger ?? console;
+  }
+
+  get groupId(): string {
+    return this.options.groupId;
+  }
+
+  /**
+   * Registers the handler for an event type
+   * @param type - Versioned type, e.g. `equipment.returned.v1`
+   * @param handler - Handler receiving the typed payload
+   * @returns The consumer, for chaining
+   */
+  on<K extends keyof EventPayloads>(type: K, handler: EventHandler<EventPayloads[K]>): this {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for ${type} is already registered in consumer group ${this.groupId}`);
+    }
+    this.handlers.set(type, handler as EventHandler<unknown>);
+    return this;
+  }
+
+  /**
+   * Subscribes to the broker and starts handling messages
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      this.subscription = await this.broker.subscribe(
+        { groupId: this.groupId, topics: this.options.topics },
+        (message) => this.handle(message)
+      );
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Stops consuming. A message waiting for a retry is left uncommitted and
+   * redelivered when the group next starts.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    const subscription = this.subscription;
+    this.subscription = null;
+    await subscription?.stop();
+  }
+
+  status(): EventConsumerStatus {
+    return {
+      groupId: this.groupId,
+      topics: [...this.options.topics],
+      handlers: [...this.handlers.keys()],
+      running: this.running,
+      positions: Object.fromEntries(this.positions),
+      ...this.counters,
+    };
+  }
+
+  /**
+   * Runs a dead letter's handler once more. Success marks it replayed;
+   * failure records the error and leaves it pending.
+   * @param deadLetter - Dead letter of this consumer group
+   * @returns Updated dead letter and the handler error, if any
+   */
+  async replay(deadLetter: DeadLetter): Promise<ReplayResult> {
+    const message: StoredBrokerMessage = {
+      topic: deadLetter.topic,
+      partition: deadLetter.partition,
+      offset: deadLetter.offset,
+      key: null,
+      value: deadLetter.payload,
+      headers: deadLetter.headers,
+    };
+
+    let error: string | null = null;
+    try {
+      const event = this.decode(message);
+      const handler = this.handlers.get(event.type);
+      if (!handler) {
+        throw new Error(`No handler is registered for ${event.type}`);
+      }
+      await handler({ ...event, attempt: deadLetter.attempts + 1 });
+    } catch (caught) {
+      error = errorMessage(caught);
+    }
+
+    const updated = error === null
+      ? await this.deadLetters.markReplayed(deadLetter.id)
+      : await this.deadLetters.recordReplayFailure(deadLetter.id, error);
+    return { deadLetter: updated ?? deadLetter, error };
+  }
+
+  private async handle(message: StoredBrokerMessage): Promise<void> {
+    let event: DecodedEvent;
+    try {
+      event = this.decode(message);
+    } catch (error) {
+      await this.deadLetter(message, null, errorMessage(error), 1);
+      return this.advance(message);
+    }
+
+    const handler = this.handlers.get(event.type);
+    if (!handler) {
+      this.counters.skipped++;
+      return this.advance(message);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await handler({ ...event, attempt });
+        this.counters.processed++;
+        return this.advance(message);
+      } catch (error) {
+        // Leave the offset uncommitted so the message comes back after a restart
+        if (!this.running) {
+          throw error;
+        }
+        if (attempt >= this.maxAttempts) {
+          await this.deadLetter(message, event, errorMessage(error), attempt);
+          return this.advance(message);
+        }
+
+        const delayMs = Math.min(this.maxRetryDelayMs, this.baseRetryDelayMs * 2 ** (attempt - 1));
+        this.logger.warn(
+          `Handling ${event.type} event ${event.id} in ${this.groupId} failed (attempt ${attempt}): ${errorMessage(error)}; retrying in ${delayMs}ms`
+        );
+        this.counters.retried++;
+        await this.sleep(delayMs);
+        if (!this.running) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  // Decodes and validates the relay's JSON value; throws when unusable
+  private decode(message: StoredBrokerMessage): DecodedEvent {
+    let value: unknown;
+    try {
+      value = JSON.parse(message.value);
+    } catch {
+      throw new Error('Message value is not valid JSON');
+    }
+    if (!isObject(value) || typeof value['id'] !== 'string' || typeof value['type'] !== 'string') {
+      throw new Error('Message value is not an event');
+    }
+
+    const type = value['type'];
+    if (this.options.registry && this.handlers.has(type)) {
+      try {
+        this.options.registry.validate(type, value['data']);
+      } catch (error) {
+        // Keep the individual problems in the dead letter's error
+        const details = error instanceof EventSchemaError && error.details.length > 0 ? ` (${error.details.join('; ')})` : '';
+        throw new Error(`${errorMessage(error)}${details}`);
+      }
+    }
+
+    return {
+      id: value['id'],
+      type,
+      userId: typeof value['userId'] === 'string' ? value['userId'] : null,
+      data: value['data'],
+      createdAt: typeof value['createdAt'] === 'string' ? value['createdAt'] : '',
+      topic: message.topic,
+      partition: message.partition,
+      offset: message.offset,
+    };
+  }
+
+  private async deadLetter(
+    message: StoredBrokerMessage,
+    event: DecodedEvent | null,
+    error: string,
+    attempts: number
+  ): Promise<void> {
+    const eventId = event?.id ?? message.headers['event-id'] ?? null;
+    const eventType = event?.type ?? message.headers['event-type'] ?? null;
+
+    await this.deadLetters.save({
+      consumerGroup: this.groupId,
+      topic: message.topic,
+      partition: message.partition,
+      offset: message.offset,
+      eventId,
+      eventType,
+      payload: message.value,
+      headers: message.headers,
+      error,
+      attempts,
+    });
+    this.counters.deadLettered++;
+    this.logger.error(
+      `Dead-lettered ${eventType ?? 'message'} ${eventId ?? `${message.topic}:${message.partition}@${message.offset}`} in ${this.groupId} after ${attempts} attempt(s): ${error}`
+    );
+  }
+
+  private advance(message: StoredBrokerMessage): void {
+    this.positions.set(`${message.topic}:${message.partition}`, message.offset);
+  }
+
+  private sleep(delayMs: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delayMs);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).finally(() => {
+      this.wake = null;
+    });
+  }
+}
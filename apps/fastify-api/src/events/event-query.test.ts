@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryEventRepository } from '../repositories/event-repository';
+import {
+  EventQueryError,
+  parseDataPredicate,
+  encodeEventCursor,
+  decodeEventCursor,
+  queryEvents,
+  exportEvents,
+} from './event-query';
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+  return text;
+};
+
+describe('parseDataPredicate', () => {
+  it('should type JSON values and keep colons in strings', () => {
+    expect(parseDataPredicate('days:gte:3')).toEqual({ path: ['days'], operator: 'gte', value: 3 });
+    expect(parseDataPredicate('site.id:eq:"3"')).toEqual({ path: ['site', 'id'], operator: 'eq', value: '3' });
+    expect(parseDataPredicate('url:eq:https://example.com')).toEqual({ path: ['url'], operator: 'eq', value: 'https://example.com' });
+    expect(parseDataPredicate('note:exists')).toEqual({ path: ['note'], operator: 'exists' });
+  });
+
+  it('should reject invalid paths, operators and missing values', () => {
+    for (const expression of ['da ys:eq:1', 'days:like:1', 'days:eq', 'days:exists:1', '']) {
+      expect(() => parseDataPredicate(expression)).toThrow(EventQueryError);
+    }
+  });
+});
+
+describe('event cursors', () => {
+  it('should round-trip event ids and reject anything else', () => {
+    const id = '0b7f2c3e-6a3b-4c1e-9a55-6f1d2e3c4b5a';
+    expect(decodeEventCursor(encodeEventCursor({ id }))).toBe(id);
+    expect(() => decodeEventCursor('not-a-cursor')).toThrow(expect.objectContaining({ code: 'INVALID_CURSOR' }));
+  });
+});
+
+describe('queryEvents and exportEvents', () => {
+  let repository: InMemoryEventRepository;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    repository = new InMemoryEventRepository();
+    for (const note of ['first', 'with "quotes", commas', 'third']) {
+      await repository.append({ type: 'rental.noted', userId: 'user-1', data: { note }, topic: 'app-events' });
+      vi.advanceTimersByTime(1000);
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should page with cursors until the last page', async () => {
+    const first = await queryEvents(repository, { limit: 2 });
+    expect(first.events).toHaveLength(2);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await queryEvents(repository, { afterId: decodeEventCursor(first.nextCursor as string), limit: 2 });
+    expect(second.events.map(({ data }) => data['note'])).toEqual(['third']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should export every match as CSV or NDJSON across batches', async () => {
+    const csv = await collect(exportEvents(repository, { limit: 2 }, 'csv'));
+    const lines = csv.split('\r\n');
+    expect(lines[0]).toBe('id,type,userId,createdAt,publishedAt,kafkaPartition,kafkaOffset,data');
+    expect(lines[2]).toContain(',1970-01-01T00:00:01.000Z,,,,"{""note"":""with \\""quotes\\"", commas""}"');
+    expect(lines).toHaveLength(5);
+
+    const ndjson = await collect(exportEvents(repository, { limit: 2 }, 'ndjson'));
+    expect(ndjson.trim().split('\n').map((line) => JSON.parse(line).data.note)).toEqual(['first', 'with "quotes", commas', 'third']);
+  });
+});
@@ -0,0 +1,173 @@
+import { EventRecord } from '../types';
+import {
+  DataPredicate,
+  DataPredicateOperator,
+  EventQueryFilter,
+  EventRepository,
+} from '../repositories/event-repository';
+
+export type EventQueryErrorCode = 'INVALID_PREDICATE' | 'INVALID_CURSOR';
+
+export class EventQueryError extends Error {
+  constructor(message: string, public readonly code: EventQueryErrorCode) {
+    super(message);
+    this.name = 'EventQueryError';
+  }
+}
+
+export type EventExportFormat = 'csv' | 'ndjson';
+
+export interface EventPage {
+  events: EventRecord[];
+  // Pass as `cursor` to read the next page; null on the last page
+  nextCursor: string | null;
+}
+
+const PREDICATE_OPERATORS: readonly DataPredicateOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'exists'];
+
+const PATH_PATTERN = /^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parses a `where` expression of the form `path:operator[:value]`, e.g.
+ * `equipment.id:eq:eq-1` or `days:gte:3`. Values that parse as a JSON
+ * number, boolean or null keep that type; quote them (`"3"`) to compare as
+ * a string. Everything else is a string.
+ * @param expression - Predicate from the query string
+ * @returns Predicate on the event's `data`
+ * @throws EventQueryError if the path or operator is invalid
+ */
+export function parseDataPredicate(expression: string): DataPredicate {
+  const [path, operator, ...rest] = expression.split(':');
+  if (!PATH_PATTERN.test(path ?? '')) {
+    throw new EventQueryError(`Invalid data path in "${expression}"`, 'INVALID_PREDICATE');
+  }
+  if (!PREDICATE_OPERATORS.includes(operator as DataPredicateOperator)) {
+    throw new EventQueryError(
+      `Invalid operator in "${expression}"; use one of ${PREDICATE_OPERATORS.join(', ')}`,
+      'INVALID_PREDICATE'
+    );
+  }
+  if (operator === 'exists') {
+    if (rest.length > 0) {
+      throw new EventQueryError(`"${expression}": exists takes no value`, 'INVALID_PREDICATE');
+    }
+    return { path: path.split('.'), operator: 'exists' };
+  }
+  if (rest.length === 0) {
+    throw new EventQueryError(`"${expression}": ${operator} needs a value`, 'INVALID_PREDICATE');
+  }
+
+  // Values may contain colons themselves
+  const raw = rest.join(':');
+  let value: string | number | boolean | null = raw;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed === null || ['string', 'number', 'boolean'].includes(typeof parsed)) {
+      value = parsed as string | number | boolean | null;
+    }
+  } catch {
+    // Plain string
+  }
+  return { path: path.split('.'), operator: operator as DataPredicateOperator, value };
+}
+
+/**
+ * Encodes the position after an event as an opaque page cursor
+ * @param event - Last event of a page
+ * @returns URL-safe cursor
+ */
+export const encodeEventCursor = (event: Pick<EventRecord, 'id'>): string =>
+  Buffer.from(event.id, 'utf8').toString('base64url');
+
+/**
+ * Decodes a cursor produced by encodeEventCursor
+ * @param cursor - Cursor from the query string
+ * @returns Id of the event to continue after
+ * @throws EventQueryError if the cursor is malformed
+ */
+export function decodeEventCursor(cursor: string): string {
+  const id = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!UUID_PATTERN.test(id)) {
+    throw new EventQueryError('Invalid cursor', 'INVALID_CURSOR');
+  }
+  return id;
+}
+
+/**
+ * Reads one page of events
+ * @param repository - Event repository
+ * @param filter - Filter with the page size as `limit`
+ * @returns Events and the cursor of the next page
+ */
+export async function queryEvents(repository: Pick<EventRepository, 'query'>, filter: EventQueryFilter): Promise<EventPage> {
+  // One extra row tells whether another page follows
+  const events = await repository.query({ ...filter, limit: filter.limit + 1 });
+  const hasMore = events.length > filter.limit;
+  const page = hasMore ? events.slice(0, filter.limit) : events;
+  return {
+    events: page,
+    nextCursor: hasMore ? encodeEventCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Reads every matching event page by page, starting after `filter.afterId`
+ * @param repository - Event repository
+ * @param filter - Filter with the batch size as `limit`
+ * @returns Events in query order
+ */
+export async function* iterateEvents(
+  repository: Pick<EventRepository, 'query'>,
+  filter: EventQueryFilter
+): AsyncGenerator<EventRecord> {
+  let afterId = filter.afterId;
+  for (;;) {
+    const batch = await repository.query({ ...filter, afterId });
+    yield* batch;
+    if (batch.length < filter.limit) {
+      return;
+    }
+    afterId = batch[batch.length - 1].id;
+  }
+}
+
+export const EVENT_CSV_COLUMNS = ['id', 'type', 'userId', 'createdAt', 'publishedAt', 'kafkaPartition', 'kafkaOffset', 'data'] as const;
+
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats an event as a CSV line; `data` is embedded as JSON
+ * @param event - Event to export
+ * @returns Line in EVENT_CSV_COLUMNS order, terminated by CRLF
+ */
+export const formatEventCsv = (event: EventRecord): string =>
+  EVENT_CSV_COLUMNS.map((column) => csvField(event[column])).join(',') + '\r\n';
+
+/**
+ * Streams every matching event as CSV with a header line or as
+ * newline-delimited JSON
+ * @param repository - Event repository
+ * @param filter - Filter with the batch size as `limit`
+ * @param format - Export format
+ * @returns Chunks of the export
+ */
+export async function* exportEvents(
+  repository: Pick<EventRepository, 'query'>,
+  filter: EventQueryFilter,
+  format: EventExportFormat
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield EVENT_CSV_COLUMNS.join(',') + '\r\n';
+  }
+  for await (const event of iterateEvents(repository, filter)) {
+    yield format === 'csv' ? formatEventCsv(event) : JSON.stringify(event) + '\n';
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryEventRepository } from '../repositories/event-repository';
+import { InMemoryEventBroker } from './event-broker';
+import { REPLAY_HEADER, replayEvents } from './event-replay';
+import { decodeEventCursor } from './event-query';
+
+describe('replayEvents', () => {
+  let repository: InMemoryEventRepository;
+  let broker: InMemoryEventBroker;
+  const ids: string[] = [];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    repository = new InMemoryEventRepository();
+    broker = new InMemoryEventBroker();
+    ids.length = 0;
+    for (const type of ['rental.created', 'rental.noted', 'rental.created', 'rental.created']) {
+      const event = await repository.append({ type, userId: 'user-1', data: {}, topic: 'app-events' });
+      ids.push(event.id);
+      vi.advanceTimersByTime(1000);
+    }
+    // The last event is still in the outbox
+    for (const entry of await repository.claimPending(3, 0)) {
+      await repository.markPublished(entry.event.id, { partition: 0, offset: '0' });
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should republish published matches oldest first with a replay header', async () => {
+    const result = await replayEvents(repository, broker, {
+      filter: { types: ['rental.created'] },
+      topic: 'app-events',
+      maxEvents: 100,
+      batchSize: 1,
+    });
+
+    expect(result).toMatchObject({ published: 2, lastEventId: ids[2], nextCursor: null });
+    const messages = broker.messages('app-events');
+    expect(messages.map((message) => message.headers['event-id'])).toEqual([ids[0], ids[2]]);
+    expect(messages.every((message) => message.headers[REPLAY_HEADER] === result.replayId)).toBe(true);
+    expect(messages[0].key).toBe('user-1');
+  });
+
+  it('should stop at maxEvents and resume from the cursor', async () => {
+    const first = await replayEvents(repository, broker, { filter: {}, topic: 'app-events', maxEvents: 2 });
+    expect(first).toMatchObject({ published: 2, lastEventId: ids[1] });
+
+    const second = await replayEvents(repository, broker, {
+      filter: {},
+      topic: 'app-events',
+      afterId: decodeEventCursor(first.nextCursor as string),
+      maxEvents: 2,
+    });
+    expect(second).toMatchObject({ published: 1, lastEventId: ids[2], nextCursor: null });
+  });
+});
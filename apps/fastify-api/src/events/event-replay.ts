@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { EventQueryFilter, EventRepository } from '../repositories/event-repository';
+import { EventBroker } from './event-broker';
+import { toBrokerMessage } from './outbox-relay';
+import { encodeEventCursor } from './event-query';
+
+// Header marking republished messages; its value identifies the replay
+export const REPLAY_HEADER = 'event-replay-id';
+
+export interface EventReplayOptions {
+  // Events to republish; order, afterId and limit are set by the replay
+  filter: Omit<EventQueryFilter, 'order' | 'afterId' | 'limit'>;
+  topic: string;
+  // Continue after this event, e.g. from a previous replay's nextCursor
+  afterId?: string;
+  // Most events republished by this call
+  maxEvents: number;
+  // Events read from the database per query
+  batchSize?: number;
+}
+
+export interface EventReplayResult {
+  replayId: string;
+  published: number;
+  lastEventId: string | null;
+  // Pass as `cursor` to continue a replay that hit maxEvents; null when done
+  nextCursor: string | null;
+}
+
+/**
+ * Republishes stored events to the broker, oldest first, so consumers can
+ * rebuild projections. Only events the outbox relay already published are
+ * replayed; the rest are still on their way. Messages keep their original
+ * key and carry REPLAY_HEADER, so consumers that must not act twice, such as
+ * the browser event stream, can tell them apart.
+ * @param repository - Event repository
+ * @param broker - Broker to publish to
+ * @param options - Filter, topic and limits
+ * @returns Count and resume position of the replay
+ */
+export async function replayEvents(
+  repository: Pick<EventRepository, 'query'>,
+  broker: Pick<EventBroker, 'publish'>,
+  options: EventReplayOptions
+): Promise<EventReplayResult> {
+  const replayId = randomUUID();
+  const batchSize = options.batchSize ?? 500;
+  let afterId = options.afterId;
+  let published = 0;
+  let lastEventId: string | null = null;
+
+  while (published < options.maxEvents) {
+    const limit = Math.min(batchSize, options.maxEvents - published);
+    const batch = await repository.query({ ...options.filter, publishedOnly: true, afterId, order: 'asc', limit });
+    for (const event of batch) {
+      const message = toBrokerMessage(event, options.topic);
+      await broker.publish({ ...message, headers: { ...message.headers, [REPLAY_HEADER]: replayId } });
+      published++;
+      lastEventId = event.id;
+    }
+    if (batch.length < limit) {
+      return { replayId, published, lastEventId, nextCursor: null };
+    }
+    afterId = lastEventId ?? undefined;
+  }
+
+  // Stopped at maxEvents; one more lookup tells whether anything is left
+  const remaining = await repository.query({ ...options.filter, publishedOnly: true, afterId, order: 'asc', limit: 1 });
+  return {
+    replayId,
+    published,
+    lastEventId,
+    nextCursor: remaining.length > 0 && lastEventId ? encodeEventCursor({ id: lastEventId }) : null,
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EventSchemaRegistry,
+  EventSchemaError,
+  EventTypeDefinition,
+  checkBackwardCompatibility
+} from './event-schema-registry';
+import { EVENT_CATALOG } from './event-catalog';
+
+const checkedOutV1: EventTypeDefinition = {
+  name: 'equipment.checked_out',
+  version: 1,
+  description: 'Equipment handed over',
+  schema: {
+    type: 'object',
+    required: ['equipmentId'],
+    properties: {
+      equipmentId: { type: 'string' },
+      condition: { type: 'string', enum: ['good', 'damaged'] },
+    },
+  },
+};
+
+// Version 1 plus an optional property
+const withDueAt = {
+  ...checkedOutV1.schema,
+  properties: { ...checkedOutV1.schema['properties'], dueAt: { type: 'string', format: 'date-time' } },
+};
+
+const catchError = (action: () => void): EventSchemaError => {
+  try {
+    action();
+  } catch (error) {
+    return error as EventSchemaError;
+  }
+  throw new Error('Expected an EventSchemaError');
+};
+
+describe('EventSchemaRegistry', () => {
+  let registry: EventSchemaRegistry;
+
+  beforeEach(() => {
+    registry = new EventSchemaRegistry([checkedOutV1]);
+  });
+
+  it('should validate payloads against the versioned schema', () => {
+    expect(() => registry.validate('equipment.checked_out.v1', { equipmentId: 'eq-1' })).not.toThrow();
+
+    const error = catchError(() => registry.validate('equipment.checked_out.v1', { condition: 'lost' }));
+    expect(error.code).toBe('INVALID_EVENT_PAYLOAD');
+    expect(error.details).toEqual([
+      "/ must have required property 'equipmentId'",
+      '/condition must be equal to one of the allowed values',
+    ]);
+  });
+
+  it('should reject unknown types and versions', () => {
+    expect(catchError(() => registry.validate('equipment.checked_out.v2', {})).code).toBe('UNKNOWN_EVENT_TYPE');
+    expect(catchError(() => registry.validate('equipment.checked_out', {})).code).toBe('UNKNOWN_EVENT_TYPE');
+  });
+
+  it('should register compatible versions and mark the latest', () => {
+    registry.register({ ...checkedOutV1, version: 2, schema: withDueAt });
+
+    expect(registry.list().map(({ type, latest }) => ({ type, latest }))).toEqual([
+      { type: 'equipment.checked_out.v1', latest: false },
+      { type: 'equipment.checked_out.v2', latest: true },
+    ]);
+  });
+
+  it('should refuse incompatible versions with the reasons', () => {
+    const error = catchError(() => registry.register({
+      ...checkedOutV1,
+      version: 2,
+      schema: { ...withDueAt, required: ['equipmentId', 'dueAt'] },
+    }));
+
+    expect(error.code).toBe('INCOMPATIBLE_EVENT_SCHEMA');
+    expect(error.details).toEqual(['data.dueAt: became required']);
+    expect(registry.get('equipment.checked_out.v2')).toBeNull();
+  });
+
+  it('should allow breaking changes that opt out of the check', () => {
+    expect(() => registry.register({
+      ...checkedOutV1,
+      version: 2,
+      compatibility: 'none',
+      schema: { ...withDueAt, required: ['equipmentId', 'dueAt'] },
+    })).not.toThrow();
+  });
+
+  it('should require versions in order and valid schemas', () => {
+    expect(catchError(() => registry.register({ ...checkedOutV1, version: 3 })).message)
+      .toBe('Event type equipment.checked_out.v3 must be registered as version 2');
+    expect(catchError(() => registry.register(checkedOutV1)).code).toBe('DUPLICATE_EVENT_TYPE');
+    expect(catchError(() => registry.register({ ...checkedOutV1, name: 'Checked Out' })).code).toBe('INVALID_EVENT_SCHEMA');
+    expect(catchError(() => registry.register({ ...checkedOutV1, name: 'equipment.lost', schema: { type: 'objekt' } })).code)
+      .toBe('INVALID_EVENT_SCHEMA');
+  });
+
+  it('should load the built-in catalog', () => {
+    const catalog = new EventSchemaRegistry(EVENT_CATALOG);
+
+    expect(catalog.get('user.registered.v1')).toMatchObject({ internal: true, latest: true });
+    expect(() => catalog.validate('equipment.returned.v1', {
+      equipmentId: 'eq-1',
+      returnedAt: '2024-01-01T10:00:00Z',
+      condition: 'good',
+    })).not.toThrow();
+  });
+});
+
+describe('checkBackwardCompatibility', () => {
+  it('should accept widened schemas', () => {
+    expect(checkBackwardCompatibility(
+      { type: 'object', required: ['a'], properties: { a: { type: 'integer', maxLength: 5, enum: [1, 2] } } },
+      { type: 'object', properties: { a: { type: 'number', maxLength: 10, enum: [1, 2, 3] }, b: { type: 'string' } } }
+    )).toEqual([]);
+  });
+
+  it('should report every narrowing', () => {
+    expect(checkBackwardCompatibility(
+      {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          removed: { type: 'string' },
+          state: { type: 'string', enum: ['open', 'closed'] },
+        },
+      },
+      {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          id: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string', minLength: 2 } },
+          state: { type: 'string', enum: ['open'] },
+        },
+      }
+    )).toEqual([
+      'data: additional properties are no longer allowed',
+      'data.id: type changed from string to integer',
+      'data.tags[]: minLength tightened to 2',
+      'data.removed: removed while additional properties are not allowed',
+      'data.state: enum values removed: "closed"',
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import { Ajv, ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+
+export type EventSchemaErrorCode =
+  | 'UNKNOWN_EVENT_TYPE'
+  | 'INVALID_EVENT_PAYLOAD'
+  | 'INVALID_EVENT_SCHEMA'
+  | 'INCOMPATIBLE_EVENT_SCHEMA'
+  | 'DUPLICATE_EVENT_TYPE';
+
+/**
+ * Raised when an event type cannot be registered or a payload does not
+ * match its schema. `details` lists the individual problems.
+ */
+export class EventSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly code: EventSchemaErrorCode,
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'EventSchemaError';
+  }
+}
+
+/**
+ * `backward` requires every payload valid under the previous version to be
+ * valid under the new one, so consumers can upgrade before producers.
+ * `none` skips the check for deliberate breaking changes.
+ */
+export type SchemaCompatibility = 'backward' | 'none';
+
+export interface EventTypeDefinition {
+  // Dotted lowercase name, e.g. `equipment.checked_out`
+  name: string;
+  version: number;
+  description: string;
+  // JSON Schema for the event's `data`
+  schema: SchemaObject;
+  compatibility?: SchemaCompatibility;
+  // Emitted by the API itself; clients may not publish it
+  internal?: boolean;
+}
+
+// Catalog entry returned by GET /api/events/types
+export interface EventTypeSummary {
+  // Versioned identifier used when publishing, e.g. `equipment.checked_out.v1`
+  type: string;
+  name: string;
+  version: number;
+  description: string;
+  internal: boolean;
+  latest: boolean;
+  schema: SchemaObject;
+}
+
+interface RegisteredEventType {
+  definition: EventTypeDefinition;
+  validate: ValidateFunction;
+}
+
+const NAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/;
+
+/**
+ * Builds the versioned identifier of an event type
+ * @param name - Event name
+ * @param version - Schema version
+ * @returns Identifier such as `equipment.checked_out.v1`
+ */
+export const eventTypeId = (name: string, version: number): string => `${name}.v${version}`;
+
+/**
+ * Versioned event types and their payload schemas. Versions of a name must
+ * be registered in order; each is checked against its predecessor.
+ */
+export class EventSchemaRegistry {
+  private readonly ajv: Ajv;
+  private readonly types = new Map<string, RegisteredEventType>();
+  private readonly latestVersions = new Map<string, number>();
+
+  constructor(definitions: EventTypeDefinition[] = []) {
+    this.ajv = new Ajv({ allErrors: true, strict: true });
+    addFormats(this.ajv);
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Adds an event type version
+   * @param definition - Type to add
+   * @throws EventSchemaError when the schema is invalid, the version is out
+   * of order or the schema breaks compatibility with the previous version
+   */
+  register(definition: EventTypeDefinition): void {
+    const { name, version } = definition;
+    const type = eventTypeId(name, version);
+
+    if (!NAME_PATTERN.test(name) || !Number.isInteger(version) || version < 1) {
+      throw new EventSchemaError(`Invalid event type name or version: ${type}`, 'INVALID_EVENT_SCHEMA');
+    }
+    if (this.types.has(type)) {
+      throw new EventSchemaError(`Event type already registered: ${type}`, 'DUPLICATE_EVENT_TYPE');
+    }
+
+    const latest = this.latestVersions.get(name) ?? 0;
+    if (version !== latest + 1) {
+      throw new EventSchemaError(
+        `Event type ${type} must be registered as version ${latest + 1}`,
+        'INVALID_EVENT_SCHEMA'
+      );
+    }
+
+    let validate: ValidateFunction;
+    try {
+      validate = this.ajv.compile(definition.schema);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new EventSchemaError(`Invalid schema for ${type}`, 'INVALID_EVENT_SCHEMA', [message]);
+    }
+
+    const previous = this.types.get(eventTypeId(name, latest));
+    if (previous && (definition.compatibility ?? 'backward') === 'backward') {
+      const problems = checkBackwardCompatibility(previous.definition.schema, definition.schema);
+      if (problems.length > 0) {
+        throw new EventSchemaError(
+          `Schema for ${type} is not backward compatible with version ${latest}`,
+          'INCOMPATIBLE_EVENT_SCHEMA',
+          problems
+        );
+      }
+    }
+
+    this.types.set(type, { definition, validate });
+    this.latestVersions.set(name, version);
+  }
+
+  /**
+   * Looks up a registered event type
+   * @param type - Versioned identifier
+   * @returns Catalog entry, or null when unknown
+   */
+  get(type: string): EventTypeSummary | null {
+    const registered = this.types.get(type);
+    return registered ? this.summarize(registered.definition) : null;
+  }
+
+  /**
+   * Lists every registered version, ordered by name then version
+   * @returns Catalog entries
+   */
+  list(): EventTypeSummary[] {
+    return [...this.types.values()]
+      .map(({ definition }) => this.summarize(definition))
+      .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+  }
+
+  /**
+   * Checks an event payload against its type's schema
+   * @param type - Versioned identifier
+   * @param data - Event payload
+   * @throws EventSchemaError when the type is unknown or the payload is invalid
+   */
+  validate(type: string, data: unknown): void {
+    const registered = this.types.get(type);
+    if (!registered) {
+      throw new EventSchemaError(`Unknown event type: ${type}`, 'UNKNOWN_EVENT_TYPE');
+    }
+    if (!registered.validate(data)) {
+      throw new EventSchemaError(
+        `Invalid payload for event type ${type}`,
+        'INVALID_EVENT_PAYLOAD',
+        (registered.validate.errors ?? []).map(formatValidationError)
+      );
+    }
+  }
+
+  private summarize(definition: EventTypeDefinition): EventTypeSummary {
+    return {
+      type: eventTypeId(definition.name, definition.version),
+      name: definition.name,
+      version: definition.version,
+      description: definition.description,
+      internal: definition.internal ?? false,
+      latest: this.latestVersions.get(definition.name) === definition.version,
+      schema: definition.schema,
+    };
+  }
+}
+
+const formatValidationError = (error: ErrorObject): string => {
+  const path = error.instancePath || '/';
+  if (error.keyword === 'additionalProperties') {
+    return `${path} must not have property ${(error.params as { additionalProperty: string }).additionalProperty}`;
+  }
+  return `${path} ${error.message ?? 'is invalid'}`;
+};
+
+// Keywords whose value may only decrease (lower bounds) or increase (upper
+// bounds) without rejecting payloads that used to be valid
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+// Keywords that cannot be added or changed at all
+const FIXED_KEYWORDS = ['pattern', 'format', 'const', 'multipleOf'];
+
+const typesOf = (schema: SchemaObject): string[] | null => {
+  if (schema['type'] === undefined) {
+    return null;
+  }
+  return Array.isArray(schema['type']) ? schema['type'] : [schema['type']];
+};
+
+const isSchema = (value: unknown): value is SchemaObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the ways a new schema would reject payloads the previous schema
+ * accepted. Covers the keywords used by event payloads: type, enum, bounds,
+ * formats, object properties and array items.
+ * @param previous - Schema of the previous version
+ * @param next - Schema of the new version
+ * @param path - Location reported in problems
+ * @returns Human-readable problems; empty when compatible
+ */
+export function checkBackwardCompatibility(previous: SchemaObject, next: SchemaObject, path = 'data'): string[] {
+  const problems: string[] = [];
+
+  const previousTypes = typesOf(previous);
+  const nextTypes = typesOf(next);
+  if (nextTypes && (!previousTypes || previousTypes.some((type) => !nextTypes.includes(type)
+    // Every integer is also a number
+    && !(type === 'integer' && nextTypes.includes('number'))))) {
+    problems.push(`${path}: type changed from ${previousTypes?.join('|') ?? 'any'} to ${nextTypes.join('|')}`);
+  }
+
+  if (Array.isArray(next['enum'])) {
+    const allowed = next['enum'] as unknown[];
+    const removed = Array.isArray(previous['enum'])
+      ? (previous['enum'] as unknown[]).filter((value) => !allowed.includes(value))
+      : null;
+    if (!removed) {
+      problems.push(`${path}: enum added`);
+    } else if (removed.length > 0) {
+      problems.push(`${path}: enum values removed: ${removed.map((value) => JSON.stringify(value)).join(', ')}`);
+    }
+  }
+
+  for (const keyword of LOWER_BOUNDS) {
+    if (next[keyword] !== undefined && !(previous[keyword] !== undefined && next[keyword] <= previous[keyword])) {
+      problems.push(`${path}: ${keyword} tightened to ${next[keyword]}`);
+    }
+  }
+  for (const keyword of UPPER_BOUNDS) {
+    if (next[keyword] !== undefined && !(previous[keyword] !== undefined && next[keyword] >= previous[keyword])) {
+      problems.push(`${path}: ${keyword} tightened to ${next[keyword]}`);
+    }
+  }
+  for (const keyword of FIXED_KEYWORDS) {
+    if (next[keyword] !== undefined && JSON.stringify(next[keyword]) !== JSON.stringify(previous[keyword])) {
+      problems.push(`${path}: ${keyword} changed`);
+    }
+  }
+
+  const previousProperties = isSchema(previous['properties']) ? previous['properties'] : {};
+  const nextProperties = isSchema(next['properties']) ? next['properties'] : {};
+  const previousRequired: string[] = Array.isArray(previous['required']) ? previous['required'] : [];
+  const nextRequired: string[] = Array.isArray(next['required']) ? next['required'] : [];
+
+  for (const property of nextRequired) {
+    if (!previousRequired.includes(property)) {
+      problems.push(`${path}.${property}: became required`);
+    }
+  }
+  if (next['additionalProperties'] === false && previous['additionalProperties'] !== false) {
+    problems.push(`${path}: additional properties are no longer allowed`);
+  }
+
+  for (const [property, previousSchema] of Object.entries(previousProperties)) {
+    const nextSchema = nextProperties[property];
+    if (nextSchema === undefined) {
+      if (next['additionalProperties'] === false) {
+        problems.push(`${path}.${property}: removed while additional properties are not allowed`);
+      }
+    } else if (isSchema(previousSchema) && isSchema(nextSchema)) {
+      problems.push(...checkBackwardCompatibility(previousSchema, nextSchema, `${path}.${property}`));
+    }
+  }
+
+  if (isSchema(previous['items']) && isSchema(next['items'])) {
+    problems.push(...checkBackwardCompatibility(previous['items'], next['items'], `${path}[]`));
+  }
+
+  return problems;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { EventStreamHub, StreamEvent, StreamConnectionOptions, formatServerSentEvent } from './event-stream';
+import { InMemoryEventBroker } from './event-broker';
+import { REPLAY_HEADER } from './event-replay';
+
+const event = (id: string, userId = 'user-1', type = 'equipment.returned.v1'): StreamEvent => ({
+  id,
+  type,
+  userId,
+  data: { equipmentId: 'eq-1' },
+  createdAt: '2024-01-01T10:00:00.000Z',
+});
+
+const publish = (broker: InMemoryEventBroker, published: StreamEvent) =>
+  broker.publish({ topic: 'app-events', key: published.userId, value: JSON.stringify(published), headers: {} });
+
+type StreamSend = (event: StreamEvent) => void;
+
+const createClient = (overrides: Partial<Omit<StreamConnectionOptions, 'send'>> & { send?: Mock<StreamSend> } = {}) => ({
+  filter: { userId: 'user-1', types: null },
+  send: vi.fn<StreamSend>(),
+  heartbeat: vi.fn(),
+  end: vi.fn(),
+  ...overrides,
+});
+
+const sentIds = (client: ReturnType<typeof createClient>) => client.send.mock.calls.map(([sent]) => sent.id);
+
+describe('EventStreamHub', () => {
+  let broker: InMemoryEventBroker;
+  let hub: EventStreamHub;
+  const loadBacklog = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    broker = new InMemoryEventBroker();
+    hub = new EventStreamHub(broker, {
+      groupId: 'stream-test',
+      topics: ['app-events'],
+      heartbeatIntervalMs: 1000,
+      loadBacklog,
+      logger: { warn: vi.fn(), error: vi.fn() },
+    });
+  });
+
+  afterEach(async () => {
+    await hub.stop();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should push live events to clients whose filter matches', async () => {
+    await publish(broker, event('history'));
+    await hub.start();
+    const own = createClient();
+    const all = createClient({ filter: { userId: null, types: ['equipment.returned.v1'] } });
+    await hub.connect(own);
+    await hub.connect(all);
+
+    await publish(broker, event('event-1'));
+    await publish(broker, event('event-2', 'user-2'));
+    await publish(broker, event('event-3', 'user-1', 'equipment.checked_out.v1'));
+    await broker.flush();
+
+    expect(sentIds(own)).toEqual(['event-1', 'event-3']);
+    expect(sentIds(all)).toEqual(['event-1', 'event-2']);
+  });
+
+  it('should not push replayed events again', async () => {
+    await hub.start();
+    const client = createClient();
+    await hub.connect(client);
+
+    await broker.publish({
+      topic: 'app-events',
+      key: 'user-1',
+      value: JSON.stringify(event('event-1')),
+      headers: { [REPLAY_HEADER]: 'replay-1' },
+    });
+    await publish(broker, event('event-2'));
+    await broker.flush();
+
+    expect(sentIds(client)).toEqual(['event-2']);
+  });
+
+  it('should send the backlog before live events without duplicates', async () => {
+    await hub.start();
+    let finishBacklog: (events: StreamEvent[]) => void = () => undefined;
+    loadBacklog.mockReturnValue(new Promise((resolve) => {
+      finishBacklog = resolve;
+    }));
+    const client = createClient({ lastEventId: 'event-1' });
+
+    const connecting = hub.connect(client);
+    await publish(broker, event('event-3'));
+    await publish(broker, event('event-4'));
+    await broker.flush();
+    finishBacklog([event('event-2'), event('event-3')]);
+    await connecting;
+
+    expect(loadBacklog).toHaveBeenCalledWith('event-1', client.filter, 500);
+    expect(sentIds(client)).toEqual(['event-2', 'event-3', 'event-4']);
+  });
+
+  it('should send heartbeats and stop pushing after close', async () => {
+    await hub.start();
+    const client = createClient();
+    const connection = await hub.connect(client);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(client.heartbeat).toHaveBeenCalledTimes(2);
+
+    connection.close();
+    await publish(broker, event('event-1'));
+    await broker.flush();
+    expect(client.send).not.toHaveBeenCalled();
+    expect(hub.size).toBe(0);
+  });
+
+  it('should drop a client whose write fails', async () => {
+    await hub.start();
+    const broken = createClient({ send: vi.fn<StreamSend>(() => { throw new Error('socket closed'); }) });
+    const healthy = createClient();
+    await hub.connect(broken);
+    await hub.connect(healthy);
+
+    await publish(broker, event('event-1'));
+    await publish(broker, event('event-2'));
+    await broker.flush();
+
+    expect(broken.send).toHaveBeenCalledTimes(1);
+    expect(sentIds(healthy)).toEqual(['event-1', 'event-2']);
+  });
+
+  it('should end every client when stopped', async () => {
+    await hub.start();
+    const client = createClient();
+    await hub.connect(client);
+
+    await hub.stop();
+
+    expect(client.end).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('formatServerSentEvent', () => {
+  it('should carry the id for Last-Event-ID resume', () => {
+    expect(formatServerSentEvent(event('event-1'))).toBe(`id: event-1\ndata: ${JSON.stringify(event('event-1'))}\n\n`);
+  });
+});
@@ -0,0 +1,230 @@
+import { EventBroker, StoredBrokerMessage, Subscription } from './event-broker';
+import { REPLAY_HEADER } from './event-replay';
+
+// Event as pushed to browsers, identical to the relay's message value
+export interface StreamEvent {
+  id: string;
+  type: string;
+  userId: string | null;
+  data: unknown;
+  createdAt: string;
+}
+
+export interface StreamFilter {
+  // Only this user's events; null streams every user's events
+  userId: string | null;
+  // Only these versioned types; null streams all types
+  types: string[] | null;
+}
+
+/**
+ * Loads events published after `afterId` that match the filter, oldest
+ * first. Resolves to null when `afterId` is unknown.
+ */
+export type StreamBacklogLoader = (afterId: string, filter: StreamFilter, limit: number) => Promise<StreamEvent[] | null>;
+
+export interface StreamConnectionOptions {
+  filter: StreamFilter;
+  // Last event the client received, e.g. from the Last-Event-ID header
+  lastEventId?: string | null;
+  send(event: StreamEvent): void;
+  heartbeat(): void;
+  // Called when the hub shuts down
+  end(): void;
+}
+
+export interface StreamConnection {
+  close(): void;
+}
+
+export interface EventStreamHubOptions {
+  // Should be unique per process so every instance sees every event
+  groupId: string;
+  topics: string[];
+  heartbeatIntervalMs?: number;
+  // Most events replayed to a resuming client
+  backlogLimit?: number;
+  loadBacklog?: StreamBacklogLoader;
+  logger?: Pick<Console, 'warn' | 'error'>;
+}
+
+interface HubConnection {
+  options: StreamConnectionOptions;
+  // Live events held back while the backlog is sent
+  pending: StreamEvent[] | null;
+}
+
+/**
+ * Checks whether a client's filter selects an event
+ * @param event - Published event
+ * @param filter - Client filter
+ * @returns True if the event should be pushed
+ */
+export const matchesStreamFilter = (event: StreamEvent, filter: StreamFilter): boolean =>
+  (filter.userId === null || event.userId === filter.userId)
+  && (filter.types === null || filter.types.includes(event.type));
+
+/**
+ * Formats an event as a Server-Sent Events message. The id lets browsers
+ * resume through the Last-Event-ID header after reconnecting.
+ * @param event - Event to push
+ * @returns `id` and `data` fields terminated by a blank line
+ */
+export const formatServerSentEvent = (event: StreamEvent): string =>
+  `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+
+const decodeStreamEvent = (message: StoredBrokerMessage): StreamEvent | null => {
+  try {
+    const value = JSON.parse(message.value);
+    if (typeof value?.id !== 'string' || typeof value?.type !== 'string') {
+      return null;
+    }
+    return {
+      id: value.id,
+      type: value.type,
+      userId: typeof value.userId === 'string' ? value.userId : null,
+      data: value.data,
+      createdAt: value.createdAt,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Fans events out from the broker to connected stream clients. The hub
+ * reads the topics as its own consumer group starting at the end, so each
+ * API instance pushes every event published after it started; clients that
+ * reconnect catch up from the database through the backlog loader.
+ */
+export class EventStreamHub {
+  private readonly heartbeatIntervalMs: number;
+  private readonly backlogLimit: number;
+  private readonly logger: Pick<Console, 'warn' | 'error'>;
+  private readonly connections = new Set<HubConnection>();
+
+  private subscription: Subscription | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly broker: EventBroker,
+    private readonly options: EventStreamHubOptions
+  ) {
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15_000;
+    this.backlogLimit = options.backlogLimit ?? 500;
+    this.logger = options.logger ?? console;
+  }
+
+  // Connected clients
+  get size(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Subscribes to the broker and starts sending heartbeats
+   */
+  async start(): Promise<void> {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = await this.broker.subscribe(
+      { groupId: this.options.groupId, topics: this.options.topics, fromBeginning: false },
+      async (message) => {
+        // Browsers already received replayed events when they were first published
+        if (message.headers[REPLAY_HEADER]) {
+          return;
+        }
+        const event = decodeStreamEvent(message);
+        if (event) {
+          this.broadcast(event);
+        } else {
+          this.logger.warn(`Skipping undecodable message ${message.topic}:${message.partition}@${message.offset} in the event stream`);
+        }
+      }
+    );
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const connection of this.connections) {
+        this.deliver(connection, () => connection.options.heartbeat());
+      }
+    }, this.heartbeatIntervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  /**
+   * Ends every client stream and unsubscribes from the broker
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    for (const connection of this.connections) {
+      this.deliver(connection, () => connection.options.end());
+    }
+    this.connections.clear();
+
+    const subscription = this.subscription;
+    this.subscription = null;
+    await subscription?.stop();
+  }
+
+  /**
+   * Registers a client. With a lastEventId the missed events are sent first;
+   * live events arriving meanwhile follow without duplicates.
+   * @param options - Filter, resume point and callbacks writing to the client
+   * @returns Handle to unregister the client when it disconnects
+   */
+  async connect(options: StreamConnectionOptions): Promise<StreamConnection> {
+    const connection: HubConnection = { options, pending: [] };
+    this.connections.add(connection);
+    const close = () => {
+      this.connections.delete(connection);
+    };
+
+    try {
+      const backlog = options.lastEventId && this.options.loadBacklog
+        ? await this.options.loadBacklog(options.lastEventId, options.filter, this.backlogLimit) ?? []
+        : [];
+      const sent = new Set<string>();
+      for (const event of backlog) {
+        sent.add(event.id);
+        options.send(event);
+      }
+      for (const event of connection.pending ?? []) {
+        if (!sent.has(event.id)) {
+          options.send(event);
+        }
+      }
+    } catch (error) {
+      close();
+      throw error;
+    }
+    connection.pending = null;
+
+    return { close };
+  }
+
+  private broadcast(event: StreamEvent): void {
+    for (const connection of this.connections) {
+      if (!matchesStreamFilter(event, connection.options.filter)) {
+        continue;
+      }
+      if (connection.pending) {
+        connection.pending.push(event);
+      } else {
+        this.deliver(connection, () => connection.options.send(event));
+      }
+    }
+  }
+
+  // A client whose socket fails is dropped instead of failing the others
+  private deliver(connection: HubConnection, write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      this.logger.warn('Dropping event stream client after a failed write:', error);
+      this.connections.delete(connection);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryEventRepository } from '../repositories/event-repository';
+import { InMemoryEventBroker } from './event-broker';
+import { OutboxRelay } from './outbox-relay';
+import { Tracer } from '../tracing/tracer';
+import { InMemorySpanExporter } from '../tracing/span-exporters';
+
+describe('OutboxRelay', () => {
+  let repository: InMemoryEventRepository;
+  let broker: InMemoryEventBroker;
+  let logger: { warn: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn> };
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    repository = new InMemoryEventRepository();
+    broker = new InMemoryEventBroker();
+    logger = { warn: vi.fn(), error: vi.fn() };
+    relay = new OutboxRelay(repository, broker, { batchSize: 2, baseRetryDelayMs: 1000, maxRetryDelayMs: 4000, logger });
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    vi.useRealTimers();
+  });
+
+  it('should publish pending events and record their offsets', async () => {
+    const event = await repository.append({ type: 'order.created', userId: 'user-1', data: { orderId: 42 }, topic: 'app-events' });
+
+    expect(await relay.relayBatch()).toEqual({ claimed: 1, published: 1, failed: 0 });
+
+    const [message] = broker.messages('app-events');
+    expect(message.key).toBe('user-1');
+    expect(message.headers).toEqual({
+      'event-id': event.id,
+      'event-type': 'order.created',
+      traceparent: expect.stringMatching(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/),
+    });
+    expect(JSON.parse(message.value)).toMatchObject({ id: event.id, type: 'order.created', data: { orderId: 42 } });
+    expect(await repository.findById(event.id)).toMatchObject({ kafkaPartition: 0, kafkaOffset: '0' });
+  });
+
+  it('should publish in the trace of the request that stored the event', async () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer({ exporter, flushIntervalMs: 60_000 });
+    relay = new OutboxRelay(repository, broker, { tracer, logger });
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const event = await repository.append({
+      type: 'order.created',
+      data: {},
+      topic: 'app-events',
+      traceparent: `00-${traceId}-00f067aa0ba902b7-01`,
+    });
+
+    await relay.relayBatch();
+    await tracer.flush();
+
+    const [span] = exporter.named('event.publish');
+    expect(span).toMatchObject({
+      kind: 'producer',
+      traceId,
+      parentSpanId: '00f067aa0ba902b7',
+      attributes: { 'messaging.destination.name': 'app-events', 'messaging.message.id': event.id, 'event.attempt': 1 },
+    });
+    expect(broker.messages('app-events')[0].headers['traceparent']).toBe(`00-${traceId}-${span.spanId}-01`);
+  });
+
+  it('should retry failed sends with exponential backoff', async () => {
+    const event = await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+    const publish = vi.spyOn(broker, 'publish').mockRejectedValue(new Error('Broker unavailable'));
+
+    await relay.relayBatch();
+    vi.advanceTimersByTime(999);
+    expect((await relay.relayBatch()).claimed).toBe(0);
+
+    vi.advanceTimersByTime(1);
+    await relay.relayBatch();
+    // Second failure waits 2s, then capped at 4s
+    vi.advanceTimersByTime(2000);
+    await relay.relayBatch();
+    vi.advanceTimersByTime(4000);
+
+    expect(publish).toHaveBeenCalledTimes(3);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`Publishing event ${event.id} failed (attempt 3)`));
+    publish.mockRestore();
+    expect(await relay.relayBatch()).toMatchObject({ published: 1 });
+  });
+
+  it('should report every publish attempt and its outcome', async () => {
+    const onPublish = vi.fn();
+    relay = new OutboxRelay(repository, broker, { logger, onPublish });
+    const event = await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+    const failure = new Error('Broker unavailable');
+    vi.spyOn(broker, 'publish').mockRejectedValueOnce(failure);
+
+    await relay.relayBatch();
+    vi.advanceTimersByTime(1000);
+    await relay.relayBatch();
+
+    expect(onPublish.mock.calls).toEqual([
+      [expect.objectContaining({ topic: 'app-events', event: expect.objectContaining({ id: event.id }) }), expect.any(Number), failure],
+      [expect.objectContaining({ attempts: 2 }), expect.any(Number), null],
+    ]);
+  });
+
+  it('should keep publishing the rest of a batch after one failure', async () => {
+    await repository.append({ type: 'first', data: {}, topic: 'app-events' });
+    await repository.append({ type: 'second', data: {}, topic: 'app-events' });
+    vi.spyOn(broker, 'publish').mockRejectedValueOnce(new Error('Message too large'));
+
+    expect(await relay.relayBatch()).toEqual({ claimed: 2, published: 1, failed: 1 });
+  });
+
+  it('should drain the outbox in the background once started', async () => {
+    for (let i = 0; i < 3; i++) {
+      await repository.append({ type: 'order.created', data: { i }, topic: 'app-events' });
+    }
+
+    relay.start();
+    // Batches of two: the full first batch triggers an immediate second pass
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(broker.messages('app-events')).toHaveLength(3);
+  });
+
+  it('should log and keep polling when the outbox cannot be read', async () => {
+    vi.spyOn(repository, 'claimPending').mockRejectedValueOnce(new Error('connection terminated'));
+
+    relay.start();
+    await vi.advanceTimersByTimeAsync(0);
+    await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(logger.error).toHaveBeenCalledWith('Outbox relay pass failed:', expect.any(Error));
+    expect(broker.messages('app-events')).toHaveLength(1);
+  });
+});
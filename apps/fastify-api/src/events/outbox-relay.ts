@@ -0,0 +1,211 @@
+import { EventRecord } from '../types';
+import { EventRepository, OutboxEntry, PublishedPosition } from '../repositories/event-repository';
+import { BrokerMessage, EventBroker } from './event-broker';
+import { formatTraceparent, parseTraceparent, SpanContext, TRACEPARENT_HEADER } from '../tracing/trace-context';
+import { Tracer } from '../tracing/tracer';
+
+export interface OutboxRelayOptions {
+  // Outbox entries leased per pass
+  batchSize?: number;
+  // Wait between passes when the outbox is drained
+  pollIntervalMs?: number;
+  // How long a relay owns an entry before another may retry it
+  leaseMs?: number;
+  // First retry delay; doubles per attempt up to maxRetryDelayMs
+  baseRetryDelayMs?: number;
+  maxRetryDelayMs?: number;
+  logger?: Pick<Console, 'warn' | 'error'>;
+  // Records an `event.publish` span per event in the trace that stored it
+  tracer?: Tracer;
+  // Called after every publish attempt, e.g. for metrics; error is null on success
+  onPublish?: (entry: OutboxEntry, durationMs: number, error: unknown) => void;
+}
+
+export interface RelayResult {
+  claimed: number;
+  published: number;
+  failed: number;
+}
+
+/**
+ * Builds the broker message for an event. Keying by user keeps each user's
+ * events in order on one partition.
+ * @param event - Stored event
+ * @param topic - Destination topic
+ * @param trace - Publish span, passed on to consumers as a traceparent header
+ * @returns Message with a JSON value and id/type headers
+ */
+export function toBrokerMessage(event: EventRecord, topic: string, trace?: SpanContext): BrokerMessage {
+  return {
+    topic,
+    key: event.userId ?? event.id,
+    value: JSON.stringify({
+      id: event.id,
+      type: event.type,
+      userId: event.userId,
+      data: event.data,
+      createdAt: event.createdAt,
+    }),
+    headers: {
+      'event-id': event.id,
+      'event-type': event.type,
+      ...(trace ? { [TRACEPARENT_HEADER]: formatTraceparent(trace) } : {}),
+    },
+  };
+}
+
+/**
+ * Moves events from the outbox to the broker. Delivery is at least once:
+ * an event is only removed from the outbox after the broker acknowledged it,
+ * and failed sends are retried with exponential backoff until they succeed.
+ */
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly baseRetryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly logger: Pick<Console, 'warn' | 'error'>;
+  private readonly tracer: Tracer;
+  private readonly onPublish: OutboxRelayOptions['onPublish'];
+
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private started = false;
+  // Set when notify() arrives during a pass
+  private wakeup = false;
+
+  constructor(
+    private readonly repository: EventRepository,
+    private readonly broker: EventBroker,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.leaseMs = options.leaseMs ?? 30_000;
+    this.baseRetryDelayMs = options.baseRetryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60 * 1000;
+    this.logger = options.logger ?? console;
+    this.tracer = options.tracer ?? new Tracer();
+    this.onPublish = options.onPublish;
+  }
+
+  /**
+   * Publishes one batch of due outbox entries
+   * @returns Counts of leased, published and failed entries
+   */
+  async relayBatch(): Promise<RelayResult> {
+    const entries = await this.repository.claimPending(this.batchSize, this.leaseMs);
+    const result: RelayResult = { claimed: entries.length, published: 0, failed: 0 };
+
+    for (const entry of entries) {
+      try {
+        const position = await this.tracer.withSpan('event.publish', {
+          kind: 'producer',
+          parent: parseTraceparent(entry.traceparent ?? undefined),
+          attributes: {
+            'messaging.system': 'kafka',
+            'messaging.destination.name': entry.topic,
+            'messaging.message.id': entry.event.id,
+            'event.type': entry.event.type,
+            'event.attempt': entry.attempts,
+          },
+        }, (span) => this.publish(entry, span.context));
+        await this.repository.markPublished(entry.event.id, position);
+        result.published++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryAt = new Date(Date.now() + this.retryDelay(entry.attempts));
+        this.logger.warn(
+          `Publishing event ${entry.event.id} failed (attempt ${entry.attempts}): ${message}; retrying at ${retryAt.toISOString()}`
+        );
+        await this.repository.markFailed(entry.event.id, message, retryAt);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Starts polling the outbox in the background
+   */
+  start(): void {
+    if (!this.started) {
+      this.started = true;
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Runs a pass right away, e.g. after an event was appended
+   */
+  notify(): void {
+    if (!this.started) {
+      return;
+    }
+    if (this.running) {
+      this.wakeup = true;
+    } else {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Stops polling and waits for a pass in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  // Sends one entry to the broker and reports the attempt to onPublish
+  private async publish(entry: OutboxEntry, trace: SpanContext): Promise<PublishedPosition> {
+    const startedAt = performance.now();
+    try {
+      const position = await this.broker.publish(toBrokerMessage(entry.event, entry.topic, trace));
+      this.onPublish?.(entry, performance.now() - startedAt, null);
+      return position;
+    } catch (error) {
+      this.onPublish?.(entry, performance.now() - startedAt, error);
+      throw error;
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.maxRetryDelayMs, this.baseRetryDelayMs * 2 ** Math.max(0, attempts - 1));
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.tick(), delayMs);
+    this.timer.unref();
+  }
+
+  private tick(): void {
+    this.timer = null;
+    this.wakeup = false;
+
+    let backlog = false;
+    // notify() runs inside requests; the pass is not part of their traces
+    this.running = this.tracer.detach(() => this.relayBatch())
+      .then((result) => {
+        // A full batch means more entries are probably due
+        backlog = result.claimed === this.batchSize;
+      })
+      .catch((error) => {
+        this.logger.error('Outbox relay pass failed:', error);
+      })
+      .finally(() => {
+        this.running = null;
+        if (this.started) {
+          this.schedule(backlog || this.wakeup ? 0 : this.pollIntervalMs);
+        }
+      });
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { registerGracefulShutdown } from './graceful-shutdown';
+
+describe('registerGracefulShutdown', () => {
+  const logger = { info: vi.fn(), error: vi.fn() };
+  let signals: EventEmitter;
+
+  const setup = (close = vi.fn().mockResolvedValue(undefined)) => {
+    const health = { markShuttingDown: vi.fn() };
+    const exit = vi.fn();
+    const handle = registerGracefulShutdown({
+      health,
+      close,
+      drainDelayMs: 5000,
+      timeoutMs: 20_000,
+      logger,
+      exit,
+      process: signals as unknown as NodeJS.Process,
+    });
+    return { health, close, exit, handle };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    signals = new EventEmitter();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fail readiness first and close after the drain delay on SIGTERM', async () => {
+    const { health, close, exit } = setup();
+
+    signals.emit('SIGTERM', 'SIGTERM');
+    expect(health.markShuttingDown).toHaveBeenCalled();
+    expect(close).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(close).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('should exit with 1 when closing fails or takes too long', async () => {
+    const failing = setup(vi.fn().mockRejectedValue(new Error('pool.end failed')));
+    void failing.handle.shutdown('test');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(failing.exit).toHaveBeenCalledWith(1);
+    failing.handle.dispose();
+
+    const hanging = setup(vi.fn(() => new Promise<void>(() => undefined)));
+    void hanging.handle.shutdown('test');
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(hanging.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should exit at once on a second signal', async () => {
+    const { close, exit } = setup();
+
+    signals.emit('SIGINT', 'SIGINT');
+    signals.emit('SIGINT', 'SIGINT');
+
+    expect(exit).toHaveBeenCalledWith(1);
+    expect(close).not.toHaveBeenCalled();
+  });
+
+  it('should run the sequence once when shutdown is called repeatedly', async () => {
+    const { handle, close } = setup();
+
+    const first = handle.shutdown('test');
+    expect(handle.shutdown('again')).toBe(first);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening for signals once disposed', () => {
+    const { handle, health } = setup();
+
+    handle.dispose();
+    signals.emit('SIGTERM', 'SIGTERM');
+
+    expect(health.markShuttingDown).not.toHaveBeenCalled();
+  });
+});
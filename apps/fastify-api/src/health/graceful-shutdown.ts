@@ -0,0 +1,98 @@
+import type { HealthRegistry } from './health-registry';
+
+interface ShutdownLogger {
+  info(message: string): void;
+  error(message: string, error?: unknown): void;
+}
+
+export interface GracefulShutdownOptions {
+  health: Pick<HealthRegistry, 'markShuttingDown'>;
+  // Stops accepting connections, waits for requests in flight and releases
+  // resources, e.g. fastify.close() with its onClose hooks
+  close: () => Promise<void>;
+  // Time between failing readiness and closing, long enough for load
+  // balancers to stop routing here; defaults to 5 seconds
+  drainDelayMs?: number;
+  // Exits with code 1 when shutdown takes longer, below the orchestrator's
+  // grace period; defaults to 25 seconds
+  timeoutMs?: number;
+  signals?: NodeJS.Signals[];
+  logger?: ShutdownLogger;
+  // Replaceable in tests
+  exit?: (code: number) => void;
+  process?: Pick<NodeJS.Process, 'on' | 'removeListener'>;
+}
+
+export interface GracefulShutdown {
+  // Runs the shutdown sequence; later calls return the same promise
+  shutdown(reason: string): Promise<void>;
+  // Removes the signal handlers
+  dispose(): void;
+}
+
+/**
+ * Shuts down on SIGTERM and SIGINT without dropping requests: readiness
+ * fails first, then after the drain delay the server closes, finishing
+ * requests in flight. A second signal, or the timeout, exits at once.
+ * @param options - Server, health registry and timings
+ * @returns Handle to trigger or cancel the sequence
+ */
+export function registerGracefulShutdown(options: GracefulShutdownOptions): GracefulShutdown {
+  const drainDelayMs = options.drainDelayMs ?? 5000;
+  const timeoutMs = options.timeoutMs ?? 25_000;
+  const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+  const logger = options.logger ?? console;
+  const exit = options.exit ?? ((code: number) => process.exit(code));
+  const target = options.process ?? process;
+  let shuttingDown: Promise<void> | null = null;
+
+  const shutdown = (reason: string): Promise<void> => {
+    if (shuttingDown) {
+      return shuttingDown;
+    }
+    logger.info(`Shutting down (${reason}): failing readiness, closing in ${drainDelayMs}ms`);
+    options.health.markShuttingDown();
+
+    const timer = setTimeout(() => {
+      logger.error(`Shutdown did not finish within ${timeoutMs}ms; exiting`);
+      exit(1);
+    }, timeoutMs);
+    timer.unref();
+
+    shuttingDown = (async () => {
+      try {
+        await new Promise((resolve) => setTimeout(resolve, drainDelayMs));
+        await options.close();
+        logger.info('Shutdown complete');
+        exit(0);
+      } catch (error) {
+        logger.error('Shutdown failed', error);
+        exit(1);
+      } finally {
+        clearTimeout(timer);
+      }
+    })();
+    return shuttingDown;
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.info(`Received ${signal} again; exiting without waiting`);
+      exit(1);
+      return;
+    }
+    void shutdown(signal);
+  };
+  for (const signal of signals) {
+    target.on(signal, onSignal);
+  }
+
+  return {
+    shutdown,
+    dispose: () => {
+      for (const signal of signals) {
+        target.removeListener(signal, onSignal);
+      }
+    },
+  };
+}
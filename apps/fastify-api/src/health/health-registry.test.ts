@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HealthIndicator, HealthRegistry } from './health-registry';
+
+const indicator = (name: string, check: HealthIndicator['check'], critical = true): HealthIndicator => ({ name, critical, check });
+
+describe('HealthRegistry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report ok with each check and its details', async () => {
+    const registry = new HealthRegistry()
+      .register(indicator('database', async () => ({ idleConnections: 2 })))
+      .register(indicator('broker', async () => undefined, false));
+
+    const report = await registry.check();
+
+    expect(report.status).toBe('ok');
+    expect(report.checks).toEqual([
+      { name: 'database', status: 'up', critical: true, durationMs: expect.any(Number), checkedAt: expect.any(String), details: { idleConnections: 2 } },
+      { name: 'broker', status: 'up', critical: false, durationMs: expect.any(Number), checkedAt: expect.any(String) },
+    ]);
+  });
+
+  it('should be degraded when a non-critical check fails and down when a critical one does', async () => {
+    const broker = new HealthRegistry()
+      .register(indicator('database', async () => undefined))
+      .register(indicator('broker', async () => Promise.reject(new Error('ECONNREFUSED')), false));
+    const database = new HealthRegistry().register(indicator('database', async () => Promise.reject(new Error('too many clients'))));
+
+    const degraded = await broker.readiness();
+    expect(degraded.ready).toBe(true);
+    expect(degraded.report.status).toBe('degraded');
+    expect(degraded.report.checks[1]).toMatchObject({ status: 'down', error: 'ECONNREFUSED' });
+
+    const down = await database.readiness();
+    expect(down.ready).toBe(false);
+    expect(down.report.status).toBe('down');
+  });
+
+  it('should fail checks that exceed their timeout', async () => {
+    vi.useFakeTimers();
+    const registry = new HealthRegistry({ timeoutMs: 1000 })
+      .register(indicator('database', () => new Promise(() => undefined)))
+      .register({ ...indicator('secrets', () => new Promise(() => undefined), false), timeoutMs: 3000 });
+
+    const checking = registry.check();
+    await vi.advanceTimersByTimeAsync(3000);
+    const report = await checking;
+
+    expect(report.checks.map((check) => check.error)).toEqual(['Timed out after 1000ms', 'Timed out after 3000ms']);
+  });
+
+  it('should reuse results within the cache TTL and share checks in progress', async () => {
+    let now = 0;
+    const check = vi.fn().mockResolvedValue(undefined);
+    const registry = new HealthRegistry({ cacheTtlMs: 5000, now: () => now }).register(indicator('database', check));
+
+    await Promise.all([registry.check(), registry.check()]);
+    now = 4999;
+    await registry.check();
+    expect(check).toHaveBeenCalledTimes(1);
+
+    now = 5000;
+    await registry.check();
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail readiness without checking once shutting down', async () => {
+    const check = vi.fn().mockResolvedValue(undefined);
+    const registry = new HealthRegistry().register(indicator('database', check));
+
+    registry.markShuttingDown();
+
+    expect(await registry.readiness()).toEqual({ ready: false, report: { status: 'shutting_down', checks: [] } });
+    expect(check).not.toHaveBeenCalled();
+    expect((await registry.check()).status).toBe('shutting_down');
+  });
+
+  it('should refuse duplicate indicator names', () => {
+    const registry = new HealthRegistry().register(indicator('database', async () => undefined));
+
+    expect(() => registry.register(indicator('database', async () => undefined))).toThrow('already registered');
+  });
+});
@@ -0,0 +1,160 @@
+export type CheckStatus = 'up' | 'down';
+
+// ok: every check is up; degraded: a non-critical check is down;
+// down: a critical check is down; shutting_down: draining before exit
+export type HealthStatus = 'ok' | 'degraded' | 'down' | 'shutting_down';
+
+/**
+ * A dependency readiness depends on, such as the database or the broker
+ */
+export interface HealthIndicator {
+  name: string;
+  // Readiness fails while a critical dependency is down; others only degrade it
+  critical: boolean;
+  // Overrides the registry's timeout for this check
+  timeoutMs?: number;
+  /**
+   * Checks the dependency
+   * @returns Details for the admin report, e.g. pool sizes
+   * @throws when the dependency is down
+   */
+  check(): Promise<Record<string, unknown> | void>;
+}
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  critical: boolean;
+  durationMs: number;
+  // When the check ran; cached results keep their original time
+  checkedAt: string;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: CheckResult[];
+}
+
+export interface HealthRegistryOptions {
+  // Checks slower than this count as down; defaults to 2 seconds
+  timeoutMs?: number;
+  // How long a result is reused, so frequent probes from several
+  // orchestrators do not each query every dependency; defaults to 5 seconds
+  cacheTtlMs?: number;
+  now?: () => number;
+}
+
+interface CachedResult {
+  result: CheckResult;
+  expiresAt: number;
+}
+
+/**
+ * Runs the registered health indicators for the readiness probe and the
+ * admin report. Each check has a timeout and its result is cached briefly;
+ * concurrent callers share a check in progress.
+ */
+export class HealthRegistry {
+  private readonly indicators = new Map<string, HealthIndicator>();
+  private readonly results = new Map<string, CachedResult>();
+  private readonly running = new Map<string, Promise<CheckResult>>();
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly now: () => number;
+  private shuttingDown = false;
+
+  constructor(options: HealthRegistryOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 2000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 5000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Adds an indicator; names must be unique
+   * @param indicator - Dependency check
+   * @returns This registry
+   */
+  register(indicator: HealthIndicator): this {
+    if (this.indicators.has(indicator.name)) {
+      throw new Error(`Health indicator ${indicator.name} is already registered`);
+    }
+    this.indicators.set(indicator.name, indicator);
+    return this;
+  }
+
+  /**
+   * Checks every indicator in parallel, reusing results younger than the cache TTL
+   * @returns Overall status and the result of each check
+   */
+  async check(): Promise<HealthReport> {
+    const checks = await Promise.all([...this.indicators.values()].map((indicator) => this.resultOf(indicator)));
+    let status: HealthStatus = 'ok';
+    if (this.shuttingDown) {
+      status = 'shutting_down';
+    } else if (checks.some((check) => check.status === 'down' && check.critical)) {
+      status = 'down';
+    } else if (checks.some((check) => check.status === 'down')) {
+      status = 'degraded';
+    }
+    return { status, checks };
+  }
+
+  /**
+   * Whether the instance should receive traffic: false while shutting down
+   * or while a critical dependency is down
+   * @returns Report whose status decides readiness
+   */
+  async readiness(): Promise<{ ready: boolean; report: HealthReport }> {
+    const report = this.shuttingDown ? { status: 'shutting_down' as const, checks: [] } : await this.check();
+    return { ready: report.status === 'ok' || report.status === 'degraded', report };
+  }
+
+  // Fails readiness from now on, so load balancers stop sending requests before connections drain
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  get isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  private resultOf(indicator: HealthIndicator): Promise<CheckResult> {
+    const cached = this.results.get(indicator.name);
+    if (cached && cached.expiresAt > this.now()) {
+      return Promise.resolve(cached.result);
+    }
+    let running = this.running.get(indicator.name);
+    if (!running) {
+      running = this.run(indicator).then((result) => {
+        this.results.set(indicator.name, { result, expiresAt: this.now() + this.cacheTtlMs });
+        this.running.delete(indicator.name);
+        return result;
+      });
+      this.running.set(indicator.name, running);
+    }
+    return running;
+  }
+
+  private async run(indicator: HealthIndicator): Promise<CheckResult> {
+    const start = this.now();
+    const timeoutMs = indicator.timeoutMs ?? this.timeoutMs;
+    const base = { name: indicator.name, critical: indicator.critical, checkedAt: new Date(start).toISOString() };
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const details = await Promise.race([
+        indicator.check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+          timer.unref();
+        }),
+      ]);
+      return { ...base, status: 'up', durationMs: this.now() - start, ...(details ? { details } : {}) };
+    } catch (error) {
+      return { ...base, status: 'down', durationMs: this.now() - start, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { HealthRegistry } from './health-registry';
+import { registerHealthRoutes } from './health-routes';
+
+describe('registerHealthRoutes', () => {
+  let app: FastifyInstance;
+
+  const createApp = async (health: HealthRegistry) => {
+    app = Fastify();
+    registerHealthRoutes(app, health);
+    await app.ready();
+    return app;
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should stay live while a critical dependency is down', async () => {
+    const health = new HealthRegistry().register({ name: 'database', critical: true, check: async () => Promise.reject(new Error('ECONNREFUSED')) });
+    await createApp(health);
+
+    const live = await app.inject({ method: 'GET', url: '/health/live' });
+    const ready = await app.inject({ method: 'GET', url: '/health/ready' });
+
+    expect(live.statusCode).toBe(200);
+    expect(ready.statusCode).toBe(503);
+    expect(ready.json()).toEqual({ status: 'down', timestamp: expect.any(String) });
+    expect(ready.body).not.toContain('ECONNREFUSED');
+  });
+
+  it('should stay ready while degraded and keep /health as an alias', async () => {
+    const health = new HealthRegistry().register({ name: 'broker', critical: false, check: async () => Promise.reject(new Error('ECONNREFUSED')) });
+    await createApp(health);
+
+    const ready = await app.inject({ method: 'GET', url: '/health/ready' });
+    const legacy = await app.inject({ method: 'GET', url: '/health' });
+
+    expect(ready.statusCode).toBe(200);
+    expect(ready.json().status).toBe('degraded');
+    expect(legacy.statusCode).toBe(200);
+  });
+
+  it('should fail readiness once shutting down', async () => {
+    const health = new HealthRegistry();
+    await createApp(health);
+
+    health.markShuttingDown();
+    const ready = await app.inject({ method: 'GET', url: '/health/ready' });
+
+    expect(ready.statusCode).toBe(503);
+    expect(ready.json().status).toBe('shutting_down');
+  });
+});
@@ -0,0 +1,52 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { HealthRegistry } from './health-registry';
+
+const probeResponse = (description: string) => ({
+  description,
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['ok', 'degraded', 'down', 'shutting_down'] },
+    timestamp: { type: 'string' },
+  },
+});
+
+/**
+ * Probe routes for orchestrators and load balancers. Liveness only says the
+ * event loop answers, so a dependency outage never gets the process
+ * restarted; readiness runs the registry's checks. Neither names the failing
+ * dependency: that is in the admin report.
+ * @param fastify - Instance to add the routes to
+ * @param health - Registry readiness is decided by
+ */
+export function registerHealthRoutes(fastify: FastifyInstance, health: HealthRegistry): void {
+  fastify.get('/health/live', {
+    schema: {
+      description: 'Liveness probe: the process is running and serving requests. Never checks dependencies.',
+      tags: ['Health'],
+      summary: 'Liveness probe',
+      response: { 200: probeResponse('Process is alive') },
+    },
+  }, async () => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  });
+
+  const ready = {
+    schema: {
+      description: 'Readiness probe: 503 while a critical dependency is down or the server is shutting down. Results are cached for a few seconds.',
+      tags: ['Health'],
+      summary: 'Readiness probe',
+      response: {
+        200: probeResponse('Ready for traffic; degraded when a non-critical dependency is down'),
+        503: probeResponse('Not ready for traffic'),
+      },
+    },
+  };
+  const readyHandler = async (_request: FastifyRequest, reply: FastifyReply) => {
+    const { ready, report } = await health.readiness();
+    reply.code(ready ? 200 : 503);
+    return { status: report.status, timestamp: new Date().toISOString() };
+  };
+  fastify.get('/health/ready', ready, readyHandler);
+  // Earlier probe path, kept for existing load balancer configuration
+  fastify.get('/health', { schema: { ...ready.schema, description: 'Alias of /health/ready', deprecated: true } }, readyHandler);
+}
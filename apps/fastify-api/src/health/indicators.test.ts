@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InMemoryEventBroker } from '../events/event-broker';
+import { brokerIndicator, cacheIndicator, databaseIndicator, secretsIndicator } from './indicators';
+
+describe('Health indicators', () => {
+  it('should query the database and report pool counts', async () => {
+    const pool = { query: vi.fn().mockResolvedValue({ rows: [] }), totalCount: 4, idleCount: 3, waitingCount: 0 };
+    const database = databaseIndicator(pool as never);
+
+    expect(database).toMatchObject({ name: 'database', critical: true });
+    expect(await database.check()).toEqual({ totalConnections: 4, idleConnections: 3, waitingClients: 0 });
+    expect(pool.query).toHaveBeenCalledWith('SELECT 1');
+  });
+
+  it('should fail the cache check without queueing while Redis reconnects', async () => {
+    const redis = { status: 'reconnecting', ping: vi.fn().mockResolvedValue('PONG') };
+
+    await expect(cacheIndicator(redis as never).check()).rejects.toThrow('Redis connection is reconnecting');
+    expect(redis.ping).not.toHaveBeenCalled();
+
+    redis.status = 'ready';
+    await cacheIndicator(redis as never).check();
+    expect(redis.ping).toHaveBeenCalled();
+  });
+
+  it('should treat brokers without a health check as up', async () => {
+    const broker = brokerIndicator(new InMemoryEventBroker());
+
+    expect(broker.critical).toBe(false);
+    await expect(broker.check()).resolves.toBeUndefined();
+  });
+
+  it('should name the secret providers that cannot be reached', async () => {
+    const secrets = {
+      healthCheck: vi.fn().mockResolvedValue({
+        healthy: false,
+        providers: [
+          { provider: 'aws-secrets-manager', healthy: false, durationMs: 2, error: 'AccessDeniedException' },
+          { provider: 'ssm', healthy: true, durationMs: 1 },
+        ],
+      }),
+    };
+
+    await expect(secretsIndicator(secrets).check()).rejects.toThrow('Unavailable providers: aws-secrets-manager (AccessDeniedException)');
+  });
+
+  it('should let callers override criticality', () => {
+    const redis = { status: 'ready', ping: vi.fn() };
+
+    expect(cacheIndicator(redis as never, { critical: false, timeoutMs: 500 })).toMatchObject({ critical: false, timeoutMs: 500 });
+  });
+});
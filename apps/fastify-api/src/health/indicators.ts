@@ -0,0 +1,94 @@
+import type { Pool } from 'pg';
+import type { Redis } from 'ioredis';
+import type { SecretsHealth } from '@libs/secrets';
+import type { Queryable } from '../database/pool';
+import type { EventBroker } from '../events/event-broker';
+import type { HealthIndicator } from './health-registry';
+
+// Criticality and timeout of an indicator, overriding its default
+export type IndicatorOptions = Partial<Pick<HealthIndicator, 'critical' | 'timeoutMs'>>;
+
+/**
+ * PostgreSQL answers a query on a pooled connection. Critical: almost every
+ * route reads or writes the database.
+ * @param pool - Application pool
+ * @param options - Overrides
+ * @returns Indicator reporting the pool's connection counts
+ */
+export function databaseIndicator(
+  pool: Queryable & Pick<Pool, 'totalCount' | 'idleCount' | 'waitingCount'>,
+  options: IndicatorOptions = {}
+): HealthIndicator {
+  return {
+    name: 'database',
+    critical: true,
+    ...options,
+    check: async () => {
+      await pool.query('SELECT 1');
+      return { totalConnections: pool.totalCount, idleConnections: pool.idleCount, waitingClients: pool.waitingCount };
+    },
+  };
+}
+
+/**
+ * Redis answers PING. Critical by default: stores configured for Redis,
+ * such as token revocation, have no fallback while it is down.
+ * @param redis - Shared client
+ * @param options - Overrides
+ * @returns Indicator
+ */
+export function cacheIndicator(redis: Pick<Redis, 'ping' | 'status'>, options: IndicatorOptions = {}): HealthIndicator {
+  return {
+    name: 'cache',
+    critical: true,
+    ...options,
+    check: async () => {
+      // Commands wait in the offline queue while reconnecting; fail fast instead
+      if (redis.status !== 'ready') {
+        throw new Error(`Redis connection is ${redis.status}`);
+      }
+      await redis.ping();
+    },
+  };
+}
+
+/**
+ * The event broker answers. Not critical: events wait in the outbox and are
+ * published once the broker is back.
+ * @param broker - Broker the outbox relay publishes to
+ * @param options - Overrides
+ * @returns Indicator; brokers without a health check are always up
+ */
+export function brokerIndicator(broker: EventBroker, options: IndicatorOptions = {}): HealthIndicator {
+  return {
+    name: 'broker',
+    critical: false,
+    ...options,
+    check: async () => {
+      await broker.healthCheck?.();
+    },
+  };
+}
+
+/**
+ * Every secret provider of the chain can be reached. Not critical: cached
+ * values keep being served, and the chain falls through to later providers.
+ * @param secrets - Secrets manager
+ * @param options - Overrides
+ * @returns Indicator reporting each provider
+ */
+export function secretsIndicator(secrets: { healthCheck(): Promise<SecretsHealth> }, options: IndicatorOptions = {}): HealthIndicator {
+  return {
+    name: 'secrets',
+    critical: false,
+    ...options,
+    check: async () => {
+      const health = await secrets.healthCheck();
+      const failed = health.providers.filter((provider) => !provider.healthy);
+      if (failed.length > 0) {
+        throw new Error(`Unavailable providers: ${failed.map((provider) => `${provider.provider} (${provider.error})`).join(', ')}`);
+      }
+      return { providers: health.providers.map((provider) => provider.provider) };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+  createMailTransport
+} from './mail-transport';
+
+const message = { to: 'demo@example.com', subject: 'Reset your password', text: 'Open the link' };
+
+describe('Mail transports', () => {
+  describe('SmtpMailTransport', () => {
+    it('should send through the SMTP transporter with the configured sender', async () => {
+      const sendMail = vi.fn().mockResolvedValue({ messageId: '1' });
+      const transport = new SmtpMailTransport({ host: 'smtp.example.com', port: 587, from: 'no-reply@example.com' }, { sendMail });
+
+      await transport.send(message);
+
+      expect(sendMail).toHaveBeenCalledWith({ from: 'no-reply@example.com', ...message });
+    });
+  });
+
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each message as JSON', async () => {
+      await new FileMailTransport(path.join(directory, 'outbox')).send(message);
+
+      const files = await fs.readdir(path.join(directory, 'outbox'));
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/demo@example\.com\.json$/);
+      expect(JSON.parse(await fs.readFile(path.join(directory, 'outbox', files[0]), 'utf8'))).toEqual(message);
+    });
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the recipient, subject and body', async () => {
+      const log = vi.fn();
+
+      await new ConsoleMailTransport(log).send(message);
+
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('demo@example.com: Reset your password'));
+      expect(log.mock.calls[0][0]).toContain('Open the link');
+    });
+  });
+
+  describe('createMailTransport', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should default to the console transport', () => {
+      delete process.env['MAIL_TRANSPORT'];
+
+      expect(createMailTransport()).toBeInstanceOf(ConsoleMailTransport);
+    });
+
+    it('should build SMTP and file transports from the environment', () => {
+      process.env['MAIL_TRANSPORT'] = 'smtp';
+      process.env['SMTP_HOST'] = 'smtp.example.com';
+      expect(createMailTransport()).toBeInstanceOf(SmtpMailTransport);
+
+      process.env['MAIL_TRANSPORT'] = 'file';
+      expect(createMailTransport()).toBeInstanceOf(FileMailTransport);
+    });
+
+    it('should require SMTP_HOST for the SMTP transport', () => {
+      process.env['MAIL_TRANSPORT'] = 'smtp';
+      delete process.env['SMTP_HOST'];
+
+      expect(() => createMailTransport()).toThrow('SMTP_HOST');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers transactional email such as password reset links
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * MailTransport that delivers through an SMTP relay
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Pick<nodemailer.Transporter, 'sendMail'>;
+
+  constructor(private readonly options: SmtpOptions, transporter?: Pick<nodemailer.Transporter, 'sendMail'>) {
+    this.transporter = transporter ?? nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message });
+  }
+}
+
+/**
+ * MailTransport that writes each message to a JSON file, for local
+ * development and end-to-end tests that need to read the mail back
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+/**
+ * MailTransport that prints messages to the console
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly log: (line: string) => void = console.log) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Selects a mail transport from MAIL_TRANSPORT (smtp, file or console)
+ * @returns Configured transport; console when nothing is configured
+ */
+export function createMailTransport(): MailTransport {
+  const transport = process.env['MAIL_TRANSPORT'] || 'console';
+
+  if (transport === 'smtp') {
+    const host = process.env['SMTP_HOST'];
+    if (!host) {
+      throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT=smtp');
+    }
+    return new SmtpMailTransport({
+      host,
+      port: parseInt(process.env['SMTP_PORT'] || '587'),
+      secure: process.env['SMTP_SECURE'] === 'true',
+      user: process.env['SMTP_USER'],
+      password: process.env['SMTP_PASSWORD'],
+      from: process.env['MAIL_FROM'] || 'no-reply@example.com',
+    });
+  }
+
+  if (transport === 'file') {
+    return new FileMailTransport(process.env['MAIL_FILE_DIR'] || path.join(process.cwd(), 'tmp', 'mail'));
+  }
+
+  if (process.env['NODE_ENV'] === 'production') {
+    console.warn('⚠️  MAIL_TRANSPORT is not configured; emails are only logged to the console');
+  }
+  return new ConsoleMailTransport();
+}
@@ -1,36 +1,96 @@
-import Fastify from 'fastify';
+import Fastify, { FastifyRequest } from 'fastify';
 import fastifyCors from '@fastify/cors';
 import fastifyHelmet from '@fastify/helmet';
-import fastifyJwt from '@fastify/jwt';
+import fastifyJwt, { TokenOrHeader } from '@fastify/jwt';
 import fastifySwagger from '@fastify/swagger';
 import fastifySwaggerUi from '@fastify/swagger-ui';
+import fastifyWebsocket from '@fastify/websocket';
 import bcrypt from 'bcryptjs';
 import dotenv from 'dotenv';
-import { EnterpriseSecretsManager } from './enterprise-secrets-manager.js';
-
-// Database credentials interface
-interface DatabaseCredentials {
-  host: string;
-  port: number;
-  database: string;
-  username: string;
-  password: string;
-}import {
+import { randomUUID } from 'crypto';
+import { EnterpriseSecretsManager, DatabaseCredentials, FieldEncryptor, JwtAlgorithm, SecretsError } from '@libs/secrets';
+import { createDatabasePool, withTransaction } from './database/pool';
+import { createRedisClient } from './database/redis';
+import { MigrationRunner } from './database/migrator';
+import { migrations } from './database/migrations';
+import {
+  UserRepository,
+  PostgresUserRepository,
+  UserAlreadyExistsError
+} from './repositories/user-repository';
+import { PostgresSessionRepository } from './repositories/session-repository';
+import { PostgresEventRepository } from './repositories/event-repository';
+import { PostgresDeadLetterRepository } from './repositories/dead-letter-repository';
+import { PostgresPasswordResetRepository } from './repositories/password-reset-repository';
+import { PostgresMfaRepository } from './repositories/mfa-repository';
+import { PostgresApiRequestRepository } from './repositories/api-request-repository';
+import { RefreshTokenService, RefreshTokenError } from './services/refresh-token-service';
+import { PasswordResetService } from './services/password-reset-service';
+import { EmailVerificationService } from './services/email-verification-service';
+import { MfaService } from './services/mfa-service';
+import { JwtKeyring } from './services/jwt-keyring';
+import { createMailTransport } from './mail/mail-transport';
+import { createEventBroker } from './events/event-broker';
+import { OutboxRelay } from './events/outbox-relay';
+import { EventConsumer } from './events/event-consumer';
+import { EventStreamHub } from './events/event-stream';
+import { EventSchemaRegistry } from './events/event-schema-registry';
+import { EVENT_CATALOG } from './events/event-catalog';
+import {
+  TokenRevocationStore,
+  InMemoryTokenRevocationStore,
+  PostgresTokenRevocationStore,
+  RedisTokenRevocationStore
+} from './stores/token-revocation-store';
+import {
+  RateLimitStore,
+  InMemoryRateLimitStore,
+  RedisRateLimitStore
+} from './stores/rate-limit-store';
+import {
+  IdempotencyStore,
+  InMemoryIdempotencyStore,
+  PostgresIdempotencyStore,
+  RedisIdempotencyStore
+} from './stores/idempotency-store';
+import {
   User,
   JwtPayload,
   LoginRequest,
   RegisterRequest,
   ProfileUpdateRequest,
-  EventRequest
+  RefreshRequest,
+  UnverifiedAccessPolicy
 } from './types';
 import {
-  authenticateUser,
+  createAuthenticateUser,
+  createAccessTokenVerifier,
   validateEmail,
   validatePassword,
-  validateName,
-  checkRateLimit,
-  resetRateLimit
+  validateName
 } from './middleware/auth';
+import { RateLimiter, DEFAULT_RATE_LIMIT_POLICIES } from './middleware/rate-limit';
+import { IdempotencyHandler } from './middleware/idempotency';
+import { resolvePermissions } from './middleware/permissions';
+import { genRequestId, registerRequestTracing, tracingLoggerOptions } from './middleware/request-tracing';
+import { registerMetrics } from './middleware/metrics';
+import { IpLogMode, registerRequestLog, RequestLogWriter } from './middleware/request-log';
+import { MetricsRegistry } from './metrics/registry';
+import { registerRuntimeMetrics } from './metrics/runtime';
+import { createApiMetrics, LoginResult } from './metrics/api-metrics';
+import { Tracer } from './tracing/tracer';
+import { OtlpHttpSpanExporter, parseOtlpHeaders } from './tracing/span-exporters';
+import { traceQueries } from './tracing/database';
+import { HealthRegistry } from './health/health-registry';
+import { brokerIndicator, cacheIndicator, databaseIndicator, secretsIndicator } from './health/indicators';
+import { registerHealthRoutes } from './health/health-routes';
+import { registerGracefulShutdown } from './health/graceful-shutdown';
+import { systemRoutes } from './routes/system-routes';
+import { passwordResetRoutes } from './routes/password-reset-routes';
+import { emailVerificationRoutes } from './routes/email-verification-routes';
+import { mfaRoutes } from './routes/mfa-routes';
+import { eventRoutes } from './routes/event-routes';
+import { eventStreamRoutes } from './routes/event-stream-routes';
 
 // Load environment variables (fallback for development)
 dotenv.config();
@@ -65,21 +125,84 @@ validateEnvironment();
 // Initialize secrets management
 const secretsManager = new EnterpriseSecretsManager();
 
+// Spans go to an OpenTelemetry collector when OTEL_EXPORTER_OTLP_ENDPOINT is
+// set; without it trace ids still reach logs, error bodies and events
+const tracer = new Tracer({
+  exporter: process.env['OTEL_EXPORTER_OTLP_ENDPOINT']
+    ? new OtlpHttpSpanExporter({
+      endpoint: process.env['OTEL_EXPORTER_OTLP_ENDPOINT'],
+      serviceName: process.env['OTEL_SERVICE_NAME'] || 'fastify-api',
+      headers: parseOtlpHeaders(process.env['OTEL_EXPORTER_OTLP_HEADERS']),
+    })
+    : null,
+  sampleRatio: parseFloat(process.env['OTEL_TRACES_SAMPLER_ARG'] || '1'),
+});
+
+// Prometheus metrics, served at /metrics to scrapers holding the metrics token
+const metricsRegistry = new MetricsRegistry();
+const stopRuntimeMetrics = registerRuntimeMetrics(metricsRegistry);
+const apiMetrics = createApiMetrics(metricsRegistry, secretsManager);
+const countLogin = (result: LoginResult) => apiMetrics.loginAttempts.inc({ result });
+
+// Password hashing dominates login and registration latency, so it gets its own spans
+const hashPassword = (password: string): Promise<string> =>
+  tracer.withSpan('bcrypt.hash', { attributes: { 'bcrypt.rounds': 10 } }, () => bcrypt.hash(password, 10));
+
+// Access tokens are short-lived to match the web app's idle timeout and are
+// renewed through /api/auth/refresh
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = parseInt(process.env['REFRESH_TOKEN_TTL_DAYS'] || '7') * 24 * 60 * 60 * 1000;
+const REVOCATION_PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// How long responses to requests with an Idempotency-Key are replayed
+const IDEMPOTENCY_TTL_MS = parseInt(process.env['IDEMPOTENCY_TTL_HOURS'] || '24') * 60 * 60 * 1000;
+
+// Kafka topic the outbox relay publishes application events to
+const EVENTS_TOPIC = process.env['EVENTS_TOPIC'] || 'app-events';
+// Consumer group the API's own event handlers commit offsets under
+const EVENT_CONSUMER_GROUP = process.env['EVENT_CONSUMER_GROUP'] || 'fastify-api';
+// Keep-alive interval of event streams, below common proxy idle timeouts
+const EVENT_STREAM_HEARTBEAT_MS = parseInt(process.env['EVENT_STREAM_HEARTBEAT_MS'] || '15000');
+// How often open event streams check their token is not revoked and the user still active
+const EVENT_STREAM_RECHECK_MS = parseInt(process.env['EVENT_STREAM_RECHECK_MS'] || '60000');
+
+// Request log behind the usage analytics: share of requests recorded, how
+// client addresses are stored (full, truncated or none) and how long rows are kept
+const REQUEST_LOG_SAMPLE_RATE = parseFloat(process.env['REQUEST_LOG_SAMPLE_RATE'] || '1');
+const REQUEST_LOG_IP = (process.env['REQUEST_LOG_IP'] || 'truncated') as IpLogMode;
+const REQUEST_LOG_RETENTION_MS = parseInt(process.env['REQUEST_LOG_RETENTION_DAYS'] || '30') * 24 * 60 * 60 * 1000;
+
+// Public URL of the web app, used for links in emails
+const APP_URL = process.env['APP_URL'] || 'http://localhost:4200';
+
+// What users who have not verified their email may do: `allow` everything,
+// `limited` only their profile and logout, `block` not even sign in
+const EMAIL_VERIFICATION_POLICY = (process.env['EMAIL_VERIFICATION_POLICY'] || 'limited') as UnverifiedAccessPolicy;
+const EMAIL_VERIFICATION_TTL_MS = parseInt(process.env['EMAIL_VERIFICATION_TTL_HOURS'] || '48') * 60 * 60 * 1000;
+
+// JWT signing keys: new keys use JWT_ALGORITHM; replaced keys verify for
+// the grace window, which must exceed the longest token lifetime. New keys
+// are published ahead of use for longer than the secrets cache takes to
+// notice them, so every instance can verify them before any signs with them.
+const JWT_ALGORITHM = (process.env['JWT_ALGORITHM'] || 'HS256') as JwtAlgorithm;
+const JWT_KEY_GRACE_MS = parseInt(process.env['JWT_KEY_GRACE_MINUTES'] || '60') * 60 * 1000;
+const JWT_KEY_ACTIVATION_DELAY_MS = parseInt(process.env['JWT_KEY_ACTIVATION_MINUTES'] || '10') * 60 * 1000;
+// Unset leaves rotation to `secrets-init rotate jwt-signing-keys`
+const JWT_KEY_ROTATION_MS = process.env['JWT_KEY_ROTATION_DAYS']
+  ? parseFloat(process.env['JWT_KEY_ROTATION_DAYS']) * 24 * 60 * 60 * 1000
+  : null;
+
+// Second login step: the challenge token is only good for /api/auth/mfa/verify
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+const MFA_ISSUER = process.env['MFA_ISSUER'] || 'Enterprise NX Monorepo';
+
+
 async function createApp() {
   // Initialize secrets first
   let jwtSecret: string;
-  let databaseCredentials: DatabaseCredentials | null = null;
 
   try {
-    // Get secrets from AWS Secrets Manager or environment variables
+    // Read through this environment's secret provider chain
     jwtSecret = await secretsManager.getJwtSecret();
-
-    // For now, we'll use environment variables for database
-    // In the future, this will come from AWS Secrets Manager
-    if (process.env['NODE_ENV'] === 'production') {
-      databaseCredentials = await secretsManager.getDatabaseCredentials();
-    }
-
     console.log('✅ Secrets initialized successfully');
   } catch (error) {
     console.error('❌ Failed to initialize secrets:', error);
@@ -88,7 +211,163 @@ async function createApp() {
     console.warn('⚠️  Using fallback secrets for development');
   }
 
-  const fastify = Fastify({ logger: true });
+  // Database credentials come from the provider chain as well; in development
+  // and test DB_* variables and local defaults fill in when no provider has them
+  const databaseCredentials: DatabaseCredentials = await secretsManager.getDatabaseCredentials();
+  // New connections look the password up again; the secrets cache answers,
+  // so a rotated password is used without a restart
+  const pool = traceQueries(createDatabasePool(
+    databaseCredentials,
+    async () => (await secretsManager.getDatabaseCredentials()).password
+  ), tracer);
+
+  // Bring the schema up to date before serving traffic; the runner's advisory
+  // lock makes this safe when several replicas start at once
+  if (process.env['DB_MIGRATE_ON_STARTUP'] !== 'false') {
+    await new MigrationRunner(pool, migrations).up();
+  }
+  const userRepository: UserRepository = new PostgresUserRepository(pool);
+  const refreshTokenService = new RefreshTokenService(new PostgresSessionRepository(pool), REFRESH_TOKEN_TTL_MS);
+
+  // Denylist for access tokens revoked by logout. Redis shares revocations
+  // across replicas without a purge job; PostgreSQL is the default.
+  const revocationBackend = process.env['TOKEN_REVOCATION_STORE'] || 'postgres';
+  const rateLimitBackend = process.env['RATE_LIMIT_STORE'] || 'memory';
+  const idempotencyBackend = process.env['IDEMPOTENCY_STORE'] || 'postgres';
+  const redisUrl = process.env['REDIS_URL'];
+  const redis = [revocationBackend, rateLimitBackend, idempotencyBackend].includes('redis') && redisUrl
+    ? createRedisClient(redisUrl)
+    : null;
+  let revocationStore: TokenRevocationStore;
+  if (redis && revocationBackend === 'redis') {
+    revocationStore = new RedisTokenRevocationStore(redis, ACCESS_TOKEN_TTL_SECONDS * 1000);
+  } else if (revocationBackend === 'memory') {
+    revocationStore = new InMemoryTokenRevocationStore(ACCESS_TOKEN_TTL_SECONDS * 1000);
+  } else {
+    if (revocationBackend === 'redis') {
+      console.warn('⚠️  TOKEN_REVOCATION_STORE=redis but REDIS_URL is not set; using PostgreSQL');
+    }
+    revocationStore = new PostgresTokenRevocationStore(pool, ACCESS_TOKEN_TTL_SECONDS * 1000);
+  }
+
+  // Rate limit counters. Memory only limits per process, so replicated
+  // deployments should use Redis.
+  let rateLimitStore: RateLimitStore;
+  if (redis && rateLimitBackend === 'redis') {
+    rateLimitStore = new RedisRateLimitStore(redis);
+  } else {
+    if (rateLimitBackend === 'redis') {
+      console.warn('⚠️  RATE_LIMIT_STORE=redis but REDIS_URL is not set; using memory');
+    }
+    rateLimitStore = new InMemoryRateLimitStore();
+  }
+  // Requests are let through when the store is unreachable
+  const rateLimiter = new RateLimiter(rateLimitStore, DEFAULT_RATE_LIMIT_POLICIES, {
+    onError: (error, request) => request.log.error({ err: error }, 'Rate limit store error'),
+    onResult: (group, allowed, policy) => apiMetrics.rateLimitDecisions.inc({
+      group,
+      policy: policy?.name ?? '',
+      result: allowed ? 'allowed' : 'limited',
+    }),
+  });
+
+  // Stored responses for Idempotency-Key retries, shared through PostgreSQL by
+  // default. Like rate limits, the request runs normally if the store fails.
+  let idempotencyStore: IdempotencyStore;
+  if (redis && idempotencyBackend === 'redis') {
+    idempotencyStore = new RedisIdempotencyStore(redis);
+  } else if (idempotencyBackend === 'memory') {
+    idempotencyStore = new InMemoryIdempotencyStore();
+  } else {
+    if (idempotencyBackend === 'redis') {
+      console.warn('⚠️  IDEMPOTENCY_STORE=redis but REDIS_URL is not set; using PostgreSQL');
+    }
+    idempotencyStore = new PostgresIdempotencyStore(pool);
+  }
+  const idempotency = new IdempotencyHandler(idempotencyStore, {
+    ttlMs: IDEMPOTENCY_TTL_MS,
+    onError: (error, request) => request.log.error({ err: error }, 'Idempotency store error')
+  });
+
+  const authenticateOptions = {
+    revocationStore,
+    userRepository,
+    unverifiedAccess: EMAIL_VERIFICATION_POLICY
+  };
+  const authenticateUser = createAuthenticateUser(authenticateOptions);
+
+  const mailTransport = createMailTransport();
+
+  const passwordResetService = new PasswordResetService(
+    userRepository,
+    new PostgresPasswordResetRepository(pool),
+    mailTransport,
+    {
+      resetUrl: `${APP_URL}/reset-password`,
+      hashPassword,
+    }
+  );
+
+  const emailVerificationService = new EmailVerificationService(userRepository, mailTransport, {
+    secret: jwtSecret,
+    verifyUrl: `${APP_URL}/verify-email`,
+    ttlMs: EMAIL_VERIFICATION_TTL_MS,
+  });
+
+  // Sensitive columns such as TOTP secrets are encrypted with the master keys
+  // in `field-encryption-keys`; until that secret exists they are stored as plaintext
+  let fieldEncryptor: FieldEncryptor | null = new FieldEncryptor(secretsManager, { logger: console });
+  try {
+    await fieldEncryptor.load();
+    fieldEncryptor.start();
+  } catch (error) {
+    if (!(error instanceof SecretsError && error.code === 'SECRET_NOT_FOUND')) {
+      throw error;
+    }
+    console.warn('⚠️  field-encryption-keys not found; sensitive columns are stored unencrypted');
+    fieldEncryptor = null;
+  }
+
+  const mfaService = new MfaService(new PostgresMfaRepository(pool, fieldEncryptor), { issuer: MFA_ISSUER });
+
+  // Events are stored with an outbox row and published to the broker by the relay
+  const eventRepository = new PostgresEventRepository(pool);
+  const eventSchemas = new EventSchemaRegistry(EVENT_CATALOG);
+  const eventBroker = createEventBroker();
+  const deadLetterRepository = new PostgresDeadLetterRepository(pool);
+
+  // Dependencies /health/ready checks; it fails while a critical one is down
+  const health = new HealthRegistry({
+    timeoutMs: parseInt(process.env['HEALTH_CHECK_TIMEOUT_MS'] || '2000'),
+    cacheTtlMs: parseInt(process.env['HEALTH_CHECK_CACHE_MS'] || '5000'),
+  });
+  health.register(databaseIndicator(pool));
+  if (redis) {
+    health.register(cacheIndicator(redis));
+  }
+  health.register(brokerIndicator(eventBroker));
+  health.register(secretsIndicator(secretsManager));
+
+  // Scrapers send the `metrics-token` secret; until it exists only loopback
+  // clients may read /metrics
+  let metricsToken: string | null = null;
+  try {
+    metricsToken = await secretsManager.getSecret('metrics-token');
+  } catch (error) {
+    if (!(error instanceof SecretsError && error.code === 'SECRET_NOT_FOUND')) {
+      throw error;
+    }
+  }
+
+  const fastify = Fastify({ logger: tracingLoggerOptions(tracer), genReqId: genRequestId });
+  registerRequestTracing(fastify, tracer);
+  registerMetrics(fastify, metricsRegistry, { token: metricsToken });
+
+  // Requests are written to api_requests in batches, off the request path
+  const apiRequestRepository = new PostgresApiRequestRepository(pool);
+  const requestLog = new RequestLogWriter(apiRequestRepository, { retentionMs: REQUEST_LOG_RETENTION_MS, logger: fastify.log });
+  registerRequestLog(fastify, requestLog, { sampleRate: REQUEST_LOG_SAMPLE_RATE, ipMode: REQUEST_LOG_IP });
+  requestLog.start();
 
   // Log startup environment info
   fastify.log.info('Server starting up...');
@@ -112,7 +391,20 @@ async function createApp() {
     }
   }
 
-  // Register core plugins with the correct JWT secret
+  // Signing keys come from the `jwt-signing-keys` secret; until one is
+  // stored, tokens are signed with the JWT secret above
+  const jwtKeyring = new JwtKeyring(secretsManager, {
+    algorithm: JWT_ALGORITHM,
+    graceMs: JWT_KEY_GRACE_MS,
+    activationDelayMs: JWT_KEY_ACTIVATION_DELAY_MS,
+    rotationIntervalMs: JWT_KEY_ROTATION_MS,
+    legacySecret: jwtSecret,
+    logger: fastify.log,
+  });
+  await jwtKeyring.load();
+  jwtKeyring.start();
+
+  // Register core plugins
   fastify.register(fastifyHelmet);
   fastify.register(fastifyCors, {
     origin: process.env['NODE_ENV'] === 'production'
@@ -121,32 +413,127 @@ async function createApp() {
     credentials: true,
   });
 
-  // Register JWT with the secret we retrieved
+  // request.jwtVerify() looks the key up by the token's kid header; tokens
+  // are signed through the keyring, never by the plugin
   fastify.register(fastifyJwt, {
-    secret: jwtSecret,
+    secret: {
+      public: async (_request: FastifyRequest, token: TokenOrHeader) => {
+        const kid = 'header' in token ? token.header.kid : token.kid;
+        const verification = jwtKeyring.verificationKey(kid);
+        if (!verification) {
+          throw new Error('jwt signing key unknown');
+        }
+        return verification.key;
+      },
+    },
+    decode: { complete: true },
+  });
+  fastify.register(fastifyWebsocket, {
+    options: { maxPayload: 16 * 1024 },
   });
 
-  // Mock user database with CI-friendly setup
-  const users: User[] = [
-    {
-      id: '1',
-      email: 'admin@example.com',
-      password: process.env['CI'] === 'true' || process.env['NODE_ENV'] === 'test'
-        ? 'password' // Plain text for CI/test environments
-        : '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', // bcrypt hash for dev/prod
-      name: 'Admin User',
-      createdAt: new Date('2024-01-01T00:00:00Z').toISOString(),
+  // Same checks as authenticateUser, for tokens sent in WebSocket messages
+  const verifyAccessToken = createAccessTokenVerifier(
+    (token) => jwtKeyring.verify<JwtPayload>(token),
+    authenticateOptions
+  );
+
+  // Drop denylist entries for tokens that have expired anyway, idle rate
+  // limit counters, expired idempotency keys and requests past retention
+  const purgeTimer = setInterval(() => {
+    revocationStore.purgeExpired().catch((error) => {
+      fastify.log.error('Token revocation purge failed:', error);
+    });
+    rateLimitStore.purgeExpired().catch((error) => {
+      fastify.log.error('Rate limit purge failed:', error);
+    });
+    idempotencyStore.purgeExpired().catch((error) => {
+      fastify.log.error('Idempotency key purge failed:', error);
+    });
+    requestLog.purgeExpired().catch((error) => {
+      fastify.log.error('Request log purge failed:', error);
+    });
+  }, REVOCATION_PURGE_INTERVAL_MS);
+  purgeTimer.unref();
+
+
+  const outboxRelay = new OutboxRelay(eventRepository, eventBroker, {
+    logger: fastify.log,
+    tracer,
+    onPublish: (entry, durationMs, error) => {
+      apiMetrics.eventsPublished.inc({ topic: entry.topic, event_type: entry.event.type, result: error ? 'error' : 'success' });
+      apiMetrics.eventPublishDuration.observe({ topic: entry.topic }, durationMs / 1000);
     },
-    {
-      id: '2',
-      email: 'demo@example.com',
-      password: process.env['CI'] === 'true' || process.env['NODE_ENV'] === 'test'
-        ? 'password' // Plain text for CI/test environments
-        : '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', // bcrypt hash for 'password'
-      name: 'Demo User',
-      createdAt: new Date('2024-01-01T00:00:00Z').toISOString(),
+  });
+  outboxRelay.start();
+
+  // Handlers run at least once per event: failures are retried, then stored
+  // as dead letters for replay through the admin routes
+  const eventConsumer = new EventConsumer(eventBroker, deadLetterRepository, {
+    groupId: EVENT_CONSUMER_GROUP,
+    topics: [EVENTS_TOPIC],
+    registry: eventSchemas,
+    logger: fastify.log,
+  })
+    .on('user.registered.v1', async (event) => {
+      fastify.log.info(`User ${event.userId} registered`);
+    })
+    .on('equipment.checked_out.v1', async (event) => {
+      fastify.log.info(`Equipment ${event.data.equipmentId} checked out until ${event.data.dueAt}`);
+    })
+    .on('equipment.returned.v1', async (event) => {
+      const { equipmentId, condition } = event.data;
+      if (condition === 'damaged' || condition === 'needs_service') {
+        fastify.log.warn(`Equipment ${equipmentId} returned as ${condition}; flag it for maintenance`);
+      } else {
+        fastify.log.info(`Equipment ${equipmentId} returned`);
+      }
+    });
+  eventConsumer.start().catch((error) => {
+    fastify.log.error('Event consumer failed to start:', error);
+  });
+
+  // Pushes published events to browsers. The consumer group is unique per
+  // process so every instance sees every event; resuming clients catch up
+  // from the events table.
+  const eventStream = new EventStreamHub(eventBroker, {
+    groupId: `${EVENT_CONSUMER_GROUP}-stream-${randomUUID()}`,
+    topics: [EVENTS_TOPIC],
+    heartbeatIntervalMs: EVENT_STREAM_HEARTBEAT_MS,
+    loadBacklog: async (afterId, filter, limit) => {
+      const events = await eventRepository.listPublishedAfter(afterId, {
+        userId: filter.userId ?? undefined,
+        types: filter.types ?? undefined,
+        limit,
+      });
+      return events?.map(({ id, type, userId, data, createdAt }) => ({ id, type, userId, data, createdAt })) ?? null;
     },
-  ];
+    logger: fastify.log,
+  });
+  eventStream.start().catch((error) => {
+    fastify.log.error('Event stream failed to start:', error);
+  });
+
+  // Open streams would keep the server from closing
+  fastify.addHook('preClose', async () => {
+    await eventStream.stop();
+  });
+
+  // Release database connections when the server shuts down
+  fastify.addHook('onClose', async () => {
+    clearInterval(purgeTimer);
+    jwtKeyring.stop();
+    fieldEncryptor?.stop();
+    secretsManager.close();
+    await outboxRelay.stop();
+    await eventConsumer.stop();
+    await eventBroker.disconnect();
+    await redis?.quit();
+    await requestLog.stop();
+    await pool.end();
+    await tracer.shutdown();
+    stopRuntimeMetrics();
+  });
 
   // Register Swagger documentation
   fastify.register(fastifySwagger, {
@@ -176,7 +563,8 @@ async function createApp() {
       { name: 'Health', description: 'Health check endpoints' },
       { name: 'Authentication', description: 'User authentication endpoints' },
       { name: 'User', description: 'User management endpoints' },
-      { name: 'Events', description: 'Event publishing endpoints' }
+      { name: 'Events', description: 'Event publishing endpoints' },
+      { name: 'System', description: 'Operational endpoints for administrators' }
     ]
   },
 });
@@ -194,6 +582,56 @@ fastify.register(fastifySwaggerUi, {
 // Register routes as a plugin to ensure they're registered after Swagger
 fastify.register(async function (fastify) {
 
+// Mutating routes honour Idempotency-Key; the hooks run after each route's
+// own preHandlers so keys are scoped to the authenticated user. Routes that
+// return tokens, TOTP secrets or recovery codes opt out or omit those fields,
+// so they are never stored and a retried refresh still goes through rotation
+fastify.addHook('onRoute', (route) => idempotency.applyTo(route));
+
+// Every access token carries a unique jti so logout can revoke it, plus the
+// user's roles and effective permissions for requirePermission
+const signAccessToken = (user: User): string => {
+  const payload: JwtPayload = {
+    id: user.id,
+    email: user.email,
+    jti: randomUUID(),
+    roles: user.roles,
+    permissions: resolvePermissions(user.roles, user.permissions),
+  };
+  return jwtKeyring.sign(payload, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+};
+
+// Challenge issued after a correct password when the account has MFA; the
+// purpose claim makes authenticateUser refuse it as an access token
+const signMfaChallenge = (user: User): string => {
+  const payload: JwtPayload = { id: user.id, email: user.email, purpose: 'mfa_challenge' };
+  return jwtKeyring.sign(payload, { expiresIn: MFA_CHALLENGE_TTL_SECONDS });
+};
+
+// Access and refresh tokens returned once every login step has passed
+const issueSession = async (user: User, request: FastifyRequest) => {
+  const token = signAccessToken(user);
+
+  const { refreshToken } = await refreshTokenService.issue(user.id, {
+    userAgent: request.headers['user-agent'],
+    ipAddress: request.ip
+  });
+
+  return {
+    token,
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      roles: user.roles,
+      permissions: resolvePermissions(user.roles, user.permissions),
+      emailVerified: user.emailVerifiedAt !== null,
+    },
+  };
+};
+
 // Global error handler
 fastify.setErrorHandler(async (error, request, reply) => {
   fastify.log.error(error);
@@ -236,29 +674,55 @@ fastify.setErrorHandler(async (error, request, reply) => {
   });
 });
 
-// Health check route
-fastify.get('/health', {
+// Liveness and readiness probes; /health stays as an alias of readiness
+registerHealthRoutes(fastify, health);
+
+// Dependency health, secrets metrics and usage analytics for administrators
+fastify.register(systemRoutes, { authenticateUser, health, secretsManager, apiRequestRepository });
+
+// Other services verify our tokens with these keys. HS256 keys are shared
+// secrets and never listed, so the set is empty until an RS256 or ES256 key
+// has been rotated in.
+fastify.get('/.well-known/jwks.json', {
   schema: {
-    description: 'API health check endpoint',
-    tags: ['Health'],
-    summary: 'Check API server health status',
+    description: 'Public keys that verify access tokens, including keys published ahead of use and keys within their grace window. Match a token to its key by the `kid` header.',
+    tags: ['Authentication'],
+    summary: 'JSON Web Key Set',
     response: {
       200: {
-        description: 'API is healthy',
+        description: 'JSON Web Key Set',
         type: 'object',
         properties: {
-          status: { type: 'string', description: 'Health status' },
-          timestamp: { type: 'string', description: 'Current timestamp' },
+          keys: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                kid: { type: 'string' },
+                alg: { type: 'string', enum: ['RS256', 'ES256'] },
+                use: { type: 'string' },
+                kty: { type: 'string' },
+                n: { type: 'string' },
+                e: { type: 'string' },
+                crv: { type: 'string' },
+                x: { type: 'string' },
+                y: { type: 'string' },
+              },
+            },
+          },
         },
       },
     },
   },
-}, async () => {
-  return { status: 'OK', timestamp: new Date().toISOString() };
+}, async (_request, reply) => {
+  reply.header('Cache-Control', 'public, max-age=300');
+  return jwtKeyring.jwks();
 });
 
 // Authentication routes
 fastify.post('/api/auth/login', {
+  preHandler: rateLimiter.hook('login'),
+  config: { idempotency: false },
   schema: {
     description: 'User login endpoint',
     tags: ['Authentication'],
@@ -273,16 +737,23 @@ fastify.post('/api/auth/login', {
     },
     response: {
       200: {
-        description: 'Successful login',
+        description: 'Successful login, or an MFA challenge when the account has two-factor authentication',
         type: 'object',
         properties: {
           token: { type: 'string', description: 'JWT authentication token' },
+          refreshToken: { type: 'string', description: 'Single-use refresh token' },
+          expiresIn: { type: 'number', description: 'Lifetime in seconds of the access token, or of the challenge token' },
+          mfaRequired: { type: 'boolean', description: 'True when the code must be sent to /api/auth/mfa/verify' },
+          challengeToken: { type: 'string', description: 'Short-lived MFA challenge token' },
           user: {
             type: 'object',
             properties: {
               id: { type: 'string', description: 'User ID' },
               email: { type: 'string', description: 'User email' },
               name: { type: 'string', description: 'User name' },
+              roles: { type: 'array', items: { type: 'string' }, description: 'Roles held by the user' },
+              permissions: { type: 'array', items: { type: 'string' }, description: 'Effective permissions' },
+              emailVerified: { type: 'boolean', description: 'Whether the email address has been verified' },
             },
           },
         },
@@ -295,6 +766,14 @@ fastify.post('/api/auth/login', {
           code: { type: 'string' }
         }
       },
+      403: {
+        description: 'Email address not verified and the policy blocks sign-in',
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+          code: { type: 'string' }
+        }
+      },
       429: {
         description: 'Too many login attempts',
         type: 'object',
@@ -307,22 +786,7 @@ fastify.post('/api/auth/login', {
   },
 }, async (request, reply) => {
   // Login helper functions to reduce complexity
-  const validateLoginInput = (email: string, clientIp: string): { isValid: boolean; error?: { code: number; body: { error: string; code: string } } } => {
-    // Rate limiting
-    if (!checkRateLimit(clientIp)) {
-      fastify.log.warn(`Rate limited login attempt from IP: ${clientIp}`);
-      return {
-        isValid: false,
-        error: {
-          code: 429,
-          body: {
-            error: 'Too many login attempts. Please try again later.',
-            code: 'RATE_LIMITED'
-          }
-        }
-      };
-    }
-
+  const validateLoginInput = (email: string): { isValid: boolean; error?: { code: number; body: { error: string; code: string } } } => {
     // Input validation
     if (!validateEmail(email)) {
       fastify.log.warn(`Invalid email format: ${email}`);
@@ -342,21 +806,15 @@ fastify.post('/api/auth/login', {
   };
 
   const validateUserPassword = async (password: string, user: User): Promise<boolean> => {
-    if (process.env['CI'] === 'true' || process.env['NODE_ENV'] === 'test') {
-      // For CI/test: simple string comparison
-      fastify.log.info('Using CI/test authentication mode');
-      return password === user.password;
-    } else {
-      // For dev/prod: bcrypt comparison
-      try {
-        const result = await bcrypt.compare(password, user.password);
-        fastify.log.info(`bcrypt.compare completed, result: ${result}`);
-        return result;
-      } catch (bcryptError) {
-        fastify.log.error('bcrypt.compare failed:', bcryptError);
-        const errorMessage = bcryptError instanceof Error ? bcryptError.message : 'Unknown bcrypt error';
-        throw new Error(`Password validation failed: ${errorMessage}`);
-      }
+    // Stored passwords are always bcrypt hashes, including the seeded accounts
+    try {
+      const result = await tracer.withSpan('bcrypt.compare', {}, () => bcrypt.compare(password, user.passwordHash));
+      fastify.log.info(`bcrypt.compare completed, result: ${result}`);
+      return result;
+    } catch (bcryptError) {
+      fastify.log.error('bcrypt.compare failed:', bcryptError);
+      const errorMessage = bcryptError instanceof Error ? bcryptError.message : 'Unknown bcrypt error';
+      throw new Error(`Password validation failed: ${errorMessage}`);
     }
   };
 
@@ -367,15 +825,17 @@ fastify.post('/api/auth/login', {
     fastify.log.info(`Login attempt for email: ${email} from IP: ${clientIp}`);
 
     // Validate input and rate limiting
-    const inputValidation = validateLoginInput(email, clientIp);
+    const inputValidation = validateLoginInput(email);
     if (!inputValidation.isValid && inputValidation.error) {
+      countLogin('invalid_email');
       return reply.code(inputValidation.error.code).send(inputValidation.error.body);
     }
 
     // Find user
-    const user = users.find(u => u.email === email);
-    if (!user) {
+    const user = await userRepository.findByEmail(email);
+    if (!user || !user.isActive) {
       fastify.log.warn(`User not found: ${email}`);
+      countLogin('invalid_credentials');
       return reply.code(401).send({
         error: 'Invalid credentials',
         code: 'INVALID_CREDENTIALS'
@@ -389,6 +849,7 @@ fastify.post('/api/auth/login', {
 
     if (!isValidPassword) {
       fastify.log.warn(`Invalid password for user: ${email}`);
+      countLogin('invalid_credentials');
       return reply.code(401).send({
         error: 'Invalid credentials',
         code: 'INVALID_CREDENTIALS'
@@ -397,27 +858,37 @@ fastify.post('/api/auth/login', {
 
     fastify.log.info(`Password validated successfully for user: ${email}`);
 
+    if (!user.emailVerifiedAt && EMAIL_VERIFICATION_POLICY === 'block') {
+      countLogin('email_not_verified');
+      return reply.code(403).send({
+        error: 'Email address not verified',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
     // Reset rate limit on successful login
-    resetRateLimit(clientIp);
+    await rateLimiter.reset('login', request);
 
-    // Generate JWT
-    const token = fastify.jwt.sign({
-      id: user.id,
-      email: user.email
-    }, { expiresIn: '15m' }); // 15 minutes to match idle timeout
+    // Accounts with a second factor get a challenge instead of tokens
+    if (await mfaService.isEnabled(user.id)) {
+      fastify.log.info(`MFA challenge issued for user: ${email}`);
+      countLogin('mfa_required');
+      return {
+        mfaRequired: true,
+        challengeToken: signMfaChallenge(user),
+        expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+      };
+    }
+
+    const session = await issueSession(user, request);
 
     fastify.log.info(`JWT token generated successfully for user: ${email}`);
+    countLogin('success');
 
-    return {
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-      },
-    };
+    return session;
   } catch (error) {
     fastify.log.error('Login error:', error);
+    countLogin('error');
 
     // Type-safe error logging
     if (error instanceof Error) {
@@ -439,6 +910,10 @@ fastify.post('/api/auth/login', {
 
 // Registration route
 fastify.post('/api/auth/register', {
+  preHandler: rateLimiter.hook('register'),
+  // A retried registration gets the original 201 without tokens; the client
+  // then logs in rather than receiving a stored token pair
+  config: { idempotency: { omitFields: ['token', 'refreshToken', 'expiresIn'] } },
   schema: {
     description: 'User registration endpoint',
     tags: ['Authentication'],
@@ -454,16 +929,22 @@ fastify.post('/api/auth/register', {
     },
     response: {
       201: {
-        description: 'User successfully registered',
+        description: 'User successfully registered. Tokens are omitted when unverified users may not sign in.',
         type: 'object',
         properties: {
+          verificationRequired: { type: 'boolean', description: 'Whether the user must verify their email address' },
           token: { type: 'string', description: 'JWT authentication token' },
+          refreshToken: { type: 'string', description: 'Single-use refresh token' },
+          expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
           user: {
             type: 'object',
             properties: {
               id: { type: 'string', description: 'User ID' },
               email: { type: 'string', description: 'User email' },
               name: { type: 'string', description: 'User name' },
+              roles: { type: 'array', items: { type: 'string' }, description: 'Roles held by the user' },
+              permissions: { type: 'array', items: { type: 'string' }, description: 'Effective permissions' },
+              emailVerified: { type: 'boolean', description: 'Whether the email address has been verified' },
             },
           },
         },
@@ -516,7 +997,7 @@ fastify.post('/api/auth/register', {
     }
 
     // Check if user already exists
-    const existingUser = users.find(u => u.email === email);
+    const existingUser = await userRepository.findByEmail(email);
     if (existingUser) {
       return reply.code(409).send({
         error: 'User already exists',
@@ -525,34 +1006,72 @@ fastify.post('/api/auth/register', {
     }
 
     // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
-
-    // Create user
-    const newUser = {
-      id: Date.now().toString(),
-      email,
-      password: hashedPassword,
-      name: name.trim(),
-      createdAt: new Date().toISOString(),
+    const hashedPassword = await hashPassword(password);
+
+    // Create user; the registration event commits or rolls back with it
+    const newUser = await withTransaction(pool, async (tx) => {
+      const created = await new PostgresUserRepository(tx).create({
+        email,
+        passwordHash: hashedPassword,
+        name: name.trim(),
+      });
+      const eventData = { email: created.email };
+      eventSchemas.validate('user.registered.v1', eventData);
+      await new PostgresEventRepository(tx).append({
+        type: 'user.registered.v1',
+        userId: created.id,
+        data: eventData,
+        topic: EVENTS_TOPIC,
+        traceparent: tracer.currentTraceparent(),
+      });
+      return created;
+    });
+    outboxRelay.notify();
+
+    // A failed email must not fail the registration; the user can resend
+    try {
+      await emailVerificationService.sendVerification(newUser);
+    } catch (mailError) {
+      fastify.log.error('Verification email error:', mailError);
+    }
+
+    const userBody = {
+      id: newUser.id,
+      email: newUser.email,
+      name: newUser.name,
+      roles: newUser.roles,
+      permissions: resolvePermissions(newUser.roles, newUser.permissions),
+      emailVerified: newUser.emailVerifiedAt !== null,
     };
 
-    users.push(newUser);
+    if (EMAIL_VERIFICATION_POLICY === 'block') {
+      return reply.code(201).send({ verificationRequired: true, user: userBody });
+    }
 
     // Generate JWT
-    const token = fastify.jwt.sign({
-      id: newUser.id,
-      email: newUser.email
-    }, { expiresIn: '15m' }); // 15 minutes to match idle timeout
+    const token = signAccessToken(newUser);
+
+    const { refreshToken } = await refreshTokenService.issue(newUser.id, {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip
+    });
 
     return reply.code(201).send({
       token,
-      user: {
-        id: newUser.id,
-        email: newUser.email,
-        name: newUser.name,
-      },
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      verificationRequired: EMAIL_VERIFICATION_POLICY !== 'allow',
+      user: userBody,
     });
   } catch (error) {
+    // Lost a race with a concurrent registration for the same email
+    if (error instanceof UserAlreadyExistsError) {
+      return reply.code(409).send({
+        error: 'User already exists',
+        code: 'USER_EXISTS'
+      });
+    }
+
     fastify.log.error('Registration error:', error);
     return reply.code(500).send({
       error: 'Internal server error',
@@ -561,9 +1080,202 @@ fastify.post('/api/auth/register', {
   }
 });
 
+// Refresh token route
+fastify.post('/api/auth/refresh', {
+  preHandler: rateLimiter.hook('refresh'),
+  config: { idempotency: false },
+  schema: {
+    description: 'Exchange a refresh token for a new access token',
+    tags: ['Authentication'],
+    summary: 'Rotate refresh token and issue a new JWT',
+    body: {
+      type: 'object',
+      required: ['refreshToken'],
+      properties: {
+        refreshToken: { type: 'string', minLength: 1, description: 'Refresh token from login, register or a previous refresh' },
+      },
+    },
+    response: {
+      200: {
+        description: 'Tokens successfully refreshed',
+        type: 'object',
+        properties: {
+          token: { type: 'string', description: 'JWT authentication token' },
+          refreshToken: { type: 'string', description: 'Replacement refresh token; the presented one is now invalid' },
+          expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+        },
+      },
+      401: {
+        description: 'Refresh token invalid, expired or reused',
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+          code: { type: 'string' }
+        }
+      }
+    },
+  },
+}, async (request, reply) => {
+  try {
+    const { refreshToken: presentedToken } = request.body as RefreshRequest;
+
+    const { refreshToken, session } = await refreshTokenService.rotate(presentedToken, {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip
+    });
+
+    // Deactivated or deleted accounts cannot renew their sessions
+    const user = await userRepository.findById(session.userId);
+    if (!user || !user.isActive) {
+      return reply.code(401).send({
+        error: 'User not found or inactive',
+        code: 'USER_INACTIVE'
+      });
+    }
+
+    const token = signAccessToken(user);
+
+    return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      if (error.code === 'REFRESH_TOKEN_REUSED') {
+        fastify.log.warn(`Refresh token reuse detected from IP: ${request.ip}; session family revoked`);
+      }
+      return reply.code(401).send({
+        error: error.message,
+        code: error.code
+      });
+    }
+
+    fastify.log.error('Token refresh error:', error);
+    return reply.code(500).send({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
+// Logout route
+fastify.post('/api/auth/logout', {
+  preHandler: authenticateUser,
+  config: { allowUnverified: true },
+  schema: {
+    description: 'Revoke the current access token and its refresh token',
+    tags: ['Authentication'],
+    summary: 'Log out of the current session',
+    security: [{ bearerAuth: [] }],
+    body: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        refreshToken: { type: 'string', minLength: 1, description: 'Refresh token of this session; its whole family is revoked' },
+      },
+    },
+    response: {
+      200: {
+        description: 'Session successfully ended',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' }
+        }
+      },
+      401: {
+        description: 'Unauthorized - invalid or missing token',
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+          code: { type: 'string' }
+        }
+      }
+    },
+  },
+}, async (request, reply) => {
+  try {
+    const user = request.user as JwtPayload;
+    const { refreshToken } = (request.body as Partial<RefreshRequest> | undefined) ?? {};
+
+    if (user.jti && user.exp) {
+      await revocationStore.revokeToken(user.jti, new Date(user.exp * 1000));
+    }
+    if (refreshToken) {
+      await refreshTokenService.revoke(refreshToken, user.id);
+    }
+
+    fastify.log.info(`User logged out: ${user.email}`);
+    return { success: true };
+  } catch (error) {
+    fastify.log.error('Logout error:', error);
+    return reply.code(500).send({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
+// Logout from all devices route
+fastify.post('/api/auth/logout-all', {
+  preHandler: authenticateUser,
+  config: { allowUnverified: true },
+  schema: {
+    description: 'Revoke every access and refresh token issued to the current user',
+    tags: ['Authentication'],
+    summary: 'Log out of all sessions',
+    security: [{ bearerAuth: [] }],
+    response: {
+      200: {
+        description: 'All sessions successfully ended',
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          revokedSessions: { type: 'number', description: 'Number of refresh token sessions revoked' }
+        }
+      },
+      401: {
+        description: 'Unauthorized - invalid or missing token',
+        type: 'object',
+        properties: {
+          error: { type: 'string' },
+          code: { type: 'string' }
+        }
+      }
+    },
+  },
+}, async (request, reply) => {
+  try {
+    const user = request.user as JwtPayload;
+
+    // The cutoff covers tokens issued in earlier seconds; the current token
+    // is denylisted explicitly in case it was issued in this same second
+    await revocationStore.revokeAllForUser(user.id, new Date());
+    if (user.jti && user.exp) {
+      await revocationStore.revokeToken(user.jti, new Date(user.exp * 1000));
+    }
+    const revokedSessions = await refreshTokenService.revokeAll(user.id);
+
+    fastify.log.info(`User logged out of all sessions: ${user.email} (${revokedSessions} sessions revoked)`);
+    return { success: true, revokedSessions };
+  } catch (error) {
+    fastify.log.error('Logout all error:', error);
+    return reply.code(500).send({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+});
+
+// Password reset request and completion
+fastify.register(passwordResetRoutes, { rateLimiter, passwordResetService, refreshTokenService, revocationStore });
+
+// Email verification links and resends
+fastify.register(emailVerificationRoutes, { rateLimiter, emailVerificationService });
+
+// Second login step and two-factor management
+fastify.register(mfaRoutes, { authenticateUser, rateLimiter, userRepository, mfaService, jwtKeyring, issueSession });
+
 // Protected user profile route
 fastify.get('/api/users/profile', {
   preHandler: authenticateUser,
+  config: { allowUnverified: true },
   schema: {
     description: 'Get current user profile information',
     tags: ['User'],
@@ -580,6 +1292,9 @@ fastify.get('/api/users/profile', {
               id: { type: 'string', description: 'User ID' },
               email: { type: 'string', description: 'User email' },
               name: { type: 'string', description: 'User name' },
+              roles: { type: 'array', items: { type: 'string' }, description: 'Roles held by the user' },
+              permissions: { type: 'array', items: { type: 'string' }, description: 'Effective permissions' },
+              emailVerified: { type: 'boolean', description: 'Whether the email address has been verified' },
               createdAt: { type: 'string', description: 'Account creation timestamp' },
             },
           },
@@ -611,7 +1326,7 @@ fastify.get('/api/users/profile', {
       });
     }
 
-    const userData = users.find(u => u.id === user.id);
+    const userData = await userRepository.findById(user.id);
     if (!userData) {
       return reply.code(404).send({
         error: 'User not found',
@@ -624,6 +1339,9 @@ fastify.get('/api/users/profile', {
         id: userData.id,
         email: userData.email,
         name: userData.name,
+        roles: userData.roles,
+        permissions: resolvePermissions(userData.roles, userData.permissions),
+        emailVerified: userData.emailVerifiedAt !== null,
         createdAt: userData.createdAt,
       },
     };
@@ -639,6 +1357,7 @@ fastify.get('/api/users/profile', {
 // Update user profile route
 fastify.put('/api/users/profile', {
   preHandler: authenticateUser,
+  config: { allowUnverified: true },
   schema: {
     description: 'Update current user profile information',
     tags: ['User'],
@@ -702,24 +1421,22 @@ fastify.put('/api/users/profile', {
       });
     }
 
-    const userIndex = users.findIndex(u => u.id === user.id);
-    if (userIndex === -1) {
+    const updatedUser = await userRepository.update(user.id, {
+      name: name ? name.trim() : undefined,
+    });
+    if (!updatedUser) {
       return reply.code(404).send({
         error: 'User not found',
         code: 'USER_NOT_FOUND'
       });
     }
 
-    if (name) {
-      users[userIndex].name = name.trim();
-    }
-
     return {
       user: {
-        id: users[userIndex].id,
-        email: users[userIndex].email,
-        name: users[userIndex].name,
-        createdAt: users[userIndex].createdAt,
+        id: updatedUser.id,
+        email: updatedUser.email,
+        name: updatedUser.name,
+        createdAt: updatedUser.createdAt,
       },
     };
   } catch (error) {
@@ -731,67 +1448,47 @@ fastify.put('/api/users/profile', {
   }
 });
 
-// Kafka producer endpoint (mock)
-fastify.post('/api/events', {
-  preHandler: authenticateUser,
-  schema: {
-    description: 'Publish events to message queue',
-    tags: ['Events'],
-    summary: 'Send events to Kafka message queue',
-    security: [{ bearerAuth: [] }],
-    body: {
-      type: 'object',
-      required: ['event', 'data'],
-      properties: {
-        event: { type: 'string', description: 'Event type identifier' },
-        data: { type: 'object', description: 'Event payload data' },
-      },
-    },
-    response: {
-      200: {
-        description: 'Event successfully published',
-        type: 'object',
-        properties: {
-          success: { type: 'boolean', description: 'Operation success status' },
-          eventId: { type: 'string', description: 'Generated event ID' },
-        },
-      },
-      401: {
-        description: 'Unauthorized - Invalid or missing token',
-        type: 'object',
-        properties: {
-          error: { type: 'string' }
-        }
-      }
-    },
-  },
-}, async (request, reply) => {
-  try {
-    const { event, data } = request.body as EventRequest;
-
-    // Mock Kafka producer logic
-    fastify.log.info(`Publishing event: ${event}`, data);
+// Event publishing, query, export and replay, and consumer administration
+fastify.register(eventRoutes, {
+  authenticateUser,
+  eventRepository,
+  eventSchemas,
+  eventBroker,
+  outboxRelay,
+  eventConsumer,
+  deadLetterRepository,
+  topic: EVENTS_TOPIC,
+  tracer,
+});
 
-    return { success: true, eventId: Date.now().toString() };
-  } catch (error) {
-    fastify.log.error('Event publishing error:', error);
-    return reply.code(500).send({
-      error: 'Internal server error',
-      code: 'INTERNAL_ERROR'
-    });
-  }
+// Live event streams over Server-Sent Events and WebSocket
+fastify.register(eventStreamRoutes, {
+  authenticateUser,
+  verifyAccessToken,
+  eventStream,
+  authenticateOptions,
+  recheckIntervalMs: EVENT_STREAM_RECHECK_MS,
 });
 
 // Close the routes plugin
 });
 
-  return { fastify, jwtSecret, databaseCredentials };
+  return { fastify, jwtSecret, databaseCredentials, userRepository, health };
 }
 
 const start = async () => {
   try {
     // Initialize the app with secrets
-    const { fastify } = await createApp();
+    const { fastify, health } = await createApp();
+
+    // On SIGTERM readiness fails first, then the server drains and closes
+    registerGracefulShutdown({
+      health,
+      close: () => fastify.close(),
+      drainDelayMs: parseInt(process.env['SHUTDOWN_DRAIN_DELAY_MS'] || '5000'),
+      timeoutMs: parseInt(process.env['SHUTDOWN_TIMEOUT_MS'] || '25000'),
+      logger: fastify.log,
+    });
 
     fastify.log.info('Starting Fastify server...');
 
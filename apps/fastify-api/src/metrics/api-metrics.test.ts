@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './registry';
+import { createApiMetrics } from './api-metrics';
+
+describe('createApiMetrics', () => {
+  it('should read secrets counters from the secrets manager on each scrape', () => {
+    const registry = new MetricsRegistry();
+    const secrets = {
+      getMetrics: () => ({
+        hits: 10,
+        staleHits: 2,
+        misses: 3,
+        loads: 5,
+        loadErrors: 1,
+        changes: 0,
+        providerErrors: { 'aws-secrets-manager': 4 },
+      }),
+    };
+    const metrics = createApiMetrics(registry, secrets);
+
+    metrics.loginAttempts.inc({ result: 'invalid_credentials' });
+    const output = registry.metrics();
+
+    expect(output).toContain('secrets_provider_errors_total{provider="aws-secrets-manager"} 4');
+    expect(output).toContain('secrets_cache_reads_total{result="stale"} 2');
+    expect(output).toContain('secrets_load_errors_total 1');
+    expect(output).toContain('auth_login_attempts_total{result="invalid_credentials"} 1');
+  });
+});
@@ -0,0 +1,64 @@
+import type { SecretsMetrics } from '@libs/secrets';
+import { MetricsRegistry } from './registry';
+
+// Outcome label of auth_login_attempts_total
+export type LoginResult = 'success' | 'mfa_required' | 'invalid_credentials' | 'invalid_email' | 'email_not_verified' | 'error';
+
+/**
+ * Application metrics of the API, next to the HTTP and runtime metrics.
+ * Secrets counters are read from the secrets manager on each scrape.
+ * @param registry - Registry to add the metrics to
+ * @param secrets - Source of the secrets cache and provider counters
+ * @returns Instruments the routes, rate limiter and outbox relay update
+ */
+export function createApiMetrics(registry: MetricsRegistry, secrets: { getMetrics(): SecretsMetrics }) {
+  registry.counter({
+    name: 'secrets_provider_errors_total',
+    help: 'Failed secret reads by provider, including ones a later provider made up for',
+    labelNames: ['provider'],
+    collect: () => Object.entries(secrets.getMetrics().providerErrors).map(([provider, value]) => ({ labels: { provider }, value })),
+  });
+  registry.counter({
+    name: 'secrets_cache_reads_total',
+    help: 'Secret reads by cache outcome',
+    labelNames: ['result'],
+    collect: () => {
+      const { hits, staleHits, misses } = secrets.getMetrics();
+      return [
+        { labels: { result: 'hit' }, value: hits },
+        { labels: { result: 'stale' }, value: staleHits },
+        { labels: { result: 'miss' }, value: misses },
+      ];
+    },
+  });
+  registry.counter({
+    name: 'secrets_load_errors_total',
+    help: 'Failed secret loads by the cache, in the foreground or background',
+    collect: () => [{ labels: {}, value: secrets.getMetrics().loadErrors }],
+  });
+
+  return {
+    loginAttempts: registry.counter({
+      name: 'auth_login_attempts_total',
+      help: 'Password logins by outcome; rate limited attempts are in rate_limit_decisions_total',
+      labelNames: ['result'],
+    }),
+    rateLimitDecisions: registry.counter({
+      name: 'rate_limit_decisions_total',
+      help: 'Rate limit checks by policy group and result; policy is the one that refused the request',
+      labelNames: ['group', 'policy', 'result'],
+    }),
+    eventsPublished: registry.counter({
+      name: 'events_published_total',
+      help: 'Outbox publish attempts by topic, event type and result',
+      labelNames: ['topic', 'event_type', 'result'],
+    }),
+    eventPublishDuration: registry.histogram({
+      name: 'event_publish_duration_seconds',
+      help: 'Time the broker took to acknowledge an event in seconds',
+      labelNames: ['topic'],
+    }),
+  };
+}
+
+export type ApiMetrics = ReturnType<typeof createApiMetrics>;
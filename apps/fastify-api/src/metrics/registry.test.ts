@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './registry';
+
+describe('MetricsRegistry', () => {
+  it('should serialize counters and gauges by label', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter({ name: 'requests_total', help: 'Requests served', labelNames: ['route', 'status_code'] });
+    const open = registry.gauge({ name: 'open_connections', help: 'Open connections' });
+
+    requests.inc({ route: '/users/:id', status_code: 200 });
+    requests.inc({ status_code: 200, route: '/users/:id' }, 2);
+    requests.inc({ route: '/say "hi"\n', status_code: 500 });
+    open.inc();
+    open.inc();
+    open.dec();
+
+    expect(registry.metrics()).toBe([
+      '# HELP requests_total Requests served',
+      '# TYPE requests_total counter',
+      'requests_total{route="/users/:id",status_code="200"} 3',
+      'requests_total{route="/say \\"hi\\"\\n",status_code="500"} 1',
+      '# HELP open_connections Open connections',
+      '# TYPE open_connections gauge',
+      'open_connections 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('should serialize histograms with cumulative buckets', () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram({ name: 'duration_seconds', help: 'Duration', labelNames: ['route'], buckets: [0.5, 0.1] });
+
+    duration.observe({ route: '/a' }, 0.05);
+    duration.observe({ route: '/a' }, 0.3);
+    duration.observe({ route: '/a' }, 2);
+
+    expect(registry.metrics()).toContain([
+      'duration_seconds_bucket{route="/a",le="0.1"} 1',
+      'duration_seconds_bucket{route="/a",le="0.5"} 2',
+      'duration_seconds_bucket{route="/a",le="+Inf"} 3',
+      'duration_seconds_sum{route="/a"} 2.35',
+      'duration_seconds_count{route="/a"} 3',
+    ].join('\n'));
+  });
+
+  it('should time operations with labels known at the end', () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram({ name: 'render_seconds', help: 'Render time', labelNames: ['status'] });
+
+    const seconds = duration.startTimer()({ status: 'ok' });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(registry.metrics()).toContain('render_seconds_count{status="ok"} 1');
+  });
+
+  it('should read collected metrics on every scrape', () => {
+    const registry = new MetricsRegistry();
+    let errors = 1;
+    registry.counter({
+      name: 'provider_errors_total',
+      help: 'Provider errors',
+      labelNames: ['provider'],
+      collect: () => [{ labels: { provider: 'ssm' }, value: errors }],
+    });
+
+    expect(registry.metrics()).toContain('provider_errors_total{provider="ssm"} 1');
+    errors = 4;
+    expect(registry.metrics()).toContain('provider_errors_total{provider="ssm"} 4');
+  });
+
+  it('should reject invalid names, unknown labels and duplicates', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({ name: 'logins_total', help: 'Logins', labelNames: ['result'] });
+
+    expect(() => registry.counter({ name: 'logins_total', help: 'Again' })).toThrow('already registered');
+    expect(() => registry.gauge({ name: 'bad-name', help: 'Bad' })).toThrow('Invalid metric name');
+    expect(() => registry.histogram({ name: 'latency', help: 'Latency', labelNames: ['le'] })).toThrow('Invalid label name le');
+    expect(() => counter.inc({ user: 'u1' })).toThrow('Unknown label user');
+    expect(() => counter.inc({ result: 'success' }, -1)).toThrow('cannot decrease');
+  });
+});
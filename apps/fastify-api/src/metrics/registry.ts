@@ -0,0 +1,259 @@
+export type Labels = Record<string, string | number>;
+
+// Current value of one labelled series, for metrics read from elsewhere
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export interface CollectedMetricOptions extends MetricOptions {
+  // Replaces every series with these values on each scrape, for totals kept
+  // by another component such as the secrets cache
+  collect?: () => Sample[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  // Upper bounds in seconds (or the metric's unit), ascending; +Inf is implied
+  buckets?: number[];
+}
+
+// Request latencies from 5ms to 10s
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+};
+
+const formatLabels = (labels: [string, string][]): string =>
+  labels.length === 0 ? '' : `{${labels.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+
+/**
+ * Series of one metric, keyed by label values in labelNames order
+ */
+abstract class Metric<T> {
+  protected readonly series = new Map<string, { labels: [string, string][]; value: T }>();
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+
+  constructor(options: MetricOptions, readonly type: 'counter' | 'gauge' | 'histogram') {
+    if (!NAME_PATTERN.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    const invalid = (options.labelNames ?? []).find((label) => !LABEL_PATTERN.test(label) || label === 'le');
+    if (invalid) {
+      throw new Error(`Invalid label name ${invalid} on ${options.name}`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  // Series for these labels, created with the initial value on first use
+  protected seriesFor(labels: Labels, initial: () => T): { labels: [string, string][]; value: T } {
+    const unknown = Object.keys(labels).find((label) => !this.labelNames.includes(label));
+    if (unknown) {
+      throw new Error(`Unknown label ${unknown} on ${this.name}`);
+    }
+    const values = this.labelNames.map((label): [string, string] => [label, String(labels[label] ?? '')]);
+    const key = JSON.stringify(values.map(([, value]) => value));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  // Runs before serialization; overridden by metrics that read their values
+  collect(): void {
+    return;
+  }
+
+  abstract lines(): string[];
+
+  serialize(): string {
+    this.collect();
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`, ...this.lines()].join('\n');
+  }
+}
+
+/**
+ * Value that only goes up, e.g. requests served
+ */
+export class Counter extends Metric<number> {
+  constructor(private readonly options: CollectedMetricOptions) {
+    super(options, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  override collect(): void {
+    if (this.options.collect) {
+      this.reset();
+      for (const sample of this.options.collect()) {
+        this.seriesFor(sample.labels, () => 0).value = sample.value;
+      }
+    }
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * Value that goes up and down, e.g. open connections or heap size
+ */
+export class Gauge extends Metric<number> {
+  constructor(private readonly options: CollectedMetricOptions) {
+    super(options, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.seriesFor(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  override collect(): void {
+    if (this.options.collect) {
+      this.reset();
+      for (const sample of this.options.collect()) {
+        this.set(sample.labels, sample.value);
+      }
+    }
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramValue {
+  // Observations per bucket, not cumulative; the last entry is +Inf
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observations, e.g. request durations in seconds
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super(options, 'histogram');
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({ counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 }));
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    series.value.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  /**
+   * Starts timing an operation
+   * @param labels - Labels known at the start
+   * @returns Function that observes the elapsed seconds, with labels known at
+   * the end merged in, and returns them
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += value.counts[index];
+        lines.push(`${this.name}_bucket${formatLabels([...labels, ['le', formatValue(bound)]])} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics of one process, served in the Prometheus text format. Names must
+ * be unique; registering a name twice throws.
+ */
+export class MetricsRegistry {
+  private readonly registered = new Map<string, Metric<unknown>>();
+
+  counter(options: CollectedMetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: CollectedMetricOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  /**
+   * Serializes every metric; metrics with a collect callback are read first
+   * @returns Exposition in the Prometheus text format 0.0.4
+   */
+  metrics(): string {
+    return [...this.registered.values()].map((metric) => metric.serialize()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric<unknown>>(metric: M): M {
+    if (this.registered.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.registered.set(metric.name, metric);
+    return metric;
+  }
+}
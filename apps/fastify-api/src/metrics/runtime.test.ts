@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './registry';
+import { registerRuntimeMetrics } from './runtime';
+
+describe('registerRuntimeMetrics', () => {
+  it('should expose process and Node.js metrics', () => {
+    const registry = new MetricsRegistry();
+    const stop = registerRuntimeMetrics(registry);
+
+    const output = registry.metrics();
+    stop();
+
+    expect(output).toMatch(/^process_cpu_user_seconds_total \d+(\.\d+)?(e[-+]\d+)?$/m);
+    expect(output).toMatch(/^process_resident_memory_bytes \d+$/m);
+    expect(output).toMatch(/^nodejs_heap_size_used_bytes \d+$/m);
+    expect(output).toContain('# TYPE nodejs_eventloop_lag_seconds gauge');
+    expect(output).toContain(`nodejs_version_info{version="${process.version}"} 1`);
+  });
+});
@@ -0,0 +1,87 @@
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { MetricsRegistry } from './registry';
+
+/**
+ * Registers Node.js process metrics under the names prom-client uses, so
+ * existing dashboards work: CPU, memory, heap, event loop delay, active
+ * resources, uptime and version
+ * @param registry - Registry to add the metrics to
+ * @returns Stops event loop monitoring
+ */
+export function registerRuntimeMetrics(registry: MetricsRegistry): () => void {
+  const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+  eventLoopDelay.enable();
+  const startTime = Math.round(Date.now() / 1000 - process.uptime());
+
+  registry.counter({
+    name: 'process_cpu_user_seconds_total',
+    help: 'User CPU time spent in seconds',
+    collect: () => [{ labels: {}, value: process.cpuUsage().user / 1e6 }],
+  });
+  registry.counter({
+    name: 'process_cpu_system_seconds_total',
+    help: 'System CPU time spent in seconds',
+    collect: () => [{ labels: {}, value: process.cpuUsage().system / 1e6 }],
+  });
+  registry.gauge({
+    name: 'process_resident_memory_bytes',
+    help: 'Resident memory size in bytes',
+    collect: () => [{ labels: {}, value: process.memoryUsage.rss() }],
+  });
+  registry.gauge({
+    name: 'process_start_time_seconds',
+    help: 'Start time of the process since unix epoch in seconds',
+    collect: () => [{ labels: {}, value: startTime }],
+  });
+  registry.gauge({
+    name: 'nodejs_heap_size_total_bytes',
+    help: 'Process heap size from Node.js in bytes',
+    collect: () => [{ labels: {}, value: process.memoryUsage().heapTotal }],
+  });
+  registry.gauge({
+    name: 'nodejs_heap_size_used_bytes',
+    help: 'Process heap size used from Node.js in bytes',
+    collect: () => [{ labels: {}, value: process.memoryUsage().heapUsed }],
+  });
+  registry.gauge({
+    name: 'nodejs_external_memory_bytes',
+    help: 'Node.js external memory size in bytes',
+    collect: () => [{ labels: {}, value: process.memoryUsage().external }],
+  });
+  registry.gauge({
+    name: 'nodejs_eventloop_lag_seconds',
+    help: 'Event loop delay since the previous scrape in seconds, by quantile',
+    labelNames: ['quantile'],
+    collect: () => {
+      // Without samples the histogram reports its maximum trackable value
+      const samples = eventLoopDelay.count === 0 ? [] : [
+        { labels: { quantile: 'mean' }, value: eventLoopDelay.mean / 1e9 },
+        { labels: { quantile: 'p50' }, value: eventLoopDelay.percentile(50) / 1e9 },
+        { labels: { quantile: 'p99' }, value: eventLoopDelay.percentile(99) / 1e9 },
+        { labels: { quantile: 'max' }, value: eventLoopDelay.max / 1e9 },
+      ];
+      eventLoopDelay.reset();
+      return samples;
+    },
+  });
+  registry.gauge({
+    name: 'nodejs_active_resources',
+    help: 'Active resources keeping the event loop alive, by type',
+    labelNames: ['type'],
+    collect: () => {
+      const counts = new Map<string, number>();
+      for (const type of process.getActiveResourcesInfo()) {
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      return [...counts].map(([type, value]) => ({ labels: { type }, value }));
+    },
+  });
+  registry.gauge({
+    name: 'nodejs_version_info',
+    help: 'Node.js version info',
+    labelNames: ['version'],
+    collect: () => [{ labels: { version: process.version }, value: 1 }],
+  });
+
+  return () => eventLoopDelay.disable();
+}
@@ -1,13 +1,15 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { JwtPayload } from '../types';
+import { JwtPayload, User } from '../types';
+import { InMemoryUserRepository } from '../repositories/user-repository';
+import { InMemoryTokenRevocationStore } from '../stores/token-revocation-store';
 import {
   validateEmail,
   validatePassword,
   validateName,
-  checkRateLimit,
-  resetRateLimit,
-  authenticateUser
+  authenticateUser,
+  createAuthenticateUser,
+  createAccessTokenVerifier
 } from './auth';
 
 // Extended FastifyRequest interface for JWT
@@ -84,6 +86,21 @@ describe('Auth Middleware', () => {
       });
     });
 
+    it('should reject MFA challenge tokens', async () => {
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'user123', email: 'test@example.com', purpose: 'mfa_challenge' }
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticateUser(mockRequest, mockReply)).toBe(false);
+      expect(mockReply.code).toHaveBeenCalledWith(401);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Invalid token payload',
+        code: 'INVALID_TOKEN'
+      });
+    });
+
     it('should reject user with no user object', async () => {
       const mockRequest = createMockRequest({
         jwtVerify: vi.fn().mockResolvedValue(undefined),
@@ -161,6 +178,189 @@ describe('Auth Middleware', () => {
     });
   });
 
+  describe('createAuthenticateUser', () => {
+    const activeUser: User = {
+      id: 'user123',
+      email: 'test@example.com',
+      passwordHash: 'hash',
+      name: 'Test User',
+      isActive: true,
+      emailVerifiedAt: '2024-01-01T00:00:00.000Z',
+      roles: ['customer'],
+      permissions: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+    const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+    it('should reject tokens whose jti has been revoked', async () => {
+      const revocationStore = new InMemoryTokenRevocationStore();
+      await revocationStore.revokeToken('token-1', new Date(Date.now() + 60_000));
+      const authenticate = createAuthenticateUser({ revocationStore });
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'user123', email: 'test@example.com', jti: 'token-1', iat: nowInSeconds() }
+      });
+      const mockReply = createMockReply();
+
+      const result = await authenticate(mockRequest, mockReply);
+
+      expect(result).toBe(false);
+      expect(mockReply.code).toHaveBeenCalledWith(401);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Token has been revoked',
+        code: 'TOKEN_REVOKED'
+      });
+    });
+
+    it('should reject tokens issued before a logout-all cutoff', async () => {
+      const revocationStore = new InMemoryTokenRevocationStore();
+      await revocationStore.revokeAllForUser('user123', new Date());
+      const authenticate = createAuthenticateUser({ revocationStore });
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'user123', email: 'test@example.com', jti: 'token-2', iat: nowInSeconds() - 60 }
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticate(mockRequest, mockReply)).toBe(false);
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ code: 'TOKEN_REVOKED' }));
+    });
+
+    it('should accept tokens that are not revoked', async () => {
+      const revocationStore = new InMemoryTokenRevocationStore();
+      await revocationStore.revokeToken('other-token', new Date(Date.now() + 60_000));
+      const authenticate = createAuthenticateUser({
+        revocationStore,
+        userRepository: new InMemoryUserRepository([activeUser])
+      });
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'user123', email: 'test@example.com', jti: 'token-3', iat: nowInSeconds() }
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticate(mockRequest, mockReply)).toBe(true);
+      expect(mockReply.code).not.toHaveBeenCalled();
+    });
+
+    it('should reject deactivated users', async () => {
+      const authenticate = createAuthenticateUser({
+        userRepository: new InMemoryUserRepository([{ ...activeUser, isActive: false }])
+      });
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'user123', email: 'test@example.com' }
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticate(mockRequest, mockReply)).toBe(false);
+      expect(mockReply.code).toHaveBeenCalledWith(401);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'User account is inactive',
+        code: 'USER_INACTIVE'
+      });
+    });
+
+    it('should reject users that no longer exist', async () => {
+      const authenticate = createAuthenticateUser({ userRepository: new InMemoryUserRepository() });
+      const mockRequest = createMockRequest({
+        jwtVerify: vi.fn().mockResolvedValue(undefined),
+        user: { id: 'deleted-user', email: 'gone@example.com' }
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticate(mockRequest, mockReply)).toBe(false);
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ code: 'USER_INACTIVE' }));
+    });
+  });
+
+  describe('createAccessTokenVerifier', () => {
+    it('should return the user of a valid token', async () => {
+      const user = { id: 'user123', email: 'test@example.com' };
+      const verify = createAccessTokenVerifier(vi.fn().mockResolvedValue(user));
+
+      expect(await verify('token')).toEqual({ user, failure: null });
+    });
+
+    it('should apply the same checks as the middleware', async () => {
+      const revocationStore = new InMemoryTokenRevocationStore();
+      await revocationStore.revokeToken('token-1', new Date(Date.now() + 60_000));
+      const verify = createAccessTokenVerifier(
+        vi.fn().mockResolvedValue({ id: 'user123', email: 'test@example.com', jti: 'token-1' }),
+        { revocationStore }
+      );
+
+      expect(await verify('token')).toEqual({
+        user: null,
+        failure: { statusCode: 401, error: 'Token has been revoked', code: 'TOKEN_REVOKED' }
+      });
+    });
+
+    it('should map signature errors', async () => {
+      const verify = createAccessTokenVerifier(() => {
+        throw new Error('jwt expired');
+      });
+
+      expect((await verify('token')).failure?.code).toBe('TOKEN_EXPIRED');
+    });
+  });
+
+  describe('unverified email policy', () => {
+    const unverifiedUser: User = {
+      id: 'user123',
+      email: 'test@example.com',
+      passwordHash: 'hash',
+      name: 'Test User',
+      isActive: true,
+      emailVerifiedAt: null,
+      roles: ['customer'],
+      permissions: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z'
+    };
+
+    const createRouteRequest = (allowUnverified?: boolean) => createMockRequest({
+      jwtVerify: vi.fn().mockResolvedValue(undefined),
+      user: { id: 'user123', email: 'test@example.com' },
+      routeOptions: { config: { allowUnverified } }
+    });
+
+    it('should let unverified users through when the policy is allow', async () => {
+      const authenticate = createAuthenticateUser({
+        userRepository: new InMemoryUserRepository([unverifiedUser]),
+        unverifiedAccess: 'allow'
+      });
+
+      expect(await authenticate(createRouteRequest(), createMockReply())).toBe(true);
+    });
+
+    it('should limit unverified users to routes that allow them', async () => {
+      const authenticate = createAuthenticateUser({
+        userRepository: new InMemoryUserRepository([unverifiedUser]),
+        unverifiedAccess: 'limited'
+      });
+      const mockReply = createMockReply();
+
+      expect(await authenticate(createRouteRequest(true), createMockReply())).toBe(true);
+      expect(await authenticate(createRouteRequest(), mockReply)).toBe(false);
+      expect(mockReply.code).toHaveBeenCalledWith(403);
+      expect(mockReply.send).toHaveBeenCalledWith({
+        error: 'Email address not verified',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    });
+
+    it('should not restrict verified users', async () => {
+      const authenticate = createAuthenticateUser({
+        userRepository: new InMemoryUserRepository([{ ...unverifiedUser, emailVerifiedAt: '2024-01-02T00:00:00.000Z' }]),
+        unverifiedAccess: 'block'
+      });
+
+      expect(await authenticate(createRouteRequest(), createMockReply())).toBe(true);
+    });
+  });
+
   describe('validateEmail', () => {
     it('should validate correct email addresses', () => {
       const validEmails = [
@@ -341,144 +541,6 @@ describe('Auth Middleware', () => {
     });
   });
 
-  describe('checkRateLimit and resetRateLimit', () => {
-    beforeEach(() => {
-      // Reset any existing rate limit data
-      resetRateLimit('test-ip');
-      resetRateLimit('192.168.1.1');
-    });
-
-    afterEach(() => {
-      // Clean up after each test
-      resetRateLimit('test-ip');
-      resetRateLimit('192.168.1.1');
-    });
-
-    it('should allow first attempt', () => {
-      expect(checkRateLimit('test-ip')).toBe(true);
-    });
-
-    it('should allow up to 5 attempts', () => {
-      for (let i = 1; i <= 5; i++) {
-        expect(checkRateLimit('test-ip'), `Attempt ${i} should be allowed`).toBe(true);
-      }
-    });
-
-    it('should block 6th attempt within time window', () => {
-      // Make 5 attempts
-      for (let i = 1; i <= 5; i++) {
-        checkRateLimit('test-ip');
-      }
-
-      // 6th attempt should be blocked
-      expect(checkRateLimit('test-ip')).toBe(false);
-    });
-
-    it('should handle different IPs independently', () => {
-      // Make 5 attempts for first IP
-      for (let i = 1; i <= 5; i++) {
-        checkRateLimit('192.168.1.1');
-      }
-
-      // Second IP should still be allowed
-      expect(checkRateLimit('192.168.1.2')).toBe(true);
-    });
-
-    it('should reset rate limit for specific IP', () => {
-      // Make 5 attempts
-      for (let i = 1; i <= 5; i++) {
-        checkRateLimit('test-ip');
-      }
-
-      // Should be blocked
-      expect(checkRateLimit('test-ip')).toBe(false);
-
-      // Reset and try again
-      resetRateLimit('test-ip');
-      expect(checkRateLimit('test-ip')).toBe(true);
-    });
-
-    it('should reset after 15 minutes', () => {
-      // Mock Date.now to control time
-      const originalNow = Date.now;
-      let mockTime = 1000000000; // arbitrary start time
-
-      vi.spyOn(Date, 'now').mockImplementation(() => mockTime);
-
-      // Make 5 attempts
-      for (let i = 1; i <= 5; i++) {
-        checkRateLimit('test-ip');
-      }
-
-      // Should be blocked
-      expect(checkRateLimit('test-ip')).toBe(false);
-
-      // Fast forward 15 minutes + 1 second
-      mockTime += (15 * 60 * 1000) + 1000;
-
-      // Should be allowed again
-      expect(checkRateLimit('test-ip')).toBe(true);
-
-      // Restore original Date.now
-      Date.now = originalNow;
-    });
-
-    it('should not reset before 15 minutes', () => {
-      const originalNow = Date.now;
-      let mockTime = 1000000000;
-
-      vi.spyOn(Date, 'now').mockImplementation(() => mockTime);
-
-      // Make 5 attempts
-      for (let i = 1; i <= 5; i++) {
-        checkRateLimit('test-ip');
-      }
-
-      // Should be blocked
-      expect(checkRateLimit('test-ip')).toBe(false);
-
-      // Fast forward 14 minutes (not enough)
-      mockTime += 14 * 60 * 1000;
-
-      // Should still be blocked
-      expect(checkRateLimit('test-ip')).toBe(false);
-
-      Date.now = originalNow;
-    });
-
-    it('should handle concurrent rate limit checks correctly', () => {
-      const ip = 'concurrent-test-ip';
-
-      // Simulate concurrent requests
-      const results: boolean[] = [];
-      for (let i = 0; i < 10; i++) {
-        results.push(checkRateLimit(ip));
-      }
-
-      // Should allow first 5, block the rest
-      const allowedCount = results.filter(result => result === true).length;
-      const blockedCount = results.filter(result => result === false).length;
-
-      expect(allowedCount).toBe(5);
-      expect(blockedCount).toBe(5);
-    });
-
-    it('should maintain separate counters for different IPs', () => {
-      const ip1 = 'ip1';
-      const ip2 = 'ip2';
-
-      // Max out ip1
-      for (let i = 0; i < 5; i++) {
-        checkRateLimit(ip1);
-      }
-      expect(checkRateLimit(ip1)).toBe(false);
-
-      // ip2 should still work independently
-      expect(checkRateLimit(ip2)).toBe(true);
-      expect(checkRateLimit(ip2)).toBe(true);
-    });
-  });
-
   // Additional edge case tests
   describe('Edge Cases and Error Handling', () => {
     describe('validateEmail edge cases', () => {
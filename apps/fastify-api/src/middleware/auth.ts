@@ -1,59 +1,159 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { JwtPayload } from '../types';
+import { JwtPayload, UnverifiedAccessPolicy } from '../types';
+import { UserRepository } from '../repositories/user-repository';
+import { TokenRevocationStore, isTokenClaimRevoked } from '../stores/token-revocation-store';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Route stays reachable for users who have not verified their email yet
+    allowUnverified?: boolean;
+  }
+}
+
+export interface AuthenticateOptions {
+  // Denylist consulted for tokens revoked by logout before they expire
+  revocationStore?: TokenRevocationStore;
+  // When set, the token's user must still exist and be active
+  userRepository?: Pick<UserRepository, 'findById'>;
+  // What users with unverified email may reach; requires userRepository
+  unverifiedAccess?: UnverifiedAccessPolicy;
+}
+
+// Why a token was refused, as sent in the 401/403 response body
+export interface AuthFailure {
+  statusCode: 401 | 403;
+  error: string;
+  code: string;
+}
+
+export type AccessTokenResult =
+  | { user: JwtPayload; failure: null }
+  | { user: null; failure: AuthFailure };
+
+/**
+ * Maps a JWT verification error to the response the API sends for it
+ * @param error - Error thrown while verifying the signature
+ * @returns Failure with a specific code where one is known
+ */
+const jwtFailure = (error: unknown): AuthFailure => {
+  // More specific error handling
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+  if (errorMessage.includes('jwt expired')) {
+    return { statusCode: 401, error: 'Token expired', code: 'TOKEN_EXPIRED' };
+  }
+  if (errorMessage.includes('jwt must be provided')) {
+    return { statusCode: 401, error: 'Authorization token required', code: 'TOKEN_REQUIRED' };
+  }
+  return { statusCode: 401, error: 'Unauthorized', code: 'UNAUTHORIZED' };
+};
+
+/**
+ * Checks a token whose signature was verified: payload shape, revocation,
+ * account state and the unverified email policy
+ * @param user - Verified JWT payload
+ * @param options - Revocation store, user repository and unverified access policy
+ * @param allowUnverified - Whether the target stays reachable for unverified users
+ * @returns The failure to respond with, or null when access is allowed
+ */
+export const checkAccessClaims = async (
+  user: JwtPayload | undefined,
+  options: AuthenticateOptions,
+  allowUnverified = false
+): Promise<AuthFailure | null> => {
+  // MFA challenge tokens are signed with the same key but only unlock /api/auth/mfa/verify
+  if (!user?.id || !user?.email || user.purpose) {
+    return { statusCode: 401, error: 'Invalid token payload', code: 'INVALID_TOKEN' };
+  }
+
+  if (options.revocationStore && await isTokenClaimRevoked(options.revocationStore, user)) {
+    return { statusCode: 401, error: 'Token has been revoked', code: 'TOKEN_REVOKED' };
+  }
+
+  // Additional validation - ensure user still exists and is active
+  if (options.userRepository) {
+    const account = await options.userRepository.findById(user.id);
+    if (!account || !account.isActive) {
+      return { statusCode: 401, error: 'User account is inactive', code: 'USER_INACTIVE' };
+    }
+
+    const policy = options.unverifiedAccess ?? 'allow';
+    if (!account.emailVerifiedAt && policy !== 'allow' && !allowUnverified) {
+      return { statusCode: 403, error: 'Email address not verified', code: 'EMAIL_NOT_VERIFIED' };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Creates the authentication middleware for protected routes
+ * Verifies JWT tokens, rejects revoked tokens, deactivated users and, unless
+ * the route sets `config.allowUnverified`, users who must verify their email
+ * @param options - Optional revocation store, user repository and unverified access policy
+ * @returns Fastify preHandler resolving to true when the request is authenticated
+ */
+export const createAuthenticateUser = (options: AuthenticateOptions = {}) =>
+  async (request: FastifyRequest, reply: FastifyReply): Promise<boolean> => {
+    let failure: AuthFailure | null;
+    try {
+      await request.jwtVerify();
+      failure = null;
+    } catch (error) {
+      failure = jwtFailure(error);
+    }
+    failure ??= await checkAccessClaims(
+      request.user as JwtPayload,
+      options,
+      request.routeOptions?.config?.allowUnverified
+    );
+
+    if (failure) {
+      reply.code(failure.statusCode).send({
+        error: failure.error,
+        code: failure.code
+      });
+      return false;
+    }
+    return true;
+  };
+
+// preHandler returned by createAuthenticateUser
+export type AuthenticateUser = ReturnType<typeof createAuthenticateUser>;
 
 /**
- * Authentication middleware for protected routes
- * Verifies JWT tokens and validates user information
+ * Creates a verifier for access tokens that do not arrive in an
+ * Authorization header, such as WebSocket authentication messages. Applies
+ * the same checks as createAuthenticateUser.
+ * @param verifyJwt - Verifies the signature and returns the payload, e.g. `fastify.jwt.verify`
+ * @param options - Optional revocation store, user repository and unverified access policy
+ * @returns Function resolving to the token's user or the failure
+ */
+export const createAccessTokenVerifier = (
+  verifyJwt: (token: string) => Promise<JwtPayload> | JwtPayload,
+  options: AuthenticateOptions = {}
+) =>
+  async (token: string): Promise<AccessTokenResult> => {
+    let user: JwtPayload;
+    try {
+      user = await verifyJwt(token);
+    } catch (error) {
+      return { user: null, failure: jwtFailure(error) };
+    }
+
+    const failure = await checkAccessClaims(user, options);
+    return failure ? { user: null, failure } : { user, failure: null };
+  };
+
+// Verifier returned by createAccessTokenVerifier
+export type AccessTokenVerifier = ReturnType<typeof createAccessTokenVerifier>;
+
+/**
+ * Authentication middleware that only verifies the JWT signature and payload
  * @param request - Fastify request object
  * @param reply - Fastify reply object
- * @param done - Callback function to signal completion
  */
-export const authenticateUser = (request: FastifyRequest, reply: FastifyReply, done: (err?: Error) => void): void => {
-  request.jwtVerify()
-    .then(() => {
-      // Additional validation - ensure user still exists
-      const user = request.user as JwtPayload;
-      if (!user?.id || !user?.email) {
-        reply.code(401).send({
-          error: 'Invalid token payload',
-          code: 'INVALID_TOKEN'
-        });
-        done(new Error('Invalid token payload'));
-        return;
-      }
-
-      // Success - continue to the route handler
-      done();
-    })
-    .catch((error) => {
-      // More specific error handling
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-      if (errorMessage.includes('jwt expired')) {
-        reply.code(401).send({
-          error: 'Token expired',
-          code: 'TOKEN_EXPIRED'
-        });
-        done(new Error('Token expired'));
-        return;
-      }
-
-      if (errorMessage.includes('jwt must be provided')) {
-        reply.code(401).send({
-          error: 'Authorization token required',
-          code: 'TOKEN_REQUIRED'
-        });
-        done(new Error('Authorization token required'));
-        return;
-      }
-
-      reply.code(401).send({
-        error: 'Unauthorized',
-        code: 'UNAUTHORIZED'
-      });
-      done(new Error('Unauthorized'));
-    });
-};
+export const authenticateUser = createAuthenticateUser();
 
 /**
  * Validates email format using ReDoS-safe regex pattern
@@ -146,66 +246,3 @@ export const validateName = (name: string): boolean => {
   const trimmedName = name.trim();
   return Boolean(trimmedName && trimmedName.length >= 2 && trimmedName.length <= 50 && trimmedName === name);
 };
-
-/**
- * Rate limiting implementation with automatic cleanup
- * Prevents brute force attacks by limiting login attempts per IP
- */
-// Rate limiting helper (basic implementation)
-const loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
-const MAX_ATTEMPTS = 5;
-
-// Cleanup old entries periodically to prevent memory leaks
-setInterval(() => {
-  const now = Date.now();
-  const expiredIps: string[] = [];
-
-  for (const [ip, attempts] of loginAttempts.entries()) {
-    if (now - attempts.lastAttempt > RATE_LIMIT_WINDOW) {
-      expiredIps.push(ip);
-    }
-  }
-
-  for (const ip of expiredIps) {
-    loginAttempts.delete(ip);
-  }
-}, RATE_LIMIT_WINDOW); // Run cleanup every 15 minutes
-
-/**
- * Checks if an IP address has exceeded rate limit
- * @param ip - Client IP address
- * @returns True if request is allowed, false if rate limited
- */
-export const checkRateLimit = (ip: string): boolean => {
-  const now = Date.now();
-  const userAttempts = loginAttempts.get(ip);
-
-  if (!userAttempts) {
-    loginAttempts.set(ip, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Reset after window expires
-  if (now - userAttempts.lastAttempt > RATE_LIMIT_WINDOW) {
-    loginAttempts.set(ip, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Check if exceeded max attempts
-  if (userAttempts.count >= MAX_ATTEMPTS) {
-    return false;
-  }
-
-  userAttempts.count++;
-  userAttempts.lastAttempt = now;
-  return true;
-};
-
-/**
- * Resets rate limit for an IP address after successful login
- * @param ip - Client IP address to reset
- */
-export const resetRateLimit = (ip: string): void => {
-  loginAttempts.delete(ip);
-};
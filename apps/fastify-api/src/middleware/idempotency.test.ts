@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { InMemoryIdempotencyStore } from '../stores/idempotency-store';
+import { IdempotencyHandler } from './idempotency';
+
+describe('IdempotencyHandler', () => {
+  let app: FastifyInstance;
+  let store: InMemoryIdempotencyStore;
+  let created: number;
+  let release: (() => void) | null;
+  const onError = vi.fn();
+
+  beforeEach(async () => {
+    created = 0;
+    release = null;
+    store = new InMemoryIdempotencyStore();
+    const idempotency = new IdempotencyHandler(store, { waitMs: 50, pollIntervalMs: 5, onError });
+
+    app = Fastify();
+    app.addHook('onRoute', (route) => idempotency.applyTo(route));
+    app.addHook('preHandler', async (request) => {
+      // Stands in for authenticateUser
+      const user = request.headers['x-user'];
+      if (typeof user === 'string') {
+        request.user = { id: user, email: `${user}@example.com` };
+      }
+    });
+    app.post('/items', async (request, reply) => {
+      if (request.headers['x-slow']) {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      created++;
+      return reply.code(201).header('location', `/items/${created}`).send({ id: created, body: request.body });
+    });
+    app.post('/flaky', async (_request, reply) => {
+      created++;
+      return reply.code(created === 1 ? 503 : 200).send({ attempt: created });
+    });
+    app.post('/opt-out', { config: { idempotency: false } }, async () => ({ attempt: ++created }));
+    app.get('/items', async () => ({ count: created }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  const post = (url: string, key: string | undefined, payload: object = { name: 'drill' }, headers: Record<string, string> = {}) =>
+    app.inject({
+      method: 'POST',
+      url,
+      payload,
+      headers: { ...(key ? { 'idempotency-key': key } : {}), 'x-user': 'user-1', ...headers },
+    });
+
+  it('should replay the stored status, headers and body for a repeated key', async () => {
+    const first = await post('/items', 'key-1');
+    const second = await post('/items', 'key-1');
+
+    expect(created).toBe(1);
+    expect(second.statusCode).toBe(201);
+    expect(second.headers['location']).toBe('/items/1');
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(second.json()).toEqual(first.json());
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('should scope keys to the user and ignore requests without a key', async () => {
+    await post('/items', 'key-1');
+    await post('/items', 'key-1', { name: 'drill' }, { 'x-user': 'user-2' });
+    await post('/items', undefined);
+    await post('/items', undefined);
+
+    expect(created).toBe(4);
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    await post('/items', 'key-1');
+    const reused = await post('/items', 'key-1', { name: 'saw' });
+
+    expect(reused.statusCode).toBe(422);
+    expect(reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  it('should make concurrent duplicates wait, then answer 409', async () => {
+    const first = post('/items', 'key-1', { name: 'drill' }, { 'x-slow': '1' });
+    await vi.waitFor(() => expect(release).not.toBeNull());
+
+    const duplicate = await post('/items', 'key-1');
+    expect(duplicate.statusCode).toBe(409);
+    expect(duplicate.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_USE' });
+
+    const waiting = post('/items', 'key-1');
+    release?.();
+    expect((await first).statusCode).toBe(201);
+    expect((await waiting).headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('should let a key be retried after a server error', async () => {
+    expect((await post('/flaky', 'key-1')).statusCode).toBe(503);
+    const retry = await post('/flaky', 'key-1');
+
+    expect(retry.statusCode).toBe(200);
+    expect(retry.json()).toEqual({ attempt: 2 });
+  });
+
+  it('should reject malformed keys and skip opted-out and read-only routes', async () => {
+    expect((await post('/items', 'bad key')).json()).toMatchObject({ code: 'INVALID_IDEMPOTENCY_KEY' });
+
+    await post('/opt-out', 'key-1');
+    await post('/opt-out', 'key-1');
+    expect(created).toBe(2);
+    expect((await app.inject({ method: 'GET', url: '/items', headers: { 'idempotency-key': 'key-1' } })).json()).toEqual({ count: 2 });
+  });
+
+  it('should replay a retried registration without the omitted token fields', async () => {
+    // Configured like /api/auth/register in main.ts
+    let registered = 0;
+    await app.close();
+    app = Fastify();
+    app.addHook('onRoute', (route) => new IdempotencyHandler(store).applyTo(route));
+    app.post('/api/auth/register', { config: { idempotency: { omitFields: ['token', 'refreshToken', 'expiresIn'] } } }, async (_request, reply) =>
+      reply.code(201).send({
+        token: `access-${++registered}`,
+        refreshToken: `refresh-${registered}`,
+        expiresIn: 900,
+        verificationRequired: false,
+        user: { id: `user-${registered}`, email: 'new@example.com' },
+      }));
+    await app.ready();
+    const register = () => app.inject({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email: 'new@example.com', password: 'Secret123', name: 'New User' },
+      headers: { 'idempotency-key': 'signup-1' },
+    });
+
+    const first = await register();
+    const retry = await register();
+
+    expect(registered).toBe(1);
+    expect(first.json()).toMatchObject({ token: 'access-1', refreshToken: 'refresh-1' });
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.json()).toEqual({ verificationRequired: false, user: { id: 'user-1', email: 'new@example.com' } });
+    expect(JSON.stringify(await store.begin('anonymous:signup-1', '', 1000))).not.toContain('access-1');
+  });
+
+  it('should run without idempotency when the store fails', async () => {
+    vi.spyOn(store, 'begin').mockRejectedValue(new Error('Store unavailable'));
+
+    await post('/items', 'key-1');
+    await post('/items', 'key-1');
+
+    expect(created).toBe(2);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { FastifyReply, FastifyRequest, RouteOptions, onSendHookHandler, preHandlerHookHandler } from 'fastify';
+import { JwtPayload } from '../types';
+import { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from '../stores/idempotency-store';
+
+export interface IdempotencyRouteConfig {
+  // Top-level fields of a JSON response left out of the stored copy, such as
+  // tokens; replays return the body without them
+  omitFields?: string[];
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Set to false to ignore Idempotency-Key on a mutating route
+    idempotency?: boolean | IdempotencyRouteConfig;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Set on responses served from the store
+export const IDEMPOTENT_REPLAYED_HEADER = 'idempotent-replayed';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Visible printable ASCII, as suggested by the IETF Idempotency-Key draft
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Describe the connection, the caller's origin or the original rate limit
+// budget rather than the response; CORS and rate limit hooks set them anew
+const UNSTORED_HEADERS = new Set(['content-length', 'date', 'connection', 'keep-alive', 'transfer-encoding', 'set-cookie', 'retry-after', 'vary']);
+
+export interface IdempotencyOptions {
+  // How long stored responses are replayed
+  ttlMs?: number;
+  // How long the first request holds the key; a crashed request frees it after this
+  lockMs?: number;
+  // How long a duplicate waits for the first request before getting 409
+  waitMs?: number;
+  pollIntervalMs?: number;
+  // Called when the store fails; the request then runs without idempotency
+  onError?: (error: unknown, request: FastifyRequest) => void;
+}
+
+/**
+ * Hashes what makes two requests the same: method, route and body
+ * @param request - Incoming request
+ * @returns Hex SHA-256 fingerprint
+ */
+export const fingerprintRequest = (request: FastifyRequest): string =>
+  createHash('sha256')
+    .update(`${request.method} ${request.routeOptions?.url ?? request.url}\n`)
+    .update(request.body === undefined ? '' : JSON.stringify(request.body))
+    .digest('hex');
+
+const asArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Makes mutating routes safe to retry with an `Idempotency-Key` header. The
+ * first request with a key runs normally and its response is stored per
+ * user and key; repeats receive the stored response with
+ * `Idempotent-Replayed: true`. A repeat arriving while the first request
+ * still runs waits for it, then gets 409. Reusing a key for a different
+ * request gets 422. Server errors and 429s are not stored, so the client
+ * can retry them with the same key.
+ */
+export class IdempotencyHandler {
+  private readonly ttlMs: number;
+  private readonly lockMs: number;
+  private readonly waitMs: number;
+  private readonly pollIntervalMs: number;
+  // Store key of each request that claimed one
+  private readonly claims = new WeakMap<FastifyRequest, string>();
+
+  constructor(
+    private readonly store: IdempotencyStore,
+    private readonly options: IdempotencyOptions = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.lockMs = options.lockMs ?? 60_000;
+    this.waitMs = options.waitMs ?? 5000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 100;
+  }
+
+  /**
+   * Adds the idempotency hooks to a mutating route. Call it from an onRoute
+   * hook so the check runs after the route's own preHandlers, such as
+   * authenticateUser, and keys are scoped to the authenticated user.
+   * @param route - Route being registered
+   */
+  applyTo(route: RouteOptions): void {
+    const methods = asArray(route.method);
+    if (route.config?.idempotency === false || !methods.some((method) => MUTATING_METHODS.has(method))) {
+      return;
+    }
+    route.preHandler = [...asArray(route.preHandler), this.preHandler as preHandlerHookHandler];
+    route.onSend = [...asArray(route.onSend), this.onSend as onSendHookHandler];
+  }
+
+  /**
+   * Claims the request's key, or answers it from the store
+   * @returns True when the route handler should run
+   */
+  readonly preHandler = async (request: FastifyRequest, reply: FastifyReply): Promise<boolean> => {
+    const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+    if (header === undefined) {
+      return true;
+    }
+    if (typeof header !== 'string' || !KEY_PATTERN.test(header)) {
+      reply.code(400).send({
+        error: 'Idempotency-Key must be 1 to 255 printable ASCII characters',
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      });
+      return false;
+    }
+
+    const user = (request.user as JwtPayload | undefined)?.id ?? 'anonymous';
+    const key = `${user}:${header}`;
+    const fingerprint = fingerprintRequest(request);
+    const deadline = Date.now() + this.waitMs;
+
+    let record: IdempotencyRecord | null;
+    try {
+      for (;;) {
+        record = await this.store.begin(key, fingerprint, this.lockMs);
+        if (record?.status !== 'pending' || record.fingerprint !== fingerprint || Date.now() >= deadline) {
+          break;
+        }
+        await wait(this.pollIntervalMs);
+      }
+    } catch (error) {
+      this.options.onError?.(error, request);
+      return true;
+    }
+
+    if (!record) {
+      this.claims.set(request, key);
+      return true;
+    }
+    if (record.fingerprint !== fingerprint) {
+      reply.code(422).send({
+        error: 'Idempotency-Key was already used for a different request',
+        code: 'IDEMPOTENCY_KEY_REUSED'
+      });
+      return false;
+    }
+    if (record.status === 'pending') {
+      reply.code(409).header('Retry-After', 1).send({
+        error: 'A request with this Idempotency-Key is still being processed',
+        code: 'IDEMPOTENCY_KEY_IN_USE'
+      });
+      return false;
+    }
+
+    reply.code(record.response.statusCode).headers(record.response.headers).header(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    reply.send(record.response.body);
+    return false;
+  };
+
+  /**
+   * Stores the response of a request that claimed a key
+   */
+  readonly onSend = async (request: FastifyRequest, reply: FastifyReply, payload: unknown): Promise<unknown> => {
+    const key = this.claims.get(request);
+    if (!key) {
+      return payload;
+    }
+    this.claims.delete(request);
+
+    try {
+      const storable = typeof payload === 'string' || payload === null || payload === undefined;
+      if (!storable || reply.statusCode >= 500 || reply.statusCode === 429) {
+        await this.store.release(key);
+      } else {
+        const config = request.routeOptions.config?.idempotency;
+        const omitFields = typeof config === 'object' ? config.omitFields ?? [] : [];
+        await this.store.complete(key, toIdempotentResponse(reply, omitBodyFields(payload ?? '', omitFields)), this.ttlMs);
+      }
+    } catch (error) {
+      this.options.onError?.(error, request);
+    }
+    return payload;
+  };
+}
+
+// Drops fields from a JSON object body; other bodies are kept as they are
+const omitBodyFields = (body: string, fields: string[]): string => {
+  if (fields.length === 0) {
+    return body;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return body;
+  }
+  const kept = Object.fromEntries(Object.entries(parsed).filter(([name]) => !fields.includes(name)));
+  return JSON.stringify(kept);
+};
+
+const toIdempotentResponse = (reply: FastifyReply, body: string): IdempotentResponse => {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    const lowerName = name.toLowerCase();
+    if (value === undefined || UNSTORED_HEADERS.has(lowerName) || lowerName.startsWith('ratelimit-') || lowerName.startsWith('access-control-')) {
+      continue;
+    }
+    headers[lowerName] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return { statusCode: reply.statusCode, headers, body };
+};
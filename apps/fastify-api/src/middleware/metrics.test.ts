@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MetricsRegistry } from '../metrics/registry';
+import { registerMetrics } from './metrics';
+
+describe('registerMetrics', () => {
+  let app: FastifyInstance;
+
+  const createApp = async (token?: string) => {
+    app = Fastify();
+    registerMetrics(app, new MetricsRegistry(), { token });
+    app.get('/users/:id', async () => ({ ok: true }));
+    await app.ready();
+    return app;
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should count requests by route template and status', async () => {
+    await createApp();
+    await app.inject({ method: 'GET', url: '/users/1' });
+    await app.inject({ method: 'GET', url: '/users/2' });
+    await app.inject({ method: 'GET', url: '/nowhere' });
+
+    const response = await app.inject({ method: 'GET', url: '/metrics' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(response.body).toContain('http_requests_total{method="GET",route="/users/:id",status_code="200"} 2');
+    expect(response.body).toContain('http_requests_total{method="GET",route="unmatched",status_code="404"} 1');
+    expect(response.body).toContain('http_request_duration_seconds_count{method="GET",route="/users/:id",status_code="200"} 2');
+    expect(response.body).not.toContain('/users/1');
+  });
+
+  it('should only serve loopback clients when no token is configured', async () => {
+    await createApp();
+
+    const response = await app.inject({ method: 'GET', url: '/metrics', remoteAddress: '203.0.113.7' });
+
+    expect(response.statusCode).toBe(403);
+    expect(response.json()).toMatchObject({ code: 'METRICS_FORBIDDEN' });
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    await createApp('scrape-token');
+
+    const missing = await app.inject({ method: 'GET', url: '/metrics' });
+    const wrong = await app.inject({ method: 'GET', url: '/metrics', headers: { authorization: 'Bearer nope' } });
+    const valid = await app.inject({
+      method: 'GET',
+      url: '/metrics',
+      remoteAddress: '10.1.2.3',
+      headers: { authorization: 'Bearer scrape-token' },
+    });
+
+    expect(missing.statusCode).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(wrong.statusCode).toBe(401);
+    expect(valid.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,70 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { MetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '../metrics/registry';
+
+export interface MetricsEndpointOptions {
+  // Bearer token scrapers must send; without one only loopback clients may scrape
+  token?: string | null;
+  path?: string;
+}
+
+// Route label of requests no route matched, so unknown URLs add no series
+const UNMATCHED_ROUTE = 'unmatched';
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Compares digests so the comparison takes the same time for any length
+const sameToken = (given: string, expected: string): boolean =>
+  timingSafeEqual(createHash('sha256').update(given).digest(), createHash('sha256').update(expected).digest());
+
+/**
+ * Whether a request may read metrics: with a configured token it must send
+ * `Authorization: Bearer <token>`, otherwise it must come from loopback.
+ * request.ip is the socket address unless trustProxy is enabled.
+ * @param request - Scrape request
+ * @param token - Configured token, if any
+ * @returns True when the metrics may be served
+ */
+export function isMetricsRequestAllowed(request: FastifyRequest, token: string | null | undefined): boolean {
+  if (token) {
+    const [scheme, value] = (request.headers.authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'bearer' && !!value && sameToken(value, token);
+  }
+  return LOOPBACK_ADDRESSES.has(request.ip);
+}
+
+/**
+ * Counts requests and records their latency by route template, method and
+ * status, and serves the registry at /metrics in the Prometheus text format
+ * @param fastify - Instance to add the hook and route to
+ * @param registry - Registry the HTTP metrics are added to and served from
+ * @param options - Endpoint path and scrape token
+ */
+export function registerMetrics(fastify: FastifyInstance, registry: MetricsRegistry, options: MetricsEndpointOptions = {}): void {
+  const labelNames = ['method', 'route', 'status_code'];
+  const requests = registry.counter({ name: 'http_requests_total', help: 'HTTP requests served', labelNames });
+  const duration = registry.histogram({ name: 'http_request_duration_seconds', help: 'HTTP request latency in seconds', labelNames });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const labels = {
+      method: request.method,
+      route: request.routeOptions.url ?? UNMATCHED_ROUTE,
+      status_code: reply.statusCode,
+    };
+    requests.inc(labels);
+    duration.observe(labels, reply.elapsedTime / 1000);
+  });
+
+  fastify.get(options.path ?? '/metrics', { schema: { hide: true } }, async (request, reply) => {
+    if (!isMetricsRequestAllowed(request, options.token)) {
+      if (options.token) {
+        reply.header('WWW-Authenticate', 'Bearer');
+      }
+      return reply.code(options.token ? 401 : 403).send({
+        error: 'Metrics are not available to this client',
+        code: 'METRICS_FORBIDDEN'
+      });
+    }
+    return reply.type(PROMETHEUS_CONTENT_TYPE).send(registry.metrics());
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  ALL_PERMISSIONS,
+  forbiddenResponse,
+  hasPermissions,
+  requirePermission,
+  resolvePermissions
+} from './permissions';
+
+const createMockReply = (): FastifyReply => {
+  const reply = {
+    code: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+  };
+  return reply as unknown as FastifyReply;
+};
+
+const createMockRequest = (user: unknown): FastifyRequest =>
+  ({ user } as unknown as FastifyRequest);
+
+describe('Permissions', () => {
+  describe('resolvePermissions', () => {
+    it('should grant admins every permission', () => {
+      expect(resolvePermissions(['admin'])).toEqual([...ALL_PERMISSIONS].sort());
+    });
+
+    it('should merge role permissions with direct grants without duplicates', () => {
+      expect(resolvePermissions(['customer', 'branch_staff'], ['events:read', 'equipment:read'])).toEqual([
+        'equipment:read',
+        'equipment:write',
+        'events:publish',
+        'events:read',
+      ]);
+    });
+
+    it('should not let customers write equipment', () => {
+      expect(resolvePermissions(['customer'])).not.toContain('equipment:write');
+    });
+  });
+
+  describe('hasPermissions', () => {
+    it('should require every listed permission', () => {
+      const user = { id: 'user-1', email: 'test@example.com', permissions: ['equipment:read' as const] };
+
+      expect(hasPermissions(user, ['equipment:read'])).toBe(true);
+      expect(hasPermissions(user, ['equipment:read', 'equipment:write'])).toBe(false);
+    });
+
+    it('should treat tokens without permissions as having none', () => {
+      expect(hasPermissions({ id: 'user-1', email: 'test@example.com' }, ['equipment:read'])).toBe(false);
+      expect(hasPermissions(undefined, ['equipment:read'])).toBe(false);
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should allow users holding the permission', async () => {
+      const reply = createMockReply();
+      const request = createMockRequest({ id: 'user-1', email: 'test@example.com', permissions: ['equipment:write'] });
+
+      expect(await requirePermission('equipment:write')(request, reply)).toBe(true);
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+
+    it('should reject users missing the permission with 403', async () => {
+      const reply = createMockReply();
+      const request = createMockRequest({ id: 'user-1', email: 'test@example.com', permissions: ['equipment:read'] });
+
+      expect(await requirePermission('equipment:write')(request, reply)).toBe(false);
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+        required: ['equipment:write']
+      });
+    });
+  });
+
+  describe('forbiddenResponse', () => {
+    it('should name the required permissions', () => {
+      expect(forbiddenResponse('events:admin', 'system:admin').description)
+        .toBe('Forbidden - requires `events:admin`, `system:admin`');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { JwtPayload, Permission, Role } from '../types';
+
+// Every permission known to the API; admins hold all of them
+export const ALL_PERMISSIONS: readonly Permission[] = [
+  'equipment:read',
+  'equipment:write',
+  'events:publish',
+  'events:read',
+  'events:admin',
+  'users:read',
+  'users:write',
+  'system:admin',
+];
+
+/**
+ * Permissions granted by each role. Mirrors the database roles in
+ * enterprise-config.sql: customers and branch staff map to app_read/app_write
+ * style access, fleet managers add reporting, admins get everything.
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  fleet_manager: ['equipment:read', 'equipment:write', 'events:publish', 'events:read', 'users:read'],
+  branch_staff: ['equipment:read', 'equipment:write', 'events:publish'],
+  customer: ['equipment:read', 'events:publish'],
+};
+
+/**
+ * Resolves the effective permissions of a user
+ * @param roles - Roles held by the user
+ * @param grants - Permissions granted directly to the user
+ * @returns Sorted, de-duplicated permission list
+ */
+export const resolvePermissions = (roles: Role[], grants: Permission[] = []): Permission[] => {
+  const permissions = new Set<Permission>(grants);
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role] ?? []) {
+      permissions.add(permission);
+    }
+  }
+  return [...permissions].sort();
+};
+
+/**
+ * Checks whether a token grants every required permission
+ * @param user - Verified JWT payload
+ * @param required - Permissions the caller needs
+ * @returns True if all permissions are present
+ */
+export const hasPermissions = (user: JwtPayload | undefined, required: Permission[]): boolean => {
+  const granted = user?.permissions ?? [];
+  return required.every((permission) => granted.includes(permission));
+};
+
+/**
+ * Creates a preHandler that requires the authenticated user to hold
+ * permissions; must run after authenticateUser
+ * @param required - Permissions the route needs
+ * @returns Fastify preHandler resolving to true when access is allowed
+ */
+export const requirePermission = (...required: Permission[]) =>
+  async (request: FastifyRequest, reply: FastifyReply): Promise<boolean> => {
+    if (!hasPermissions(request.user as JwtPayload | undefined, required)) {
+      reply.code(403).send({
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+        required
+      });
+      return false;
+    }
+    return true;
+  };
+
+/**
+ * Swagger 403 response for routes guarded by requirePermission
+ * @param required - Permissions the route needs
+ * @returns Response schema naming the required permissions
+ */
+export const forbiddenResponse = (...required: Permission[]) => ({
+  description: `Forbidden - requires ${required.map((permission) => `\`${permission}\``).join(', ')}`,
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    code: { type: 'string' },
+    required: { type: 'array', items: { type: 'string' } }
+  }
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { InMemoryRateLimitStore, RateLimitStore } from '../stores/rate-limit-store';
+import { RateLimiter, RateLimitPolicies, DEFAULT_RATE_LIMIT_POLICIES } from './rate-limit';
+
+const createMockReply = () => {
+  const reply = {
+    code: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    header: vi.fn().mockReturnThis(),
+  };
+  return reply as typeof reply & FastifyReply;
+};
+
+const createMockRequest = (overrides: Record<string, unknown> = {}): FastifyRequest => ({
+  ip: '10.0.0.1',
+  method: 'POST',
+  url: '/api/auth/login',
+  routeOptions: { url: '/api/auth/login' },
+  body: { email: 'User@Example.com' },
+  ...overrides,
+} as unknown as FastifyRequest);
+
+const headers = (reply: ReturnType<typeof createMockReply>): Record<string, unknown> =>
+  Object.fromEntries(reply.header.mock.calls);
+
+const POLICIES: RateLimitPolicies = {
+  login: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 3, windowMs: 60_000 },
+    { name: 'email', keyBy: ['email'], algorithm: 'sliding-window', limit: 2, windowMs: 60_000 },
+  ],
+  global: [
+    { name: 'route', keyBy: ['route'], algorithm: 'token-bucket', limit: 2, windowMs: 60_000 },
+  ],
+  mfa: [
+    { name: 'user', keyBy: ['user'], algorithm: 'sliding-window', limit: 1, windowMs: 60_000 },
+  ],
+};
+
+describe('RateLimiter', () => {
+  let store: InMemoryRateLimitStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new InMemoryRateLimitStore();
+    limiter = new RateLimiter(store, POLICIES);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report the policy closest to its limit in RateLimit headers', async () => {
+    const reply = createMockReply();
+
+    expect(await limiter.enforce('login', createMockRequest(), reply)).toBe(true);
+
+    expect(headers(reply)).toEqual({
+      'RateLimit-Limit': 2,
+      'RateLimit-Remaining': 1,
+      'RateLimit-Reset': 60,
+      'RateLimit-Policy': '2;w=60',
+    });
+  });
+
+  it('should reject with 429 and Retry-After once a policy is exhausted', async () => {
+    await limiter.enforce('login', createMockRequest(), createMockReply());
+    vi.advanceTimersByTime(15_000);
+    await limiter.enforce('login', createMockRequest({ body: { email: 'user@example.com' } }), createMockReply());
+
+    const reply = createMockReply();
+    expect(await limiter.enforce('login', createMockRequest(), reply)).toBe(false);
+
+    expect(reply.code).toHaveBeenCalledWith(429);
+    expect(reply.send).toHaveBeenCalledWith({ error: 'Too many requests. Please try again later.', code: 'RATE_LIMITED' });
+    expect(headers(reply)).toMatchObject({ 'Retry-After': 45, 'RateLimit-Remaining': 0 });
+  });
+
+  it('should report each decision with the policy that refused the request', async () => {
+    const onResult = vi.fn();
+    limiter = new RateLimiter(store, POLICIES, { onResult });
+    const request = createMockRequest();
+
+    await limiter.enforce('global', request, createMockReply());
+    await limiter.enforce('global', request, createMockReply());
+    await limiter.enforce('global', request, createMockReply());
+
+    expect(onResult.mock.calls).toEqual([
+      ['global', true, null, request],
+      ['global', true, null, request],
+      ['global', false, POLICIES['global'][0], request],
+    ]);
+  });
+
+  it('should key by each request property separately', async () => {
+    await limiter.enforce('login', createMockRequest(), createMockReply());
+    await limiter.enforce('login', createMockRequest(), createMockReply());
+
+    // Same address from another IP is still limited; another address is not
+    expect(await limiter.enforce('login', createMockRequest({ ip: '10.0.0.2' }), createMockReply())).toBe(false);
+    expect(await limiter.enforce('login', createMockRequest({ body: { email: 'other@example.com' } }), createMockReply())).toBe(true);
+  });
+
+  it('should skip policies whose key is missing from the request', async () => {
+    const reply = createMockReply();
+
+    expect(await limiter.enforce('login', createMockRequest({ body: undefined }), reply)).toBe(true);
+    expect(headers(reply)['RateLimit-Limit']).toBe(3);
+  });
+
+  it('should share route-keyed budgets across clients', async () => {
+    await limiter.enforce('global', createMockRequest({ ip: '1.1.1.1' }), createMockReply());
+    await limiter.enforce('global', createMockRequest({ ip: '2.2.2.2' }), createMockReply());
+
+    expect(await limiter.enforce('global', createMockRequest({ ip: '3.3.3.3' }), createMockReply())).toBe(false);
+  });
+
+  it('should key user policies by request.user or an explicit id', async () => {
+    expect(await limiter.enforce('mfa', createMockRequest({ user: { id: 'user-1' } }), createMockReply())).toBe(true);
+    expect(await limiter.enforce('mfa', createMockRequest(), createMockReply(), 'user-1')).toBe(false);
+    expect(await limiter.enforce('mfa', createMockRequest(), createMockReply(), 'user-2')).toBe(true);
+  });
+
+  it('should reset a request\'s counters', async () => {
+    await limiter.enforce('login', createMockRequest(), createMockReply());
+    await limiter.enforce('login', createMockRequest(), createMockReply());
+
+    await limiter.reset('login', createMockRequest());
+
+    expect(await limiter.enforce('login', createMockRequest(), createMockReply())).toBe(true);
+  });
+
+  it('should allow requests when the store fails', async () => {
+    const failing: RateLimitStore = {
+      consume: vi.fn().mockRejectedValue(new Error('Redis down')),
+      reset: vi.fn(),
+      purgeExpired: vi.fn(),
+    };
+    const onError = vi.fn();
+    const failOpen = new RateLimiter(failing, POLICIES, { onError });
+
+    expect(await failOpen.enforce('login', createMockRequest(), createMockReply())).toBe(true);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown groups when the hook is created', () => {
+    expect(() => limiter.hook('missing')).toThrow('Unknown rate limit group: missing');
+  });
+
+  it('should define limits for every public auth route', () => {
+    expect(Object.keys(DEFAULT_RATE_LIMIT_POLICIES)).toEqual(
+      expect.arrayContaining(['login', 'register', 'refresh', 'passwordForgot', 'passwordReset'])
+    );
+  });
+});
@@ -0,0 +1,201 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { JwtPayload } from '../types';
+import { RateLimitStore, RateLimitRule, RateLimitResult } from '../stores/rate-limit-store';
+
+/**
+ * Request properties a limit can be keyed by. Each distinct combination of
+ * values gets its own budget; a policy keyed only by `route` is shared by
+ * every client of that route.
+ */
+export type RateLimitKeyPart = 'ip' | 'email' | 'route' | 'user';
+
+export interface RateLimitPolicy extends RateLimitRule {
+  // Unique within its group; part of the storage key
+  name: string;
+  keyBy: RateLimitKeyPart[];
+}
+
+// Named groups of policies; a request must pass every policy in its group
+export type RateLimitPolicies = Record<string, RateLimitPolicy[]>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Per-route limits applied by main.ts
+ */
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicies = {
+  // Reset on successful login
+  login: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 5, windowMs: 15 * MINUTE },
+    { name: 'email', keyBy: ['email'], algorithm: 'sliding-window', limit: 10, windowMs: 15 * MINUTE },
+  ],
+  register: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 5, windowMs: HOUR },
+    // Caps sign-up bursts spread across many addresses
+    { name: 'route', keyBy: ['route'], algorithm: 'token-bucket', limit: 100, windowMs: MINUTE },
+  ],
+  refresh: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'token-bucket', limit: 30, windowMs: MINUTE },
+  ],
+  passwordForgot: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 5, windowMs: 15 * MINUTE },
+    { name: 'email', keyBy: ['email'], algorithm: 'sliding-window', limit: 3, windowMs: HOUR },
+  ],
+  passwordReset: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 10, windowMs: 15 * MINUTE },
+  ],
+  verificationResend: [
+    { name: 'ip', keyBy: ['ip'], algorithm: 'sliding-window', limit: 10, windowMs: HOUR },
+    { name: 'email', keyBy: ['email'], algorithm: 'sliding-window', limit: 3, windowMs: HOUR },
+  ],
+  // Wrong second-factor codes; reset once a code is accepted
+  mfa: [
+    { name: 'user', keyBy: ['user'], algorithm: 'sliding-window', limit: 5, windowMs: 5 * MINUTE },
+  ],
+};
+
+export interface RateLimiterOptions {
+  // Called when the store fails; the request is then allowed
+  onError?: (error: unknown, request: FastifyRequest) => void;
+  // Called once per enforced request, e.g. for metrics; policy is the one that refused it
+  onResult?: (group: string, allowed: boolean, policy: RateLimitPolicy | null, request: FastifyRequest) => void;
+}
+
+/**
+ * Applies named groups of rate limit policies to requests and reports the
+ * outcome in `RateLimit-*` and `Retry-After` headers
+ */
+export class RateLimiter {
+  constructor(
+    private readonly store: RateLimitStore,
+    private readonly policies: RateLimitPolicies = DEFAULT_RATE_LIMIT_POLICIES,
+    private readonly options: RateLimiterOptions = {}
+  ) {}
+
+  /**
+   * Creates a preHandler enforcing a policy group. Place it after
+   * authenticateUser when the group is keyed by `user`.
+   * @param group - Policy group name
+   * @returns Fastify preHandler resolving to true when the request may proceed
+   */
+  hook(group: string) {
+    this.getPolicies(group);
+    return (request: FastifyRequest, reply: FastifyReply): Promise<boolean> => this.enforce(group, request, reply);
+  }
+
+  /**
+   * Spends one unit of every policy in a group and sends 429 when any is exhausted
+   * @param group - Policy group name
+   * @param request - Current request
+   * @param reply - Reply that receives the headers or the 429
+   * @param user - User id for `user` keys when request.user is not set
+   * @returns True when the request may proceed
+   */
+  async enforce(group: string, request: FastifyRequest, reply: FastifyReply, user?: string): Promise<boolean> {
+    let tightest: { policy: RateLimitPolicy; result: RateLimitResult } | null = null;
+
+    for (const policy of this.getPolicies(group)) {
+      const key = this.buildKey(group, policy, request, user);
+      if (!key) {
+        continue;
+      }
+
+      let result: RateLimitResult;
+      try {
+        result = await this.store.consume(key, policy);
+      } catch (error) {
+        this.options.onError?.(error, request);
+        continue;
+      }
+
+      if (!result.allowed) {
+        setRateLimitHeaders(reply, policy, result);
+        reply.header('Retry-After', Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+        reply.code(429).send({
+          error: 'Too many requests. Please try again later.',
+          code: 'RATE_LIMITED'
+        });
+        this.options.onResult?.(group, false, policy, request);
+        return false;
+      }
+
+      if (!tightest || result.remaining < tightest.result.remaining) {
+        tightest = { policy, result };
+      }
+    }
+
+    if (tightest) {
+      setRateLimitHeaders(reply, tightest.policy, tightest.result);
+    }
+    this.options.onResult?.(group, true, null, request);
+    return true;
+  }
+
+  /**
+   * Clears a group's counters for a request, e.g. after a successful login
+   * @param group - Policy group name
+   * @param request - Request whose keys are reset
+   * @param user - User id for `user` keys when request.user is not set
+   */
+  async reset(group: string, request: FastifyRequest, user?: string): Promise<void> {
+    for (const policy of this.getPolicies(group)) {
+      // Route-wide budgets are shared with other clients and stay untouched
+      const key = policy.keyBy.includes('route') ? null : this.buildKey(group, policy, request, user);
+      if (key) {
+        try {
+          await this.store.reset(key);
+        } catch (error) {
+          this.options.onError?.(error, request);
+        }
+      }
+    }
+  }
+
+  private getPolicies(group: string): RateLimitPolicy[] {
+    const policies = this.policies[group];
+    if (!policies) {
+      throw new Error(`Unknown rate limit group: ${group}`);
+    }
+    return policies;
+  }
+
+  // Returns null when the request lacks a value the policy is keyed by
+  private buildKey(group: string, policy: RateLimitPolicy, request: FastifyRequest, user?: string): string | null {
+    const parts: string[] = [group, policy.name];
+
+    for (const part of policy.keyBy) {
+      const value = keyValue(part, request, user);
+      if (!value) {
+        return null;
+      }
+      parts.push(value);
+    }
+    return parts.join(':');
+  }
+}
+
+const keyValue = (part: RateLimitKeyPart, request: FastifyRequest, user?: string): string | undefined => {
+  switch (part) {
+    case 'ip':
+      return request.ip;
+    case 'email': {
+      const email = (request.body as { email?: unknown } | undefined)?.email;
+      return typeof email === 'string' ? email.trim().toLowerCase() : undefined;
+    }
+    case 'route':
+      return `${request.method} ${request.routeOptions?.url ?? request.url}`;
+    case 'user':
+      return user ?? (request.user as JwtPayload | undefined)?.id;
+  }
+};
+
+/**
+ * Sets the IETF draft RateLimit headers for the policy closest to its limit
+ */
+const setRateLimitHeaders = (reply: FastifyReply, policy: RateLimitPolicy, result: RateLimitResult): void => {
+  reply.header('RateLimit-Limit', result.limit);
+  reply.header('RateLimit-Remaining', result.remaining);
+  reply.header('RateLimit-Reset', Math.ceil(result.resetMs / 1000));
+  reply.header('RateLimit-Policy', `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`);
+};
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { ApiRequestRecord, ApiRequestRepository } from '../repositories/api-request-repository';
+import { redactIp, registerRequestLog, RequestLogWriter } from './request-log';
+
+const createRepository = () => ({
+  insertMany: vi.fn<(records: ApiRequestRecord[]) => Promise<void>>().mockResolvedValue(undefined),
+  deleteOlderThan: vi.fn<(cutoff: Date, limit: number) => Promise<number>>().mockResolvedValue(0),
+  summary: vi.fn(),
+  usageByRoute: vi.fn(),
+  usageByUser: vi.fn(),
+});
+
+const record = (requestId: string): ApiRequestRecord => ({
+  userId: null,
+  method: 'GET',
+  endpoint: '/api/users/:id',
+  statusCode: 200,
+  responseTimeMs: 5,
+  ipAddress: null,
+  userAgent: null,
+  requestId,
+  sampleRate: 1,
+  createdAt: new Date(),
+});
+
+describe('redactIp', () => {
+  it('should zero the host part of truncated addresses', () => {
+    expect(redactIp('203.0.113.77', 'truncated')).toBe('203.0.113.0');
+    expect(redactIp('::ffff:203.0.113.77', 'truncated')).toBe('203.0.113.0');
+    expect(redactIp('2001:db8:85a3::8a2e:370:7334', 'truncated')).toBe('2001:db8:85a3::');
+    expect(redactIp('2001:db8::1', 'truncated')).toBe('2001:db8:0::');
+  });
+
+  it('should keep or drop addresses as configured', () => {
+    expect(redactIp('203.0.113.77', 'full')).toBe('203.0.113.77');
+    expect(redactIp('203.0.113.77', 'none')).toBeNull();
+    expect(redactIp('not-an-ip', 'full')).toBeNull();
+  });
+});
+
+describe('RequestLogWriter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write in batches once a batch is full or the timer fires', async () => {
+    vi.useFakeTimers();
+    const repository = createRepository();
+    const writer = new RequestLogWriter(repository as ApiRequestRepository, { batchSize: 2, flushIntervalMs: 1000 });
+    writer.start();
+
+    writer.add(record('req-1'));
+    writer.add(record('req-2'));
+    await vi.advanceTimersByTimeAsync(0);
+    writer.add(record('req-3'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(repository.insertMany).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(repository.insertMany.mock.calls.map(([batch]) => batch.map((entry) => entry.requestId))).toEqual([['req-1', 'req-2'], ['req-3']]);
+    await writer.stop();
+  });
+
+  it('should drop records beyond the queue limit and log failed writes', async () => {
+    const repository = createRepository();
+    repository.insertMany.mockRejectedValueOnce(new Error('connection terminated'));
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const writer = new RequestLogWriter(repository as ApiRequestRepository, { batchSize: 10, maxQueueSize: 2, logger });
+
+    writer.add(record('req-1'));
+    writer.add(record('req-2'));
+    writer.add(record('req-3'));
+    await writer.flush();
+
+    expect(logger.warn).toHaveBeenCalledWith('Request log queue was full; dropped 1 records');
+    expect(logger.error).toHaveBeenCalledWith('Writing 2 request log records failed', expect.any(Error));
+    await writer.flush();
+    expect(repository.insertMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should purge expired requests batch by batch', async () => {
+    const repository = createRepository();
+    repository.deleteOlderThan.mockResolvedValueOnce(100).mockResolvedValueOnce(100).mockResolvedValueOnce(40);
+    const now = new Date('2026-02-01T00:00:00Z').getTime();
+    const writer = new RequestLogWriter(repository as ApiRequestRepository, {
+      retentionMs: 24 * 60 * 60 * 1000,
+      purgeBatchSize: 100,
+      now: () => now,
+    });
+
+    expect(await writer.purgeExpired()).toBe(240);
+    expect(repository.deleteOlderThan).toHaveBeenCalledTimes(3);
+    expect(repository.deleteOlderThan).toHaveBeenCalledWith(new Date('2026-01-31T00:00:00Z'), 100);
+  });
+});
+
+describe('registerRequestLog', () => {
+  let app: FastifyInstance;
+
+  const createApp = async (options: Parameters<typeof registerRequestLog>[2] = {}) => {
+    const repository = createRepository();
+    const writer = new RequestLogWriter(repository as ApiRequestRepository);
+    app = Fastify();
+    app.addHook('preHandler', async (request) => {
+      if (request.headers.authorization) {
+        request.user = { id: 'user-1', email: 'user@example.com' };
+      }
+    });
+    registerRequestLog(app, writer, options);
+    app.get('/api/users/:id', async () => ({ ok: true }));
+    app.get('/health/ready', async () => ({ status: 'ok' }));
+    await app.ready();
+    return { writer, repository };
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should record the route template, user and truncated address but not the URL', async () => {
+    const { writer, repository } = await createApp();
+
+    await app.inject({
+      method: 'GET',
+      url: '/api/users/jane@example.com?token=secret',
+      headers: { authorization: 'Bearer x', 'user-agent': 'curl/8.0' },
+      remoteAddress: '203.0.113.77',
+    });
+    await writer.flush();
+
+    const [[records]] = repository.insertMany.mock.calls;
+    expect(records).toEqual([{
+      userId: 'user-1',
+      method: 'GET',
+      endpoint: '/api/users/:id',
+      statusCode: 200,
+      responseTimeMs: expect.any(Number),
+      ipAddress: '203.0.113.0',
+      userAgent: 'curl/8.0',
+      requestId: expect.any(String),
+      sampleRate: 1,
+      createdAt: expect.any(Date),
+    }]);
+    expect(JSON.stringify(records)).not.toContain('jane@example.com');
+  });
+
+  it('should skip probes and unsampled requests and label unmatched routes', async () => {
+    const random = vi.fn().mockReturnValueOnce(0.9).mockReturnValueOnce(0.1);
+    const { writer, repository } = await createApp({ sampleRate: 0.5, random });
+
+    await app.inject({ method: 'GET', url: '/health/ready' });
+    await app.inject({ method: 'GET', url: '/api/users/1' });
+    await app.inject({ method: 'GET', url: '/nowhere' });
+    await writer.flush();
+
+    const [[records]] = repository.insertMany.mock.calls;
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ endpoint: 'unmatched', statusCode: 404, sampleRate: 0.5 });
+  });
+});
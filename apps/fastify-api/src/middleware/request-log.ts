@@ -0,0 +1,208 @@
+import { isIPv4, isIPv6 } from 'net';
+import type { FastifyInstance } from 'fastify';
+import { ApiRequestRecord, ApiRequestRepository } from '../repositories/api-request-repository';
+import { JwtPayload } from '../types';
+
+// How client addresses are stored: as is, with the host part zeroed
+// (IPv4 /24, IPv6 /48), or not at all
+export type IpLogMode = 'full' | 'truncated' | 'none';
+
+export interface RequestLogOptions {
+  // Share of requests recorded, 0-1; 0 turns the log off
+  sampleRate?: number;
+  ipMode?: IpLogMode;
+  // Route prefixes that are never recorded, such as probes and scrapes
+  exclude?: string[];
+  // Replaceable in tests
+  random?: () => number;
+}
+
+export interface RequestLogWriterOptions {
+  // Records per insert; a full batch is written without waiting for the timer
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // Records kept while the database is slow or down; newer ones are dropped
+  maxQueueSize?: number;
+  // Age after which purgeExpired() deletes requests
+  retentionMs?: number;
+  // Rows deleted per statement, so a purge never holds long locks
+  purgeBatchSize?: number;
+  logger?: Pick<Console, 'warn' | 'error'>;
+  now?: () => number;
+}
+
+// Route label of requests no route matched, as in the HTTP metrics
+const UNMATCHED_ROUTE = 'unmatched';
+
+const DEFAULT_EXCLUDE = ['/health', '/metrics', '/documentation'];
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+// Eight groups of an IPv6 address, with `::` expanded
+const ipv6Groups = (address: string): string[] => {
+  if (!address.includes('::')) {
+    return address.split(':');
+  }
+  const [head, tail] = address.split('::');
+  const start = head ? head.split(':') : [];
+  const end = tail ? tail.split(':') : [];
+  return [...start, ...new Array(8 - start.length - end.length).fill('0'), ...end];
+};
+
+/**
+ * Applies the IP logging mode to a client address
+ * @param ip - Address as reported by Fastify, e.g. `203.0.113.7` or `::ffff:203.0.113.7`
+ * @param mode - Logging mode
+ * @returns Address to store, or null when it must not or cannot be stored
+ */
+export function redactIp(ip: string | undefined, mode: IpLogMode): string | null {
+  if (!ip || mode === 'none') {
+    return null;
+  }
+  const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').replace(/%.*$/, '');
+  if (mode === 'full') {
+    return isIPv4(address) || isIPv6(address) ? address : null;
+  }
+  if (isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+  if (isIPv6(address)) {
+    return `${ipv6Groups(address).slice(0, 3).join(':')}::`;
+  }
+  return null;
+}
+
+/**
+ * Buffers request records and writes them to `api_requests` in batches, off
+ * the request path. Write failures are logged and the batch dropped: the log
+ * feeds usage analytics and is not an audit trail.
+ */
+export class RequestLogWriter {
+  private readonly batchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxQueueSize: number;
+  private readonly retentionMs: number;
+  private readonly purgeBatchSize: number;
+  private readonly logger: Pick<Console, 'warn' | 'error'>;
+  private readonly now: () => number;
+  private queue: ApiRequestRecord[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  // Records dropped since the last warning
+  private dropped = 0;
+
+  constructor(private readonly repository: ApiRequestRepository, options: RequestLogWriterOptions = {}) {
+    this.batchSize = options.batchSize ?? 100;
+    this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    this.maxQueueSize = options.maxQueueSize ?? 10_000;
+    this.retentionMs = options.retentionMs ?? 30 * 24 * 60 * 60 * 1000;
+    this.purgeBatchSize = options.purgeBatchSize ?? 5000;
+    this.logger = options.logger ?? console;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Writes queued records every flush interval
+  start(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.flush(), this.flushIntervalMs);
+      this.timer.unref();
+    }
+  }
+
+  // Stops the timer and writes what is queued
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  add(record: ApiRequestRecord): void {
+    if (this.queue.length >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(record);
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Writes queued records; flushes run one after another
+   * @returns Resolves when every record queued so far was written or dropped
+   */
+  flush(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      if (this.dropped > 0) {
+        this.logger.warn(`Request log queue was full; dropped ${this.dropped} records`);
+        this.dropped = 0;
+      }
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.batchSize);
+        try {
+          await this.repository.insertMany(batch);
+        } catch (error) {
+          this.logger.error(`Writing ${batch.length} request log records failed`, error);
+        }
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Deletes requests older than the retention period, in batches
+   * @returns Number of requests deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(this.now() - this.retentionMs);
+    let total = 0;
+    let deleted: number;
+    do {
+      deleted = await this.repository.deleteOlderThan(cutoff, this.purgeBatchSize);
+      total += deleted;
+    } while (deleted >= this.purgeBatchSize);
+    return total;
+  }
+}
+
+/**
+ * Records a sample of served requests in the request log. Only the route
+ * template is stored, so path parameters and query strings, which may hold
+ * emails or tokens, never reach the table; addresses follow `ipMode`.
+ * @param fastify - Instance to add the hook to
+ * @param writer - Writer the records are queued on
+ * @param options - Sampling, address handling and excluded routes
+ */
+export function registerRequestLog(fastify: FastifyInstance, writer: RequestLogWriter, options: RequestLogOptions = {}): void {
+  const sampleRate = Math.min(Math.max(options.sampleRate ?? 1, 0), 1);
+  const ipMode = options.ipMode ?? 'truncated';
+  const exclude = options.exclude ?? DEFAULT_EXCLUDE;
+  const random = options.random ?? Math.random;
+  if (sampleRate === 0) {
+    return;
+  }
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const endpoint = request.routeOptions.url ?? UNMATCHED_ROUTE;
+    if (request.method === 'OPTIONS' || exclude.some((prefix) => endpoint.startsWith(prefix))) {
+      return;
+    }
+    if (sampleRate < 1 && random() >= sampleRate) {
+      return;
+    }
+    writer.add({
+      userId: (request.user as JwtPayload | undefined)?.id ?? null,
+      method: request.method,
+      endpoint,
+      statusCode: reply.statusCode,
+      responseTimeMs: reply.elapsedTime,
+      ipAddress: redactIp(request.ip, ipMode),
+      userAgent: request.headers['user-agent']?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      requestId: request.id,
+      sampleRate,
+      createdAt: new Date(),
+    });
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { Tracer } from '../tracing/tracer';
+import { InMemorySpanExporter } from '../tracing/span-exporters';
+import { genRequestId, registerRequestTracing, tracingLoggerOptions } from './request-tracing';
+
+describe('registerRequestTracing', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const callerSpanId = '00f067aa0ba902b7';
+  let app: FastifyInstance;
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+  let lines: Record<string, unknown>[];
+
+  beforeEach(async () => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporter, flushIntervalMs: 60_000 });
+    lines = [];
+
+    app = Fastify({
+      logger: {
+        ...tracingLoggerOptions(tracer),
+        stream: { write: (line: string) => lines.push(JSON.parse(line)) },
+      },
+      genReqId: genRequestId,
+    });
+    registerRequestTracing(app, tracer);
+    app.get('/users/:id', async (request) => {
+      await tracer.withSpan('db.query', { kind: 'client' }, async () => undefined);
+      request.log.info('loaded user');
+      app.log.info('outside the request logger');
+      return { id: (request.params as { id: string }).id };
+    });
+    app.get('/missing', async (_request, reply) => reply.code(404).send({ error: 'User not found' }));
+    app.get('/broken', async () => {
+      throw new Error('database unavailable');
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const spansFor = async () => {
+    await tracer.flush();
+    return exporter.spans;
+  };
+
+  it('should continue the caller\'s trace and parent spans created by the handler', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/users/42?fields=name',
+      headers: { traceparent: `00-${traceId}-${callerSpanId}-01` },
+    });
+
+    const spans = await spansFor();
+    const server = spans.find((span) => span.kind === 'server');
+    expect(server).toMatchObject({
+      name: 'GET /users/:id',
+      traceId,
+      parentSpanId: callerSpanId,
+      attributes: {
+        'http.request.method': 'GET',
+        'http.route': '/users/:id',
+        'url.path': '/users/42',
+        'http.response.status_code': 200,
+      },
+    });
+    expect(exporter.named('db.query')[0].parentSpanId).toBe(server?.spanId);
+    expect(response.headers['traceresponse']).toBe(`00-${traceId}-${server?.spanId}-01`);
+  });
+
+  it('should keep a well formed X-Request-ID and generate one otherwise', async () => {
+    const kept = await app.inject({ method: 'GET', url: '/users/1', headers: { 'x-request-id': 'proxy-123' } });
+    const replaced = await app.inject({ method: 'GET', url: '/users/1', headers: { 'x-request-id': 'bad id\n' } });
+
+    expect(kept.headers['x-request-id']).toBe('proxy-123');
+    expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should add trace and request ids to every log line of the request', async () => {
+    await app.inject({
+      method: 'GET',
+      url: '/users/1',
+      headers: { traceparent: `00-${traceId}-${callerSpanId}-01`, 'x-request-id': 'req-7' },
+    });
+
+    const handlerLines = lines.filter((line) => String(line['msg']).includes('user') || String(line['msg']).includes('outside'));
+    expect(handlerLines).toHaveLength(2);
+    for (const line of handlerLines) {
+      expect(line).toMatchObject({ traceId, reqId: 'req-7' });
+    }
+    expect(lines.find((line) => line['msg'] === 'request completed')).toMatchObject({ traceId, reqId: 'req-7' });
+  });
+
+  it('should add trace and request ids to error bodies', async () => {
+    const missing = await app.inject({ method: 'GET', url: '/missing', headers: { 'x-request-id': 'req-8' } });
+    const broken = await app.inject({ method: 'GET', url: '/broken' });
+
+    expect(missing.json()).toEqual({ error: 'User not found', traceId: expect.stringMatching(/^[0-9a-f]{32}$/), requestId: 'req-8' });
+    expect(broken.json()).toMatchObject({ statusCode: 500, requestId: broken.headers['x-request-id'] });
+
+    const spans = await spansFor();
+    expect(spans.find((span) => span.name === 'GET /broken')).toMatchObject({
+      status: 'error',
+      attributes: { 'exception.message': 'database unavailable', 'http.response.status_code': 500 },
+    });
+    expect(spans.find((span) => span.name === 'GET /missing')?.status).toBe('unset');
+  });
+
+  it('should start a new trace for requests without a valid traceparent', async () => {
+    await app.inject({ method: 'GET', url: '/users/1', headers: { traceparent: 'garbage' } });
+
+    const [server] = (await spansFor()).filter((span) => span.kind === 'server');
+    expect(server.parentSpanId).toBeNull();
+    expect(server.traceId).not.toBe(traceId);
+  });
+});
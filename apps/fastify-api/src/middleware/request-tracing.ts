@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { formatTraceparent, parseTraceparent, TRACEPARENT_HEADER } from '../tracing/trace-context';
+import { Span, Tracer } from '../tracing/tracer';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// W3C Trace Context Level 2 response header: which trace handled the request
+export const TRACERESPONSE_HEADER = 'traceresponse';
+
+// Caller supplied ids are kept when they cannot break log lines or headers
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request id for Fastify's genReqId: the caller's X-Request-ID when it is
+ * well formed, so a proxy's id carries through, else a new UUID
+ * @param request - Raw request
+ * @returns Request id
+ */
+export function genRequestId(request: IncomingMessage): string {
+  const header = request.headers[REQUEST_ID_HEADER];
+  return typeof header === 'string' && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+}
+
+/**
+ * Logger options adding trace ids to every log line written while a request
+ * is handled, including lines logged through fastify.log. Request loggers
+ * already carry reqId; other lines get it from the active trace.
+ * @param tracer - Tracer holding the active request
+ * @returns Options to merge into Fastify's `logger`
+ */
+export const tracingLoggerOptions = (tracer: Tracer) => ({
+  mixin: (_object: object, _level: number, logger: { bindings(): Record<string, unknown> }) => tracer.logBindings(!('reqId' in logger.bindings())),
+});
+
+/**
+ * Starts a server span per request, continuing the caller's trace from its
+ * `traceparent` header. The span is active while the request is handled, so
+ * queries and other spans become its children. Responses carry
+ * X-Request-ID and traceresponse, and JSON error bodies get `traceId` and
+ * `requestId` so a user's error report leads to the logs.
+ * @param fastify - Instance to add the hooks to; register before routes
+ * @param tracer - Tracer for the server spans
+ */
+export function registerRequestTracing(fastify: FastifyInstance, tracer: Tracer): void {
+  const spans = new WeakMap<FastifyRequest, Span>();
+
+  // Callback style, so the span stays active for the hooks and handler that follow
+  fastify.addHook('onRequest', (request, reply, done) => {
+    const route = request.routeOptions.url;
+    const span = tracer.startSpan(`${request.method} ${route ?? 'unmatched route'}`, {
+      kind: 'server',
+      parent: parseTraceparent(request.headers[TRACEPARENT_HEADER]),
+      attributes: {
+        'http.request.method': request.method,
+        'url.path': request.url.split('?')[0],
+        ...(route ? { 'http.route': route } : {}),
+        'http.request.id': request.id,
+      },
+    });
+    spans.set(request, span);
+    tracer.enter(span, request.id);
+
+    reply.header(REQUEST_ID_HEADER, request.id);
+    reply.header(TRACERESPONSE_HEADER, formatTraceparent(span.context));
+    done();
+  });
+
+  fastify.addHook('onError', async (request, _reply, error) => {
+    spans.get(request)?.recordError(error);
+  });
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const span = spans.get(request);
+    const contentType = String(reply.getHeader('content-type') ?? '');
+    if (!span || reply.statusCode < 400 || typeof payload !== 'string' || !contentType.includes('json')) {
+      return payload;
+    }
+    try {
+      const body = JSON.parse(payload) as unknown;
+      if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        return payload;
+      }
+      return JSON.stringify({ ...body, traceId: span.context.traceId, requestId: request.id });
+    } catch {
+      return payload;
+    }
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const span = spans.get(request);
+    span?.setAttribute('http.response.status_code', reply.statusCode);
+    if (reply.statusCode >= 500) {
+      span?.setStatus('error');
+    }
+    span?.end();
+  });
+
+  fastify.addHook('onRequestAbort', async (request) => {
+    spans.get(request)?.setAttribute('http.request.aborted', true).end();
+  });
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiRequestRecord, PostgresApiRequestRepository, mapUsageStats } from './api-request-repository';
+import { Queryable } from '../database/pool';
+
+const record = (overrides: Partial<ApiRequestRecord> = {}): ApiRequestRecord => ({
+  userId: 'user-1',
+  method: 'GET',
+  endpoint: '/api/users/:id',
+  statusCode: 200,
+  responseTimeMs: 12.6,
+  ipAddress: '203.0.113.0',
+  userAgent: 'curl/8.0',
+  requestId: 'req-1',
+  sampleRate: 1,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const window = { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-01-02T00:00:00Z') };
+
+describe('PostgresApiRequestRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresApiRequestRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresApiRequestRepository(db as unknown as Queryable);
+  });
+
+  it('should insert a batch with one statement of column arrays', async () => {
+    db.query.mockResolvedValue({ rows: [], rowCount: 2 });
+
+    await repository.insertMany([record(), record({ userId: null, statusCode: 500, requestId: 'req-2' })]);
+
+    expect(db.query).toHaveBeenCalledTimes(1);
+    const [sql, values] = db.query.mock.calls[0];
+    expect(sql).toContain('unnest(');
+    expect(values[0]).toEqual(['user-1', null]);
+    expect(values[3]).toEqual([200, 500]);
+    expect(values[4]).toEqual([13, 13]);
+  });
+
+  it('should not query for an empty batch', async () => {
+    await repository.insertMany([]);
+
+    expect(db.query).not.toHaveBeenCalled();
+  });
+
+  it('should delete a limited batch of expired requests', async () => {
+    db.query.mockResolvedValue({ rows: [], rowCount: 1000 });
+    const cutoff = new Date('2025-12-01T00:00:00Z');
+
+    expect(await repository.deleteOlderThan(cutoff, 1000)).toBe(1000);
+    expect(db.query.mock.calls[0][0]).toContain('LIMIT $2');
+    expect(db.query.mock.calls[0][1]).toEqual([cutoff, 1000]);
+  });
+
+  it('should break usage down by route with scaled counts', async () => {
+    db.query.mockResolvedValue({
+      rows: [{ method: 'GET', endpoint: '/api/users/:id', requests: '40.0', client_errors: '4.0', server_errors: '2.0', p50: 12.25, p95: 80, p99: null }],
+    });
+
+    expect(await repository.usageByRoute(window, 10)).toEqual([{
+      method: 'GET',
+      endpoint: '/api/users/:id',
+      requests: 40,
+      clientErrors: 4,
+      serverErrors: 2,
+      errorRate: 0.05,
+      p50Ms: 12.3,
+      p95Ms: 80,
+      p99Ms: null,
+    }]);
+    expect(db.query.mock.calls[0][0]).toContain('GROUP BY method, endpoint');
+    expect(db.query.mock.calls[0][1]).toEqual([window.from, window.to, 10]);
+  });
+
+  it('should break usage down by signed-in user', async () => {
+    db.query.mockResolvedValue({
+      rows: [{ user_id: 'user-1', last_seen_at: new Date('2026-01-01T12:00:00Z'), requests: 3, client_errors: 0, server_errors: 0, p50: 5, p95: 9, p99: 9 }],
+    });
+
+    const [usage] = await repository.usageByUser(window, 10);
+
+    expect(usage).toMatchObject({ userId: 'user-1', lastSeenAt: '2026-01-01T12:00:00.000Z', requests: 3, errorRate: 0 });
+    expect(db.query.mock.calls[0][0]).toContain('user_id IS NOT NULL');
+  });
+
+  it('should summarize a window with no requests', async () => {
+    db.query.mockResolvedValue({ rows: [{ requests: null, client_errors: null, server_errors: null, p50: null, p95: null, p99: null, users: '0' }] });
+
+    expect(await repository.summary(window)).toEqual({
+      requests: 0,
+      clientErrors: 0,
+      serverErrors: 0,
+      errorRate: 0,
+      p50Ms: null,
+      p95Ms: null,
+      p99Ms: null,
+      users: 0,
+    });
+  });
+});
+
+describe('mapUsageStats', () => {
+  it('should round sampled counts to whole requests', () => {
+    expect(mapUsageStats({ requests: '33.3333', client_errors: '0', server_errors: '3.3333', p50: 1, p95: 2, p99: 3 }))
+      .toMatchObject({ requests: 33, serverErrors: 3, errorRate: 0.0909 });
+  });
+});
@@ -0,0 +1,195 @@
+import { Queryable } from '../database/pool';
+
+// One served request, as written to `api_requests`
+export interface ApiRequestRecord {
+  userId: string | null;
+  method: string;
+  // Route template such as `/api/users/:id`; never the raw URL
+  endpoint: string;
+  statusCode: number;
+  responseTimeMs: number;
+  // Possibly truncated, see REQUEST_LOG_IP
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  // Share of requests recorded when this one was
+  sampleRate: number;
+  createdAt: Date;
+}
+
+// Inclusive lower and exclusive upper bound on created_at
+export interface UsageWindow {
+  from: Date;
+  to: Date;
+}
+
+// Counts are scaled by the sample rate; latencies are in milliseconds over the recorded requests
+export interface UsageStats {
+  requests: number;
+  // 4xx responses
+  clientErrors: number;
+  // 5xx responses
+  serverErrors: number;
+  // Share of requests that failed with 5xx
+  errorRate: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+}
+
+export interface UsageSummary extends UsageStats {
+  // Distinct signed-in users seen
+  users: number;
+}
+
+export interface RouteUsage extends UsageStats {
+  method: string;
+  endpoint: string;
+}
+
+export interface UserUsage extends UsageStats {
+  userId: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Persistence boundary for the request log
+ */
+export interface ApiRequestRepository {
+  insertMany(records: ApiRequestRecord[]): Promise<void>;
+  /**
+   * Deletes up to `limit` requests older than the cutoff
+   * @returns Number deleted; fewer than `limit` means none are left
+   */
+  deleteOlderThan(cutoff: Date, limit: number): Promise<number>;
+  summary(window: UsageWindow): Promise<UsageSummary>;
+  // Busiest routes first
+  usageByRoute(window: UsageWindow, limit: number): Promise<RouteUsage[]>;
+  // Busiest signed-in users first
+  usageByUser(window: UsageWindow, limit: number): Promise<UserUsage[]>;
+}
+
+// Row shape of the aggregate queries
+export interface UsageStatsRow {
+  requests: string | number | null;
+  client_errors: string | number | null;
+  server_errors: string | number | null;
+  p50: string | number | null;
+  p95: string | number | null;
+  p99: string | number | null;
+}
+
+// Each row stands for 1 / sample_rate requests
+const USAGE_AGGREGATES = `
+  SUM(1.0 / sample_rate) AS requests,
+  SUM(CASE WHEN status_code BETWEEN 400 AND 499 THEN 1.0 / sample_rate ELSE 0 END) AS client_errors,
+  SUM(CASE WHEN status_code >= 500 THEN 1.0 / sample_rate ELSE 0 END) AS server_errors,
+  percentile_cont(0.5) WITHIN GROUP (ORDER BY response_time_ms) AS p50,
+  percentile_cont(0.95) WITHIN GROUP (ORDER BY response_time_ms) AS p95,
+  percentile_cont(0.99) WITHIN GROUP (ORDER BY response_time_ms) AS p99`;
+
+const toNumberOrNull = (value: string | number | null): number | null =>
+  value === null ? null : Math.round(Number(value) * 10) / 10;
+
+/**
+ * Maps aggregate columns to usage statistics
+ * @param row - Row of an aggregate query
+ * @returns Rounded counts, error rate and percentiles
+ */
+export function mapUsageStats(row: UsageStatsRow): UsageStats {
+  const requests = Math.round(Number(row.requests ?? 0));
+  const serverErrors = Math.round(Number(row.server_errors ?? 0));
+  return {
+    requests,
+    clientErrors: Math.round(Number(row.client_errors ?? 0)),
+    serverErrors,
+    errorRate: requests === 0 ? 0 : Math.round((serverErrors / requests) * 10000) / 10000,
+    p50Ms: toNumberOrNull(row.p50),
+    p95Ms: toNumberOrNull(row.p95),
+    p99Ms: toNumberOrNull(row.p99),
+  };
+}
+
+/**
+ * ApiRequestRepository backed by the `api_requests` table
+ */
+export class PostgresApiRequestRepository implements ApiRequestRepository {
+  constructor(private readonly db: Queryable) {}
+
+  // One statement per batch: each column travels as an array
+  async insertMany(records: ApiRequestRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await this.db.query(
+      `INSERT INTO api_requests
+         (user_id, method, endpoint, status_code, response_time_ms, ip_address, user_agent, request_id, sample_rate, created_at)
+       SELECT * FROM unnest(
+         $1::uuid[], $2::varchar[], $3::varchar[], $4::integer[], $5::integer[],
+         $6::inet[], $7::text[], $8::varchar[], $9::real[], $10::timestamptz[]
+       )`,
+      [
+        records.map((record) => record.userId),
+        records.map((record) => record.method),
+        records.map((record) => record.endpoint),
+        records.map((record) => record.statusCode),
+        records.map((record) => Math.round(record.responseTimeMs)),
+        records.map((record) => record.ipAddress),
+        records.map((record) => record.userAgent),
+        records.map((record) => record.requestId),
+        records.map((record) => record.sampleRate),
+        records.map((record) => record.createdAt),
+      ]
+    );
+  }
+
+  async deleteOlderThan(cutoff: Date, limit: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM api_requests
+       WHERE id IN (SELECT id FROM api_requests WHERE created_at < $1 LIMIT $2)`,
+      [cutoff, limit]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async summary(window: UsageWindow): Promise<UsageSummary> {
+    const result = await this.db.query<UsageStatsRow & { users: string | number }>(
+      `SELECT ${USAGE_AGGREGATES}, COUNT(DISTINCT user_id) AS users
+       FROM api_requests
+       WHERE created_at >= $1 AND created_at < $2`,
+      [window.from, window.to]
+    );
+    const row = result.rows[0];
+    return { ...mapUsageStats(row), users: Number(row.users) };
+  }
+
+  async usageByRoute(window: UsageWindow, limit: number): Promise<RouteUsage[]> {
+    const result = await this.db.query<UsageStatsRow & { method: string; endpoint: string }>(
+      `SELECT method, endpoint, ${USAGE_AGGREGATES}
+       FROM api_requests
+       WHERE created_at >= $1 AND created_at < $2
+       GROUP BY method, endpoint
+       ORDER BY requests DESC, endpoint, method
+       LIMIT $3`,
+      [window.from, window.to, limit]
+    );
+    return result.rows.map((row) => ({ method: row.method, endpoint: row.endpoint, ...mapUsageStats(row) }));
+  }
+
+  async usageByUser(window: UsageWindow, limit: number): Promise<UserUsage[]> {
+    const result = await this.db.query<UsageStatsRow & { user_id: string; last_seen_at: Date | string }>(
+      `SELECT user_id, MAX(created_at) AS last_seen_at, ${USAGE_AGGREGATES}
+       FROM api_requests
+       WHERE created_at >= $1 AND created_at < $2 AND user_id IS NOT NULL
+       GROUP BY user_id
+       ORDER BY requests DESC, user_id
+       LIMIT $3`,
+      [window.from, window.to, limit]
+    );
+    return result.rows.map((row) => ({
+      userId: row.user_id,
+      lastSeenAt: new Date(row.last_seen_at).toISOString(),
+      ...mapUsageStats(row),
+    }));
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PostgresDeadLetterRepository,
+  InMemoryDeadLetterRepository,
+  DeadLetterRow,
+  SaveDeadLetterInput,
+  mapDeadLetterRow
+} from './dead-letter-repository';
+import { Queryable } from '../database/pool';
+
+const createRow = (overrides: Partial<DeadLetterRow> = {}): DeadLetterRow => ({
+  id: 'dead-1',
+  consumer_group: 'fastify-api',
+  topic: 'app-events',
+  kafka_partition: 0,
+  kafka_offset: '12',
+  event_id: 'event-1',
+  event_type: 'equipment.returned.v1',
+  payload: '{"id":"event-1"}',
+  headers: { 'event-id': 'event-1' },
+  error: 'Handler failed',
+  attempts: 5,
+  status: 'pending',
+  replayed_at: null,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const input: SaveDeadLetterInput = {
+  consumerGroup: 'fastify-api',
+  topic: 'app-events',
+  partition: 0,
+  offset: '12',
+  eventId: 'event-1',
+  eventType: 'equipment.returned.v1',
+  payload: '{"id":"event-1"}',
+  headers: {},
+  error: 'Handler failed',
+  attempts: 5,
+};
+
+describe('PostgresDeadLetterRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresDeadLetterRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresDeadLetterRepository(db as unknown as Queryable);
+  });
+
+  it('should map dead letter rows', () => {
+    expect(mapDeadLetterRow(createRow({ kafka_offset: 12, headers: null }))).toMatchObject({
+      consumerGroup: 'fastify-api',
+      partition: 0,
+      offset: '12',
+      headers: {},
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should update the existing entry when a message is dead-lettered again', async () => {
+    db.query.mockResolvedValue({ rows: [createRow()] });
+
+    await repository.save(input);
+
+    expect(db.query.mock.calls[0][0]).toContain('ON CONFLICT (consumer_group, topic, kafka_partition, kafka_offset) DO UPDATE');
+  });
+
+  it('should filter and page with a window count', async () => {
+    db.query.mockResolvedValue({ rows: [{ ...createRow(), total: '7' }] });
+
+    const page = await repository.list({ status: 'pending', eventType: 'equipment.returned.v1', limit: 20, offset: 40 });
+
+    const [sql, values] = db.query.mock.calls[0];
+    expect(sql).toContain('WHERE status = $1 AND event_type = $2');
+    expect(sql).toContain('LIMIT $3 OFFSET $4');
+    expect(values).toEqual(['pending', 'equipment.returned.v1', 20, 40]);
+    expect(page.total).toBe(7);
+  });
+
+  it('should report an empty page', async () => {
+    db.query.mockResolvedValue({ rows: [] });
+
+    expect(await repository.list({ limit: 20, offset: 0 })).toEqual({ items: [], total: 0 });
+  });
+});
+
+describe('InMemoryDeadLetterRepository', () => {
+  it('should merge repeated dead-lettering and track replays', async () => {
+    const repository = new InMemoryDeadLetterRepository();
+    const first = await repository.save(input);
+    await repository.markReplayed(first.id);
+
+    const again = await repository.save({ ...input, error: 'Still failing' });
+
+    expect(again).toMatchObject({ id: first.id, status: 'pending', attempts: 10, error: 'Still failing' });
+    expect((await repository.list({ status: 'pending', limit: 10, offset: 0 })).total).toBe(1);
+    expect(await repository.recordReplayFailure(first.id, 'Nope')).toMatchObject({ attempts: 11, error: 'Nope' });
+  });
+});
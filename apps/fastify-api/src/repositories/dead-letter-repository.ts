@@ -0,0 +1,258 @@
+import { randomUUID } from 'crypto';
+import { DeadLetter, DeadLetterStatus } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `event_dead_letters` table
+export interface DeadLetterRow {
+  id: string;
+  consumer_group: string;
+  topic: string;
+  kafka_partition: number;
+  kafka_offset: string | number;
+  event_id: string | null;
+  event_type: string | null;
+  payload: string;
+  headers: Record<string, string> | null;
+  error: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  replayed_at: Date | string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+export interface SaveDeadLetterInput {
+  consumerGroup: string;
+  topic: string;
+  partition: number;
+  offset: string;
+  eventId: string | null;
+  eventType: string | null;
+  payload: string;
+  headers: Record<string, string>;
+  error: string;
+  attempts: number;
+}
+
+export interface DeadLetterFilter {
+  status?: DeadLetterStatus;
+  consumerGroup?: string;
+  eventType?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface DeadLetterPage {
+  items: DeadLetter[];
+  // Matches across all pages
+  total: number;
+}
+
+/**
+ * Persistence boundary for dead-lettered consumer messages
+ */
+export interface DeadLetterRepository {
+  /**
+   * Stores a message, or updates the existing entry when the same message
+   * (group, topic, partition, offset) is dead-lettered again
+   */
+  save(input: SaveDeadLetterInput): Promise<DeadLetter>;
+  findById(id: string): Promise<DeadLetter | null>;
+  // Newest first
+  list(filter: DeadLetterFilter): Promise<DeadLetterPage>;
+  markReplayed(id: string): Promise<DeadLetter | null>;
+  recordReplayFailure(id: string, error: string): Promise<DeadLetter | null>;
+}
+
+const DEAD_LETTER_COLUMNS = `id, consumer_group, topic, kafka_partition, kafka_offset, event_id, event_type,
+  payload, headers, error, attempts, status, replayed_at, created_at, updated_at`;
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+/**
+ * Maps an `event_dead_letters` row to the API's DeadLetter shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped dead letter
+ */
+export function mapDeadLetterRow(row: DeadLetterRow): DeadLetter {
+  return {
+    id: row.id,
+    consumerGroup: row.consumer_group,
+    topic: row.topic,
+    partition: row.kafka_partition,
+    offset: String(row.kafka_offset),
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    headers: row.headers ?? {},
+    error: row.error,
+    attempts: row.attempts,
+    status: row.status,
+    replayedAt: row.replayed_at === null ? null : toIsoString(row.replayed_at),
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  };
+}
+
+/**
+ * DeadLetterRepository backed by the `event_dead_letters` table
+ */
+export class PostgresDeadLetterRepository implements DeadLetterRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async save(input: SaveDeadLetterInput): Promise<DeadLetter> {
+    const result = await this.db.query<DeadLetterRow>(
+      `INSERT INTO event_dead_letters
+         (consumer_group, topic, kafka_partition, kafka_offset, event_id, event_type, payload, headers, error, attempts)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (consumer_group, topic, kafka_partition, kafka_offset) DO UPDATE
+       SET error = EXCLUDED.error,
+           attempts = event_dead_letters.attempts + EXCLUDED.attempts,
+           status = 'pending',
+           updated_at = CURRENT_TIMESTAMP
+       RETURNING ${DEAD_LETTER_COLUMNS}`,
+      [
+        input.consumerGroup, input.topic, input.partition, input.offset, input.eventId, input.eventType,
+        input.payload, JSON.stringify(input.headers), input.error, input.attempts,
+      ]
+    );
+    return mapDeadLetterRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `SELECT ${DEAD_LETTER_COLUMNS} FROM event_dead_letters WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? mapDeadLetterRow(result.rows[0]) : null;
+  }
+
+  async list(filter: DeadLetterFilter): Promise<DeadLetterPage> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const addCondition = (column: string, value: string | undefined) => {
+      if (value !== undefined) {
+        values.push(value);
+        conditions.push(`${column} = $${values.length}`);
+      }
+    };
+    addCondition('status', filter.status);
+    addCondition('consumer_group', filter.consumerGroup);
+    addCondition('event_type', filter.eventType);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.db.query<DeadLetterRow & { total: string | number }>(
+      `SELECT ${DEAD_LETTER_COLUMNS}, COUNT(*) OVER() AS total
+       FROM event_dead_letters ${where}
+       ORDER BY created_at DESC, id
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, filter.limit, filter.offset]
+    );
+
+    return {
+      items: result.rows.map(mapDeadLetterRow),
+      total: result.rows[0] ? Number(result.rows[0].total) : 0,
+    };
+  }
+
+  async markReplayed(id: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `UPDATE event_dead_letters
+       SET status = 'replayed', replayed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${DEAD_LETTER_COLUMNS}`,
+      [id]
+    );
+    return result.rows[0] ? mapDeadLetterRow(result.rows[0]) : null;
+  }
+
+  async recordReplayFailure(id: string, error: string): Promise<DeadLetter | null> {
+    const result = await this.db.query<DeadLetterRow>(
+      `UPDATE event_dead_letters
+       SET error = $2, attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${DEAD_LETTER_COLUMNS}`,
+      [id, error]
+    );
+    return result.rows[0] ? mapDeadLetterRow(result.rows[0]) : null;
+  }
+}
+
+/**
+ * DeadLetterRepository kept in process memory, intended for tests
+ */
+export class InMemoryDeadLetterRepository implements DeadLetterRepository {
+  private readonly deadLetters = new Map<string, DeadLetter>();
+
+  async save(input: SaveDeadLetterInput): Promise<DeadLetter> {
+    const now = new Date().toISOString();
+    const existing = [...this.deadLetters.values()].find((deadLetter) =>
+      deadLetter.consumerGroup === input.consumerGroup
+      && deadLetter.topic === input.topic
+      && deadLetter.partition === input.partition
+      && deadLetter.offset === input.offset
+    );
+
+    if (existing) {
+      existing.error = input.error;
+      existing.attempts += input.attempts;
+      existing.status = 'pending';
+      existing.updatedAt = now;
+      return { ...existing };
+    }
+
+    const deadLetter: DeadLetter = {
+      id: randomUUID(),
+      ...input,
+      status: 'pending',
+      replayedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.deadLetters.set(deadLetter.id, deadLetter);
+    return { ...deadLetter };
+  }
+
+  async findById(id: string): Promise<DeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    return deadLetter ? { ...deadLetter } : null;
+  }
+
+  async list(filter: DeadLetterFilter): Promise<DeadLetterPage> {
+    const matches = [...this.deadLetters.values()]
+      .filter((deadLetter) =>
+        (filter.status === undefined || deadLetter.status === filter.status)
+        && (filter.consumerGroup === undefined || deadLetter.consumerGroup === filter.consumerGroup)
+        && (filter.eventType === undefined || deadLetter.eventType === filter.eventType)
+      )
+      .reverse();
+
+    return {
+      items: matches.slice(filter.offset, filter.offset + filter.limit).map((deadLetter) => ({ ...deadLetter })),
+      total: matches.length,
+    };
+  }
+
+  async markReplayed(id: string): Promise<DeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    if (!deadLetter) {
+      return null;
+    }
+    deadLetter.status = 'replayed';
+    deadLetter.replayedAt = new Date().toISOString();
+    deadLetter.updatedAt = deadLetter.replayedAt;
+    return { ...deadLetter };
+  }
+
+  async recordReplayFailure(id: string, error: string): Promise<DeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    if (!deadLetter) {
+      return null;
+    }
+    deadLetter.error = error;
+    deadLetter.attempts++;
+    deadLetter.updatedAt = new Date().toISOString();
+    return { ...deadLetter };
+  }
+}
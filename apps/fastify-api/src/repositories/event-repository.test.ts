@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  PostgresEventRepository,
+  InMemoryEventRepository,
+  EventRow,
+  mapEventRow
+} from './event-repository';
+import { Queryable } from '../database/pool';
+
+const createRow = (overrides: Partial<EventRow> = {}): EventRow => ({
+  id: 'event-1',
+  event_type: 'order.created',
+  user_id: 'user-1',
+  data: { orderId: 42 },
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  published_at: null,
+  kafka_partition: null,
+  kafka_offset: null,
+  ...overrides,
+});
+
+describe('PostgresEventRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresEventRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresEventRepository(db as unknown as Queryable);
+  });
+
+  it('should map event rows with BIGINT offsets as strings', () => {
+    expect(mapEventRow(createRow({ published_at: '2024-01-01T00:00:01Z', kafka_partition: 2, kafka_offset: '9007199254740993' }))).toEqual({
+      id: 'event-1',
+      type: 'order.created',
+      userId: 'user-1',
+      data: { orderId: 42 },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      publishedAt: '2024-01-01T00:00:01.000Z',
+      kafkaPartition: 2,
+      kafkaOffset: '9007199254740993',
+    });
+  });
+
+  it('should insert the event and its outbox row in one statement', async () => {
+    db.query.mockResolvedValue({ rows: [createRow()] });
+
+    await repository.append({
+      type: 'order.created',
+      userId: 'user-1',
+      data: { orderId: 42 },
+      topic: 'app-events',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    });
+
+    const [sql, values] = db.query.mock.calls[0];
+    expect(db.query).toHaveBeenCalledTimes(1);
+    expect(sql).toContain('INSERT INTO events');
+    expect(sql).toContain('INSERT INTO event_outbox');
+    expect(values[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(values.slice(1)).toEqual([
+      'order.created',
+      'user-1',
+      '{"orderId":42}',
+      'app-events',
+      '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    ]);
+  });
+
+  it('should lease due entries oldest first, skipping locked rows', async () => {
+    db.query.mockResolvedValue({
+      rows: [
+        { ...createRow({ id: 'event-2', created_at: '2024-01-01T00:00:02Z' }), topic: 'app-events', attempts: 1, last_error: null },
+        { ...createRow(), topic: 'app-events', attempts: 3, last_error: 'Broker unavailable', traceparent: null },
+      ],
+    });
+
+    const entries = await repository.claimPending(50, 30_000);
+
+    expect(db.query.mock.calls[0][0]).toContain('FOR UPDATE SKIP LOCKED');
+    expect(db.query.mock.calls[0][1]).toEqual([50, 30_000]);
+    expect(entries.map((entry) => entry.event.id)).toEqual(['event-1', 'event-2']);
+    expect(entries[0]).toMatchObject({ topic: 'app-events', attempts: 3, lastError: 'Broker unavailable', traceparent: null });
+  });
+
+  it('should record the broker position and clear the outbox row', async () => {
+    db.query.mockResolvedValue({ rowCount: 1 });
+
+    await repository.markPublished('event-1', { partition: 1, offset: '17' });
+
+    expect(db.query.mock.calls[0][0]).toContain('DELETE FROM event_outbox');
+    expect(db.query.mock.calls[0][1]).toEqual(['event-1', 1, '17']);
+  });
+
+  it('should page published events after the resume point', async () => {
+    db.query
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+      .mockResolvedValueOnce({ rows: [createRow({ id: 'event-2', published_at: '2024-01-01T00:00:02Z' })] });
+
+    const events = await repository.listPublishedAfter('event-1', { userId: 'user-1', limit: 100 });
+
+    expect(events?.map(({ id }) => id)).toEqual(['event-2']);
+    expect(db.query.mock.calls[1][0]).toContain('(published_at, id) > (SELECT published_at, id FROM events WHERE id = $1)');
+    expect(db.query.mock.calls[1][1]).toEqual(['event-1', 'user-1', null, 100]);
+  });
+
+  it('should not resume after an unknown event', async () => {
+    db.query.mockResolvedValueOnce({ rows: [] });
+
+    expect(await repository.listPublishedAfter('missing', { limit: 100 })).toBeNull();
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build parameterized filters and data predicates', async () => {
+    db.query.mockResolvedValueOnce({ rows: [createRow()] });
+
+    await repository.query({
+      types: ['order.created'],
+      from: '2024-01-01T00:00:00Z',
+      where: [
+        { path: ['order', 'id'], operator: 'eq', value: 42 },
+        { path: ['total'], operator: 'gte', value: 10 },
+        { path: ['note'], operator: 'exists' },
+      ],
+      afterId: 'event-0',
+      order: 'desc',
+      limit: 50,
+    });
+
+    const [sql, values] = db.query.mock.calls[0];
+    expect(sql).toContain('event_type = ANY($1::text[])');
+    expect(sql).toContain('data #> $3::text[] = $4::jsonb');
+    expect(sql).toContain('jsonb_typeof(data #> $5::text[]) = jsonb_typeof($6::jsonb)');
+    expect(sql).toContain('data #> $7::text[] IS NOT NULL');
+    expect(sql).toContain('(created_at, id) < (SELECT created_at, id FROM events WHERE id = $8)');
+    expect(sql).toContain('ORDER BY created_at DESC, id DESC');
+    expect(values).toEqual([
+      ['order.created'], '2024-01-01T00:00:00Z', ['order', 'id'], '42', ['total'], '10', ['note'], 'event-0', 50,
+    ]);
+  });
+});
+
+describe('InMemoryEventRepository', () => {
+  let repository: InMemoryEventRepository;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    repository = new InMemoryEventRepository();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not hand out leased entries until the lease ends', async () => {
+    const event = await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+
+    expect(await repository.claimPending(10, 1000)).toHaveLength(1);
+    expect(await repository.claimPending(10, 1000)).toHaveLength(0);
+
+    vi.advanceTimersByTime(1000);
+    const [retry] = await repository.claimPending(10, 1000);
+    expect(retry).toMatchObject({ event: { id: event.id }, attempts: 2 });
+  });
+
+  it('should wait until the retry time after a failure', async () => {
+    const event = await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+    await repository.claimPending(10, 1000);
+
+    await repository.markFailed(event.id, 'Broker unavailable', new Date(5000));
+
+    vi.advanceTimersByTime(4999);
+    expect(await repository.claimPending(10, 1000)).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect((await repository.claimPending(10, 1000))[0].lastError).toBe('Broker unavailable');
+  });
+
+  it('should remove published events from the outbox', async () => {
+    const event = await repository.append({ type: 'order.created', data: {}, topic: 'app-events' });
+    await repository.claimPending(10, 0);
+
+    await repository.markPublished(event.id, { partition: 0, offset: '5' });
+
+    expect(await repository.findById(event.id)).toMatchObject({ kafkaPartition: 0, kafkaOffset: '5', publishedAt: expect.any(String) });
+    expect(await repository.claimPending(10, 0)).toHaveLength(0);
+  });
+
+  it('should query with filters, data predicates and a resume point', async () => {
+    const append = async (data: Record<string, unknown>, userId = 'user-1') => {
+      const event = await repository.append({ type: 'rental.created', userId, data, topic: 'app-events' });
+      vi.advanceTimersByTime(1000);
+      return event;
+    };
+    const first = await append({ days: 3, site: { id: 'north' } });
+    const second = await append({ days: 10, site: { id: 'north' } });
+    await append({ days: '12', site: { id: 'south' } });
+    await append({ days: 20 }, 'user-2');
+
+    const matches = await repository.query({
+      userId: 'user-1',
+      where: [{ path: ['days'], operator: 'gte', value: 3 }, { path: ['site', 'id'], operator: 'ne', value: 'south' }],
+      limit: 10,
+    });
+    expect(matches.map(({ id }) => id)).toEqual([first.id, second.id]);
+
+    expect((await repository.query({ afterId: first.id, limit: 1 }))[0].id).toBe(second.id);
+    expect((await repository.query({ afterId: second.id, order: 'desc', limit: 5 })).map(({ id }) => id)).toEqual([first.id]);
+    expect(await repository.query({ from: new Date(1000).toISOString(), to: new Date(2000).toISOString(), limit: 5 }))
+      .toEqual([expect.objectContaining({ id: second.id })]);
+    expect(await repository.query({ publishedOnly: true, limit: 5 })).toEqual([]);
+  });
+});
@@ -0,0 +1,457 @@
+import { randomUUID } from 'crypto';
+import { EventRecord } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `events` table
+export interface EventRow {
+  id: string;
+  event_type: string;
+  user_id: string | null;
+  data: Record<string, unknown> | null;
+  created_at: Date | string;
+  published_at: Date | string | null;
+  kafka_partition: number | null;
+  kafka_offset: string | number | null;
+}
+
+// `events` row joined with its `event_outbox` row
+interface OutboxRow extends EventRow {
+  topic: string;
+  attempts: number;
+  last_error: string | null;
+  traceparent: string | null;
+}
+
+export interface AppendEventInput {
+  type: string;
+  userId?: string | null;
+  data: Record<string, unknown>;
+  // Kafka topic the relay publishes to
+  topic: string;
+  // Trace of the request that stored the event; publishing continues it
+  traceparent?: string | null;
+}
+
+// Event waiting in the outbox, as handed to the relay
+export interface OutboxEntry {
+  event: EventRecord;
+  topic: string;
+  // Delivery attempts including the current one
+  attempts: number;
+  lastError: string | null;
+  traceparent: string | null;
+}
+
+// Where the broker stored a published event
+export interface PublishedPosition {
+  partition: number;
+  offset: string;
+}
+
+export interface PublishedEventFilter {
+  // Only events of this user
+  userId?: string;
+  // Only these versioned types
+  types?: string[];
+  limit: number;
+}
+
+export type DataPredicateOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'exists';
+
+// Condition on a value inside an event's `data`
+export interface DataPredicate {
+  // Object keys leading to the value, e.g. ['equipment', 'id']
+  path: string[];
+  operator: DataPredicateOperator;
+  // Compared as JSON; ignored by `exists`. Range operators only match values of the same JSON type.
+  value?: string | number | boolean | null;
+}
+
+export interface EventQueryFilter {
+  types?: string[];
+  userId?: string;
+  // Inclusive lower and exclusive upper bound on `createdAt`
+  from?: string;
+  to?: string;
+  where?: DataPredicate[];
+  // Skip events still waiting in the outbox
+  publishedOnly?: boolean;
+  // Continue after this event in the requested order
+  afterId?: string;
+  order?: 'asc' | 'desc';
+  limit: number;
+}
+
+/**
+ * Persistence boundary for application events and their outbox
+ */
+export interface EventRepository {
+  /**
+   * Stores an event and queues it for publishing in one statement. Construct
+   * the repository with a transaction to commit it with other changes.
+   */
+  append(input: AppendEventInput): Promise<EventRecord>;
+  findById(id: string): Promise<EventRecord | null>;
+  /**
+   * Leases up to `limit` due outbox entries for `leaseMs`, oldest first.
+   * Entries leased by another relay are skipped; a relay that dies before
+   * reporting back leaves its entries to be retried once the lease ends.
+   */
+  claimPending(limit: number, leaseMs: number): Promise<OutboxEntry[]>;
+  markPublished(eventId: string, position: PublishedPosition): Promise<void>;
+  markFailed(eventId: string, error: string, retryAt: Date): Promise<void>;
+  /**
+   * Events published after the given one, in publish order, for resuming an
+   * event stream. Resolves to null when the event is unknown or unpublished.
+   */
+  listPublishedAfter(eventId: string, filter: PublishedEventFilter): Promise<EventRecord[] | null>;
+  /**
+   * Events matching the filter ordered by creation time, oldest first unless
+   * `order` is desc. An unknown `afterId` yields no events.
+   */
+  query(filter: EventQueryFilter): Promise<EventRecord[]>;
+}
+
+const EVENT_COLUMNS = 'id, event_type, user_id, data, created_at, published_at, kafka_partition, kafka_offset';
+
+const PREDICATE_OPERATORS: Record<Exclude<DataPredicateOperator, 'exists'>, string> = {
+  eq: '=',
+  ne: 'IS DISTINCT FROM',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+/**
+ * Maps an `events` row to the API's EventRecord shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped event
+ */
+export function mapEventRow(row: EventRow): EventRecord {
+  return {
+    id: row.id,
+    type: row.event_type,
+    userId: row.user_id,
+    data: row.data ?? {},
+    createdAt: toIsoString(row.created_at),
+    publishedAt: row.published_at === null ? null : toIsoString(row.published_at),
+    kafkaPartition: row.kafka_partition,
+    kafkaOffset: row.kafka_offset === null ? null : String(row.kafka_offset),
+  };
+}
+
+/**
+ * EventRepository backed by the `events` and `event_outbox` tables
+ */
+export class PostgresEventRepository implements EventRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async append(input: AppendEventInput): Promise<EventRecord> {
+    const result = await this.db.query<EventRow>(
+      `WITH inserted AS (
+         INSERT INTO events (id, event_type, user_id, data)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${EVENT_COLUMNS}
+       ), queued AS (
+         INSERT INTO event_outbox (event_id, topic, traceparent)
+         SELECT id, $5, $6 FROM inserted
+       )
+       SELECT ${EVENT_COLUMNS} FROM inserted`,
+      [randomUUID(), input.type, input.userId ?? null, JSON.stringify(input.data), input.topic, input.traceparent ?? null]
+    );
+    return mapEventRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<EventRecord | null> {
+    const result = await this.db.query<EventRow>(
+      `SELECT ${EVENT_COLUMNS} FROM events WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? mapEventRow(result.rows[0]) : null;
+  }
+
+  async claimPending(limit: number, leaseMs: number): Promise<OutboxEntry[]> {
+    const result = await this.db.query<OutboxRow>(
+      `UPDATE event_outbox o
+       SET attempts = o.attempts + 1,
+           next_attempt_at = CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond'
+       FROM events e
+       WHERE e.id = o.event_id
+         AND o.event_id IN (
+           SELECT event_id FROM event_outbox
+           WHERE next_attempt_at <= CURRENT_TIMESTAMP
+           ORDER BY created_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+       RETURNING e.id, e.event_type, e.user_id, e.data, e.created_at, e.published_at,
+                 e.kafka_partition, e.kafka_offset, o.topic, o.attempts, o.last_error, o.traceparent`,
+      [limit, leaseMs]
+    );
+
+    // RETURNING does not preserve the subquery's order
+    return result.rows
+      .map((row) => ({
+        event: mapEventRow(row),
+        topic: row.topic,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        traceparent: row.traceparent,
+      }))
+      .sort((a, b) => a.event.createdAt.localeCompare(b.event.createdAt));
+  }
+
+  async markPublished(eventId: string, position: PublishedPosition): Promise<void> {
+    await this.db.query(
+      `WITH published AS (
+         DELETE FROM event_outbox WHERE event_id = $1 RETURNING event_id
+       )
+       UPDATE events
+       SET published_at = CURRENT_TIMESTAMP, kafka_partition = $2, kafka_offset = $3
+       WHERE id IN (SELECT event_id FROM published)`,
+      [eventId, position.partition, position.offset]
+    );
+  }
+
+  async markFailed(eventId: string, error: string, retryAt: Date): Promise<void> {
+    await this.db.query(
+      'UPDATE event_outbox SET last_error = $2, next_attempt_at = $3 WHERE event_id = $1',
+      [eventId, error, retryAt]
+    );
+  }
+
+  async listPublishedAfter(eventId: string, filter: PublishedEventFilter): Promise<EventRecord[] | null> {
+    const anchor = await this.db.query(
+      'SELECT 1 FROM events WHERE id = $1 AND published_at IS NOT NULL',
+      [eventId]
+    );
+    if (anchor.rows.length === 0) {
+      return null;
+    }
+
+    // Compared in SQL; JavaScript dates would drop the microseconds
+
+    const result = await this.db.query<EventRow>(
+      `SELECT ${EVENT_COLUMNS} FROM events
+       WHERE published_at IS NOT NULL
+         AND (published_at, id) > (SELECT published_at, id FROM events WHERE id = $1)
+         AND ($2::uuid IS NULL OR user_id = $2)
+         AND ($3::text[] IS NULL OR event_type = ANY($3))
+       ORDER BY published_at, id
+       LIMIT $4`,
+      [eventId, filter.userId ?? null, filter.types ?? null, filter.limit]
+    );
+    return result.rows.map(mapEventRow);
+  }
+
+  async query(filter: EventQueryFilter): Promise<EventRecord[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (filter.types !== undefined) {
+      conditions.push(`event_type = ANY(${param(filter.types)}::text[])`);
+    }
+    if (filter.userId !== undefined) {
+      conditions.push(`user_id = ${param(filter.userId)}`);
+    }
+    if (filter.from !== undefined) {
+      conditions.push(`created_at >= ${param(filter.from)}`);
+    }
+    if (filter.to !== undefined) {
+      conditions.push(`created_at < ${param(filter.to)}`);
+    }
+    if (filter.publishedOnly) {
+      conditions.push('published_at IS NOT NULL');
+    }
+    for (const predicate of filter.where ?? []) {
+      const target = `data #> ${param(predicate.path)}::text[]`;
+      if (predicate.operator === 'exists') {
+        conditions.push(`${target} IS NOT NULL`);
+        continue;
+      }
+      const value = `${param(JSON.stringify(predicate.value ?? null))}::jsonb`;
+      const comparison = `${target} ${PREDICATE_OPERATORS[predicate.operator]} ${value}`;
+      // jsonb orders values of different types by type, which is never what a range filter means
+      conditions.push(predicate.operator === 'eq' || predicate.operator === 'ne'
+        ? comparison
+        : `(jsonb_typeof(${target}) = jsonb_typeof(${value}) AND ${comparison})`);
+    }
+
+    const descending = filter.order === 'desc';
+    if (filter.afterId !== undefined) {
+      // Compared in SQL; JavaScript dates would drop the microseconds
+      conditions.push(
+        `(created_at, id) ${descending ? '<' : '>'} (SELECT created_at, id FROM events WHERE id = ${param(filter.afterId)})`
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = descending ? 'DESC' : 'ASC';
+    const result = await this.db.query<EventRow>(
+      `SELECT ${EVENT_COLUMNS} FROM events ${where}
+       ORDER BY created_at ${direction}, id ${direction}
+       LIMIT ${param(filter.limit)}`,
+      values
+    );
+    return result.rows.map(mapEventRow);
+  }
+}
+
+// Mirrors the jsonb comparison the Postgres repository runs
+const matchesDataPredicate = (data: Record<string, unknown>, predicate: DataPredicate): boolean => {
+  let target: unknown = data;
+  for (const key of predicate.path) {
+    target = target !== null && typeof target === 'object' && !Array.isArray(target)
+      ? (target as Record<string, unknown>)[key]
+      : undefined;
+  }
+  if (predicate.operator === 'exists') {
+    return target !== undefined;
+  }
+
+  const value = predicate.value ?? null;
+  if (predicate.operator === 'eq' || predicate.operator === 'ne') {
+    const equal = target !== undefined && JSON.stringify(target) === JSON.stringify(value);
+    return predicate.operator === 'eq' ? equal : !equal;
+  }
+  if (target === null || value === null || typeof target !== typeof value || typeof target === 'object') {
+    return false;
+  }
+  const [left, right] = [target as string | number | boolean, value];
+  switch (predicate.operator) {
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+  }
+};
+
+/**
+ * EventRepository kept in process memory, intended for tests
+ */
+export class InMemoryEventRepository implements EventRepository {
+  private readonly events = new Map<string, EventRecord>();
+  private readonly outbox = new Map<string, { topic: string; attempts: number; nextAttemptAt: number; lastError: string | null; traceparent: string | null }>();
+
+  async append(input: AppendEventInput): Promise<EventRecord> {
+    const event: EventRecord = {
+      id: randomUUID(),
+      type: input.type,
+      userId: input.userId ?? null,
+      data: input.data,
+      createdAt: new Date().toISOString(),
+      publishedAt: null,
+      kafkaPartition: null,
+      kafkaOffset: null,
+    };
+    this.events.set(event.id, event);
+    this.outbox.set(event.id, {
+      topic: input.topic,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+      traceparent: input.traceparent ?? null,
+    });
+    return { ...event };
+  }
+
+  async findById(id: string): Promise<EventRecord | null> {
+    const event = this.events.get(id);
+    return event ? { ...event } : null;
+  }
+
+  async claimPending(limit: number, leaseMs: number): Promise<OutboxEntry[]> {
+    const now = Date.now();
+    const claimed: OutboxEntry[] = [];
+
+    // Map iteration follows insertion order, i.e. oldest first
+    for (const [eventId, entry] of this.outbox) {
+      if (claimed.length >= limit) {
+        break;
+      }
+      if (entry.nextAttemptAt > now) {
+        continue;
+      }
+      entry.attempts++;
+      entry.nextAttemptAt = now + leaseMs;
+      claimed.push({
+        event: { ...(this.events.get(eventId) as EventRecord) },
+        topic: entry.topic,
+        attempts: entry.attempts,
+        lastError: entry.lastError,
+        traceparent: entry.traceparent,
+      });
+    }
+    return claimed;
+  }
+
+  async markPublished(eventId: string, position: PublishedPosition): Promise<void> {
+    const event = this.events.get(eventId);
+    if (!event || !this.outbox.delete(eventId)) {
+      return;
+    }
+    event.publishedAt = new Date().toISOString();
+    event.kafkaPartition = position.partition;
+    event.kafkaOffset = position.offset;
+  }
+
+  async markFailed(eventId: string, error: string, retryAt: Date): Promise<void> {
+    const entry = this.outbox.get(eventId);
+    if (entry) {
+      entry.lastError = error;
+      entry.nextAttemptAt = retryAt.getTime();
+    }
+  }
+
+  async listPublishedAfter(eventId: string, filter: PublishedEventFilter): Promise<EventRecord[] | null> {
+    const anchor = this.events.get(eventId);
+    if (!anchor?.publishedAt) {
+      return null;
+    }
+    const publishOrder = (event: EventRecord) => `${event.publishedAt}|${event.id}`;
+
+    return [...this.events.values()]
+      .filter((event) =>
+        event.publishedAt !== null
+        && publishOrder(event) > publishOrder(anchor)
+        && (filter.userId === undefined || event.userId === filter.userId)
+        && (filter.types === undefined || filter.types.includes(event.type))
+      )
+      .sort((a, b) => publishOrder(a).localeCompare(publishOrder(b)))
+      .slice(0, filter.limit)
+      .map((event) => ({ ...event }));
+  }
+
+  async query(filter: EventQueryFilter): Promise<EventRecord[]> {
+    const creationOrder = (event: EventRecord) => `${event.createdAt}|${event.id}`;
+    const descending = filter.order === 'desc';
+    const anchor = filter.afterId === undefined ? undefined : this.events.get(filter.afterId);
+    if (filter.afterId !== undefined && !anchor) {
+      return [];
+    }
+
+    return [...this.events.values()]
+      .filter((event) =>
+        (filter.types === undefined || filter.types.includes(event.type))
+        && (filter.userId === undefined || event.userId === filter.userId)
+        && (filter.from === undefined || event.createdAt >= new Date(filter.from).toISOString())
+        && (filter.to === undefined || event.createdAt < new Date(filter.to).toISOString())
+        && (!filter.publishedOnly || event.publishedAt !== null)
+        && (filter.where ?? []).every((predicate) => matchesDataPredicate(event.data, predicate))
+        && (anchor === undefined || (descending
+          ? creationOrder(event) < creationOrder(anchor)
+          : creationOrder(event) > creationOrder(anchor)))
+      )
+      .sort((a, b) => (descending ? -1 : 1) * creationOrder(a).localeCompare(creationOrder(b)))
+      .slice(0, filter.limit)
+      .map((event) => ({ ...event }));
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PostgresMfaRepository,
+  InMemoryMfaRepository,
+  UserMfaRow,
+  mapUserMfaRow
+} from './mfa-repository';
+import { Queryable } from '../database/pool';
+import { FieldEncryptor, generateFieldKeySet, type FieldKeyStore } from '@libs/secrets';
+
+const createRow = (overrides: Partial<UserMfaRow> = {}): UserMfaRow => ({
+  user_id: 'user-1',
+  secret: 'JBSWY3DPEHPK3PXP',
+  secret_key_version: null,
+  enabled_at: null,
+  last_used_step: null,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('PostgresMfaRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresMfaRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresMfaRepository(db as unknown as Queryable);
+  });
+
+  it('should map enrollment rows, converting BIGINT steps', () => {
+    expect(mapUserMfaRow(createRow({ enabled_at: '2024-01-02T00:00:00Z', last_used_step: '56789' }))).toEqual({
+      userId: 'user-1',
+      secret: 'JBSWY3DPEHPK3PXP',
+      enabledAt: '2024-01-02T00:00:00.000Z',
+      lastUsedStep: 56789,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should reset the enrollment when a new secret is saved', async () => {
+    db.query.mockResolvedValue({ rows: [createRow()] });
+
+    await repository.savePending('user-1', 'NEWSECRET');
+
+    const [sql, params] = db.query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT (user_id) DO UPDATE');
+    expect(sql).toContain('enabled_at = NULL');
+    expect(params).toEqual(['user-1', 'NEWSECRET', null]);
+  });
+
+  it('should encrypt secrets on write and decrypt them on read', async () => {
+    const keySet = JSON.stringify(generateFieldKeySet());
+    const encryptor = new FieldEncryptor({ getSecret: vi.fn(async () => keySet), watch: vi.fn() } as unknown as FieldKeyStore);
+    await encryptor.load();
+    repository = new PostgresMfaRepository(db as unknown as Queryable, encryptor);
+    db.query.mockImplementation(async (_sql: string, params: unknown[]) => ({
+      rows: [createRow({ secret: params[1] as string, secret_key_version: params[2] as number })],
+    }));
+
+    const enrollment = await repository.savePending('user-1', 'NEWSECRET');
+
+    const [, params] = db.query.mock.calls[0];
+    expect(params[1]).not.toContain('NEWSECRET');
+    expect(params[2]).toBe(1);
+    expect(enrollment.secret).toBe('NEWSECRET');
+  });
+
+  it('should only record steps newer than the last one', async () => {
+    db.query.mockResolvedValueOnce({ rowCount: 1 }).mockResolvedValueOnce({ rowCount: 0 });
+
+    expect(await repository.recordUsedStep('user-1', 100)).toBe(true);
+    expect(await repository.recordUsedStep('user-1', 100)).toBe(false);
+    expect(db.query.mock.calls[0][0]).toContain('last_used_step < $2');
+  });
+
+  it('should replace recovery codes in a single statement', async () => {
+    db.query.mockResolvedValue({ rowCount: 2 });
+
+    await repository.replaceRecoveryCodes('user-1', ['a', 'b']);
+
+    expect(db.query).toHaveBeenCalledTimes(1);
+    expect(db.query).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM mfa_recovery_codes'), ['user-1', ['a', 'b']]);
+  });
+
+  it('should count unused recovery codes', async () => {
+    db.query.mockResolvedValue({ rows: [{ count: '7' }] });
+
+    expect(await repository.countRecoveryCodes('user-1')).toBe(7);
+  });
+});
+
+describe('InMemoryMfaRepository', () => {
+  let repository: InMemoryMfaRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryMfaRepository();
+  });
+
+  it('should enable a pending enrollment once', async () => {
+    await repository.savePending('user-1', 'SECRET');
+
+    expect(await repository.enable('user-1')).toBe(true);
+    expect(await repository.enable('user-1')).toBe(false);
+    expect((await repository.findByUserId('user-1'))?.enabledAt).not.toBeNull();
+  });
+
+  it('should consume each recovery code once', async () => {
+    await repository.replaceRecoveryCodes('user-1', ['a', 'b']);
+
+    expect(await repository.consumeRecoveryCode('user-1', 'a')).toBe(true);
+    expect(await repository.consumeRecoveryCode('user-1', 'a')).toBe(false);
+    expect(await repository.consumeRecoveryCode('user-1', 'c')).toBe(false);
+    expect(await repository.countRecoveryCodes('user-1')).toBe(1);
+  });
+
+  it('should drop recovery codes with the enrollment', async () => {
+    await repository.savePending('user-1', 'SECRET');
+    await repository.replaceRecoveryCodes('user-1', ['a']);
+
+    expect(await repository.remove('user-1')).toBe(true);
+    expect(await repository.findByUserId('user-1')).toBeNull();
+    expect(await repository.countRecoveryCodes('user-1')).toBe(0);
+  });
+});
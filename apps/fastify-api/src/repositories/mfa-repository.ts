@@ -0,0 +1,225 @@
+import { EncryptedColumns, type FieldEncryptor } from '@libs/secrets';
+import { UserMfa } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `user_mfa` table
+export interface UserMfaRow {
+  user_id: string;
+  secret: string;
+  // Master key version of an encrypted secret; null for plaintext
+  secret_key_version: number | null;
+  enabled_at: Date | string | null;
+  last_used_step: string | number | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+/**
+ * Persistence boundary for TOTP enrollments and recovery codes
+ */
+export interface MfaRepository {
+  findByUserId(userId: string): Promise<UserMfa | null>;
+  /**
+   * Starts or restarts an enrollment with a new secret; any earlier
+   * unconfirmed secret is replaced
+   */
+  savePending(userId: string, secret: string): Promise<UserMfa>;
+  enable(userId: string): Promise<boolean>;
+  /**
+   * Records an accepted TOTP step. Returns false when the step is not newer
+   * than the last one, so the same code cannot be replayed.
+   */
+  recordUsedStep(userId: string, step: number): Promise<boolean>;
+  remove(userId: string): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+}
+
+const MFA_COLUMNS = 'user_id, secret, secret_key_version, enabled_at, last_used_step, created_at, updated_at';
+
+/**
+ * Encryption of TOTP secrets in `user_mfa.secret`; without an encryptor
+ * they are stored as plaintext
+ * @param encryptor - Loaded field encryptor, or null
+ * @returns Column helper, also used by `db:reencrypt`
+ */
+export const mfaSecretColumns = (encryptor: FieldEncryptor | null) =>
+  new EncryptedColumns(encryptor, { table: 'user_mfa', idColumn: 'user_id', columns: ['secret'] });
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+/**
+ * Maps a `user_mfa` row to the API's UserMfa shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped enrollment
+ */
+export function mapUserMfaRow(row: UserMfaRow): UserMfa {
+  return {
+    userId: row.user_id,
+    secret: row.secret,
+    enabledAt: row.enabled_at === null ? null : toIsoString(row.enabled_at),
+    // BIGINT columns arrive as strings from pg
+    lastUsedStep: row.last_used_step === null ? null : Number(row.last_used_step),
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  };
+}
+
+/**
+ * MfaRepository backed by the `user_mfa` and `mfa_recovery_codes` tables.
+ * TOTP secrets are encrypted when a field encryptor is given.
+ */
+export class PostgresMfaRepository implements MfaRepository {
+  private readonly secrets: ReturnType<typeof mfaSecretColumns>;
+
+  constructor(private readonly db: Queryable, encryptor: FieldEncryptor | null = null) {
+    this.secrets = mfaSecretColumns(encryptor);
+  }
+
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    const result = await this.db.query<UserMfaRow>(
+      `SELECT ${MFA_COLUMNS} FROM user_mfa WHERE user_id = $1`,
+      [userId]
+    );
+    return result.rows[0] ? mapUserMfaRow(this.secrets.decrypt(result.rows[0])) : null;
+  }
+
+  async savePending(userId: string, secret: string): Promise<UserMfa> {
+    const stored = this.secrets.encrypt(userId, { secret });
+    const result = await this.db.query<UserMfaRow>(
+      `INSERT INTO user_mfa (user_id, secret, secret_key_version)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE
+         SET secret = EXCLUDED.secret, secret_key_version = EXCLUDED.secret_key_version,
+             enabled_at = NULL, last_used_step = NULL, updated_at = CURRENT_TIMESTAMP
+       RETURNING ${MFA_COLUMNS}`,
+      [userId, stored.secret, stored.secret_key_version]
+    );
+    return mapUserMfaRow(this.secrets.decrypt(result.rows[0]));
+  }
+
+  async enable(userId: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE user_mfa SET enabled_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND enabled_at IS NULL`,
+      [userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async recordUsedStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE user_mfa SET last_used_step = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, step]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async remove(userId: string): Promise<boolean> {
+    // Recovery codes are only meaningful alongside an enrollment
+    await this.db.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+    const result = await this.db.query('DELETE FROM user_mfa WHERE user_id = $1', [userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    // One statement so a failure cannot leave the user without codes
+    await this.db.query(
+      `WITH removed AS (DELETE FROM mfa_recovery_codes WHERE user_id = $1)
+       INSERT INTO mfa_recovery_codes (user_id, code_hash)
+       SELECT $1, unnest($2::text[])`,
+      [userId, codeHashes]
+    );
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const result = await this.db.query<{ count: string }>(
+      'SELECT COUNT(*) AS count FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return Number(result.rows[0]?.count ?? 0);
+  }
+}
+
+/**
+ * MfaRepository kept in process memory, intended for tests
+ */
+export class InMemoryMfaRepository implements MfaRepository {
+  private readonly enrollments = new Map<string, UserMfa>();
+  private readonly recoveryCodes = new Map<string, Map<string, boolean>>();
+
+  async findByUserId(userId: string): Promise<UserMfa | null> {
+    const enrollment = this.enrollments.get(userId);
+    return enrollment ? { ...enrollment } : null;
+  }
+
+  async savePending(userId: string, secret: string): Promise<UserMfa> {
+    const now = new Date().toISOString();
+    const enrollment: UserMfa = {
+      userId,
+      secret,
+      enabledAt: null,
+      lastUsedStep: null,
+      createdAt: this.enrollments.get(userId)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.enrollments.set(userId, enrollment);
+    return { ...enrollment };
+  }
+
+  async enable(userId: string): Promise<boolean> {
+    const enrollment = this.enrollments.get(userId);
+    if (!enrollment || enrollment.enabledAt) {
+      return false;
+    }
+    enrollment.enabledAt = new Date().toISOString();
+    enrollment.updatedAt = enrollment.enabledAt;
+    return true;
+  }
+
+  async recordUsedStep(userId: string, step: number): Promise<boolean> {
+    const enrollment = this.enrollments.get(userId);
+    if (!enrollment || (enrollment.lastUsedStep !== null && enrollment.lastUsedStep >= step)) {
+      return false;
+    }
+    enrollment.lastUsedStep = step;
+    enrollment.updatedAt = new Date().toISOString();
+    return true;
+  }
+
+  async remove(userId: string): Promise<boolean> {
+    this.recoveryCodes.delete(userId);
+    return this.enrollments.delete(userId);
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    // Value records whether the code has been used
+    this.recoveryCodes.set(userId, new Map(codeHashes.map((hash) => [hash, false])));
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const codes = this.recoveryCodes.get(userId);
+    if (!codes || codes.get(codeHash) !== false) {
+      return false;
+    }
+    codes.set(codeHash, true);
+    return true;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const codes = this.recoveryCodes.get(userId);
+    return codes ? [...codes.values()].filter((used) => !used).length : 0;
+  }
+}
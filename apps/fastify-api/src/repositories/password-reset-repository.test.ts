@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PostgresPasswordResetRepository,
+  PasswordResetRow,
+  mapPasswordResetRow
+} from './password-reset-repository';
+import { Queryable } from '../database/pool';
+
+const createRow = (overrides: Partial<PasswordResetRow> = {}): PasswordResetRow => ({
+  id: 'reset-1',
+  user_id: 'user-1',
+  token_hash: 'hash',
+  expires_at: new Date('2024-01-01T01:00:00Z'),
+  used_at: null,
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('PostgresPasswordResetRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresPasswordResetRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresPasswordResetRepository(db as unknown as Queryable);
+  });
+
+  it('should map reset token rows', () => {
+    expect(mapPasswordResetRow(createRow({ used_at: '2024-01-01T00:30:00Z' }))).toEqual({
+      id: 'reset-1',
+      userId: 'user-1',
+      tokenHash: 'hash',
+      expiresAt: '2024-01-01T01:00:00.000Z',
+      usedAt: '2024-01-01T00:30:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should store the requesting IP', async () => {
+    db.query.mockResolvedValue({ rows: [createRow()] });
+    const expiresAt = new Date('2024-01-01T01:00:00Z');
+
+    await repository.create({ userId: 'user-1', tokenHash: 'hash', expiresAt, requestedIp: '127.0.0.1' });
+
+    expect(db.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO password_reset_tokens'),
+      ['user-1', 'hash', expiresAt, '127.0.0.1']
+    );
+  });
+
+  it('should only consume unused tokens', async () => {
+    db.query.mockResolvedValueOnce({ rowCount: 1 }).mockResolvedValueOnce({ rowCount: 0 });
+
+    expect(await repository.markUsed('reset-1')).toBe(true);
+    expect(await repository.markUsed('reset-1')).toBe(false);
+    expect(db.query.mock.calls[0][0]).toContain('used_at IS NULL');
+  });
+});
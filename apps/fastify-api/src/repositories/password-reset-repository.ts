@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import { PasswordResetToken } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `password_reset_tokens` table
+export interface PasswordResetRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date | string;
+  used_at: Date | string | null;
+  created_at: Date | string;
+}
+
+export interface CreatePasswordResetInput {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  requestedIp?: string | null;
+}
+
+/**
+ * Persistence boundary for password reset tokens
+ */
+export interface PasswordResetRepository {
+  create(input: CreatePasswordResetInput): Promise<PasswordResetToken>;
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  /**
+   * Consumes an unused token. Returns false when it was already used, so two
+   * concurrent resets with the same token cannot both succeed.
+   */
+  markUsed(id: string): Promise<boolean>;
+  invalidateForUser(userId: string): Promise<number>;
+}
+
+const RESET_COLUMNS = 'id, user_id, token_hash, expires_at, used_at, created_at';
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+/**
+ * Maps a `password_reset_tokens` row to the API's PasswordResetToken shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped reset token
+ */
+export function mapPasswordResetRow(row: PasswordResetRow): PasswordResetToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    expiresAt: toIsoString(row.expires_at),
+    usedAt: row.used_at === null ? null : toIsoString(row.used_at),
+    createdAt: toIsoString(row.created_at),
+  };
+}
+
+/**
+ * PasswordResetRepository backed by the `password_reset_tokens` table
+ */
+export class PostgresPasswordResetRepository implements PasswordResetRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async create(input: CreatePasswordResetInput): Promise<PasswordResetToken> {
+    const result = await this.db.query<PasswordResetRow>(
+      `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${RESET_COLUMNS}`,
+      [input.userId, input.tokenHash, input.expiresAt, input.requestedIp ?? null]
+    );
+    return mapPasswordResetRow(result.rows[0]);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    const result = await this.db.query<PasswordResetRow>(
+      `SELECT ${RESET_COLUMNS} FROM password_reset_tokens WHERE token_hash = $1`,
+      [tokenHash]
+    );
+    return result.rows[0] ? mapPasswordResetRow(result.rows[0]) : null;
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND used_at IS NULL`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async invalidateForUser(userId: string): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [userId]
+    );
+    return result.rowCount ?? 0;
+  }
+}
+
+/**
+ * PasswordResetRepository kept in process memory, intended for tests
+ */
+export class InMemoryPasswordResetRepository implements PasswordResetRepository {
+  private readonly tokens = new Map<string, PasswordResetToken>();
+
+  async create(input: CreatePasswordResetInput): Promise<PasswordResetToken> {
+    const token: PasswordResetToken = {
+      id: randomUUID(),
+      userId: input.userId,
+      tokenHash: input.tokenHash,
+      expiresAt: input.expiresAt.toISOString(),
+      usedAt: null,
+      createdAt: new Date().toISOString(),
+    };
+    this.tokens.set(token.id, token);
+    return { ...token };
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    for (const token of this.tokens.values()) {
+      if (token.tokenHash === tokenHash) {
+        return { ...token };
+      }
+    }
+    return null;
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    const token = this.tokens.get(id);
+    if (!token || token.usedAt) {
+      return false;
+    }
+    token.usedAt = new Date().toISOString();
+    return true;
+  }
+
+  async invalidateForUser(userId: string): Promise<number> {
+    const now = new Date().toISOString();
+    let invalidated = 0;
+    for (const token of this.tokens.values()) {
+      if (token.userId === userId && !token.usedAt) {
+        token.usedAt = now;
+        invalidated++;
+      }
+    }
+    return invalidated;
+  }
+}
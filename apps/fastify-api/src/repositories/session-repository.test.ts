@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PostgresSessionRepository, SessionRow, mapSessionRow } from './session-repository';
+import { Queryable } from '../database/pool';
+
+const createRow = (overrides: Partial<SessionRow> = {}): SessionRow => ({
+  id: 'session-1',
+  user_id: 'user-1',
+  family_id: 'family-1',
+  token_hash: 'hash',
+  expires_at: new Date('2024-01-08T00:00:00Z'),
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  last_used_at: null,
+  revoked_at: null,
+  replaced_by: null,
+  user_agent: 'vitest',
+  ip_address: '127.0.0.1',
+  ...overrides,
+});
+
+describe('PostgresSessionRepository', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let repository: PostgresSessionRepository;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    repository = new PostgresSessionRepository(db as unknown as Queryable);
+  });
+
+  it('should map session rows', () => {
+    expect(mapSessionRow(createRow({ revoked_at: '2024-01-02T00:00:00Z' }))).toMatchObject({
+      id: 'session-1',
+      userId: 'user-1',
+      familyId: 'family-1',
+      expiresAt: '2024-01-08T00:00:00.000Z',
+      lastUsedAt: null,
+      revokedAt: '2024-01-02T00:00:00.000Z',
+    });
+  });
+
+  it('should start a new family when none is given', async () => {
+    db.query.mockResolvedValue({ rows: [createRow()] });
+    const expiresAt = new Date('2024-01-08T00:00:00Z');
+
+    await repository.create({ userId: 'user-1', tokenHash: 'hash', expiresAt });
+
+    expect(db.query).toHaveBeenCalledWith(
+      expect.stringContaining('COALESCE($2, uuid_generate_v4())'),
+      ['user-1', null, 'hash', expiresAt, null, null]
+    );
+  });
+
+  it('should only rotate sessions that are still active', async () => {
+    db.query.mockResolvedValueOnce({ rowCount: 1 }).mockResolvedValueOnce({ rowCount: 0 });
+
+    expect(await repository.markRotated('session-1', 'session-2')).toBe(true);
+    expect(await repository.markRotated('session-1', 'session-3')).toBe(false);
+    expect(db.query.mock.calls[0][0]).toContain('replaced_by IS NULL AND revoked_at IS NULL');
+  });
+
+  it('should report how many sessions were revoked', async () => {
+    db.query.mockResolvedValue({ rowCount: 3 });
+
+    expect(await repository.revokeFamily('family-1')).toBe(3);
+    expect(await repository.revokeAllForUser('user-1')).toBe(3);
+  });
+});
@@ -0,0 +1,197 @@
+import { randomUUID } from 'crypto';
+import { UserSession } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `user_sessions` table
+export interface SessionRow {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: Date | string;
+  created_at: Date | string;
+  last_used_at: Date | string | null;
+  revoked_at: Date | string | null;
+  replaced_by: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+export interface CreateSessionInput {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  familyId?: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/**
+ * Persistence boundary for refresh-token sessions
+ */
+export interface SessionRepository {
+  create(input: CreateSessionInput): Promise<UserSession>;
+  findByTokenHash(tokenHash: string): Promise<UserSession | null>;
+  /**
+   * Marks an active session as rotated. Returns false when the session was
+   * already rotated or revoked, which callers must treat as token reuse.
+   */
+  markRotated(id: string, replacedBy: string): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<number>;
+  revokeAllForUser(userId: string): Promise<number>;
+}
+
+const SESSION_COLUMNS =
+  'id, user_id, family_id, token_hash, expires_at, created_at, last_used_at, revoked_at, replaced_by, user_agent, ip_address';
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+const toNullableIsoString = (value: Date | string | null): string | null =>
+  value === null ? null : toIsoString(value);
+
+/**
+ * Maps a `user_sessions` row to the API's UserSession shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped session
+ */
+export function mapSessionRow(row: SessionRow): UserSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    familyId: row.family_id,
+    tokenHash: row.token_hash,
+    expiresAt: toIsoString(row.expires_at),
+    createdAt: toIsoString(row.created_at),
+    lastUsedAt: toNullableIsoString(row.last_used_at),
+    revokedAt: toNullableIsoString(row.revoked_at),
+    replacedBy: row.replaced_by,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+  };
+}
+
+/**
+ * SessionRepository backed by the `user_sessions` table
+ */
+export class PostgresSessionRepository implements SessionRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async create(input: CreateSessionInput): Promise<UserSession> {
+    const result = await this.db.query<SessionRow>(
+      `INSERT INTO user_sessions (user_id, family_id, token_hash, expires_at, user_agent, ip_address)
+       VALUES ($1, COALESCE($2, uuid_generate_v4()), $3, $4, $5, $6)
+       RETURNING ${SESSION_COLUMNS}`,
+      [
+        input.userId,
+        input.familyId ?? null,
+        input.tokenHash,
+        input.expiresAt,
+        input.userAgent ?? null,
+        input.ipAddress ?? null,
+      ]
+    );
+    return mapSessionRow(result.rows[0]);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<UserSession | null> {
+    const result = await this.db.query<SessionRow>(
+      `SELECT ${SESSION_COLUMNS} FROM user_sessions WHERE token_hash = $1`,
+      [tokenHash]
+    );
+    return result.rows[0] ? mapSessionRow(result.rows[0]) : null;
+  }
+
+  async markRotated(id: string, replacedBy: string): Promise<boolean> {
+    // The WHERE clause makes concurrent rotations of the same token race-safe
+    const result = await this.db.query(
+      `UPDATE user_sessions
+       SET replaced_by = $2, last_used_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND replaced_by IS NULL AND revoked_at IS NULL`,
+      [id, replacedBy]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE family_id = $1 AND revoked_at IS NULL`,
+      [familyId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    const result = await this.db.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND revoked_at IS NULL`,
+      [userId]
+    );
+    return result.rowCount ?? 0;
+  }
+}
+
+/**
+ * SessionRepository kept in process memory, intended for tests
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  private readonly sessions = new Map<string, UserSession>();
+
+  async create(input: CreateSessionInput): Promise<UserSession> {
+    const session: UserSession = {
+      id: randomUUID(),
+      userId: input.userId,
+      familyId: input.familyId ?? randomUUID(),
+      tokenHash: input.tokenHash,
+      expiresAt: input.expiresAt.toISOString(),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+      replacedBy: null,
+      userAgent: input.userAgent ?? null,
+      ipAddress: input.ipAddress ?? null,
+    };
+    this.sessions.set(session.id, session);
+    return { ...session };
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<UserSession | null> {
+    for (const session of this.sessions.values()) {
+      if (session.tokenHash === tokenHash) {
+        return { ...session };
+      }
+    }
+    return null;
+  }
+
+  async markRotated(id: string, replacedBy: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.replacedBy || session.revokedAt) {
+      return false;
+    }
+    session.replacedBy = replacedBy;
+    session.lastUsedAt = new Date().toISOString();
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    return this.revokeWhere((session) => session.familyId === familyId);
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    return this.revokeWhere((session) => session.userId === userId);
+  }
+
+  private revokeWhere(predicate: (session: UserSession) => boolean): number {
+    const now = new Date().toISOString();
+    let revoked = 0;
+    for (const session of this.sessions.values()) {
+      if (predicate(session) && !session.revokedAt) {
+        session.revokedAt = now;
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  InMemoryUserRepository,
+  PostgresUserRepository,
+  UserAlreadyExistsError,
+  UserRow,
+  mapUserRow
+} from './user-repository';
+import { Queryable } from '../database/pool';
+
+const createRow = (overrides: Partial<UserRow> = {}): UserRow => ({
+  id: '6f1c2a3e-0000-4000-8000-000000000001',
+  email: 'admin@example.com',
+  password_hash: '$2a$10$hash',
+  name: 'Admin User',
+  is_active: true,
+  email_verified_at: new Date('2024-01-01T00:00:00Z'),
+  roles: ['admin'],
+  permissions: [],
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  updated_at: new Date('2024-01-02T00:00:00Z'),
+  ...overrides,
+});
+
+describe('User Repository', () => {
+  describe('mapUserRow', () => {
+    it('should map snake_case columns to the User shape', () => {
+      expect(mapUserRow(createRow())).toEqual({
+        id: '6f1c2a3e-0000-4000-8000-000000000001',
+        email: 'admin@example.com',
+        passwordHash: '$2a$10$hash',
+        name: 'Admin User',
+        isActive: true,
+        emailVerifiedAt: '2024-01-01T00:00:00.000Z',
+        roles: ['admin'],
+        permissions: [],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      });
+    });
+
+    it('should accept string timestamps', () => {
+      const user = mapUserRow(createRow({ created_at: '2024-01-01 00:00:00+00', is_active: false }));
+
+      expect(user.createdAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(user.isActive).toBe(false);
+    });
+  });
+
+  describe('PostgresUserRepository', () => {
+    let db: { query: ReturnType<typeof vi.fn> };
+    let repository: PostgresUserRepository;
+
+    beforeEach(() => {
+      db = { query: vi.fn() };
+      repository = new PostgresUserRepository(db as unknown as Queryable);
+    });
+
+    it('should find a user by email', async () => {
+      db.query.mockResolvedValue({ rows: [createRow()] });
+
+      const user = await repository.findByEmail('admin@example.com');
+
+      expect(user?.passwordHash).toBe('$2a$10$hash');
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('WHERE email = $1'), ['admin@example.com']);
+    });
+
+    it('should return null when no row matches', async () => {
+      db.query.mockResolvedValue({ rows: [] });
+
+      expect(await repository.findById('missing')).toBeNull();
+    });
+
+    it('should insert users with a password hash and the default role', async () => {
+      db.query.mockResolvedValue({ rows: [createRow({ email: 'new@example.com', roles: ['customer'] })] });
+
+      const user = await repository.create({ email: 'new@example.com', passwordHash: '$2a$10$hash', name: 'New User' });
+
+      expect(user.email).toBe('new@example.com');
+      expect(user.roles).toEqual(['customer']);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO users (email, password_hash, name, roles)'),
+        ['new@example.com', '$2a$10$hash', 'New User', ['customer']]
+      );
+    });
+
+    it('should translate unique violations into UserAlreadyExistsError', async () => {
+      db.query.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(
+        repository.create({ email: 'admin@example.com', passwordHash: 'x', name: 'Admin User' })
+      ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+    });
+
+    it('should rethrow other database errors', async () => {
+      db.query.mockRejectedValue(new Error('connection refused'));
+
+      await expect(
+        repository.create({ email: 'admin@example.com', passwordHash: 'x', name: 'Admin User' })
+      ).rejects.toThrow('connection refused');
+    });
+
+    it('should keep existing values when none are provided', async () => {
+      db.query.mockResolvedValue({ rows: [createRow()] });
+
+      await repository.update('6f1c2a3e-0000-4000-8000-000000000001', {});
+
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('COALESCE($2, name)'),
+        ['6f1c2a3e-0000-4000-8000-000000000001', null, null, null, null, null]
+      );
+    });
+
+    it('should update roles and direct permission grants', async () => {
+      db.query.mockResolvedValue({ rows: [createRow({ roles: ['branch_staff'], permissions: ['events:read'] })] });
+
+      const user = await repository.update('6f1c2a3e-0000-4000-8000-000000000001', {
+        roles: ['branch_staff'],
+        permissions: ['events:read'],
+      });
+
+      expect(user?.roles).toEqual(['branch_staff']);
+      expect(db.query.mock.calls[0][1]).toEqual(['6f1c2a3e-0000-4000-8000-000000000001', null, ['branch_staff'], ['events:read'], null, null]);
+    });
+  });
+
+  describe('InMemoryUserRepository', () => {
+    let repository: InMemoryUserRepository;
+
+    beforeEach(() => {
+      repository = new InMemoryUserRepository([mapUserRow(createRow())]);
+    });
+
+    it('should find seeded users by id and email', async () => {
+      expect(await repository.findByEmail('admin@example.com')).not.toBeNull();
+      expect(await repository.findById('6f1c2a3e-0000-4000-8000-000000000001')).not.toBeNull();
+    });
+
+    it('should create active users with generated ids', async () => {
+      const user = await repository.create({ email: 'new@example.com', passwordHash: 'hash', name: 'New User' });
+
+      expect(user.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(user.isActive).toBe(true);
+      expect(user.emailVerifiedAt).toBeNull();
+      expect(user.roles).toEqual(['customer']);
+      expect(user.permissions).toEqual([]);
+      expect(await repository.findByEmail('new@example.com')).toEqual(user);
+    });
+
+    it('should reject duplicate emails', async () => {
+      await expect(
+        repository.create({ email: 'admin@example.com', passwordHash: 'hash', name: 'Admin User' })
+      ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+    });
+
+    it('should update names and return null for unknown users', async () => {
+      const updated = await repository.update('6f1c2a3e-0000-4000-8000-000000000001', { name: 'Renamed' });
+
+      expect(updated?.name).toBe('Renamed');
+      expect(await repository.update('missing', { name: 'Renamed' })).toBeNull();
+    });
+
+    it('should not leak internal state through returned objects', async () => {
+      const user = await repository.findByEmail('admin@example.com');
+      if (user) {
+        user.name = 'Mutated';
+      }
+
+      expect((await repository.findByEmail('admin@example.com'))?.name).toBe('Admin User');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { User, Role, Permission } from '../types';
+import { Queryable } from '../database/pool';
+
+// Row shape of the `users` table
+export interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  name: string;
+  is_active: boolean;
+  email_verified_at: Date | string | null;
+  roles: string[];
+  permissions: string[];
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+export interface CreateUserInput {
+  email: string;
+  passwordHash: string;
+  name: string;
+  roles?: Role[];
+}
+
+export interface UpdateUserInput {
+  name?: string;
+  passwordHash?: string;
+  emailVerifiedAt?: Date;
+  roles?: Role[];
+  permissions?: Permission[];
+}
+
+/**
+ * Persistence boundary for user accounts
+ */
+export interface UserRepository {
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  create(input: CreateUserInput): Promise<User>;
+  update(id: string, changes: UpdateUserInput): Promise<User | null>;
+}
+
+/**
+ * Raised when an account with the same email address already exists
+ */
+export class UserAlreadyExistsError extends Error {
+  constructor(email: string) {
+    super(`User with email ${email} already exists`);
+    this.name = 'UserAlreadyExistsError';
+  }
+}
+
+// PostgreSQL unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+const USER_COLUMNS = 'id, email, password_hash, name, is_active, email_verified_at, roles, permissions, created_at, updated_at';
+
+// Role given to self-registered accounts
+export const DEFAULT_ROLE: Role = 'customer';
+
+const toIsoString = (value: Date | string): string =>
+  value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+/**
+ * Maps a `users` row to the API's User shape
+ * @param row - Row returned by PostgreSQL
+ * @returns Mapped user
+ */
+export function mapUserRow(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    name: row.name,
+    isActive: row.is_active,
+    emailVerifiedAt: row.email_verified_at === null ? null : toIsoString(row.email_verified_at),
+    roles: row.roles as Role[],
+    permissions: row.permissions as Permission[],
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+  };
+}
+
+/**
+ * UserRepository backed by the `users` table
+ */
+export class PostgresUserRepository implements UserRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async findById(id: string): Promise<User | null> {
+    const result = await this.db.query<UserRow>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ? mapUserRow(result.rows[0]) : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const result = await this.db.query<UserRow>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE email = $1`,
+      [email]
+    );
+    return result.rows[0] ? mapUserRow(result.rows[0]) : null;
+  }
+
+  async create(input: CreateUserInput): Promise<User> {
+    try {
+      const result = await this.db.query<UserRow>(
+        `INSERT INTO users (email, password_hash, name, roles)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${USER_COLUMNS}`,
+        [input.email, input.passwordHash, input.name, input.roles ?? [DEFAULT_ROLE]]
+      );
+      return mapUserRow(result.rows[0]);
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new UserAlreadyExistsError(input.email);
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, changes: UpdateUserInput): Promise<User | null> {
+    // updated_at is maintained by the update_users_updated_at trigger
+    const result = await this.db.query<UserRow>(
+      `UPDATE users
+       SET name = COALESCE($2, name),
+           roles = COALESCE($3, roles),
+           permissions = COALESCE($4, permissions),
+           password_hash = COALESCE($5, password_hash),
+           email_verified_at = COALESCE($6, email_verified_at)
+       WHERE id = $1
+       RETURNING ${USER_COLUMNS}`,
+      [
+        id,
+        changes.name ?? null,
+        changes.roles ?? null,
+        changes.permissions ?? null,
+        changes.passwordHash ?? null,
+        changes.emailVerifiedAt ?? null,
+      ]
+    );
+    return result.rows[0] ? mapUserRow(result.rows[0]) : null;
+  }
+}
+
+/**
+ * UserRepository kept in process memory, intended for tests
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private readonly users = new Map<string, User>();
+
+  constructor(seed: User[] = []) {
+    for (const user of seed) {
+      this.users.set(user.id, { ...user });
+    }
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    for (const user of this.users.values()) {
+      if (user.email === email) {
+        return { ...user };
+      }
+    }
+    return null;
+  }
+
+  async create(input: CreateUserInput): Promise<User> {
+    if (await this.findByEmail(input.email)) {
+      throw new UserAlreadyExistsError(input.email);
+    }
+
+    const now = new Date().toISOString();
+    const user: User = {
+      id: randomUUID(),
+      email: input.email,
+      passwordHash: input.passwordHash,
+      name: input.name,
+      isActive: true,
+      emailVerifiedAt: null,
+      roles: input.roles ?? [DEFAULT_ROLE],
+      permissions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async update(id: string, changes: UpdateUserInput): Promise<User | null> {
+    const user = this.users.get(id);
+    if (!user) {
+      return null;
+    }
+
+    if (changes.name !== undefined) {
+      user.name = changes.name;
+    }
+    if (changes.passwordHash !== undefined) {
+      user.passwordHash = changes.passwordHash;
+    }
+    if (changes.emailVerifiedAt !== undefined) {
+      user.emailVerifiedAt = changes.emailVerifiedAt.toISOString();
+    }
+    if (changes.roles !== undefined) {
+      user.roles = [...changes.roles];
+    }
+    if (changes.permissions !== undefined) {
+      user.permissions = [...changes.permissions];
+    }
+    user.updatedAt = new Date().toISOString();
+
+    return { ...user };
+  }
+}
@@ -0,0 +1,128 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { RateLimiter } from '../middleware/rate-limit';
+import { EmailVerificationError, EmailVerificationService } from '../services/email-verification-service';
+import { ResendVerificationRequest, VerifyEmailRequest } from '../types';
+
+export interface EmailVerificationRoutesOptions {
+  rateLimiter: RateLimiter;
+  emailVerificationService: EmailVerificationService;
+}
+
+/**
+ * Email verification routes: confirm an address with the token from its
+ * link, or ask for a new link
+ */
+export const emailVerificationRoutes: FastifyPluginAsync<EmailVerificationRoutesOptions> = async (fastify, options) => {
+  const { rateLimiter, emailVerificationService } = options;
+
+  // Verify email route
+  fastify.post('/api/auth/verify-email', {
+    schema: {
+      description: 'Confirm an email address with the token from the verification link',
+      tags: ['Authentication'],
+      summary: 'Verify email address',
+      body: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: { type: 'string', minLength: 1, description: 'Token from the verification email link' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Email address verified',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            email: { type: 'string', description: 'Verified email address' }
+          }
+        },
+        400: {
+          description: 'Invalid or expired verification token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { token } = request.body as VerifyEmailRequest;
+
+      const user = await emailVerificationService.verify(token);
+
+      fastify.log.info(`Email verified for user: ${user.email}`);
+      return { success: true, email: user.email };
+    } catch (error) {
+      if (error instanceof EmailVerificationError) {
+        return reply.code(400).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('Email verification error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Resend verification email route
+  fastify.post('/api/auth/verify-email/resend', {
+    preHandler: rateLimiter.hook('verificationResend'),
+    schema: {
+      description: 'Send a new verification link. Always responds with 202 so accounts cannot be probed.',
+      tags: ['Authentication'],
+      summary: 'Resend the verification email',
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email', description: 'Account email address' },
+        },
+      },
+      response: {
+        202: {
+          description: 'Request accepted; an email is sent if the account still needs verifying',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        429: {
+          description: 'Too many resend requests',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { email } = request.body as ResendVerificationRequest;
+
+      const sent = await emailVerificationService.resend(email);
+      if (sent) {
+        fastify.log.info(`Verification email resent to: ${email}`);
+      }
+
+      return reply.code(202).send({
+        success: true,
+        message: 'If that account still needs verifying, a new link has been sent.'
+      });
+    } catch (error) {
+      fastify.log.error('Verification resend error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+};
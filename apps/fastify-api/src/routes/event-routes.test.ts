@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { InMemoryEventBroker } from '../events/event-broker';
+import { EVENT_CATALOG } from '../events/event-catalog';
+import { EventSchemaRegistry } from '../events/event-schema-registry';
+import { registerRequestTracing } from '../middleware/request-tracing';
+import { InMemoryDeadLetterRepository } from '../repositories/dead-letter-repository';
+import { InMemoryEventRepository } from '../repositories/event-repository';
+import { Tracer } from '../tracing/tracer';
+import { InMemorySpanExporter } from '../tracing/span-exporters';
+import { eventRoutes } from './event-routes';
+
+describe('eventRoutes', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  let app: FastifyInstance;
+  let eventRepository: InMemoryEventRepository;
+  const notify = vi.fn();
+
+  beforeEach(async () => {
+    eventRepository = new InMemoryEventRepository();
+    const tracer = new Tracer({ exporter: new InMemorySpanExporter(), flushIntervalMs: 60_000 });
+
+    app = Fastify();
+    registerRequestTracing(app, tracer);
+    app.register(eventRoutes, {
+      // Stands in for authenticateUser
+      authenticateUser: async (request) => {
+        request.user = { id: 'user-1', email: 'user@example.com', permissions: ['events:publish'] };
+        return true;
+      },
+      eventRepository,
+      eventSchemas: new EventSchemaRegistry(EVENT_CATALOG),
+      eventBroker: new InMemoryEventBroker(),
+      outboxRelay: { notify },
+      eventConsumer: { groupId: 'fastify-api', status: vi.fn(), replay: vi.fn() },
+      deadLetterRepository: new InMemoryDeadLetterRepository(),
+      topic: 'app-events',
+      tracer,
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  it('should queue a published event with the request\'s traceparent', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/events',
+      payload: { event: 'equipment.checked_out.v1', data: { equipmentId: 'eq-1', dueAt: '2026-11-01T12:00:00.000Z' } },
+      headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(notify).toHaveBeenCalled();
+    const [entry] = await eventRepository.claimPending(10, 1000);
+    expect(entry.event.id).toBe(response.json().eventId);
+    expect(entry.topic).toBe('app-events');
+    // The request's server span, which the relay's publish span continues
+    expect(entry.traceparent).toBe(response.headers['traceresponse']);
+    expect(entry.traceparent).toMatch(new RegExp(`^00-${traceId}-[0-9a-f]{16}-01$`));
+  });
+});
@@ -0,0 +1,671 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { Readable } from 'stream';
+import type { AuthenticateUser } from '../middleware/auth';
+import { forbiddenResponse, hasPermissions, requirePermission } from '../middleware/permissions';
+import type { DeadLetterRepository } from '../repositories/dead-letter-repository';
+import type { EventRepository } from '../repositories/event-repository';
+import type { EventBroker } from '../events/event-broker';
+import type { EventConsumer } from '../events/event-consumer';
+import { EventQueryError, decodeEventCursor, exportEvents, parseDataPredicate, queryEvents } from '../events/event-query';
+import { replayEvents } from '../events/event-replay';
+import { EventSchemaError, EventSchemaRegistry } from '../events/event-schema-registry';
+import type { OutboxRelay } from '../events/outbox-relay';
+import type { Tracer } from '../tracing/tracer';
+import { DeadLetterListQuery, EventListQuery, EventReplayRequest, EventRequest, JwtPayload } from '../types';
+
+// Events read per query while exporting or replaying
+const EVENT_EXPORT_BATCH_SIZE = 500;
+
+export interface EventRoutesOptions {
+  authenticateUser: AuthenticateUser;
+  // Event store and transactional outbox
+  eventRepository: EventRepository;
+  eventSchemas: EventSchemaRegistry;
+  // Replays publish to the broker directly
+  eventBroker: Pick<EventBroker, 'publish'>;
+  // Woken after an append so the event is published without waiting for its poll
+  outboxRelay: Pick<OutboxRelay, 'notify'>;
+  eventConsumer: Pick<EventConsumer, 'groupId' | 'status' | 'replay'>;
+  deadLetterRepository: DeadLetterRepository;
+  // Topic events are published and replayed to
+  topic: string;
+  // Published events carry the request's trace to their consumers
+  tracer: Pick<Tracer, 'currentTraceparent'>;
+}
+
+/**
+ * Event routes: publishing through the outbox, query and export, replay to
+ * the broker, the type catalog, and consumer and dead letter administration
+ */
+export const eventRoutes: FastifyPluginAsync<EventRoutesOptions> = async (fastify, options) => {
+  const {
+    authenticateUser,
+    eventRepository,
+    eventSchemas,
+    eventBroker,
+    outboxRelay,
+    eventConsumer,
+    deadLetterRepository,
+    topic,
+    tracer,
+  } = options;
+
+  // Event publishing endpoint; events go to the transactional outbox and the
+  // outbox relay publishes them to the broker
+  fastify.post('/api/events', {
+    preHandler: [authenticateUser, requirePermission('events:publish')],
+    schema: {
+      description: 'Store an event and queue it for publishing to Kafka. `data` must match the schema of the event type; see GET /api/events/types. Delivery is asynchronous and at least once. Requires the `events:publish` permission.',
+      tags: ['Events'],
+      summary: 'Send events to Kafka message queue',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:publish'],
+      body: {
+        type: 'object',
+        required: ['event', 'data'],
+        properties: {
+          event: { type: 'string', description: 'Versioned event type, e.g. `equipment.checked_out.v1`', examples: ['equipment.checked_out.v1'] },
+          data: { type: 'object', description: 'Event payload matching the type\'s schema' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Event successfully published',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', description: 'Operation success status' },
+            eventId: { type: 'string', format: 'uuid', description: 'Generated event ID' },
+          },
+        },
+        400: {
+          description: 'Unknown or reserved event type, or payload does not match its schema',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' }, description: 'Schema violations' }
+          }
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:publish')
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { event, data } = request.body as EventRequest;
+      const user = request.user as JwtPayload;
+
+      if (eventSchemas.get(event)?.internal) {
+        return reply.code(400).send({
+          error: `Event type ${event} is published by the API only`,
+          code: 'EVENT_TYPE_RESERVED'
+        });
+      }
+      eventSchemas.validate(event, data);
+
+      const record = await eventRepository.append({
+        type: event,
+        userId: user.id,
+        data,
+        topic,
+        traceparent: tracer.currentTraceparent(),
+      });
+      outboxRelay.notify();
+      fastify.log.info(`Queued event ${record.id}: ${event}`);
+
+      return { success: true, eventId: record.id };
+    } catch (error) {
+      if (error instanceof EventSchemaError) {
+        return reply.code(400).send({
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+      }
+
+      fastify.log.error('Event publishing error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Event filter shared by the query and replay routes
+  const buildEventFilter = (input: { types?: string[]; userId?: string; from?: string; to?: string; where?: string[] }) => ({
+    types: input.types && input.types.length > 0 ? input.types : undefined,
+    userId: input.userId,
+    from: input.from,
+    to: input.to,
+    where: input.where?.map(parseDataPredicate),
+  });
+
+  // Stored event as returned by the query route
+  const eventRecordSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      type: { type: 'string', description: 'Versioned event type' },
+      userId: { type: 'string', nullable: true },
+      data: { type: 'object', additionalProperties: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      publishedAt: { type: 'string', format: 'date-time', nullable: true, description: 'Null while the event waits in the outbox' },
+      kafkaPartition: { type: 'integer', nullable: true },
+      kafkaOffset: { type: 'string', nullable: true },
+    },
+  };
+
+  const eventQueryErrorResponse = {
+    description: 'Invalid `where` predicate or cursor',
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' }
+    }
+  };
+
+  // Event query route
+  fastify.get('/api/events', {
+    preHandler: authenticateUser,
+    schema: {
+      description: 'Query stored events in creation order with cursor pagination. `where` filters on values inside `data` as `path:operator[:value]`, e.g. `site.id:eq:north` or `days:gte:3`; operators are eq, ne, gt, gte, lt, lte and exists. Values that parse as a JSON number, boolean or null keep that type; quote them to compare as strings. `format=csv` or `format=ndjson` downloads every match from the cursor on instead of one page. Without the `events:read` permission only your own events are returned.',
+      tags: ['Events'],
+      summary: 'Query and export events',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          types: { type: 'string', description: 'Comma-separated versioned event types', examples: ['equipment.returned.v1,equipment.checked_out.v1'] },
+          userId: { type: 'string', format: 'uuid', description: 'Another user\'s events require `events:read`' },
+          from: { type: 'string', format: 'date-time', description: 'Created at or after' },
+          to: { type: 'string', format: 'date-time', description: 'Created before' },
+          where: { type: 'array', items: { type: 'string' }, description: 'Repeatable predicate on `data`', examples: [['equipmentId:eq:eq-1']] },
+          order: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+          cursor: { type: 'string', description: '`nextCursor` of the previous page' },
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50, description: 'Page size; ignored by exports' },
+          format: { type: 'string', enum: ['json', 'csv', 'ndjson'], default: 'json' },
+        },
+      },
+      response: {
+        200: {
+          description: 'One page of events, or the export as `text/csv` or `application/x-ndjson`',
+          type: 'object',
+          properties: {
+            events: { type: 'array', items: eventRecordSchema },
+            nextCursor: { type: 'string', nullable: true, description: 'Null on the last page' },
+          },
+        },
+        400: eventQueryErrorResponse,
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:read')
+      },
+    },
+  }, async (request, reply) => {
+    const user = request.user as JwtPayload;
+    const query = request.query as EventListQuery;
+
+    const canReadAll = hasPermissions(user, ['events:read']);
+    if (!canReadAll && query.userId !== undefined && query.userId !== user.id) {
+      return reply.code(403).send({
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+        required: ['events:read']
+      });
+    }
+
+    try {
+      const filter = {
+        ...buildEventFilter({
+          types: query.types?.split(',').map((type) => type.trim()).filter(Boolean),
+          userId: canReadAll ? query.userId : user.id,
+          from: query.from,
+          to: query.to,
+          where: query.where,
+        }),
+        afterId: query.cursor === undefined ? undefined : decodeEventCursor(query.cursor),
+        order: query.order ?? 'asc',
+      };
+
+      if (query.format === 'csv' || query.format === 'ndjson') {
+        const csv = query.format === 'csv';
+        return reply
+          .header('content-type', csv ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8')
+          .header('content-disposition', `attachment; filename="events.${query.format}"`)
+          .send(Readable.from(exportEvents(eventRepository, { ...filter, limit: EVENT_EXPORT_BATCH_SIZE }, query.format)));
+      }
+
+      return await queryEvents(eventRepository, { ...filter, limit: query.limit ?? 50 });
+    } catch (error) {
+      if (error instanceof EventQueryError) {
+        return reply.code(400).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('Event query error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Event replay route
+  fastify.post('/api/events/replay', {
+    preHandler: [authenticateUser, requirePermission('events:admin')],
+    schema: {
+      description: 'Republish stored events to the broker, oldest first, for consumers rebuilding their projections. Takes the same filters as GET /api/events; only events that were already published are replayed. Replayed messages carry an `event-replay-id` header and are not pushed to event streams again. A replay stops after `maxEvents`; send `nextCursor` as `cursor` to continue. Requires the `events:admin` permission.',
+      tags: ['Events'],
+      summary: 'Replay events to the broker',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:admin'],
+      body: {
+        type: 'object',
+        properties: {
+          types: { type: 'array', items: { type: 'string' }, description: 'Versioned event types' },
+          userId: { type: 'string', format: 'uuid' },
+          from: { type: 'string', format: 'date-time', description: 'Created at or after' },
+          to: { type: 'string', format: 'date-time', description: 'Created before' },
+          where: { type: 'array', items: { type: 'string' }, description: 'Predicates on `data`, as in GET /api/events' },
+          cursor: { type: 'string', description: '`nextCursor` of the previous replay' },
+          maxEvents: { type: 'integer', minimum: 1, maximum: 10000, default: 1000 },
+        },
+      },
+      response: {
+        200: {
+          description: 'Replay finished or stopped at maxEvents',
+          type: 'object',
+          properties: {
+            replayId: { type: 'string', format: 'uuid', description: 'Value of the `event-replay-id` header' },
+            published: { type: 'integer' },
+            lastEventId: { type: 'string', nullable: true },
+            nextCursor: { type: 'string', nullable: true, description: 'Null when every match was replayed' },
+          },
+        },
+        400: eventQueryErrorResponse,
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:admin')
+      },
+    },
+  }, async (request, reply) => {
+    const body = (request.body ?? {}) as EventReplayRequest;
+    const user = request.user as JwtPayload;
+
+    try {
+      const result = await replayEvents(eventRepository, eventBroker, {
+        filter: buildEventFilter(body),
+        topic,
+        afterId: body.cursor === undefined ? undefined : decodeEventCursor(body.cursor),
+        maxEvents: body.maxEvents ?? 1000,
+        batchSize: EVENT_EXPORT_BATCH_SIZE,
+      });
+      fastify.log.info(`Replay ${result.replayId} by ${user.id} republished ${result.published} events`);
+
+      return result;
+    } catch (error) {
+      if (error instanceof EventQueryError) {
+        return reply.code(400).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('Event replay error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Event type catalog route
+  fastify.get('/api/events/types', {
+    preHandler: authenticateUser,
+    schema: {
+      description: 'List every registered event type version with its JSON Schema. Publish with the `type` value.',
+      tags: ['Events'],
+      summary: 'Discover event types and payload schemas',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          description: 'Event type catalog ordered by name and version',
+          type: 'object',
+          properties: {
+            types: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', description: 'Versioned identifier used when publishing' },
+                  name: { type: 'string', description: 'Event name shared by all versions' },
+                  version: { type: 'integer' },
+                  description: { type: 'string' },
+                  internal: { type: 'boolean', description: 'Published by the API only' },
+                  latest: { type: 'boolean', description: 'Newest version of this event' },
+                  schema: { type: 'object', additionalProperties: true, description: 'JSON Schema for `data`' },
+                },
+              },
+            },
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async () => {
+    return { types: eventSchemas.list() };
+  });
+
+  // Dead letter shape shared by the dead letter routes
+  const deadLetterSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      consumerGroup: { type: 'string' },
+      topic: { type: 'string' },
+      partition: { type: 'integer' },
+      offset: { type: 'string' },
+      eventId: { type: 'string', nullable: true },
+      eventType: { type: 'string', nullable: true },
+      payload: { type: 'string', description: 'Message value as consumed' },
+      headers: { type: 'object', additionalProperties: { type: 'string' } },
+      error: { type: 'string', description: 'Last handler or decoding error' },
+      attempts: { type: 'integer', description: 'Handler runs, including replays' },
+      status: { type: 'string', enum: ['pending', 'replayed'] },
+      replayedAt: { type: 'string', format: 'date-time', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  const deadLetterNotFoundResponse = {
+    description: 'Dead letter not found',
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string' }
+    }
+  };
+
+  // Event consumer status route
+  fastify.get('/api/events/consumers', {
+    preHandler: [authenticateUser, requirePermission('events:admin')],
+    schema: {
+      description: 'Show the API\'s event consumer groups with their handled positions and counters since startup. Requires the `events:admin` permission.',
+      tags: ['Events'],
+      summary: 'Inspect event consumers',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:admin'],
+      response: {
+        200: {
+          description: 'Consumer status',
+          type: 'object',
+          properties: {
+            consumers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  groupId: { type: 'string' },
+                  topics: { type: 'array', items: { type: 'string' } },
+                  handlers: { type: 'array', items: { type: 'string' }, description: 'Event types with a handler' },
+                  running: { type: 'boolean' },
+                  positions: { type: 'object', additionalProperties: { type: 'string' }, description: 'Last handled offset by `topic:partition`' },
+                  processed: { type: 'integer' },
+                  skipped: { type: 'integer', description: 'Events without a handler' },
+                  retried: { type: 'integer' },
+                  deadLettered: { type: 'integer' },
+                },
+              },
+            },
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:admin')
+      },
+    },
+  }, async () => {
+    return { consumers: [eventConsumer.status()] };
+  });
+
+  // Dead letter list route
+  fastify.get('/api/events/dead-letters', {
+    preHandler: [authenticateUser, requirePermission('events:admin')],
+    schema: {
+      description: 'List messages that consumers gave up on, newest first. Requires the `events:admin` permission.',
+      tags: ['Events'],
+      summary: 'List dead-lettered events',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:admin'],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'replayed'] },
+          consumerGroup: { type: 'string' },
+          eventType: { type: 'string', description: 'Versioned event type' },
+          limit: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+          offset: { type: 'integer', minimum: 0, default: 0 },
+        },
+      },
+      response: {
+        200: {
+          description: 'One page of dead letters',
+          type: 'object',
+          properties: {
+            deadLetters: { type: 'array', items: deadLetterSchema },
+            total: { type: 'integer', description: 'Matches across all pages' },
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:admin')
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const query = request.query as DeadLetterListQuery;
+      const page = await deadLetterRepository.list({
+        status: query.status,
+        consumerGroup: query.consumerGroup,
+        eventType: query.eventType,
+        limit: query.limit ?? 50,
+        offset: query.offset ?? 0,
+      });
+
+      return { deadLetters: page.items, total: page.total };
+    } catch (error) {
+      fastify.log.error('Dead letter listing error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Dead letter detail route
+  fastify.get('/api/events/dead-letters/:id', {
+    preHandler: [authenticateUser, requirePermission('events:admin')],
+    schema: {
+      description: 'Show a dead letter with its raw payload and last error. Requires the `events:admin` permission.',
+      tags: ['Events'],
+      summary: 'Inspect a dead-lettered event',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:admin'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Dead letter',
+          type: 'object',
+          properties: {
+            deadLetter: deadLetterSchema,
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:admin'),
+        404: deadLetterNotFoundResponse
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const deadLetter = await deadLetterRepository.findById(id);
+      if (!deadLetter) {
+        return reply.code(404).send({
+          error: 'Dead letter not found',
+          code: 'DEAD_LETTER_NOT_FOUND'
+        });
+      }
+
+      return { deadLetter };
+    } catch (error) {
+      fastify.log.error('Dead letter lookup error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Dead letter replay route
+  fastify.post('/api/events/dead-letters/:id/replay', {
+    preHandler: [authenticateUser, requirePermission('events:admin')],
+    schema: {
+      description: 'Run the consumer group\'s handler for a pending dead letter once more, e.g. after fixing the cause. Success marks it replayed; failure records the error and keeps it pending. Requires the `events:admin` permission.',
+      tags: ['Events'],
+      summary: 'Replay a dead-lettered event',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['events:admin'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Handler succeeded',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            deadLetter: deadLetterSchema,
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:admin'),
+        404: deadLetterNotFoundResponse,
+        409: {
+          description: 'Already replayed, or its consumer group does not run in this API',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        },
+        422: {
+          description: 'Handler failed again',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' },
+            deadLetter: deadLetterSchema
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const deadLetter = await deadLetterRepository.findById(id);
+      if (!deadLetter) {
+        return reply.code(404).send({
+          error: 'Dead letter not found',
+          code: 'DEAD_LETTER_NOT_FOUND'
+        });
+      }
+      if (deadLetter.status === 'replayed') {
+        return reply.code(409).send({
+          error: 'Dead letter was already replayed',
+          code: 'ALREADY_REPLAYED'
+        });
+      }
+      if (deadLetter.consumerGroup !== eventConsumer.groupId) {
+        return reply.code(409).send({
+          error: `Consumer group ${deadLetter.consumerGroup} does not run in this API`,
+          code: 'UNKNOWN_CONSUMER_GROUP'
+        });
+      }
+
+      const result = await eventConsumer.replay(deadLetter);
+      if (result.error !== null) {
+        return reply.code(422).send({
+          error: result.error,
+          code: 'REPLAY_FAILED',
+          deadLetter: result.deadLetter
+        });
+      }
+
+      fastify.log.info(`Replayed dead letter ${id}`);
+      return { success: true, deadLetter: result.deadLetter };
+    } catch (error) {
+      fastify.log.error('Dead letter replay error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+};
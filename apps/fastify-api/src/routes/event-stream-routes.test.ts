@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import fastifyWebsocket from '@fastify/websocket';
+import { InMemoryTokenRevocationStore } from '../stores/token-revocation-store';
+import { JwtPayload, User } from '../types';
+import { eventStreamRoutes } from './event-stream-routes';
+
+describe('eventStreamRoutes', () => {
+  const token: JwtPayload = { id: 'user-1', email: 'user@example.com', jti: 'token-1' };
+  const account: User = {
+    id: 'user-1',
+    email: 'user@example.com',
+    passwordHash: 'hash',
+    name: 'Test User',
+    isActive: true,
+    emailVerifiedAt: '2024-01-01T00:00:00.000Z',
+    roles: ['customer'],
+    permissions: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+  let app: FastifyInstance;
+  let revocationStore: InMemoryTokenRevocationStore;
+  const findById = vi.fn();
+  const closeConnection = vi.fn();
+
+  beforeEach(async () => {
+    revocationStore = new InMemoryTokenRevocationStore();
+    findById.mockResolvedValue(account);
+
+    app = Fastify();
+    app.register(fastifyWebsocket);
+    app.register(eventStreamRoutes, {
+      // Stands in for authenticateUser
+      authenticateUser: async (request) => {
+        request.user = token;
+        return true;
+      },
+      verifyAccessToken: async () => ({ user: token, failure: null }),
+      eventStream: { connect: vi.fn(async () => ({ close: closeConnection })) },
+      authenticateOptions: { revocationStore, userRepository: { findById } },
+      recheckIntervalMs: 10,
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  it('should end a Server-Sent Events stream once the account is deactivated', async () => {
+    const stream = app.inject({ method: 'GET', url: '/api/events/stream' });
+    await vi.waitFor(() => expect(findById).toHaveBeenCalled());
+
+    findById.mockResolvedValue({ ...account, isActive: false });
+    const response = await stream;
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe('retry: 2000\n\n');
+    expect(closeConnection).toHaveBeenCalled();
+  });
+
+  it('should keep a stream open while the access check cannot run', async () => {
+    findById.mockRejectedValue(new Error('Database unavailable'));
+    const socket = await app.injectWS('/api/events/ws');
+    // The server's socket shares the client's class; injected sockets never
+    // finish the closing handshake, so the close call is what can be observed
+    const close = vi.spyOn(Object.getPrototypeOf(socket), 'close');
+    socket.send(JSON.stringify({ type: 'authenticate', token: 'access-token' }));
+
+    await vi.waitFor(() => expect(findById.mock.calls.length).toBeGreaterThan(2));
+    expect(close).not.toHaveBeenCalled();
+    expect(socket.readyState).toBe(socket.OPEN);
+    close.mockRestore();
+    socket.terminate();
+  });
+
+  it('should close a WebSocket with 4401 once its token is revoked', async () => {
+    const socket = await app.injectWS('/api/events/ws');
+    const close = vi.spyOn(Object.getPrototypeOf(socket), 'close');
+    socket.send(JSON.stringify({ type: 'authenticate', token: 'access-token' }));
+    await vi.waitFor(() => expect(findById).toHaveBeenCalled());
+
+    await revocationStore.revokeToken('token-1', new Date(Date.now() + 60_000));
+
+    await vi.waitFor(() => expect(close).toHaveBeenCalledWith(4401, 'TOKEN_REVOKED'));
+    await vi.waitFor(() => expect(socket.readyState).toBe(socket.CLOSING));
+    close.mockRestore();
+    socket.terminate();
+  });
+});
@@ -0,0 +1,266 @@
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { OutgoingHttpHeaders } from 'http';
+import { AccessTokenVerifier, AuthFailure, AuthenticateOptions, AuthenticateUser, checkAccessClaims } from '../middleware/auth';
+import { forbiddenResponse, hasPermissions } from '../middleware/permissions';
+import { EventStreamHub, StreamConnection, StreamFilter, formatServerSentEvent } from '../events/event-stream';
+import { EventStreamAuthMessage, EventStreamQuery, JwtPayload } from '../types';
+
+// WebSocket clients must authenticate within this time after connecting
+const EVENT_STREAM_AUTH_TIMEOUT_MS = 10_000;
+
+export interface EventStreamRoutesOptions {
+  authenticateUser: AuthenticateUser;
+  // Checks the tokens WebSocket clients send in authenticate messages
+  verifyAccessToken: AccessTokenVerifier;
+  eventStream: Pick<EventStreamHub, 'connect'>;
+  // Revocation store and user repository the open streams are checked against
+  authenticateOptions: AuthenticateOptions;
+  // How often open streams re-run the access checks; defaults to a minute
+  recheckIntervalMs?: number;
+}
+
+/**
+ * Live event streams: Server-Sent Events authenticated like any other route,
+ * and WebSocket authenticated by its first message. Both end when the access
+ * token expires unless a WebSocket client renews it, and when a periodic
+ * check finds the token revoked or the account deactivated.
+ */
+export const eventStreamRoutes: FastifyPluginAsync<EventStreamRoutesOptions> = async (fastify, options) => {
+  const { authenticateUser, verifyAccessToken, eventStream, authenticateOptions } = options;
+  const recheckIntervalMs = options.recheckIntervalMs ?? 60_000;
+
+  // Re-runs the access checks for the stream's current token until stopped or
+  // a check fails; a failed lookup keeps the stream open until the next tick
+  const watchAccess = (request: FastifyRequest, currentUser: () => JwtPayload, onFailure: (failure: AuthFailure) => void) => {
+    let checking = false;
+    const timer = setInterval(async () => {
+      if (checking) {
+        return;
+      }
+      checking = true;
+      try {
+        const failure = await checkAccessClaims(currentUser(), authenticateOptions);
+        if (failure) {
+          clearInterval(timer);
+          onFailure(failure);
+        }
+      } catch (error) {
+        request.log.error({ err: error }, 'Event stream access check failed');
+      } finally {
+        checking = false;
+      }
+    }, recheckIntervalMs);
+    return () => clearInterval(timer);
+  };
+
+  // Stream filter for a user; streaming every user's events needs events:read
+  const resolveStreamFilter = (user: JwtPayload, scope: string | undefined, types: string[] | null): StreamFilter | null => {
+    if (scope === 'all' && !hasPermissions(user, ['events:read'])) {
+      return null;
+    }
+    return { userId: scope === 'all' ? null : user.id, types: types && types.length > 0 ? types : null };
+  };
+
+  // Server-Sent Events stream route
+  fastify.get('/api/events/stream', {
+    preHandler: authenticateUser,
+    schema: {
+      description: 'Server-Sent Events stream of events as they are published. Each message has the event id as `id` and the event as JSON `data`; comment lines are heartbeats. Send `Last-Event-ID` (or `lastEventId`) to receive events missed since that one first. The stream ends when the access token expires, is revoked or its account is deactivated; reconnect with a fresh token. `scope=all` streams every user\'s events and requires the `events:read` permission.',
+      tags: ['Events'],
+      summary: 'Stream events over Server-Sent Events',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string', enum: ['own', 'all'], default: 'own' },
+          types: { type: 'string', description: 'Comma-separated versioned event types', examples: ['equipment.returned.v1,equipment.checked_out.v1'] },
+          lastEventId: { type: 'string', description: 'Resume after this event when the Last-Event-ID header cannot be set' },
+        },
+      },
+      response: {
+        200: {
+          description: '`text/event-stream` of events',
+          type: 'string'
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('events:read')
+      },
+    },
+  }, async (request, reply) => {
+    const user = request.user as JwtPayload;
+    const query = request.query as EventStreamQuery;
+    const filter = resolveStreamFilter(user, query.scope, query.types?.split(',').map((type) => type.trim()).filter(Boolean) ?? null);
+    if (!filter) {
+      return reply.code(403).send({
+        error: 'Insufficient permissions',
+        code: 'FORBIDDEN',
+        required: ['events:read']
+      });
+    }
+    const lastEventHeader = request.headers['last-event-id'];
+    const lastEventId = (typeof lastEventHeader === 'string' ? lastEventHeader : undefined) ?? query.lastEventId ?? null;
+
+    // The response stays open, so write to it directly; keep CORS and security headers
+    reply.hijack();
+    const response = reply.raw;
+    response.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache, no-transform',
+      'connection': 'keep-alive',
+      'x-accel-buffering': 'no',
+    });
+    const write = (chunk: string) => {
+      if (!response.writableEnded && !response.destroyed) {
+        response.write(chunk);
+      }
+    };
+    const end = () => {
+      if (!response.writableEnded) {
+        response.end();
+      }
+    };
+
+    let connection: StreamConnection | null = null;
+    let closed = false;
+    // Clients reconnect with a fresh token once this one expires
+    const expiry = user.exp ? setTimeout(end, Math.max(0, user.exp * 1000 - Date.now())) : null;
+    // A revoked token or deactivated account ends the stream; the reconnect is refused
+    const stopWatching = watchAccess(request, () => user, end);
+    response.on('close', () => {
+      closed = true;
+      connection?.close();
+      stopWatching();
+      if (expiry) {
+        clearTimeout(expiry);
+      }
+    });
+
+    // How long EventSource waits before reconnecting
+    write('retry: 2000\n\n');
+    try {
+      connection = await eventStream.connect({
+        filter,
+        lastEventId,
+        send: (event) => write(formatServerSentEvent(event)),
+        heartbeat: () => write(': heartbeat\n\n'),
+        end,
+      });
+      if (closed) {
+        connection.close();
+      }
+    } catch (error) {
+      request.log.error({ err: error }, 'Event stream backlog failed');
+      end();
+    }
+  });
+
+  // WebSocket event stream route
+  fastify.get('/api/events/ws', {
+    websocket: true,
+    schema: {
+      description: 'WebSocket stream of events as they are published. Browsers cannot set headers on WebSocket requests, so the first message must be `{"type":"authenticate","token":"<access token>"}` within 10 seconds, optionally with `scope` (`own` or `all`, which requires `events:read`), `types` (array) and `lastEventId` to resume. The server answers `{"type":"authenticated"}` and then sends `{"type":"event","event":{...}}` and `{"type":"heartbeat"}` messages. Send another authenticate message with a refreshed token before the current one expires; otherwise the socket closes with code 4401. It also closes with 4401 once the token is revoked or the account deactivated. Code 4403 means the scope is not permitted, 4400 a malformed message.',
+      tags: ['Events'],
+      summary: 'Stream events over WebSocket',
+    },
+  }, (socket, request) => {
+    let connection: StreamConnection | null = null;
+    let current: JwtPayload | null = null;
+    let stopWatching: (() => void) | null = null;
+    let expiry: NodeJS.Timeout | null = null;
+
+    const sendMessage = (message: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+    const authTimer = setTimeout(() => socket.close(4401, 'Authentication required'), EVENT_STREAM_AUTH_TIMEOUT_MS);
+    const scheduleExpiry = (user: JwtPayload) => {
+      if (expiry) {
+        clearTimeout(expiry);
+      }
+      expiry = user.exp ? setTimeout(() => socket.close(4401, 'Token expired'), Math.max(0, user.exp * 1000 - Date.now())) : null;
+    };
+
+    const handleMessage = async (raw: string) => {
+      let message: EventStreamAuthMessage;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        return socket.close(4400, 'Invalid message');
+      }
+      if (message?.type !== 'authenticate' || typeof message.token !== 'string'
+        || (message.types !== undefined && (!Array.isArray(message.types) || message.types.some((type) => typeof type !== 'string')))) {
+        return socket.close(4400, 'Invalid message');
+      }
+
+      const { user, failure } = await verifyAccessToken(message.token);
+      if (!user) {
+        return socket.close(failure.statusCode === 403 ? 4403 : 4401, failure.code);
+      }
+
+      // Later messages only renew the token, which must stay with the same user
+      if (current !== null) {
+        if (user.id !== current.id) {
+          return socket.close(4401, 'Token belongs to another user');
+        }
+        current = user;
+        scheduleExpiry(user);
+        return sendMessage({ type: 'authenticated' });
+      }
+
+      clearTimeout(authTimer);
+      const filter = resolveStreamFilter(user, message.scope, message.types ?? null);
+      if (!filter) {
+        return socket.close(4403, 'FORBIDDEN');
+      }
+      current = user;
+      scheduleExpiry(user);
+      // Checks the latest token the client sent
+      stopWatching = watchAccess(request, () => current as JwtPayload, (failure) =>
+        socket.close(failure.statusCode === 403 ? 4403 : 4401, failure.code));
+      sendMessage({ type: 'authenticated' });
+
+      try {
+        const opened = await eventStream.connect({
+          filter,
+          lastEventId: message.lastEventId ?? null,
+          send: (event) => sendMessage({ type: 'event', event }),
+          heartbeat: () => sendMessage({ type: 'heartbeat' }),
+          end: () => socket.close(1001, 'Server shutting down'),
+        });
+        if (socket.readyState === socket.OPEN) {
+          connection = opened;
+        } else {
+          opened.close();
+        }
+      } catch (error) {
+        request.log.error({ err: error }, 'Event stream backlog failed');
+        socket.close(1011, 'Stream unavailable');
+      }
+    };
+
+    // One message at a time, so a renewal cannot overtake the first authentication
+    let handling = Promise.resolve();
+    socket.on('message', (raw) => {
+      handling = handling.then(() => handleMessage(raw.toString())).catch((error) => {
+        request.log.error({ err: error }, 'Event stream message failed');
+        socket.close(1011, 'Internal error');
+      });
+    });
+    socket.on('close', () => {
+      clearTimeout(authTimer);
+      stopWatching?.();
+      if (expiry) {
+        clearTimeout(expiry);
+      }
+      connection?.close();
+    });
+  });
+};
@@ -0,0 +1,318 @@
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import type { AuthenticateUser } from '../middleware/auth';
+import type { RateLimiter } from '../middleware/rate-limit';
+import type { UserRepository } from '../repositories/user-repository';
+import type { JwtKeyring } from '../services/jwt-keyring';
+import { MfaError, MfaService } from '../services/mfa-service';
+import { JwtPayload, MfaCodeRequest, MfaVerifyRequest, User } from '../types';
+
+// HTTP status for MFA management errors
+const MFA_ERROR_STATUS: Record<MfaError['code'], number> = {
+  MFA_ALREADY_ENABLED: 409,
+  MFA_NOT_ENROLLED: 400,
+  MFA_INVALID_CODE: 400,
+};
+
+export interface MfaRoutesOptions {
+  authenticateUser: AuthenticateUser;
+  rateLimiter: RateLimiter;
+  userRepository: Pick<UserRepository, 'findById'>;
+  mfaService: MfaService;
+  // Verifies the challenge tokens login hands out to accounts with MFA
+  jwtKeyring: Pick<JwtKeyring, 'verify'>;
+  // Access and refresh tokens returned once the second factor is accepted
+  issueSession: (user: User, request: FastifyRequest) => Promise<object>;
+}
+
+/**
+ * Two-factor authentication routes: the second login step, enrollment,
+ * recovery codes and disabling. Management routes must be confirmed with a
+ * current code and never store their responses for Idempotency-Key retries.
+ */
+export const mfaRoutes: FastifyPluginAsync<MfaRoutesOptions> = async (fastify, options) => {
+  const { authenticateUser, rateLimiter, userRepository, mfaService, jwtKeyring, issueSession } = options;
+
+  // MFA login step route
+  fastify.post('/api/auth/mfa/verify', {
+    config: { idempotency: false },
+    schema: {
+      description: 'Complete a login that returned mfaRequired by sending a TOTP or recovery code',
+      tags: ['Authentication'],
+      summary: 'Verify the second factor and receive tokens',
+      body: {
+        type: 'object',
+        required: ['challengeToken', 'code'],
+        properties: {
+          challengeToken: { type: 'string', minLength: 1, description: 'Challenge token from /api/auth/login' },
+          code: { type: 'string', minLength: 6, maxLength: 16, description: 'Six digit TOTP code or a recovery code' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Second factor accepted',
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'JWT authentication token' },
+            refreshToken: { type: 'string', description: 'Single-use refresh token' },
+            expiresIn: { type: 'number', description: 'Access token lifetime in seconds' },
+            user: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'User ID' },
+                email: { type: 'string', description: 'User email' },
+                name: { type: 'string', description: 'User name' },
+                roles: { type: 'array', items: { type: 'string' }, description: 'Roles held by the user' },
+                permissions: { type: 'array', items: { type: 'string' }, description: 'Effective permissions' },
+                emailVerified: { type: 'boolean', description: 'Whether the email address has been verified' },
+              },
+            },
+          },
+        },
+        401: {
+          description: 'Challenge token invalid or expired, or wrong code',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        },
+        429: {
+          description: 'Too many wrong codes',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { challengeToken, code } = request.body as MfaVerifyRequest;
+
+      let challenge: JwtPayload | null = null;
+      try {
+        challenge = jwtKeyring.verify<JwtPayload>(challengeToken);
+      } catch {
+        // Expired or forged; answered below like a token of the wrong kind
+      }
+      if (!challenge?.id || challenge.purpose !== 'mfa_challenge') {
+        return reply.code(401).send({
+          error: 'MFA challenge invalid or expired. Please log in again.',
+          code: 'MFA_CHALLENGE_INVALID'
+        });
+      }
+
+      // Keyed by user so new challenges do not buy more guesses
+      if (!(await rateLimiter.enforce('mfa', request, reply, challenge.id))) {
+        fastify.log.warn(`Rate limited MFA verification for user: ${challenge.email}`);
+        return reply;
+      }
+
+      const user = await userRepository.findById(challenge.id);
+      if (!user || !user.isActive) {
+        return reply.code(401).send({
+          error: 'User not found or inactive',
+          code: 'USER_INACTIVE'
+        });
+      }
+
+      const method = await mfaService.verify(user.id, code);
+      await rateLimiter.reset('mfa', request, user.id);
+
+      if (method === 'recovery') {
+        fastify.log.warn(`Recovery code used to log in: ${user.email}`);
+      }
+      return await issueSession(user, request);
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return reply.code(401).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('MFA verification error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // MFA status route
+  fastify.get('/api/auth/mfa', {
+    preHandler: authenticateUser,
+    schema: {
+      description: 'Report whether two-factor authentication is enabled for the current user',
+      tags: ['Authentication'],
+      summary: 'Get two-factor authentication status',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          description: 'Two-factor authentication status',
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean' },
+            recoveryCodesRemaining: { type: 'number', description: 'Unused recovery codes' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const user = request.user as JwtPayload;
+      return await mfaService.getStatus(user.id);
+    } catch (error) {
+      fastify.log.error('MFA status error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // MFA enrollment route
+  fastify.post('/api/auth/mfa/enroll', {
+    preHandler: authenticateUser,
+    config: { idempotency: false },
+    schema: {
+      description: 'Generate a TOTP secret. Two-factor authentication is enabled only after /api/auth/mfa/enroll/confirm.',
+      tags: ['Authentication'],
+      summary: 'Start two-factor enrollment',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          description: 'Pending TOTP secret',
+          type: 'object',
+          properties: {
+            secret: { type: 'string', description: 'Base32 secret for manual entry' },
+            otpauthUri: { type: 'string', description: 'otpauth:// URI to render as a QR code' }
+          }
+        },
+        409: {
+          description: 'Two-factor authentication already enabled',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const user = request.user as JwtPayload;
+      return await mfaService.startEnrollment(user);
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return reply.code(MFA_ERROR_STATUS[error.code]).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('MFA enrollment error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // MFA management routes that must be confirmed with a current code
+  const mfaCodeRoute = (
+    url: string,
+    summary: string,
+    description: string,
+    action: (userId: string, code: string) => Promise<Record<string, unknown>>
+  ) => fastify.post(url, {
+    preHandler: [authenticateUser, rateLimiter.hook('mfa')],
+    config: { idempotency: false },
+    schema: {
+      description,
+      tags: ['Authentication'],
+      summary,
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: { type: 'string', minLength: 6, maxLength: 16, description: 'Six digit TOTP code or a recovery code' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Request completed',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            recoveryCodes: { type: 'array', items: { type: 'string' }, description: 'New recovery codes, shown only once' }
+          }
+        },
+        400: {
+          description: 'Wrong code or nothing to confirm',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        },
+        429: {
+          description: 'Too many wrong codes',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const user = request.user as JwtPayload;
+      const { code } = request.body as MfaCodeRequest;
+
+      const result = await action(user.id, code);
+      await rateLimiter.reset('mfa', request);
+      return { success: true, ...result };
+    } catch (error) {
+      if (error instanceof MfaError) {
+        return reply.code(MFA_ERROR_STATUS[error.code]).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error(`MFA request error (${url}):`, error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  mfaCodeRoute(
+    '/api/auth/mfa/enroll/confirm',
+    'Confirm two-factor enrollment',
+    'Enable two-factor authentication with a code from the authenticator app and receive recovery codes',
+    async (userId, code) => ({ recoveryCodes: await mfaService.confirmEnrollment(userId, code) })
+  );
+
+  mfaCodeRoute(
+    '/api/auth/mfa/recovery-codes',
+    'Regenerate recovery codes',
+    'Replace all recovery codes; the previous ones stop working',
+    async (userId, code) => ({ recoveryCodes: await mfaService.regenerateRecoveryCodes(userId, code) })
+  );
+
+  mfaCodeRoute(
+    '/api/auth/mfa/disable',
+    'Disable two-factor authentication',
+    'Turn off two-factor authentication and delete the recovery codes',
+    async (userId, code) => {
+      await mfaService.disable(userId, code);
+      return {};
+    }
+  );
+};
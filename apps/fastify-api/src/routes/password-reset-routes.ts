@@ -0,0 +1,149 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { validatePassword } from '../middleware/auth';
+import type { RateLimiter } from '../middleware/rate-limit';
+import { PasswordResetError, PasswordResetService } from '../services/password-reset-service';
+import type { RefreshTokenService } from '../services/refresh-token-service';
+import type { TokenRevocationStore } from '../stores/token-revocation-store';
+import { ForgotPasswordRequest, ResetPasswordRequest } from '../types';
+
+export interface PasswordResetRoutesOptions {
+  rateLimiter: RateLimiter;
+  passwordResetService: PasswordResetService;
+  // A completed reset ends every session of the account
+  refreshTokenService: Pick<RefreshTokenService, 'revokeAll'>;
+  revocationStore: Pick<TokenRevocationStore, 'revokeAllForUser'>;
+}
+
+/**
+ * Password reset routes: request a reset email, then set a new password with
+ * the token from its link
+ */
+export const passwordResetRoutes: FastifyPluginAsync<PasswordResetRoutesOptions> = async (fastify, options) => {
+  const { rateLimiter, passwordResetService, refreshTokenService, revocationStore } = options;
+
+  // Forgot password route
+  fastify.post('/api/auth/password/forgot', {
+    preHandler: rateLimiter.hook('passwordForgot'),
+    schema: {
+      description: 'Email a single-use password reset link. Always responds with 202 so accounts cannot be probed.',
+      tags: ['Authentication'],
+      summary: 'Request a password reset email',
+      body: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: { type: 'string', format: 'email', description: 'Account email address' },
+        },
+      },
+      response: {
+        202: {
+          description: 'Request accepted; an email is sent if the account exists',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        429: {
+          description: 'Too many reset requests',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { email } = request.body as ForgotPasswordRequest;
+
+      const sent = await passwordResetService.requestReset(email, request.ip);
+      if (sent) {
+        fastify.log.info(`Password reset email sent to: ${email}`);
+      }
+
+      return reply.code(202).send({
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent.'
+      });
+    } catch (error) {
+      fastify.log.error('Password reset request error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+
+  // Reset password route
+  fastify.post('/api/auth/password/reset', {
+    preHandler: rateLimiter.hook('passwordReset'),
+    schema: {
+      description: 'Set a new password with a reset token. Ends every existing session of the account.',
+      tags: ['Authentication'],
+      summary: 'Reset password with a reset token',
+      body: {
+        type: 'object',
+        required: ['token', 'password'],
+        properties: {
+          token: { type: 'string', minLength: 1, description: 'Token from the reset email link' },
+          password: { type: 'string', minLength: 6, description: 'New password' },
+        },
+      },
+      response: {
+        200: {
+          description: 'Password successfully reset',
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' }
+          }
+        },
+        400: {
+          description: 'Invalid, used or expired token, or weak password',
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string' },
+            details: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { token, password } = request.body as ResetPasswordRequest;
+
+      const passwordValidation = validatePassword(password);
+      if (!passwordValidation.valid) {
+        return reply.code(400).send({
+          error: 'Password does not meet requirements',
+          code: 'INVALID_PASSWORD',
+          details: passwordValidation.errors
+        });
+      }
+
+      const user = await passwordResetService.resetPassword(token, password);
+
+      // Whoever knew the old password must not stay signed in
+      await refreshTokenService.revokeAll(user.id);
+      await revocationStore.revokeAllForUser(user.id, new Date());
+
+      fastify.log.info(`Password reset completed for user: ${user.email}`);
+      return { success: true };
+    } catch (error) {
+      if (error instanceof PasswordResetError) {
+        return reply.code(400).send({
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      fastify.log.error('Password reset error:', error);
+      return reply.code(500).send({
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      });
+    }
+  });
+};
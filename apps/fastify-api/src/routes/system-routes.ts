@@ -0,0 +1,278 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import type { EnterpriseSecretsManager } from '@libs/secrets';
+import type { ApiRequestRepository } from '../repositories/api-request-repository';
+import type { HealthRegistry } from '../health/health-registry';
+import type { AuthenticateUser } from '../middleware/auth';
+import { forbiddenResponse, requirePermission } from '../middleware/permissions';
+import { UsageQueryError, resolveUsageWindow } from '../services/usage-analytics';
+import { UsageQuery } from '../types';
+
+// Breakdown rows returned by the usage endpoints unless `limit` says otherwise
+const USAGE_DEFAULT_LIMIT = 50;
+
+export interface SystemRoutesOptions {
+  authenticateUser: AuthenticateUser;
+  // Readiness checks reported with their details
+  health: HealthRegistry;
+  secretsManager: Pick<EnterpriseSecretsManager, 'environment' | 'getMetrics'>;
+  // Request log the usage analytics read
+  apiRequestRepository: ApiRequestRepository;
+}
+
+/**
+ * Operational routes under /api/system: dependency health, secrets metrics
+ * and usage analytics. All of them require the `system:admin` permission.
+ */
+export const systemRoutes: FastifyPluginAsync<SystemRoutesOptions> = async (fastify, options) => {
+  const { authenticateUser, health, secretsManager, apiRequestRepository } = options;
+
+  fastify.get('/api/system/health', {
+    preHandler: [authenticateUser, requirePermission('system:admin')],
+    schema: {
+      description: 'Run the readiness checks and report each dependency with its latency, details and error. Results are cached like the probe\'s. Requires the `system:admin` permission.',
+      tags: ['System'],
+      summary: 'Inspect dependency health',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['system:admin'],
+      response: {
+        200: {
+          description: 'Health report',
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['ok', 'degraded', 'down', 'shutting_down'] },
+            uptimeSeconds: { type: 'number' },
+            checks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  status: { type: 'string', enum: ['up', 'down'] },
+                  critical: { type: 'boolean', description: 'Whether readiness fails while it is down' },
+                  durationMs: { type: 'number' },
+                  checkedAt: { type: 'string', format: 'date-time' },
+                  details: { type: 'object', additionalProperties: true },
+                  error: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('system:admin')
+      },
+    },
+  }, async () => {
+    return { ...(await health.check()), uptimeSeconds: process.uptime() };
+  });
+
+  fastify.get('/api/system/secrets', {
+    preHandler: [authenticateUser, requirePermission('system:admin')],
+    schema: {
+      description: 'Show secret cache and provider counters since startup. Values are never returned. Requires the `system:admin` permission.',
+      tags: ['System'],
+      summary: 'Inspect secrets metrics',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['system:admin'],
+      response: {
+        200: {
+          description: 'Secrets metrics',
+          type: 'object',
+          properties: {
+            environment: { type: 'string' },
+            hits: { type: 'integer', description: 'Reads served fresh from the cache' },
+            staleHits: { type: 'integer', description: 'Reads served an expired value while it was reloaded' },
+            misses: { type: 'integer', description: 'Reads that waited for a provider' },
+            loads: { type: 'integer' },
+            loadErrors: { type: 'integer' },
+            changes: { type: 'integer', description: 'Values that changed on reload' },
+            providerErrors: { type: 'object', additionalProperties: { type: 'integer' }, description: 'Failed reads by provider' },
+          },
+        },
+        401: {
+          description: 'Unauthorized - Invalid or missing token',
+          type: 'object',
+          properties: {
+            error: { type: 'string' }
+          }
+        },
+        403: forbiddenResponse('system:admin')
+      },
+    },
+  }, async () => {
+    return { environment: secretsManager.environment, ...secretsManager.getMetrics() };
+  });
+
+  // Usage analytics over the request log; counts are scaled by the sample rate
+  const usageStatsProperties = {
+    requests: { type: 'integer' },
+    clientErrors: { type: 'integer', description: '4xx responses' },
+    serverErrors: { type: 'integer', description: '5xx responses' },
+    errorRate: { type: 'number', description: 'Share of requests that failed with 5xx' },
+    p50Ms: { type: 'number', nullable: true },
+    p95Ms: { type: 'number', nullable: true },
+    p99Ms: { type: 'number', nullable: true },
+  };
+
+  const usageWindowProperties = {
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+  };
+
+  const usageWindowQuerystring = {
+    type: 'object',
+    properties: {
+      from: { type: 'string', format: 'date-time', description: 'Requests at or after; defaults to a day before `to`' },
+      to: { type: 'string', format: 'date-time', description: 'Requests before; defaults to now' },
+    },
+  };
+
+  const usageQuerystring = {
+    type: 'object',
+    properties: {
+      ...usageWindowQuerystring.properties,
+      limit: { type: 'integer', minimum: 1, maximum: 500, default: USAGE_DEFAULT_LIMIT, description: 'Rows of the breakdown' },
+    },
+  };
+
+  const usageErrorResponses = {
+    400: {
+      description: 'Invalid time window',
+      type: 'object',
+      properties: {
+        error: { type: 'string' },
+        code: { type: 'string' }
+      }
+    },
+    401: {
+      description: 'Unauthorized - Invalid or missing token',
+      type: 'object',
+      properties: {
+        error: { type: 'string' }
+      }
+    },
+    403: forbiddenResponse('system:admin')
+  };
+
+  // Runs a usage query, answering 400 for an invalid window
+  const usageRoute = <T>(label: string, load: (query: UsageQuery, window: { from: Date; to: Date }) => Promise<T>) =>
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const query = request.query as UsageQuery;
+      try {
+        const window = resolveUsageWindow(query);
+        return { from: window.from.toISOString(), to: window.to.toISOString(), ...(await load(query, window)) };
+      } catch (error) {
+        if (error instanceof UsageQueryError) {
+          return reply.code(400).send({
+            error: error.message,
+            code: error.code
+          });
+        }
+        fastify.log.error(`${label} error:`, error);
+        return reply.code(500).send({
+          error: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        });
+      }
+    };
+
+  fastify.get('/api/system/usage', {
+    preHandler: [authenticateUser, requirePermission('system:admin')],
+    schema: {
+      description: 'Totals over a time window from the request log: requests, 4xx and 5xx counts, the 5xx error rate, latency percentiles and distinct users. Counts are scaled by the sample rate; percentiles are computed over the recorded requests. Requires the `system:admin` permission.',
+      tags: ['System'],
+      summary: 'Summarize API usage',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['system:admin'],
+      querystring: usageWindowQuerystring,
+      response: {
+        200: {
+          description: 'Usage totals',
+          type: 'object',
+          properties: {
+            ...usageWindowProperties,
+            ...usageStatsProperties,
+            users: { type: 'integer', description: 'Distinct signed-in users' },
+          },
+        },
+        ...usageErrorResponses
+      },
+    },
+  }, usageRoute('Usage summary', (_query, window) => apiRequestRepository.summary(window)));
+
+  fastify.get('/api/system/usage/routes', {
+    preHandler: [authenticateUser, requirePermission('system:admin')],
+    schema: {
+      description: 'Usage per route template and method over a time window, busiest first. Requires the `system:admin` permission.',
+      tags: ['System'],
+      summary: 'Break down API usage by route',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['system:admin'],
+      querystring: usageQuerystring,
+      response: {
+        200: {
+          description: 'Usage per route',
+          type: 'object',
+          properties: {
+            ...usageWindowProperties,
+            routes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  method: { type: 'string' },
+                  endpoint: { type: 'string', description: 'Route template, or `unmatched`' },
+                  ...usageStatsProperties,
+                },
+              },
+            },
+          },
+        },
+        ...usageErrorResponses
+      },
+    },
+  }, usageRoute('Route usage', async (query, window) => ({
+    routes: await apiRequestRepository.usageByRoute(window, query.limit ?? USAGE_DEFAULT_LIMIT),
+  })));
+
+  fastify.get('/api/system/usage/users', {
+    preHandler: [authenticateUser, requirePermission('system:admin')],
+    schema: {
+      description: 'Usage per signed-in user over a time window, busiest first. Anonymous requests are left out. Requires the `system:admin` permission.',
+      tags: ['System'],
+      summary: 'Break down API usage by user',
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['system:admin'],
+      querystring: usageQuerystring,
+      response: {
+        200: {
+          description: 'Usage per user',
+          type: 'object',
+          properties: {
+            ...usageWindowProperties,
+            users: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  userId: { type: 'string', format: 'uuid' },
+                  lastSeenAt: { type: 'string', format: 'date-time' },
+                  ...usageStatsProperties,
+                },
+              },
+            },
+          },
+        },
+        ...usageErrorResponses
+      },
+    },
+  }, usageRoute('User usage', async (query, window) => ({
+    users: await apiRequestRepository.usageByUser(window, query.limit ?? USAGE_DEFAULT_LIMIT),
+  })));
+};
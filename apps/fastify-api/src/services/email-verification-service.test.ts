@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryUserRepository } from '../repositories/user-repository';
+import { MailMessage, MailTransport } from '../mail/mail-transport';
+import { EmailVerificationService, EmailVerificationError } from './email-verification-service';
+import { User } from '../types';
+
+const createUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'demo@example.com',
+  passwordHash: 'hash',
+  name: 'Demo User',
+  isActive: true,
+  emailVerifiedAt: null,
+  roles: ['customer'],
+  permissions: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Collects sent messages so tests can read the verification link back
+class RecordingMailTransport implements MailTransport {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  lastToken(): string {
+    const match = this.messages[this.messages.length - 1]?.text.match(/token=([\w.-]+)/);
+    if (!match) {
+      throw new Error('No verification link sent');
+    }
+    return match[1];
+  }
+}
+
+describe('EmailVerificationService', () => {
+  let users: InMemoryUserRepository;
+  let mail: RecordingMailTransport;
+  let service: EmailVerificationService;
+
+  beforeEach(() => {
+    users = new InMemoryUserRepository([
+      createUser(),
+      createUser({ id: 'user-2', email: 'verified@example.com', emailVerifiedAt: '2024-01-02T00:00:00.000Z' }),
+    ]);
+    mail = new RecordingMailTransport();
+    service = new EmailVerificationService(users, mail, {
+      secret: 'test-secret',
+      verifyUrl: 'http://localhost:4200/verify-email',
+      ttlMs: 60_000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should email a link that verifies the address', async () => {
+    await service.sendVerification(createUser());
+
+    expect(mail.messages[0].to).toBe('demo@example.com');
+    expect(mail.messages[0].text).toContain('http://localhost:4200/verify-email?token=');
+
+    const user = await service.verify(mail.lastToken());
+    expect(user.emailVerifiedAt).not.toBeNull();
+    expect((await users.findById('user-1'))?.emailVerifiedAt).not.toBeNull();
+  });
+
+  it('should treat verifying twice as success', async () => {
+    const token = service.createToken(createUser());
+    const first = await service.verify(token);
+    const second = await service.verify(token);
+
+    expect(second.emailVerifiedAt).toBe(first.emailVerifiedAt);
+  });
+
+  it('should reject tampered and malformed tokens', async () => {
+    const [payload, signature] = service.createToken(createUser()).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user-1', email: 'demo@example.com', exp: Date.now() + 1e9 })).toString('base64url');
+
+    await expect(service.verify(`${forged}.${signature}`)).rejects.toMatchObject({ code: 'VERIFICATION_TOKEN_INVALID' });
+    await expect(service.verify(payload)).rejects.toThrow(EmailVerificationError);
+    await expect(service.verify('not-a-token')).rejects.toThrow(EmailVerificationError);
+  });
+
+  it('should reject tokens signed with another secret', async () => {
+    const other = new EmailVerificationService(users, mail, { secret: 'other', verifyUrl: 'http://x' });
+
+    await expect(service.verify(other.createToken(createUser()))).rejects.toMatchObject({ code: 'VERIFICATION_TOKEN_INVALID' });
+  });
+
+  it('should reject expired tokens', async () => {
+    vi.useFakeTimers();
+    const token = service.createToken(createUser());
+    vi.advanceTimersByTime(60_000);
+
+    await expect(service.verify(token)).rejects.toMatchObject({ code: 'VERIFICATION_TOKEN_EXPIRED' });
+    expect((await users.findById('user-1'))?.emailVerifiedAt).toBeNull();
+  });
+
+  it('should reject tokens for an address the user no longer has', async () => {
+    const token = service.createToken({ id: 'user-1', email: 'old@example.com' });
+
+    await expect(service.verify(token)).rejects.toMatchObject({ code: 'VERIFICATION_TOKEN_INVALID' });
+  });
+
+  it('should only resend to unverified accounts', async () => {
+    expect(await service.resend('demo@example.com')).toBe(true);
+    expect(await service.resend('verified@example.com')).toBe(false);
+    expect(await service.resend('nobody@example.com')).toBe(false);
+
+    expect(mail.messages).toHaveLength(1);
+  });
+});
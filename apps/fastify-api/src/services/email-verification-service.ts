@@ -0,0 +1,154 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { User } from '../types';
+import { UserRepository } from '../repositories/user-repository';
+import { MailTransport } from '../mail/mail-transport';
+
+export type EmailVerificationErrorCode = 'VERIFICATION_TOKEN_INVALID' | 'VERIFICATION_TOKEN_EXPIRED';
+
+/**
+ * Raised when an email verification link cannot be redeemed
+ */
+export class EmailVerificationError extends Error {
+  constructor(message: string, public readonly code: EmailVerificationErrorCode) {
+    super(message);
+    this.name = 'EmailVerificationError';
+  }
+}
+
+export interface EmailVerificationOptions {
+  // HMAC key used to sign verification tokens
+  secret: string;
+  // Page of the web app that reads the `token` query parameter
+  verifyUrl: string;
+  ttlMs?: number;
+}
+
+// Claims carried by a verification token; binding the address means a
+// changed email cannot be verified with an old link
+interface VerificationClaims {
+  sub: string;
+  email: string;
+  exp: number;
+}
+
+const DEFAULT_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+/**
+ * Sends signed email verification links and verifies them. Tokens are
+ * stateless: an HMAC-SHA256 over the user id, address and expiry.
+ */
+export class EmailVerificationService {
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly users: UserRepository,
+    private readonly mail: MailTransport,
+    private readonly options: EmailVerificationOptions
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Creates a signed verification token for a user
+   * @param user - User whose current address is being verified
+   * @returns Token in the form `<payload>.<signature>`
+   */
+  createToken(user: Pick<User, 'id' | 'email'>): string {
+    const claims: VerificationClaims = { sub: user.id, email: user.email, exp: Date.now() + this.ttlMs };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Emails a verification link to a user
+   * @param user - Newly registered or still unverified user
+   */
+  async sendVerification(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    const link = `${this.options.verifyUrl}?token=${encodeURIComponent(this.createToken(user))}`;
+    const hours = Math.round(this.ttlMs / (60 * 60 * 1000));
+    await this.mail.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        link,
+        '',
+        `The link expires in ${hours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Resends the verification link for an unverified active account.
+   * Unknown or already verified addresses are ignored silently.
+   * @param email - Address entered by the user
+   * @returns True if an email was sent
+   */
+  async resend(email: string): Promise<boolean> {
+    const user = await this.users.findByEmail(email);
+    if (!user || !user.isActive || user.emailVerifiedAt) {
+      return false;
+    }
+    await this.sendVerification(user);
+    return true;
+  }
+
+  /**
+   * Marks the address in a verification token as verified
+   * @param token - Token from the verification link
+   * @returns The verified user; verifying twice is not an error
+   * @throws EmailVerificationError when the token is forged, stale or expired
+   */
+  async verify(token: string): Promise<User> {
+    const claims = this.decode(token);
+
+    if (claims.exp <= Date.now()) {
+      throw new EmailVerificationError('Verification link expired', 'VERIFICATION_TOKEN_EXPIRED');
+    }
+
+    const user = await this.users.findById(claims.sub);
+    if (!user || !user.isActive || user.email !== claims.email) {
+      throw new EmailVerificationError('Invalid verification link', 'VERIFICATION_TOKEN_INVALID');
+    }
+
+    if (user.emailVerifiedAt) {
+      return user;
+    }
+
+    const verified = await this.users.update(user.id, { emailVerifiedAt: new Date() });
+    if (!verified) {
+      throw new EmailVerificationError('Invalid verification link', 'VERIFICATION_TOKEN_INVALID');
+    }
+    return verified;
+  }
+
+  private decode(token: string): VerificationClaims {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      throw new EmailVerificationError('Invalid verification link', 'VERIFICATION_TOKEN_INVALID');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new EmailVerificationError('Invalid verification link', 'VERIFICATION_TOKEN_INVALID');
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as VerificationClaims;
+      if (typeof claims.sub !== 'string' || typeof claims.email !== 'string' || typeof claims.exp !== 'number') {
+        throw new Error('Malformed claims');
+      }
+      return claims;
+    } catch {
+      throw new EmailVerificationError('Invalid verification link', 'VERIFICATION_TOKEN_INVALID');
+    }
+  }
+
+  private sign(payload: string): string {
+    // Domain-separate from other uses of the same secret
+    return createHmac('sha256', this.options.secret).update(`email-verification.${payload}`).digest('base64url');
+  }
+}
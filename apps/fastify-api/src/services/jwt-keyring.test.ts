@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { SecretsError, type SecretWatcher } from '@libs/secrets';
+import { JwtKeyring, type JwtKeyStore } from './jwt-keyring';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('JwtKeyring', () => {
+  let secrets: Map<string, string>;
+  let watchers: Map<string, SecretWatcher>;
+  let store: JwtKeyStore;
+
+  const createKeyring = (options = {}) =>
+    new JwtKeyring(store, { legacySecret: 'legacy-secret', graceMs: 60 * MINUTE_MS, activationDelayMs: 10 * MINUTE_MS, ...options });
+
+  beforeEach(() => {
+    secrets = new Map();
+    watchers = new Map();
+    store = {
+      getSecret: vi.fn(async (name: string) => {
+        const value = secrets.get(name);
+        if (value === undefined) {
+          throw new SecretsError(`Secret ${name} not found`, 'SECRET_NOT_FOUND');
+        }
+        return value;
+      }),
+      putSecret: vi.fn(async (name: string, value: string | object) => {
+        secrets.set(name, typeof value === 'string' ? value : JSON.stringify(value));
+      }),
+      watch: vi.fn((name: string, watcher: SecretWatcher) => {
+        watchers.set(name, watcher);
+        return () => watchers.delete(name);
+      }),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sign with the legacy secret until a key set is stored', async () => {
+    const keyring = createKeyring();
+    await keyring.load();
+
+    const token = keyring.sign({ id: 'user-1' }, { expiresIn: 60 });
+
+    expect(jwt.decode(token, { complete: true })?.header.kid).toBe('legacy');
+    expect(keyring.verify<{ id: string }>(token).id).toBe('user-1');
+  });
+
+  it('should verify tokens issued before kids were added', async () => {
+    const keyring = createKeyring();
+    await keyring.load();
+
+    const token = jwt.sign({ id: 'user-1' }, 'legacy-secret', { expiresIn: 60 });
+
+    expect(keyring.verify<{ id: string }>(token).id).toBe('user-1');
+  });
+
+  it('should keep verifying old tokens after a rotation and switch keys once the new one activates', async () => {
+    vi.useFakeTimers();
+    const keyring = createKeyring({ algorithm: 'ES256' });
+    await keyring.load();
+    const before = keyring.sign({ id: 'user-1' }, { expiresIn: 3600 });
+
+    const added = await keyring.rotate();
+
+    expect(JSON.parse(secrets.get('jwt-signing-keys') as string).keys).toHaveLength(2);
+    expect(jwt.decode(keyring.sign({ id: 'user-1' }, { expiresIn: 60 }), { complete: true })?.header.kid).toBe('legacy');
+
+    vi.advanceTimersByTime(10 * MINUTE_MS);
+    const after = keyring.sign({ id: 'user-1' }, { expiresIn: 60 });
+    expect(jwt.decode(after, { complete: true })?.header).toMatchObject({ kid: added.kid, alg: 'ES256' });
+    expect(keyring.verify<{ id: string }>(after).id).toBe('user-1');
+    expect(keyring.verify<{ id: string }>(before).id).toBe('user-1');
+
+    vi.advanceTimersByTime(60 * MINUTE_MS);
+    expect(() => keyring.verify(before)).toThrow('jwt signing key unknown');
+  });
+
+  it('should reject tokens whose signature does not match their kid', async () => {
+    const keyring = createKeyring();
+    await keyring.load();
+
+    const forged = jwt.sign({ id: 'admin' }, 'guessed', { keyid: 'legacy' });
+
+    expect(() => keyring.verify(forged)).toThrow('invalid signature');
+  });
+
+  it('should publish only asymmetric keys in the JWKS', async () => {
+    const keyring = createKeyring({ algorithm: 'RS256' });
+    await keyring.load();
+    const added = await keyring.rotate();
+
+    expect(keyring.jwks().keys).toEqual([expect.objectContaining({ kid: added.kid, alg: 'RS256', kty: 'RSA', use: 'sig' })]);
+  });
+
+  it('should reload the key set when another instance rotates', async () => {
+    const keyring = createKeyring();
+    await keyring.load();
+    keyring.start();
+
+    const other = createKeyring();
+    await other.load();
+    const added = await other.rotate();
+    watchers.get('jwt-signing-keys')?.(secrets.get('jwt-signing-keys') as string, null, 'jwt-signing-keys');
+
+    expect(keyring.verificationKey(added.kid)).not.toBeNull();
+    keyring.stop();
+    expect(watchers.size).toBe(0);
+  });
+
+  it('should rotate only when the newest key is older than the interval', async () => {
+    const keyring = createKeyring({ rotationIntervalMs: 24 * 60 * MINUTE_MS });
+    await keyring.load();
+
+    expect(await keyring.rotateIfDue()).toBe(true);
+    expect(await keyring.rotateIfDue()).toBe(false);
+    expect(await createKeyring().rotateIfDue()).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import jwt from 'jsonwebtoken';
+import {
+  currentJwtKey,
+  JWT_SIGNING_KEYS_SECRET,
+  jwtKeyFingerprint,
+  LEGACY_JWT_KID,
+  legacyJwtKeySet,
+  parseJwtKeySet,
+  rotateJwtKeySet,
+  SecretsError,
+  toJwks,
+  verifyingJwtKeys,
+  type EnterpriseSecretsManager,
+  type JwtAlgorithm,
+  type JwtKeySet,
+  type JwtPublicKey,
+  type JwtSigningKey,
+} from '@libs/secrets';
+
+// Secrets manager calls the keyring needs
+export type JwtKeyStore = Pick<EnterpriseSecretsManager, 'getSecret' | 'putSecret' | 'watch'>;
+
+interface KeyringLogger {
+  info(message: string): void;
+  error(message: string, error?: unknown): void;
+}
+
+export interface JwtKeyringOptions {
+  // Algorithm of keys created by rotate()
+  algorithm?: JwtAlgorithm;
+  // How long a replaced key still verifies; must cover the longest token lifetime
+  graceMs?: number;
+  // How long a new key is published before it signs; must cover the secrets
+  // cache TTL plus refresh interval so every instance has it by then
+  activationDelayMs?: number;
+  // Rotate once the newest key is this old; null leaves rotation to operators
+  rotationIntervalMs?: number | null;
+  // Single shared secret used until a key set is stored
+  legacySecret?: string;
+  logger?: KeyringLogger;
+}
+
+export interface JwtSignOptions {
+  expiresIn: number;
+}
+
+// Key and algorithm that verify one token
+export interface JwtVerificationKey {
+  key: string;
+  algorithm: JwtAlgorithm;
+}
+
+const MINUTE_MS = 60 * 1000;
+const ROTATION_CHECK_INTERVAL_MS = 60 * MINUTE_MS;
+
+/**
+ * Signs and verifies JWTs with the key set stored in the `jwt-signing-keys`
+ * secret. Every token names its key in the `kid` header; tokens signed with
+ * a replaced key keep verifying until the grace window ends, so rotating
+ * keys does not log anyone out. Tokens without a kid were signed with the
+ * legacy `jwt-secret` and verify while that key is in the set.
+ */
+export class JwtKeyring {
+  private keySet: JwtKeySet | null = null;
+  private readonly algorithm: JwtAlgorithm;
+  private readonly graceMs: number;
+  private readonly activationDelayMs: number;
+  private readonly rotationIntervalMs: number | null;
+  private rotationTimer: NodeJS.Timeout | null = null;
+  private stopWatching: (() => void) | null = null;
+
+  constructor(
+    private readonly store: JwtKeyStore,
+    private readonly options: JwtKeyringOptions = {}
+  ) {
+    this.algorithm = options.algorithm ?? 'HS256';
+    this.graceMs = options.graceMs ?? 60 * MINUTE_MS;
+    this.activationDelayMs = options.activationDelayMs ?? 10 * MINUTE_MS;
+    this.rotationIntervalMs = options.rotationIntervalMs ?? null;
+  }
+
+  /**
+   * Reads the key set, or falls back to the legacy secret when none is stored
+   * @throws SecretsError if neither exists or providers are unavailable
+   */
+  async load(): Promise<void> {
+    this.keySet = await this.readKeySet();
+  }
+
+  /**
+   * Signs a payload with the current key
+   * @param payload - Claims
+   * @param options - Lifetime in seconds
+   * @returns Token with the key's kid in its header
+   */
+  sign(payload: object, options: JwtSignOptions): string {
+    const key = currentJwtKey(this.requireKeySet());
+    return jwt.sign(payload, key.privateKey, { algorithm: key.algorithm, keyid: key.kid, expiresIn: options.expiresIn });
+  }
+
+  /**
+   * Verifies a token against the key named in its header
+   * @param token - Encoded JWT
+   * @returns Payload
+   * @throws Error with jsonwebtoken's messages, e.g. `jwt expired`
+   */
+  verify<T extends object>(token: string): T {
+    const decoded = jwt.decode(token, { complete: true });
+    const verification = this.verificationKey(decoded?.header.kid);
+    if (!verification) {
+      throw new Error('jwt signing key unknown');
+    }
+    return jwt.verify(token, verification.key, { algorithms: [verification.algorithm] }) as T;
+  }
+
+  /**
+   * Key that verifies tokens with this kid, if it is still valid
+   * @param kid - Header kid; tokens without one use the legacy key
+   * @returns Secret or public key, or null for unknown and expired keys
+   */
+  verificationKey(kid: string | undefined): JwtVerificationKey | null {
+    const key = this.verifyingKeys().find((candidate) => candidate.kid === (kid ?? LEGACY_JWT_KID));
+    if (!key) {
+      return null;
+    }
+    return { key: key.publicKey ?? key.privateKey, algorithm: key.algorithm };
+  }
+
+  // Public keys of asymmetric verifying keys, for /.well-known/jwks.json
+  jwks(): { keys: JwtPublicKey[] } {
+    return toJwks(this.verifyingKeys());
+  }
+
+  /**
+   * Adds a key that starts signing after the activation delay and drops
+   * keys whose grace window has ended
+   * @returns The new key
+   */
+  async rotate(): Promise<JwtSigningKey> {
+    const rotated = rotateJwtKeySet(await this.readKeySet(), {
+      algorithm: this.algorithm,
+      activationDelayMs: this.activationDelayMs,
+      graceMs: this.graceMs,
+    });
+    await this.store.putSecret(JWT_SIGNING_KEYS_SECRET, rotated);
+    this.keySet = rotated;
+
+    const added = rotated.keys[rotated.keys.length - 1];
+    this.options.logger?.info(
+      `JWT signing key ${added.kid} (${added.algorithm}, ${jwtKeyFingerprint(added)}) added; signs from ${added.activatesAt}`
+    );
+    return added;
+  }
+
+  /**
+   * Rotates when the newest key is older than the rotation interval
+   * @returns True if a key was added
+   */
+  async rotateIfDue(now = Date.now()): Promise<boolean> {
+    if (this.rotationIntervalMs === null) {
+      return false;
+    }
+    const newest = Math.max(...this.requireKeySet().keys.map((key) => Date.parse(key.activatesAt)));
+    if (now - newest < this.rotationIntervalMs) {
+      return false;
+    }
+    await this.rotate();
+    return true;
+  }
+
+  /**
+   * Reloads the key set when the secret changes and, with a rotation
+   * interval, checks hourly whether a rotation is due
+   */
+  start(): void {
+    this.stopWatching ??= this.store.watch(JWT_SIGNING_KEYS_SECRET, (value) => {
+      if (value === null) {
+        return;
+      }
+      try {
+        this.keySet = parseJwtKeySet(value);
+        this.options.logger?.info(`JWT key set reloaded with ${this.keySet.keys.length} keys`);
+      } catch (error) {
+        this.options.logger?.error('Ignoring invalid JWT key set', error);
+      }
+    });
+
+    if (this.rotationIntervalMs !== null && !this.rotationTimer) {
+      const check = () => {
+        this.rotateIfDue().catch((error) => this.options.logger?.error('JWT key rotation failed', error));
+      };
+      this.rotationTimer = setInterval(check, Math.min(ROTATION_CHECK_INTERVAL_MS, this.rotationIntervalMs));
+      this.rotationTimer.unref();
+      check();
+    }
+  }
+
+  stop(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+
+  private verifyingKeys(): JwtSigningKey[] {
+    return verifyingJwtKeys(this.requireKeySet(), this.graceMs);
+  }
+
+  private requireKeySet(): JwtKeySet {
+    if (!this.keySet) {
+      throw new Error('JWT keyring is not loaded');
+    }
+    return this.keySet;
+  }
+
+  private async readKeySet(): Promise<JwtKeySet> {
+    try {
+      return parseJwtKeySet(await this.store.getSecret(JWT_SIGNING_KEYS_SECRET));
+    } catch (error) {
+      if (!(error instanceof SecretsError && error.code === 'SECRET_NOT_FOUND')) {
+        throw error;
+      }
+    }
+    if (!this.options.legacySecret) {
+      throw new SecretsError(`Secret ${JWT_SIGNING_KEYS_SECRET} not found and no legacy JWT secret configured`, 'SECRET_NOT_FOUND');
+    }
+    return legacyJwtKeySet(this.options.legacySecret);
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryMfaRepository } from '../repositories/mfa-repository';
+import { MfaService, MfaError, hashRecoveryCode } from './mfa-service';
+import { generateTotp } from './totp';
+
+const user = { id: 'user-1', email: 'admin@example.com' };
+
+describe('MfaService', () => {
+  let repository: InMemoryMfaRepository;
+  let service: MfaService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    repository = new InMemoryMfaRepository();
+    service = new MfaService(repository, { issuer: 'Fleet Portal', recoveryCodeCount: 4 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const enroll = async (): Promise<{ secret: string; recoveryCodes: string[] }> => {
+    const { secret } = await service.startEnrollment(user);
+    const recoveryCodes = await service.confirmEnrollment(user.id, generateTotp(secret));
+    // Move to the next step so tests can use a fresh code
+    vi.advanceTimersByTime(30_000);
+    return { secret, recoveryCodes };
+  };
+
+  it('should return a secret and otpauth URI for enrollment', async () => {
+    const enrollment = await service.startEnrollment(user);
+
+    expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+    expect(enrollment.otpauthUri).toContain('issuer=Fleet+Portal');
+    expect(await service.isEnabled(user.id)).toBe(false);
+  });
+
+  it('should enable MFA and issue hashed recovery codes after confirmation', async () => {
+    const { recoveryCodes } = await enroll();
+
+    expect(recoveryCodes).toHaveLength(4);
+    expect(recoveryCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    expect(await service.getStatus(user.id)).toEqual({ enabled: true, recoveryCodesRemaining: 4 });
+    expect(await repository.consumeRecoveryCode(user.id, hashRecoveryCode(recoveryCodes[0]))).toBe(true);
+  });
+
+  it('should reject a wrong confirmation code and keep MFA disabled', async () => {
+    await service.startEnrollment(user);
+
+    await expect(service.confirmEnrollment(user.id, '000000')).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+    expect(await service.isEnabled(user.id)).toBe(false);
+  });
+
+  it('should refuse to enroll twice or confirm without a pending secret', async () => {
+    await expect(service.confirmEnrollment(user.id, '123456')).rejects.toMatchObject({ code: 'MFA_NOT_ENROLLED' });
+
+    await enroll();
+
+    await expect(service.startEnrollment(user)).rejects.toMatchObject({ code: 'MFA_ALREADY_ENABLED' });
+  });
+
+  it('should accept a TOTP code once', async () => {
+    const { secret } = await enroll();
+    const code = generateTotp(secret);
+
+    expect(await service.verify(user.id, code)).toBe('totp');
+    await expect(service.verify(user.id, code)).rejects.toThrow(MfaError);
+  });
+
+  it('should accept each recovery code once, ignoring case and dashes', async () => {
+    const { recoveryCodes } = await enroll();
+    const typed = recoveryCodes[1].replace('-', '').toLowerCase();
+
+    expect(await service.verify(user.id, typed)).toBe('recovery');
+    await expect(service.verify(user.id, recoveryCodes[1])).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+    expect((await service.getStatus(user.id)).recoveryCodesRemaining).toBe(3);
+  });
+
+  it('should disable MFA only with a valid code', async () => {
+    const { secret } = await enroll();
+
+    await expect(service.disable(user.id, '000000')).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+    await service.disable(user.id, generateTotp(secret));
+
+    expect(await service.getStatus(user.id)).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+  });
+
+  it('should replace recovery codes on regeneration', async () => {
+    const { secret, recoveryCodes } = await enroll();
+
+    const replaced = await service.regenerateRecoveryCodes(user.id, generateTotp(secret));
+
+    expect(replaced).toHaveLength(4);
+    await expect(service.verify(user.id, recoveryCodes[0])).rejects.toMatchObject({ code: 'MFA_INVALID_CODE' });
+    expect(await service.verify(user.id, replaced[0])).toBe('recovery');
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../types';
+import { MfaRepository } from '../repositories/mfa-repository';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+export type MfaErrorCode = 'MFA_ALREADY_ENABLED' | 'MFA_NOT_ENROLLED' | 'MFA_INVALID_CODE';
+
+/**
+ * Raised when an MFA operation cannot proceed
+ */
+export class MfaError extends Error {
+  constructor(message: string, public readonly code: MfaErrorCode) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+export interface MfaOptions {
+  // Service name shown in authenticator apps
+  issuer: string;
+  recoveryCodeCount?: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  // otpauth:// URI, rendered as a QR code by the client
+  otpauthUri: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const DEFAULT_RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Hashes a recovery code for storage; dashes, spaces and case are ignored
+ * @param code - Recovery code as shown to or typed by the user
+ * @returns Hex encoded SHA-256 digest
+ */
+export const hashRecoveryCode = (code: string): string =>
+  createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+
+// Ten base32 characters (50 bits) shown as XXXXX-XXXXX
+const generateRecoveryCode = (): string => {
+  const code = base32Encode(randomBytes(7)).slice(0, 10);
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * TOTP enrollment and verification. Enrollment is two-step: a pending
+ * secret is created, then enabled once the user proves their authenticator
+ * produces valid codes. Enabling issues one-time recovery codes that are
+ * shown once and stored hashed.
+ */
+export class MfaService {
+  private readonly recoveryCodeCount: number;
+
+  constructor(
+    private readonly repository: MfaRepository,
+    private readonly options: MfaOptions
+  ) {
+    this.recoveryCodeCount = options.recoveryCodeCount ?? DEFAULT_RECOVERY_CODE_COUNT;
+  }
+
+  /**
+   * Checks whether a user must pass a second factor at login
+   * @param userId - User ID
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const enrollment = await this.repository.findByUserId(userId);
+    return Boolean(enrollment?.enabledAt);
+  }
+
+  /**
+   * Reports MFA state for the profile page
+   * @param userId - User ID
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const enabled = await this.isEnabled(userId);
+    return {
+      enabled,
+      recoveryCodesRemaining: enabled ? await this.repository.countRecoveryCodes(userId) : 0,
+    };
+  }
+
+  /**
+   * Generates a new pending secret; restarting replaces an unconfirmed one
+   * @param user - User enrolling
+   * @returns Secret and otpauth URI for the authenticator app
+   * @throws MfaError when MFA is already enabled
+   */
+  async startEnrollment(user: Pick<User, 'id' | 'email'>): Promise<MfaEnrollment> {
+    if (await this.isEnabled(user.id)) {
+      throw new MfaError('Two-factor authentication is already enabled', 'MFA_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await this.repository.savePending(user.id, secret);
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, this.options.issuer) };
+  }
+
+  /**
+   * Enables MFA once the user enters a valid code for the pending secret
+   * @param userId - User ID
+   * @param code - Current code from the authenticator app
+   * @returns Plain recovery codes; they cannot be retrieved again
+   * @throws MfaError when nothing is pending or the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const enrollment = await this.repository.findByUserId(userId);
+    if (!enrollment) {
+      throw new MfaError('Start two-factor enrollment first', 'MFA_NOT_ENROLLED');
+    }
+    if (enrollment.enabledAt) {
+      throw new MfaError('Two-factor authentication is already enabled', 'MFA_ALREADY_ENABLED');
+    }
+
+    const step = verifyTotp(enrollment.secret, code);
+    if (step === null || !(await this.repository.recordUsedStep(userId, step))) {
+      throw new MfaError('Invalid authentication code', 'MFA_INVALID_CODE');
+    }
+
+    if (!(await this.repository.enable(userId))) {
+      throw new MfaError('Two-factor authentication is already enabled', 'MFA_ALREADY_ENABLED');
+    }
+    return this.issueRecoveryCodes(userId);
+  }
+
+  /**
+   * Checks a second factor: a TOTP code or an unused recovery code
+   * @param userId - User ID
+   * @param code - Six digit TOTP code or recovery code
+   * @returns Which kind of code was accepted
+   * @throws MfaError when MFA is not enabled or the code is wrong or replayed
+   */
+  async verify(userId: string, code: string): Promise<'totp' | 'recovery'> {
+    const enrollment = await this.repository.findByUserId(userId);
+    if (!enrollment?.enabledAt) {
+      throw new MfaError('Two-factor authentication is not enabled', 'MFA_NOT_ENROLLED');
+    }
+
+    const step = verifyTotp(enrollment.secret, code);
+    if (step !== null) {
+      // A code already used in this or a later step is a replay
+      if (await this.repository.recordUsedStep(userId, step)) {
+        return 'totp';
+      }
+    } else if (await this.repository.consumeRecoveryCode(userId, hashRecoveryCode(code))) {
+      return 'recovery';
+    }
+
+    throw new MfaError('Invalid authentication code', 'MFA_INVALID_CODE');
+  }
+
+  /**
+   * Turns MFA off after checking a current code
+   * @param userId - User ID
+   * @param code - TOTP or recovery code
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    await this.verify(userId, code);
+    await this.repository.remove(userId);
+  }
+
+  /**
+   * Replaces all recovery codes after checking a current code
+   * @param userId - User ID
+   * @param code - TOTP or recovery code
+   * @returns New plain recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.issueRecoveryCodes(userId);
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.recoveryCodeCount }, generateRecoveryCode);
+    await this.repository.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+    return codes;
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryUserRepository } from '../repositories/user-repository';
+import { InMemoryPasswordResetRepository } from '../repositories/password-reset-repository';
+import { MailMessage, MailTransport } from '../mail/mail-transport';
+import { PasswordResetService, PasswordResetError, hashResetToken } from './password-reset-service';
+import { User } from '../types';
+
+const createUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'demo@example.com',
+  passwordHash: 'old-hash',
+  name: 'Demo User',
+  isActive: true,
+  emailVerifiedAt: '2024-01-01T00:00:00.000Z',
+  roles: ['customer'],
+  permissions: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// Collects sent messages so tests can read the reset link back
+class RecordingMailTransport implements MailTransport {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  lastToken(): string {
+    const match = this.messages[this.messages.length - 1]?.text.match(/token=([\w-]+)/);
+    if (!match) {
+      throw new Error('No reset link sent');
+    }
+    return match[1];
+  }
+}
+
+describe('PasswordResetService', () => {
+  let users: InMemoryUserRepository;
+  let tokens: InMemoryPasswordResetRepository;
+  let mail: RecordingMailTransport;
+  let service: PasswordResetService;
+
+  beforeEach(() => {
+    users = new InMemoryUserRepository([createUser(), createUser({ id: 'user-2', email: 'inactive@example.com', isActive: false })]);
+    tokens = new InMemoryPasswordResetRepository();
+    mail = new RecordingMailTransport();
+    service = new PasswordResetService(users, tokens, mail, {
+      resetUrl: 'http://localhost:4200/reset-password',
+      hashPassword: async (password) => `hashed:${password}`,
+      ttlMs: 60_000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should email a reset link and store only the token hash', async () => {
+    expect(await service.requestReset('demo@example.com', '127.0.0.1')).toBe(true);
+
+    expect(mail.messages).toHaveLength(1);
+    expect(mail.messages[0].to).toBe('demo@example.com');
+    expect(mail.messages[0].text).toContain('http://localhost:4200/reset-password?token=');
+
+    const token = mail.lastToken();
+    expect(await tokens.findByTokenHash(hashResetToken(token))).not.toBeNull();
+    expect(await tokens.findByTokenHash(token)).toBeNull();
+  });
+
+  it('should ignore unknown and inactive accounts without sending mail', async () => {
+    expect(await service.requestReset('nobody@example.com')).toBe(false);
+    expect(await service.requestReset('inactive@example.com')).toBe(false);
+
+    expect(mail.messages).toHaveLength(0);
+  });
+
+  it('should set the new password and consume the token', async () => {
+    await service.requestReset('demo@example.com');
+    const token = mail.lastToken();
+
+    const user = await service.resetPassword(token, 'NewPassword1');
+
+    expect(user.passwordHash).toBe('hashed:NewPassword1');
+    expect((await users.findById('user-1'))?.passwordHash).toBe('hashed:NewPassword1');
+    await expect(service.resetPassword(token, 'Another1')).rejects.toMatchObject({ code: 'RESET_TOKEN_INVALID' });
+  });
+
+  it('should invalidate earlier tokens when a new one is requested', async () => {
+    await service.requestReset('demo@example.com');
+    const first = mail.lastToken();
+    await service.requestReset('demo@example.com');
+
+    await expect(service.resetPassword(first, 'NewPassword1')).rejects.toThrow(PasswordResetError);
+    await expect(service.resetPassword(mail.lastToken(), 'NewPassword1')).resolves.toBeDefined();
+  });
+
+  it('should reject expired tokens', async () => {
+    vi.useFakeTimers();
+    await service.requestReset('demo@example.com');
+    vi.advanceTimersByTime(60_000);
+
+    await expect(service.resetPassword(mail.lastToken(), 'NewPassword1')).rejects.toMatchObject({ code: 'RESET_TOKEN_EXPIRED' });
+    expect((await users.findById('user-1'))?.passwordHash).toBe('old-hash');
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(service.resetPassword('not-a-token', 'NewPassword1')).rejects.toMatchObject({ code: 'RESET_TOKEN_INVALID' });
+  });
+
+  it('should not change the password of an account deactivated after the request', async () => {
+    await service.requestReset('demo@example.com');
+    const deactivated = new InMemoryUserRepository([createUser({ isActive: false })]);
+    const laterService = new PasswordResetService(deactivated, tokens, mail, {
+      resetUrl: 'http://localhost:4200/reset-password',
+      hashPassword: async (password) => `hashed:${password}`,
+    });
+
+    await expect(laterService.resetPassword(mail.lastToken(), 'NewPassword1')).rejects.toMatchObject({ code: 'RESET_TOKEN_INVALID' });
+    expect((await deactivated.findById('user-1'))?.passwordHash).toBe('old-hash');
+  });
+});
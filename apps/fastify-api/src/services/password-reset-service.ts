@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../types';
+import { UserRepository } from '../repositories/user-repository';
+import { PasswordResetRepository } from '../repositories/password-reset-repository';
+import { MailTransport } from '../mail/mail-transport';
+
+export type PasswordResetErrorCode = 'RESET_TOKEN_INVALID' | 'RESET_TOKEN_EXPIRED';
+
+/**
+ * Raised when a password reset token cannot be redeemed
+ */
+export class PasswordResetError extends Error {
+  constructor(message: string, public readonly code: PasswordResetErrorCode) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+export interface PasswordResetOptions {
+  // Page of the web app that reads the `token` query parameter
+  resetUrl: string;
+  hashPassword: (password: string) => Promise<string>;
+  ttlMs?: number;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Hashes a reset token for storage; only the hash ever reaches the database
+ * @param token - Raw reset token
+ * @returns Hex encoded SHA-256 digest
+ */
+export const hashResetToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues password reset links by email and redeems them. Tokens are
+ * single-use, expire after an hour and requesting a new one invalidates
+ * any earlier token of the same user.
+ */
+export class PasswordResetService {
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly users: UserRepository,
+    private readonly tokens: PasswordResetRepository,
+    private readonly mail: MailTransport,
+    private readonly options: PasswordResetOptions
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Emails a reset link when the address belongs to an active account.
+   * Unknown addresses are ignored silently so callers cannot probe for accounts.
+   * @param email - Address entered on the forgot password form
+   * @param requestedIp - Client IP recorded with the token
+   * @returns True if a reset email was sent
+   */
+  async requestReset(email: string, requestedIp?: string | null): Promise<boolean> {
+    const user = await this.users.findByEmail(email);
+    if (!user || !user.isActive) {
+      return false;
+    }
+
+    await this.tokens.invalidateForUser(user.id);
+
+    const token = randomBytes(32).toString('base64url');
+    await this.tokens.create({
+      userId: user.id,
+      tokenHash: hashResetToken(token),
+      expiresAt: new Date(Date.now() + this.ttlMs),
+      requestedIp,
+    });
+
+    const link = `${this.options.resetUrl}?token=${encodeURIComponent(token)}`;
+    const minutes = Math.round(this.ttlMs / 60000);
+    await this.mail.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name},`,
+        '',
+        'We received a request to reset your password. Open the link below to choose a new one:',
+        link,
+        '',
+        `The link expires in ${minutes} minutes and can be used once.`,
+        'If you did not request a reset you can ignore this email.',
+      ].join('\n'),
+    });
+
+    return true;
+  }
+
+  /**
+   * Sets a new password using a reset token
+   * @param token - Raw token from the reset link
+   * @param password - New password; callers validate strength first
+   * @returns The updated user
+   * @throws PasswordResetError when the token is unknown, used or expired
+   */
+  async resetPassword(token: string, password: string): Promise<User> {
+    const record = await this.tokens.findByTokenHash(hashResetToken(token));
+    if (!record || record.usedAt) {
+      throw new PasswordResetError('Invalid or already used reset token', 'RESET_TOKEN_INVALID');
+    }
+
+    if (new Date(record.expiresAt).getTime() <= Date.now()) {
+      throw new PasswordResetError('Reset token expired', 'RESET_TOKEN_EXPIRED');
+    }
+
+    // Consume the token before changing the password so it cannot be replayed
+    if (!(await this.tokens.markUsed(record.id))) {
+      throw new PasswordResetError('Invalid or already used reset token', 'RESET_TOKEN_INVALID');
+    }
+
+    const account = await this.users.findById(record.userId);
+    if (!account || !account.isActive) {
+      throw new PasswordResetError('Invalid or already used reset token', 'RESET_TOKEN_INVALID');
+    }
+
+    const user = await this.users.update(account.id, {
+      passwordHash: await this.options.hashPassword(password),
+    });
+    if (!user) {
+      throw new PasswordResetError('Invalid or already used reset token', 'RESET_TOKEN_INVALID');
+    }
+
+    return user;
+  }
+}
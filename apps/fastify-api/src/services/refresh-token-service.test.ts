@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemorySessionRepository } from '../repositories/session-repository';
+import { RefreshTokenService, RefreshTokenError, hashRefreshToken } from './refresh-token-service';
+
+describe('RefreshTokenService', () => {
+  let sessions: InMemorySessionRepository;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    sessions = new InMemorySessionRepository();
+    service = new RefreshTokenService(sessions, 60_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should issue opaque tokens and store only their hash', async () => {
+    const { refreshToken, session } = await service.issue('user-1', { userAgent: 'vitest', ipAddress: '127.0.0.1' });
+
+    expect(refreshToken).toMatch(/^[A-Za-z0-9_-]{64}$/);
+    expect(session.tokenHash).toBe(hashRefreshToken(refreshToken));
+    expect(session.tokenHash).not.toContain(refreshToken);
+    expect(session.userAgent).toBe('vitest');
+  });
+
+  it('should rotate tokens within the same family', async () => {
+    const first = await service.issue('user-1');
+
+    const second = await service.rotate(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(second.session.familyId).toBe(first.session.familyId);
+    expect(second.session.userId).toBe('user-1');
+    expect((await sessions.findByTokenHash(first.session.tokenHash))?.replacedBy).toBe(second.session.id);
+  });
+
+  it('should reject unknown tokens', async () => {
+    await expect(service.rotate('not-a-token')).rejects.toMatchObject({ code: 'REFRESH_TOKEN_INVALID' });
+  });
+
+  it('should reject expired tokens', async () => {
+    vi.useFakeTimers();
+    const { refreshToken } = await service.issue('user-1');
+
+    vi.advanceTimersByTime(60_001);
+
+    await expect(service.rotate(refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_EXPIRED' });
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    const first = await service.issue('user-1');
+    const second = await service.rotate(first.refreshToken);
+
+    await expect(service.rotate(first.refreshToken)).rejects.toBeInstanceOf(RefreshTokenError);
+
+    // The legitimate successor is now revoked as well
+    await expect(service.rotate(second.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+    expect((await sessions.findByTokenHash(second.session.tokenHash))?.revokedAt).not.toBeNull();
+  });
+
+  it('should leave other families untouched on reuse', async () => {
+    const compromised = await service.issue('user-1');
+    const otherDevice = await service.issue('user-1');
+    await service.rotate(compromised.refreshToken);
+
+    await expect(service.rotate(compromised.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+    await expect(service.rotate(otherDevice.refreshToken)).resolves.toMatchObject({
+      session: expect.objectContaining({ familyId: otherDevice.session.familyId }),
+    });
+  });
+
+  it('should treat a lost rotation race as reuse', async () => {
+    const { refreshToken } = await service.issue('user-1');
+    vi.spyOn(sessions, 'markRotated').mockResolvedValueOnce(false);
+    const revokeFamily = vi.spyOn(sessions, 'revokeFamily');
+
+    await expect(service.rotate(refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+    expect(revokeFamily).toHaveBeenCalledOnce();
+  });
+
+  it('should revoke the family of a token on logout', async () => {
+    const first = await service.issue('user-1');
+    const rotated = await service.rotate(first.refreshToken);
+
+    expect(await service.revoke(rotated.refreshToken, 'user-1')).toBe(true);
+
+    await expect(service.rotate(rotated.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+    expect((await sessions.findByTokenHash(first.session.tokenHash))?.revokedAt).not.toBeNull();
+  });
+
+  it('should not revoke tokens owned by another user', async () => {
+    const { refreshToken } = await service.issue('user-1');
+
+    expect(await service.revoke(refreshToken, 'user-2')).toBe(false);
+    expect(await service.revoke('not-a-token', 'user-1')).toBe(false);
+
+    await expect(service.rotate(refreshToken)).resolves.toBeDefined();
+  });
+
+  it('should revoke every session of a user on logout-all', async () => {
+    const laptop = await service.issue('user-1');
+    const phone = await service.issue('user-1');
+    const other = await service.issue('user-2');
+
+    expect(await service.revokeAll('user-1')).toBe(2);
+
+    await expect(service.rotate(laptop.refreshToken)).rejects.toThrow(RefreshTokenError);
+    await expect(service.rotate(phone.refreshToken)).rejects.toThrow(RefreshTokenError);
+    await expect(service.rotate(other.refreshToken)).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from 'crypto';
+import { UserSession } from '../types';
+import { SessionRepository } from '../repositories/session-repository';
+
+export type RefreshTokenErrorCode =
+  | 'REFRESH_TOKEN_INVALID'
+  | 'REFRESH_TOKEN_EXPIRED'
+  | 'REFRESH_TOKEN_REUSED';
+
+/**
+ * Raised when a refresh token cannot be exchanged for a new one
+ */
+export class RefreshTokenError extends Error {
+  constructor(message: string, public readonly code: RefreshTokenErrorCode) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+}
+
+// Request metadata stored alongside each session
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  session: UserSession;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Hashes a refresh token for storage; only the hash ever reaches the database
+ * @param token - Raw refresh token
+ * @returns Hex encoded SHA-256 digest
+ */
+export const hashRefreshToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issues and rotates opaque refresh tokens stored in `user_sessions`.
+ * Every refresh replaces the presented token; presenting a token that was
+ * already rotated revokes the whole token family.
+ */
+export class RefreshTokenService {
+  constructor(
+    private readonly sessions: SessionRepository,
+    private readonly ttlMs = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * Starts a new session family for a freshly authenticated user
+   * @param userId - Authenticated user id
+   * @param context - Request metadata
+   * @returns Raw refresh token and the stored session
+   */
+  async issue(userId: string, context: SessionContext = {}): Promise<IssuedRefreshToken> {
+    return this.createSession(userId, undefined, context);
+  }
+
+  /**
+   * Exchanges a refresh token for a new one in the same family
+   * @param refreshToken - Raw refresh token presented by the client
+   * @param context - Request metadata
+   * @returns Replacement refresh token and its session
+   * @throws RefreshTokenError when the token is unknown, expired or reused
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<IssuedRefreshToken> {
+    const session = await this.sessions.findByTokenHash(hashRefreshToken(refreshToken));
+    if (!session) {
+      throw new RefreshTokenError('Invalid refresh token', 'REFRESH_TOKEN_INVALID');
+    }
+
+    if (session.revokedAt || session.replacedBy) {
+      await this.sessions.revokeFamily(session.familyId);
+      throw new RefreshTokenError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      throw new RefreshTokenError('Refresh token expired', 'REFRESH_TOKEN_EXPIRED');
+    }
+
+    const next = await this.createSession(session.userId, session.familyId, context);
+
+    // A concurrent request rotated the same token first; treat it as reuse
+    if (!(await this.sessions.markRotated(session.id, next.session.id))) {
+      await this.sessions.revokeFamily(session.familyId);
+      throw new RefreshTokenError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
+    return next;
+  }
+
+  /**
+   * Ends the session family a refresh token belongs to (single-device logout)
+   * @param refreshToken - Raw refresh token presented by the client
+   * @param userId - Authenticated user; tokens owned by other users are ignored
+   * @returns True if a session family was revoked
+   */
+  async revoke(refreshToken: string, userId: string): Promise<boolean> {
+    const session = await this.sessions.findByTokenHash(hashRefreshToken(refreshToken));
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+    await this.sessions.revokeFamily(session.familyId);
+    return true;
+  }
+
+  /**
+   * Ends every session of a user (logout on all devices)
+   * @param userId - User whose sessions are revoked
+   * @returns Number of sessions revoked
+   */
+  async revokeAll(userId: string): Promise<number> {
+    return this.sessions.revokeAllForUser(userId);
+  }
+
+  private async createSession(
+    userId: string,
+    familyId: string | undefined,
+    context: SessionContext
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const session = await this.sessions.create({
+      userId,
+      familyId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date(Date.now() + this.ttlMs),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+    });
+    return { refreshToken, session };
+  }
+}
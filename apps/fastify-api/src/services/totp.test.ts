@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri
+} from './totp';
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890" with SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('hello world!');
+
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode('mzxw 6ytb oi==')).toEqual(Buffer.from('foobar'));
+    expect(() => base32Decode('not-base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('should generate 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(generateTotp(RFC_SECRET, { timestamp: seconds * 1000, digits: 8 })).toBe(expected);
+    }
+  });
+
+  it('should accept codes within the drift window and return their step', () => {
+    const timestamp = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, { timestamp: timestamp - 30_000 });
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { timestamp }), { timestamp })).toBe(37037036);
+    expect(verifyTotp(RFC_SECRET, previous, { timestamp })).toBe(37037035);
+    expect(verifyTotp(RFC_SECRET, previous, { timestamp, window: 0 })).toBeNull();
+  });
+
+  it('should reject malformed and wrong codes', () => {
+    const timestamp = 1234567890 * 1000;
+    const code = generateTotp(RFC_SECRET, { timestamp });
+    const wrong = String((Number(code) + 1) % 1_000_000).padStart(6, '0');
+
+    expect(verifyTotp(RFC_SECRET, wrong, { timestamp })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', { timestamp })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { timestamp })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { timestamp })).not.toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'Fleet Portal');
+
+    expect(uri).toBe(
+      'otpauth://totp/Fleet%20Portal:admin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Fleet+Portal&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  // Seconds per time step (RFC 6238 "X")
+  period?: number;
+  digits?: number;
+  // Number of steps either side of the current one that are accepted
+  window?: number;
+  // Unix time in milliseconds; defaults to now
+  timestamp?: number;
+}
+
+const DEFAULT_PERIOD = 30;
+const DEFAULT_DIGITS = 6;
+const DEFAULT_WINDOW = 1;
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect
+ * @param buffer - Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes RFC 4648 base32, ignoring case, spaces and padding
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ * @throws Error when the input contains characters outside the alphabet
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * Generates a random TOTP shared secret
+ * @returns 160-bit secret, base32 encoded
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * Computes an RFC 4226 HOTP value for a counter
+ * @param secret - Base32 shared secret
+ * @param counter - Moving factor
+ * @param digits - Code length
+ * @returns Zero-padded code
+ */
+export function generateHotp(secret: string, counter: number, digits = DEFAULT_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Returns the RFC 6238 time step for a timestamp
+ * @param timestamp - Unix time in milliseconds
+ * @param period - Seconds per step
+ */
+export const totpStep = (timestamp = Date.now(), period = DEFAULT_PERIOD): number =>
+  Math.floor(timestamp / 1000 / period);
+
+/**
+ * Computes the RFC 6238 TOTP code for a point in time
+ * @param secret - Base32 shared secret
+ * @param options - Period, digits and timestamp
+ * @returns Zero-padded code
+ */
+export function generateTotp(secret: string, options: TotpOptions = {}): string {
+  const step = totpStep(options.timestamp, options.period ?? DEFAULT_PERIOD);
+  return generateHotp(secret, step, options.digits ?? DEFAULT_DIGITS);
+}
+
+/**
+ * Checks a TOTP code against the current step and `window` steps either side
+ * to tolerate clock drift
+ * @param secret - Base32 shared secret
+ * @param code - Code entered by the user
+ * @param options - Period, digits, window and timestamp
+ * @returns The matching time step, or null; callers store it to block replay
+ */
+export function verifyTotp(secret: string, code: string, options: TotpOptions = {}): number | null {
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = totpStep(options.timestamp, options.period ?? DEFAULT_PERIOD);
+  const window = options.window ?? DEFAULT_WINDOW;
+  const presented = Buffer.from(normalized);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    if (step < 0) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(generateHotp(secret, step, digits)), presented)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the otpauth:// URI that authenticator apps import, usually as a QR code
+ * @param secret - Base32 shared secret
+ * @param account - Account label, typically the user's email
+ * @param issuer - Service name shown in the authenticator app
+ * @returns otpauth URI
+ */
+export function buildOtpauthUri(secret: string, account: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DEFAULT_DIGITS),
+    period: String(DEFAULT_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { resolveUsageWindow } from './usage-analytics';
+
+describe('resolveUsageWindow', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('should default to the day before now', () => {
+    expect(resolveUsageWindow({}, now)).toEqual({ from: new Date('2026-03-09T12:00:00Z'), to: now });
+    expect(resolveUsageWindow({ to: '2026-03-01T00:00:00Z' }, now).from).toEqual(new Date('2026-02-28T00:00:00Z'));
+  });
+
+  it('should accept explicit bounds', () => {
+    expect(resolveUsageWindow({ from: '2026-03-01T00:00:00Z', to: '2026-03-08T00:00:00Z' }, now)).toEqual({
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-03-08T00:00:00Z'),
+    });
+  });
+
+  it('should reject empty, reversed, invalid and overlong windows', () => {
+    expect(() => resolveUsageWindow({ from: '2026-03-10T12:00:00Z' }, now)).toThrow('from must be before to');
+    expect(() => resolveUsageWindow({ from: 'yesterday' }, now)).toThrow('ISO 8601');
+    expect(() => resolveUsageWindow({ from: '2025-01-01T00:00:00Z' }, now)).toThrow(expect.objectContaining({ code: 'INVALID_RANGE' }));
+  });
+});
@@ -0,0 +1,37 @@
+import { UsageWindow } from '../repositories/api-request-repository';
+
+export class UsageQueryError extends Error {
+  constructor(message: string, public readonly code: 'INVALID_RANGE') {
+    super(message);
+    this.name = 'UsageQueryError';
+  }
+}
+
+// Window analytics cover when the query gives no `from`
+export const DEFAULT_USAGE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Longest window one query may aggregate over
+export const MAX_USAGE_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resolves the `from`/`to` query parameters of the usage endpoints
+ * @param query - ISO 8601 bounds; `to` defaults to now, `from` to a day before `to`
+ * @param now - Current time
+ * @returns Window with an inclusive start and exclusive end
+ * @throws UsageQueryError INVALID_RANGE if a bound is invalid, from is not
+ * before to, or the window exceeds MAX_USAGE_WINDOW_MS
+ */
+export function resolveUsageWindow(query: { from?: string; to?: string }, now: Date = new Date()): UsageWindow {
+  const to = query.to === undefined ? now : new Date(query.to);
+  const from = query.from === undefined ? new Date(to.getTime() - DEFAULT_USAGE_WINDOW_MS) : new Date(query.from);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    throw new UsageQueryError('from and to must be ISO 8601 timestamps', 'INVALID_RANGE');
+  }
+  if (from >= to) {
+    throw new UsageQueryError('from must be before to', 'INVALID_RANGE');
+  }
+  if (to.getTime() - from.getTime() > MAX_USAGE_WINDOW_MS) {
+    throw new UsageQueryError(`Windows are limited to ${MAX_USAGE_WINDOW_MS / (24 * 60 * 60 * 1000)} days`, 'INVALID_RANGE');
+  }
+  return { from, to };
+}
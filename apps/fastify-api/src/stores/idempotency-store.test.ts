@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryIdempotencyStore,
+  PostgresIdempotencyStore,
+  RedisIdempotencyStore,
+  IdempotentResponse,
+  mapIdempotencyRow
+} from './idempotency-store';
+import { Queryable } from '../database/pool';
+
+const RESPONSE: IdempotentResponse = {
+  statusCode: 201,
+  headers: { 'content-type': 'application/json; charset=utf-8' },
+  body: '{"success":true}',
+};
+
+describe('InMemoryIdempotencyStore', () => {
+  let store: InMemoryIdempotencyStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new InMemoryIdempotencyStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let one request claim a key and replay its response', async () => {
+    expect(await store.begin('user-1:key', 'fp-1', 1000)).toBeNull();
+    expect(await store.begin('user-1:key', 'fp-1', 1000)).toEqual({ status: 'pending', fingerprint: 'fp-1' });
+
+    await store.complete('user-1:key', RESPONSE, 60_000);
+
+    expect(await store.begin('user-1:key', 'fp-2', 1000)).toEqual({ status: 'completed', fingerprint: 'fp-1', response: RESPONSE });
+  });
+
+  it('should free released claims and expired locks', async () => {
+    await store.begin('a', 'fp', 1000);
+    await store.release('a');
+    expect(await store.begin('a', 'fp', 1000)).toBeNull();
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.begin('a', 'fp', 1000)).toBeNull();
+  });
+
+  it('should keep completed records on release and purge them after the TTL', async () => {
+    await store.begin('a', 'fp', 1000);
+    await store.complete('a', RESPONSE, 5000);
+    await store.release('a');
+
+    expect(await store.purgeExpired()).toBe(0);
+    vi.advanceTimersByTime(5000);
+    expect(await store.purgeExpired()).toBe(1);
+  });
+});
+
+describe('PostgresIdempotencyStore', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let store: PostgresIdempotencyStore;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    store = new PostgresIdempotencyStore(db as unknown as Queryable);
+  });
+
+  it('should claim new or expired keys in one statement', async () => {
+    db.query.mockResolvedValueOnce({ rows: [{ key: 'a' }] });
+
+    expect(await store.begin('a', 'fp', 30_000)).toBeNull();
+    expect(db.query.mock.calls[0][0]).toContain('WHERE idempotency_keys.expires_at <= CURRENT_TIMESTAMP');
+    expect(db.query.mock.calls[0][1]).toEqual(['a', 'fp', 30_000]);
+  });
+
+  it('should return the live record when the key is taken', async () => {
+    db.query
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ fingerprint: 'fp', status: 'completed', response_status: 201, response_headers: RESPONSE.headers, response_body: RESPONSE.body }] });
+
+    expect(await store.begin('a', 'other', 30_000)).toEqual({ status: 'completed', fingerprint: 'fp', response: RESPONSE });
+  });
+
+  it('should only release pending keys', async () => {
+    db.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+    await store.release('a');
+
+    expect(db.query).toHaveBeenCalledWith("DELETE FROM idempotency_keys WHERE key = $1 AND status = 'pending'", ['a']);
+  });
+
+  it('should map pending rows without a response', () => {
+    expect(mapIdempotencyRow({ fingerprint: 'fp', status: 'pending', response_status: null, response_headers: null, response_body: null }))
+      .toEqual({ status: 'pending', fingerprint: 'fp' });
+  });
+});
+
+describe('RedisIdempotencyStore', () => {
+  let redis: { set: ReturnType<typeof vi.fn>; get: ReturnType<typeof vi.fn>; eval: ReturnType<typeof vi.fn> };
+  let store: RedisIdempotencyStore;
+
+  beforeEach(() => {
+    redis = { set: vi.fn(), get: vi.fn(), eval: vi.fn() };
+    store = new RedisIdempotencyStore(redis as unknown as ConstructorParameters<typeof RedisIdempotencyStore>[0]);
+  });
+
+  it('should claim keys with SET NX and a lock TTL', async () => {
+    redis.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+    redis.get.mockResolvedValueOnce(JSON.stringify({ status: 'pending', fingerprint: 'fp' }));
+
+    expect(await store.begin('a', 'fp', 30_000)).toBeNull();
+    expect(redis.set).toHaveBeenCalledWith('idempotency:a', JSON.stringify({ status: 'pending', fingerprint: 'fp' }), 'PX', 30_000, 'NX');
+    expect(await store.begin('a', 'fp', 30_000)).toEqual({ status: 'pending', fingerprint: 'fp' });
+  });
+
+  it('should store the response with the claiming fingerprint', async () => {
+    redis.get.mockResolvedValueOnce(JSON.stringify({ status: 'pending', fingerprint: 'fp' }));
+
+    await store.complete('a', RESPONSE, 60_000);
+
+    expect(redis.set).toHaveBeenCalledWith(
+      'idempotency:a',
+      JSON.stringify({ status: 'completed', fingerprint: 'fp', response: RESPONSE }),
+      'PX',
+      60_000
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import type { Redis } from 'ioredis';
+import { Queryable } from '../database/pool';
+
+// Response replayed for a repeated request
+export interface IdempotentResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * State of an idempotency key. `fingerprint` identifies the request that
+ * claimed the key, so a reused key with a different request is detected.
+ */
+export type IdempotencyRecord =
+  | { status: 'pending'; fingerprint: string }
+  | { status: 'completed'; fingerprint: string; response: IdempotentResponse };
+
+/**
+ * Storage for idempotency keys. `begin` claims a key atomically, so of
+ * several concurrent requests with the same key exactly one proceeds.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claims the key for `lockMs` unless it holds a live record
+   * @returns null when the key was claimed, otherwise the existing record
+   */
+  begin(key: string, fingerprint: string, lockMs: number): Promise<IdempotencyRecord | null>;
+  // Stores the response of the claiming request for `ttlMs`
+  complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void>;
+  // Drops a pending claim so the request can be retried, e.g. after a 5xx
+  release(key: string): Promise<void>;
+  purgeExpired(): Promise<number>;
+}
+
+/**
+ * IdempotencyStore kept in process memory, intended for tests and
+ * single-instance development servers
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+  async begin(key: string, fingerprint: string, lockMs: number): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return existing.record;
+    }
+    this.records.set(key, { record: { status: 'pending', fingerprint }, expiresAt: Date.now() + lockMs });
+    return null;
+  }
+
+  async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    const existing = this.records.get(key);
+    if (existing) {
+      this.records.set(key, {
+        record: { status: 'completed', fingerprint: existing.record.fingerprint, response },
+        expiresAt: Date.now() + ttlMs,
+      });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    if (this.records.get(key)?.record.status === 'pending') {
+      this.records.delete(key);
+    }
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [key, { expiresAt }] of this.records) {
+      if (expiresAt <= now) {
+        this.records.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+interface IdempotencyRow {
+  fingerprint: string;
+  status: 'pending' | 'completed';
+  response_status: number | null;
+  response_headers: Record<string, string> | null;
+  response_body: string | null;
+}
+
+/**
+ * Maps an `idempotency_keys` row to a record
+ * @param row - Row returned by PostgreSQL
+ * @returns Pending or completed record
+ */
+export function mapIdempotencyRow(row: IdempotencyRow): IdempotencyRecord {
+  if (row.status === 'pending') {
+    return { status: 'pending', fingerprint: row.fingerprint };
+  }
+  return {
+    status: 'completed',
+    fingerprint: row.fingerprint,
+    response: {
+      statusCode: row.response_status ?? 200,
+      headers: row.response_headers ?? {},
+      body: row.response_body ?? '',
+    },
+  };
+}
+
+/**
+ * IdempotencyStore backed by the `idempotency_keys` table. Expired rows are
+ * taken over by the next claim and deleted by purgeExpired.
+ */
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly db: Queryable) {}
+
+  async begin(key: string, fingerprint: string, lockMs: number): Promise<IdempotencyRecord | null> {
+    const claimed = await this.db.query(
+      `INSERT INTO idempotency_keys (key, fingerprint, status, expires_at)
+       VALUES ($1, $2, 'pending', CURRENT_TIMESTAMP + $3 * INTERVAL '1 millisecond')
+       ON CONFLICT (key) DO UPDATE
+       SET fingerprint = EXCLUDED.fingerprint, status = 'pending', response_status = NULL,
+           response_headers = NULL, response_body = NULL, expires_at = EXCLUDED.expires_at,
+           created_at = CURRENT_TIMESTAMP
+       WHERE idempotency_keys.expires_at <= CURRENT_TIMESTAMP
+       RETURNING key`,
+      [key, fingerprint, lockMs]
+    );
+    if (claimed.rows.length > 0) {
+      return null;
+    }
+
+    const result = await this.db.query<IdempotencyRow>(
+      `SELECT fingerprint, status, response_status, response_headers, response_body
+       FROM idempotency_keys WHERE key = $1`,
+      [key]
+    );
+    // Purged in between; report it as busy so the caller checks again
+    return result.rows[0] ? mapIdempotencyRow(result.rows[0]) : { status: 'pending', fingerprint };
+  }
+
+  async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    await this.db.query(
+      `UPDATE idempotency_keys
+       SET status = 'completed', response_status = $2, response_headers = $3, response_body = $4,
+           expires_at = CURRENT_TIMESTAMP + $5 * INTERVAL '1 millisecond'
+       WHERE key = $1`,
+      [key, response.statusCode, JSON.stringify(response.headers), response.body, ttlMs]
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await this.db.query("DELETE FROM idempotency_keys WHERE key = $1 AND status = 'pending'", [key]);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.db.query('DELETE FROM idempotency_keys WHERE expires_at <= CURRENT_TIMESTAMP');
+    return result.rowCount ?? 0;
+  }
+}
+
+// Only deletes the key while it is still pending
+const RELEASE_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value and cjson.decode(value).status == 'pending' then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * IdempotencyStore backed by Redis so every replica sees the same keys;
+ * records expire on their own via TTLs
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly redis: Pick<Redis, 'set' | 'get' | 'eval'>,
+    private readonly keyPrefix = 'idempotency'
+  ) {}
+
+  async begin(key: string, fingerprint: string, lockMs: number): Promise<IdempotencyRecord | null> {
+    const redisKey = `${this.keyPrefix}:${key}`;
+    const pending: IdempotencyRecord = { status: 'pending', fingerprint };
+    if (await this.redis.set(redisKey, JSON.stringify(pending), 'PX', lockMs, 'NX') === 'OK') {
+      return null;
+    }
+
+    const stored = await this.redis.get(redisKey);
+    // Expired in between; report it as busy so the caller checks again
+    return stored ? JSON.parse(stored) as IdempotencyRecord : pending;
+  }
+
+  async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    const redisKey = `${this.keyPrefix}:${key}`;
+    const stored = await this.redis.get(redisKey);
+    if (!stored) {
+      return;
+    }
+    const { fingerprint } = JSON.parse(stored) as IdempotencyRecord;
+    const record: IdempotencyRecord = { status: 'completed', fingerprint, response };
+    await this.redis.set(redisKey, JSON.stringify(record), 'PX', ttlMs);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.redis.eval(RELEASE_SCRIPT, 1, `${this.keyPrefix}:${key}`);
+  }
+
+  async purgeExpired(): Promise<number> {
+    // Keys carry a PX expiry, so Redis removes them itself
+    return 0;
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryRateLimitStore,
+  RedisRateLimitStore,
+  RateLimitRule,
+  takeToken
+} from './rate-limit-store';
+
+const WINDOW: RateLimitRule = { algorithm: 'sliding-window', limit: 3, windowMs: 60_000 };
+const BUCKET: RateLimitRule = { algorithm: 'token-bucket', limit: 3, windowMs: 60_000 };
+
+describe('takeToken', () => {
+  it('should start full, drain and refill at limit per window', () => {
+    let state = takeToken(undefined, BUCKET, 0).state;
+    state = takeToken(state, BUCKET, 0).state;
+    const last = takeToken(state, BUCKET, 0);
+
+    expect(last.result).toMatchObject({ allowed: true, remaining: 0, resetMs: 60_000 });
+
+    const denied = takeToken(last.state, BUCKET, 10_000);
+    expect(denied.result).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 10_000 });
+
+    // One token every 20 seconds
+    expect(takeToken(denied.state, BUCKET, 20_000).result.allowed).toBe(true);
+  });
+
+  it('should never refill beyond capacity', () => {
+    const { state } = takeToken({ tokens: 0, updatedAt: 0 }, BUCKET, 10 * 60_000);
+
+    expect(state.tokens).toBe(2);
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  let store: InMemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    store = new InMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow limit requests per sliding window', async () => {
+    expect(await store.consume('a', WINDOW)).toMatchObject({ allowed: true, remaining: 2 });
+    vi.advanceTimersByTime(20_000);
+    await store.consume('a', WINDOW);
+    await store.consume('a', WINDOW);
+
+    expect(await store.consume('a', WINDOW)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 40_000 });
+
+    // The first request leaves the window
+    vi.advanceTimersByTime(40_000);
+    expect(await store.consume('a', WINDOW)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should keep keys independent and reset them', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.consume('a', WINDOW);
+    }
+
+    expect((await store.consume('b', WINDOW)).allowed).toBe(true);
+    expect((await store.consume('a', WINDOW)).allowed).toBe(false);
+
+    await store.reset('a');
+    expect((await store.consume('a', WINDOW)).allowed).toBe(true);
+  });
+
+  it('should apply token buckets', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.consume('a', BUCKET);
+    }
+
+    expect((await store.consume('a', BUCKET)).allowed).toBe(false);
+    vi.advanceTimersByTime(20_000);
+    expect((await store.consume('a', BUCKET)).allowed).toBe(true);
+  });
+
+  it('should purge idle keys', async () => {
+    await store.consume('window', WINDOW);
+    await store.consume('bucket', BUCKET);
+
+    expect(await store.purgeExpired()).toBe(0);
+    vi.advanceTimersByTime(60_000);
+    expect(await store.purgeExpired()).toBe(2);
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  let redis: { eval: ReturnType<typeof vi.fn>; del: ReturnType<typeof vi.fn> };
+  let store: RedisRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(100_000);
+    redis = { eval: vi.fn(), del: vi.fn() };
+    store = new RedisRateLimitStore(redis as unknown as ConstructorParameters<typeof RedisRateLimitStore>[0]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run the sliding window script on the prefixed key', async () => {
+    redis.eval.mockResolvedValue([0, 3, 70_000]);
+
+    const result = await store.consume('login:ip:1.2.3.4', WINDOW);
+
+    const [script, keyCount, key, now, windowMs, limit, member] = redis.eval.mock.calls[0];
+    expect(script).toContain('ZREMRANGEBYSCORE');
+    expect([keyCount, key, now, windowMs, limit]).toEqual([1, 'ratelimit:login:ip:1.2.3.4', 100_000, 60_000, 3]);
+    expect(member).toMatch(/^100000:/);
+    expect(result).toEqual({ allowed: false, limit: 3, remaining: 0, resetMs: 30_000, retryAfterMs: 30_000 });
+  });
+
+  it('should parse fractional tokens from the token bucket script', async () => {
+    redis.eval.mockResolvedValue([1, '1.5']);
+
+    const result = await store.consume('refresh', BUCKET);
+
+    expect(redis.eval.mock.calls[0][0]).toContain('HMGET');
+    expect(result).toEqual({ allowed: true, limit: 3, remaining: 1, resetMs: 30_000, retryAfterMs: 0 });
+  });
+
+  it('should delete the key on reset', async () => {
+    await store.reset('login:ip:1.2.3.4');
+
+    expect(redis.del).toHaveBeenCalledWith('ratelimit:login:ip:1.2.3.4');
+  });
+});
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import type { Redis } from 'ioredis';
+
+/**
+ * `sliding-window` allows `limit` requests in any `windowMs` span.
+ * `token-bucket` allows bursts of up to `limit` and refills at
+ * `limit / windowMs`, smoothing sustained traffic.
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the full budget is available again
+  resetMs: number;
+  // Milliseconds until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Counter storage for rate limits. Each call to `consume` spends one unit
+ * of the key's budget when one is available.
+ */
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+  purgeExpired(): Promise<number>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Refills a token bucket up to `now` and tries to take one token
+ * @param state - Bucket as last stored; undefined for a full bucket
+ * @param rule - Capacity and refill window
+ * @param now - Current time in milliseconds
+ * @returns New bucket state and the outcome
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  rule: RateLimitRule,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const rate = rule.limit / rule.windowMs;
+  let tokens = state
+    ? Math.min(rule.limit, state.tokens + Math.max(0, now - state.updatedAt) * rate)
+    : rule.limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: bucketResult(allowed, tokens, rule),
+  };
+}
+
+const bucketResult = (allowed: boolean, tokens: number, rule: RateLimitRule): RateLimitResult => {
+  const rate = rule.limit / rule.windowMs;
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((rule.limit - tokens) / rate),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+  };
+};
+
+const windowResult = (allowed: boolean, count: number, oldest: number, rule: RateLimitRule, now: number): RateLimitResult => {
+  const resetMs = Math.max(0, oldest + rule.windowMs - now);
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    resetMs,
+    retryAfterMs: allowed ? 0 : resetMs,
+  };
+};
+
+/**
+ * RateLimitStore kept in process memory, intended for tests and
+ * single-instance development servers. Limits reset on restart.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  // Sliding window log: timestamps of the requests inside the window
+  private readonly windows = new Map<string, { hits: number[]; windowMs: number }>();
+  private readonly buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    if (rule.algorithm === 'token-bucket') {
+      const { state, result } = takeToken(this.buckets.get(key), rule, now);
+      this.buckets.set(key, { ...state, fullAt: now + result.resetMs });
+      return result;
+    }
+
+    const hits = (this.windows.get(key)?.hits ?? []).filter((hit) => hit > now - rule.windowMs);
+    const allowed = hits.length < rule.limit;
+    if (allowed) {
+      hits.push(now);
+    }
+    this.windows.set(key, { hits, windowMs: rule.windowMs });
+    return windowResult(allowed, hits.length, hits[0] ?? now, rule, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+
+    for (const [key, { hits, windowMs }] of this.windows) {
+      if (hits.length === 0 || hits[hits.length - 1] <= now - windowMs) {
+        this.windows.delete(key);
+        purged++;
+      }
+    }
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+// Sorted set of request timestamps; members are unique so concurrent
+// requests in the same millisecond are all counted
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local oldestAt = now
+if oldest[2] then oldestAt = tonumber(oldest[2]) end
+redis.call('PEXPIRE', KEYS[1], window)
+return {allowed, count, oldestAt}
+`;
+
+// Same refill arithmetic as takeToken; tokens are returned as a string
+// because Redis truncates Lua numbers to integers
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local rate = limit / window
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated')
+local tokens = tonumber(state[1])
+if tokens == nil then
+  tokens = limit
+else
+  tokens = math.min(limit, tokens + math.max(0, now - tonumber(state[2])) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, math.ceil((limit - tokens) / rate)))
+return {allowed, tostring(tokens)}
+`;
+
+/**
+ * RateLimitStore backed by Redis so every replica shares the same counters.
+ * Each check is a single Lua script, so concurrent requests cannot overspend.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly redis: Pick<Redis, 'eval' | 'del'>,
+    private readonly keyPrefix = 'ratelimit'
+  ) {}
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const redisKey = `${this.keyPrefix}:${key}`;
+
+    if (rule.algorithm === 'token-bucket') {
+      const [allowed, tokens] = await this.redis.eval(
+        TOKEN_BUCKET_SCRIPT, 1, redisKey, now, rule.windowMs, rule.limit
+      ) as [number, string];
+      return bucketResult(allowed === 1, Number(tokens), rule);
+    }
+
+    const [allowed, count, oldest] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT, 1, redisKey, now, rule.windowMs, rule.limit, `${now}:${randomUUID()}`
+    ) as [number, number, number];
+    return windowResult(allowed === 1, count, Number(oldest), rule, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(`${this.keyPrefix}:${key}`);
+  }
+
+  async purgeExpired(): Promise<number> {
+    // Keys carry a PEXPIRE, so Redis removes them itself
+    return 0;
+  }
+}
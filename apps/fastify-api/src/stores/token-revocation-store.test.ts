@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryTokenRevocationStore,
+  PostgresTokenRevocationStore,
+  RedisTokenRevocationStore,
+  isTokenClaimRevoked
+} from './token-revocation-store';
+import { Queryable } from '../database/pool';
+
+const LIFETIME_MS = 15 * 60 * 1000;
+
+describe('InMemoryTokenRevocationStore', () => {
+  let store: InMemoryTokenRevocationStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+    store = new InMemoryTokenRevocationStore(LIFETIME_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report revoked tokens until they expire', async () => {
+    await store.revokeToken('jti-1', new Date(Date.now() + 60_000));
+
+    expect(await store.isTokenRevoked('jti-1')).toBe(true);
+    expect(await store.isTokenRevoked('jti-2')).toBe(false);
+
+    vi.advanceTimersByTime(60_000);
+    expect(await store.isTokenRevoked('jti-1')).toBe(false);
+  });
+
+  it('should forget user cutoffs once every affected token has expired', async () => {
+    const cutoff = new Date();
+    await store.revokeAllForUser('user-1', cutoff);
+
+    expect(await store.getUserRevocationCutoff('user-1')).toEqual(cutoff);
+
+    vi.advanceTimersByTime(LIFETIME_MS);
+    expect(await store.getUserRevocationCutoff('user-1')).toBeNull();
+  });
+
+  it('should purge expired entries', async () => {
+    await store.revokeToken('short', new Date(Date.now() + 1_000));
+    await store.revokeToken('long', new Date(Date.now() + LIFETIME_MS * 2));
+    await store.revokeAllForUser('user-1', new Date());
+
+    vi.advanceTimersByTime(LIFETIME_MS);
+
+    expect(await store.purgeExpired()).toBe(2);
+    expect(await store.isTokenRevoked('long')).toBe(true);
+  });
+});
+
+describe('isTokenClaimRevoked', () => {
+  let store: InMemoryTokenRevocationStore;
+  const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    store = new InMemoryTokenRevocationStore(LIFETIME_MS);
+  });
+
+  it('should match revoked jti claims', async () => {
+    await store.revokeToken('jti-1', new Date(Date.now() + 60_000));
+
+    expect(await isTokenClaimRevoked(store, { id: 'user-1', jti: 'jti-1', iat: nowInSeconds() })).toBe(true);
+    expect(await isTokenClaimRevoked(store, { id: 'user-1', jti: 'jti-2', iat: nowInSeconds() })).toBe(false);
+  });
+
+  it('should revoke tokens issued before the user cutoff only', async () => {
+    const cutoff = new Date();
+    await store.revokeAllForUser('user-1', cutoff);
+    const cutoffSeconds = Math.floor(cutoff.getTime() / 1000);
+
+    expect(await isTokenClaimRevoked(store, { id: 'user-1', iat: cutoffSeconds - 1 })).toBe(true);
+    expect(await isTokenClaimRevoked(store, { id: 'user-1', iat: cutoffSeconds + 1 })).toBe(false);
+    expect(await isTokenClaimRevoked(store, { id: 'user-2', iat: cutoffSeconds - 1 })).toBe(false);
+  });
+});
+
+describe('PostgresTokenRevocationStore', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+  let store: PostgresTokenRevocationStore;
+
+  beforeEach(() => {
+    db = { query: vi.fn() };
+    store = new PostgresTokenRevocationStore(db as unknown as Queryable, LIFETIME_MS);
+  });
+
+  it('should insert revoked tokens idempotently', async () => {
+    db.query.mockResolvedValue({ rows: [], rowCount: 1 });
+    const expiresAt = new Date('2024-01-01T12:15:00Z');
+
+    await store.revokeToken('jti-1', expiresAt);
+
+    expect(db.query).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT (jti) DO NOTHING'), ['jti-1', expiresAt]);
+  });
+
+  it('should only treat unexpired rows as revoked', async () => {
+    db.query.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] }).mockResolvedValueOnce({ rows: [] });
+
+    expect(await store.isTokenRevoked('jti-1')).toBe(true);
+    expect(await store.isTokenRevoked('jti-2')).toBe(false);
+    expect(db.query.mock.calls[0][0]).toContain('expires_at > CURRENT_TIMESTAMP');
+  });
+
+  it('should never move a user cutoff backwards', async () => {
+    db.query.mockResolvedValue({ rows: [], rowCount: 1 });
+
+    await store.revokeAllForUser('user-1', new Date());
+
+    expect(db.query.mock.calls[0][0]).toContain('GREATEST(user_token_revocations.revoked_before, EXCLUDED.revoked_before)');
+  });
+
+  it('should ignore cutoffs older than the token lifetime', async () => {
+    const recent = new Date(Date.now() - 60_000);
+    db.query
+      .mockResolvedValueOnce({ rows: [{ revoked_before: recent }] })
+      .mockResolvedValueOnce({ rows: [{ revoked_before: new Date(Date.now() - LIFETIME_MS - 1_000) }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    expect(await store.getUserRevocationCutoff('user-1')).toEqual(recent);
+    expect(await store.getUserRevocationCutoff('user-1')).toBeNull();
+    expect(await store.getUserRevocationCutoff('user-2')).toBeNull();
+  });
+
+  it('should report how many entries were purged', async () => {
+    db.query.mockResolvedValueOnce({ rowCount: 3 }).mockResolvedValueOnce({ rowCount: 1 });
+
+    expect(await store.purgeExpired()).toBe(4);
+  });
+});
+
+describe('RedisTokenRevocationStore', () => {
+  let redis: { set: ReturnType<typeof vi.fn>; exists: ReturnType<typeof vi.fn>; get: ReturnType<typeof vi.fn> };
+  let store: RedisTokenRevocationStore;
+
+  beforeEach(() => {
+    redis = { set: vi.fn().mockResolvedValue('OK'), exists: vi.fn(), get: vi.fn() };
+    store = new RedisTokenRevocationStore(redis as unknown as ConstructorParameters<typeof RedisTokenRevocationStore>[0], LIFETIME_MS);
+  });
+
+  it('should store revoked tokens with a TTL matching the token expiry', async () => {
+    await store.revokeToken('jti-1', new Date(Date.now() + 60_000));
+
+    const [key, value, mode, ttl] = redis.set.mock.calls[0];
+    expect([key, value, mode]).toEqual(['auth:revoked:jti:jti-1', '1', 'PX']);
+    expect(ttl).toBeGreaterThan(59_000);
+    expect(ttl).toBeLessThanOrEqual(60_000);
+  });
+
+  it('should skip tokens that already expired', async () => {
+    await store.revokeToken('jti-1', new Date(Date.now() - 1_000));
+
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('should read revocations back', async () => {
+    const cutoff = new Date('2024-01-01T12:00:00Z');
+    redis.exists.mockResolvedValue(1);
+    redis.get.mockResolvedValueOnce(String(cutoff.getTime())).mockResolvedValueOnce(null);
+
+    await store.revokeAllForUser('user-1', cutoff);
+
+    expect(redis.set).toHaveBeenCalledWith('auth:revoked:user:user-1', String(cutoff.getTime()), 'PX', LIFETIME_MS);
+    expect(await store.isTokenRevoked('jti-1')).toBe(true);
+    expect(await store.getUserRevocationCutoff('user-1')).toEqual(cutoff);
+    expect(await store.getUserRevocationCutoff('user-2')).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import type { Redis } from 'ioredis';
+import { Queryable } from '../database/pool';
+
+/**
+ * Denylist for access tokens that must stop working before they expire.
+ * Individual tokens are revoked by `jti`; "log out everywhere" records a
+ * per-user cutoff so every token issued before it is rejected.
+ */
+export interface TokenRevocationStore {
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+  isTokenRevoked(jti: string): Promise<boolean>;
+  revokeAllForUser(userId: string, issuedBefore: Date): Promise<void>;
+  getUserRevocationCutoff(userId: string): Promise<Date | null>;
+  purgeExpired(): Promise<number>;
+}
+
+/**
+ * Checks a verified token's claims against a revocation store
+ * @param store - Revocation store
+ * @param claims - Verified JWT claims
+ * @returns True if the token has been revoked
+ */
+export async function isTokenClaimRevoked(
+  store: TokenRevocationStore,
+  claims: { id: string; jti?: string; iat?: number }
+): Promise<boolean> {
+  if (claims.jti && await store.isTokenRevoked(claims.jti)) {
+    return true;
+  }
+
+  const cutoff = await store.getUserRevocationCutoff(claims.id);
+  // iat has second precision; tokens minted in an earlier second than the cutoff are revoked
+  return cutoff !== null && claims.iat !== undefined && claims.iat < Math.floor(cutoff.getTime() / 1000);
+}
+
+/**
+ * TokenRevocationStore kept in process memory, intended for tests and
+ * single-instance development servers
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private readonly revokedTokens = new Map<string, number>();
+  private readonly userCutoffs = new Map<string, { cutoff: number; expiresAt: number }>();
+
+  /**
+   * @param maxTokenLifetimeMs - Longest access token lifetime; user cutoffs
+   * older than this can be forgotten because every affected token has expired
+   */
+  constructor(private readonly maxTokenLifetimeMs = 15 * 60 * 1000) {}
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.revokedTokens.set(jti, expiresAt.getTime());
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.revokedTokens.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async revokeAllForUser(userId: string, issuedBefore: Date): Promise<void> {
+    this.userCutoffs.set(userId, {
+      cutoff: issuedBefore.getTime(),
+      expiresAt: issuedBefore.getTime() + this.maxTokenLifetimeMs,
+    });
+  }
+
+  async getUserRevocationCutoff(userId: string): Promise<Date | null> {
+    const entry = this.userCutoffs.get(userId);
+    return entry && entry.expiresAt > Date.now() ? new Date(entry.cutoff) : null;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [jti, expiresAt] of this.revokedTokens.entries()) {
+      if (expiresAt <= now) {
+        this.revokedTokens.delete(jti);
+        purged++;
+      }
+    }
+    for (const [userId, entry] of this.userCutoffs.entries()) {
+      if (entry.expiresAt <= now) {
+        this.userCutoffs.delete(userId);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/**
+ * TokenRevocationStore backed by the `revoked_tokens` and
+ * `user_token_revocations` tables
+ */
+export class PostgresTokenRevocationStore implements TokenRevocationStore {
+  constructor(
+    private readonly db: Queryable,
+    private readonly maxTokenLifetimeMs = 15 * 60 * 1000
+  ) {}
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    await this.db.query(
+      `INSERT INTO revoked_tokens (jti, expires_at) VALUES ($1, $2)
+       ON CONFLICT (jti) DO NOTHING`,
+      [jti, expiresAt]
+    );
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM revoked_tokens WHERE jti = $1 AND expires_at > CURRENT_TIMESTAMP',
+      [jti]
+    );
+    return result.rows.length > 0;
+  }
+
+  async revokeAllForUser(userId: string, issuedBefore: Date): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_token_revocations (user_id, revoked_before) VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE SET revoked_before = GREATEST(user_token_revocations.revoked_before, EXCLUDED.revoked_before)`,
+      [userId, issuedBefore]
+    );
+  }
+
+  async getUserRevocationCutoff(userId: string): Promise<Date | null> {
+    const result = await this.db.query<{ revoked_before: Date | string }>(
+      'SELECT revoked_before FROM user_token_revocations WHERE user_id = $1',
+      [userId]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    const cutoff = new Date(row.revoked_before);
+    return cutoff.getTime() + this.maxTokenLifetimeMs > Date.now() ? cutoff : null;
+  }
+
+  async purgeExpired(): Promise<number> {
+    const tokens = await this.db.query('DELETE FROM revoked_tokens WHERE expires_at <= CURRENT_TIMESTAMP');
+    const users = await this.db.query(
+      'DELETE FROM user_token_revocations WHERE revoked_before <= $1',
+      [new Date(Date.now() - this.maxTokenLifetimeMs)]
+    );
+    return (tokens.rowCount ?? 0) + (users.rowCount ?? 0);
+  }
+}
+
+/**
+ * TokenRevocationStore backed by Redis; entries expire on their own via TTLs
+ * so no purge job is required
+ */
+export class RedisTokenRevocationStore implements TokenRevocationStore {
+  constructor(
+    private readonly redis: Pick<Redis, 'set' | 'exists' | 'get'>,
+    private readonly maxTokenLifetimeMs = 15 * 60 * 1000,
+    private readonly keyPrefix = 'auth:revoked'
+  ) {}
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    const ttl = expiresAt.getTime() - Date.now();
+    if (ttl > 0) {
+      await this.redis.set(`${this.keyPrefix}:jti:${jti}`, '1', 'PX', ttl);
+    }
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    return (await this.redis.exists(`${this.keyPrefix}:jti:${jti}`)) > 0;
+  }
+
+  async revokeAllForUser(userId: string, issuedBefore: Date): Promise<void> {
+    await this.redis.set(
+      `${this.keyPrefix}:user:${userId}`,
+      String(issuedBefore.getTime()),
+      'PX',
+      this.maxTokenLifetimeMs
+    );
+  }
+
+  async getUserRevocationCutoff(userId: string): Promise<Date | null> {
+    const value = await this.redis.get(`${this.keyPrefix}:user:${userId}`);
+    return value ? new Date(Number(value)) : null;
+  }
+
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import type { Pool, PoolClient } from 'pg';
+import { traceQueries } from './database';
+import { Tracer } from './tracer';
+import { InMemorySpanExporter } from './span-exporters';
+
+describe('traceQueries', () => {
+  const createPool = () => {
+    const pool = new EventEmitter() as EventEmitter & { connect: (callback?: (error: Error | null, client: unknown) => void) => unknown };
+    const client = {
+      query: (text: string, values?: unknown, callback?: (error: Error | null, result: unknown) => void) => {
+        const error = text.startsWith('BROKEN') ? new Error('syntax error') : null;
+        if (typeof callback === 'function') {
+          setImmediate(() => callback(error, { rows: [] }));
+          return undefined;
+        }
+        return error ? Promise.reject(error) : Promise.resolve({ rows: [] });
+      },
+    };
+    pool.connect = (callback) => {
+      // A busy pool hands the connection over from another async context
+      setImmediate(() => callback?.(null, client));
+      return undefined;
+    };
+    return { pool, client };
+  };
+
+  it('should record a client span per query under the active span', async () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer({ exporter, flushIntervalMs: 60_000 });
+    const { pool, client } = createPool();
+    traceQueries(pool as unknown as Pool, tracer);
+    pool.emit('connect', client as unknown as PoolClient);
+
+    await tracer.withSpan('request', {}, async () => {
+      await (client as unknown as PoolClient).query('SELECT * FROM users WHERE id = $1', ['secret-value']);
+      await new Promise((resolve) => (client as unknown as PoolClient).query('UPDATE users SET name = $1', ['x'], resolve));
+      await expect((client as unknown as PoolClient).query('BROKEN')).rejects.toThrow('syntax error');
+    });
+    await tracer.flush();
+
+    const request = exporter.named('request')[0];
+    const queries = exporter.named('db.query');
+    expect(queries.map((span) => span.attributes['db.operation.name'])).toEqual(['SELECT', 'UPDATE', 'BROKEN']);
+    expect(queries.every((span) => span.parentSpanId === request.spanId && span.kind === 'client')).toBe(true);
+    expect(queries[0].attributes['db.query.text']).toBe('SELECT * FROM users WHERE id = $1');
+    expect(JSON.stringify(queries)).not.toContain('secret-value');
+    expect(queries[2].status).toBe('error');
+  });
+
+  it('should hand pooled connections to the caller\'s trace', async () => {
+    const tracer = new Tracer();
+    const { pool } = createPool();
+    traceQueries(pool as unknown as Pool, tracer);
+
+    const active = await tracer.withSpan('request', {}, () => new Promise((resolve) => {
+      pool.connect(() => resolve(tracer.activeSpan()?.name));
+    }));
+
+    expect(active).toBe('request');
+  });
+});
@@ -0,0 +1,69 @@
+import { AsyncResource } from 'async_hooks';
+import type { Pool, PoolClient } from 'pg';
+import { Tracer } from './tracer';
+
+// Longest statement recorded on a span; parameters are never recorded
+const MAX_STATEMENT_LENGTH = 2000;
+
+type QueryCallback = (error: Error | null, result: unknown) => void;
+
+/**
+ * Records a `db.query` client span for every query on the pool's connections,
+ * including pool.query() and queries inside transactions
+ * @param pool - Pool to instrument; connections opened later are covered
+ * @param tracer - Tracer providing the active request span
+ * @returns The same pool
+ */
+export function traceQueries(pool: Pool, tracer: Tracer): Pool {
+  // pool.query() waits for a connection with a callback, which a busy pool
+  // calls from whichever request released one; bind it to the caller's trace
+  const connect = pool.connect.bind(pool) as (callback?: (...args: unknown[]) => void) => unknown;
+  pool.connect = ((callback?: (...args: unknown[]) => void) =>
+    callback ? connect(AsyncResource.bind(callback)) : connect()) as typeof pool.connect;
+
+  pool.on('connect', (client: PoolClient) => {
+    const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+
+    client.query = ((...args: unknown[]) => {
+      const [config] = args;
+      // Cursors and other submittables manage their own lifecycle
+      if (typeof (config as { submit?: unknown })?.submit === 'function') {
+        return query(...args);
+      }
+      const text = typeof config === 'string' ? config : String((config as { text?: string })?.text ?? '');
+      const span = tracer.startSpan('db.query', {
+        kind: 'client',
+        attributes: {
+          'db.system': 'postgresql',
+          'db.operation.name': text.trimStart().split(/\s/, 1)[0].toUpperCase(),
+          'db.query.text': text.slice(0, MAX_STATEMENT_LENGTH),
+        },
+      });
+      const finish = (error: unknown) => {
+        if (error) {
+          span.recordError(error);
+        }
+        span.end();
+      };
+
+      const callback = args[args.length - 1];
+      if (typeof callback === 'function') {
+        return query(...args.slice(0, -1), (error: Error | null, result: unknown) => {
+          finish(error);
+          (callback as QueryCallback)(error, result);
+        });
+      }
+      return (query(...args) as Promise<unknown>).then(
+        (result) => {
+          finish(null);
+          return result;
+        },
+        (error: unknown) => {
+          finish(error);
+          throw error;
+        }
+      );
+    }) as typeof client.query;
+  });
+  return pool;
+}
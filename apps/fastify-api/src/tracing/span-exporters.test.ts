@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OtlpHttpSpanExporter, parseOtlpHeaders } from './span-exporters';
+import { FinishedSpan } from './tracer';
+
+describe('OtlpHttpSpanExporter', () => {
+  const span: FinishedSpan = {
+    name: 'GET /api/users/:id',
+    kind: 'server',
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    parentSpanId: null,
+    startTime: 1_700_000_000_000.5,
+    endTime: 1_700_000_000_012,
+    attributes: { 'http.request.method': 'GET', 'http.response.status_code': 200, ratio: 0.5, cached: false },
+    status: 'error',
+    statusMessage: 'boom',
+  };
+
+  it('should post OTLP JSON to the traces path', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    const exporter = new OtlpHttpSpanExporter({
+      endpoint: 'http://collector:4318/',
+      serviceName: 'fastify-api',
+      headers: { authorization: 'Bearer token' },
+      fetch,
+    });
+
+    await exporter.export([span]);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://collector:4318/v1/traces');
+    expect(init.headers).toEqual({ 'content-type': 'application/json', authorization: 'Bearer token' });
+    const body = JSON.parse(init.body);
+    expect(body.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'fastify-api' } }]);
+    expect(body.resourceSpans[0].scopeSpans[0].spans[0]).toEqual({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      name: span.name,
+      kind: 2,
+      startTimeUnixNano: '1700000000000500000',
+      endTimeUnixNano: '1700000000012000000',
+      attributes: [
+        { key: 'http.request.method', value: { stringValue: 'GET' } },
+        { key: 'http.response.status_code', value: { intValue: '200' } },
+        { key: 'ratio', value: { doubleValue: 0.5 } },
+        { key: 'cached', value: { boolValue: false } },
+      ],
+      status: { code: 2, message: 'boom' },
+    });
+  });
+
+  it('should fail when the collector rejects the batch', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+    const exporter = new OtlpHttpSpanExporter({ endpoint: 'http://collector:4318', serviceName: 'api', fetch });
+
+    await expect(exporter.export([span])).rejects.toThrow('OTLP collector responded 503');
+  });
+
+  it('should parse OTEL_EXPORTER_OTLP_HEADERS', () => {
+    expect(parseOtlpHeaders('api-key=abc%3D, x-tenant = acme,broken')).toEqual({ 'api-key': 'abc=', 'x-tenant': 'acme' });
+    expect(parseOtlpHeaders(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,116 @@
+import { FinishedSpan, SpanExporter, SpanKind, SpanStatus } from './tracer';
+
+/**
+ * Keeps exported spans in memory, intended for tests
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  readonly spans: FinishedSpan[] = [];
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+
+  // Spans with this name, in export order
+  named(name: string): FinishedSpan[] {
+    return this.spans.filter((span) => span.name === name);
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+export interface OtlpExporterOptions {
+  // Collector base URL, e.g. http://otel-collector:4318; spans go to /v1/traces
+  endpoint: string;
+  serviceName: string;
+  // Extra request headers, e.g. for collector authentication
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+// OTLP enum values
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const OTLP_STATUS_CODE: Record<SpanStatus, number> = { unset: 0, ok: 1, error: 2 };
+
+type OtlpValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+const toOtlpValue = (value: string | number | boolean): OtlpValue => {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  // 64-bit integers are strings in OTLP/JSON
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+};
+
+const toUnixNano = (ms: number): string => (BigInt(Math.floor(ms)) * 1_000_000n + BigInt(Math.round((ms % 1) * 1e6))).toString();
+
+/**
+ * Parses OTEL_EXPORTER_OTLP_HEADERS, a comma separated list of key=value pairs
+ * @param value - Variable value
+ * @returns Headers
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0) {
+      headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector with OTLP over HTTP, JSON encoded
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private readonly url: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(private readonly options: OtlpExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/+$/, '')}/v1/traces`;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    const response = await this.fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(this.toRequest(spans)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP collector responded ${response.status}`);
+    }
+  }
+
+  // ExportTraceServiceRequest with one resource and scope
+  toRequest(spans: FinishedSpan[]) {
+    return {
+      resourceSpans: [{
+        resource: {
+          attributes: [{ key: 'service.name', value: toOtlpValue(this.options.serviceName) }],
+        },
+        scopeSpans: [{
+          scope: { name: this.options.serviceName },
+          spans: spans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: OTLP_SPAN_KIND[span.kind],
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: Object.entries(span.attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+            status: { code: OTLP_STATUS_CODE[span.status], ...(span.statusMessage ? { message: span.statusMessage } : {}) },
+          })),
+        }],
+      }],
+    };
+  }
+}
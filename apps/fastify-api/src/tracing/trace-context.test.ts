@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatTraceparent, newSpanId, newTraceId, parseTraceparent } from './trace-context';
+
+describe('traceparent', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const spanId = '00f067aa0ba902b7';
+
+  it('should parse sampled and unsampled headers', () => {
+    expect(parseTraceparent(`00-${traceId}-${spanId}-01`)).toEqual({ traceId, spanId, sampled: true });
+    expect(parseTraceparent(`00-${traceId}-${spanId}-00`)).toEqual({ traceId, spanId, sampled: false });
+  });
+
+  it('should accept extra fields only from later versions', () => {
+    expect(parseTraceparent(`01-${traceId}-${spanId}-01-future`)).toMatchObject({ traceId, spanId });
+    expect(parseTraceparent(`00-${traceId}-${spanId}-01-future`)).toBeNull();
+  });
+
+  it('should reject malformed, forbidden and all-zero values', () => {
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent([`00-${traceId}-${spanId}-01`, `00-${traceId}-${spanId}-01`])).toBeNull();
+    expect(parseTraceparent(`00-${traceId.toUpperCase()}-${spanId}-01`)).toBeNull();
+    expect(parseTraceparent(`ff-${traceId}-${spanId}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${spanId}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${traceId}-${'0'.repeat(16)}-01`)).toBeNull();
+  });
+
+  it('should round-trip generated ids', () => {
+    const context = { traceId: newTraceId(), spanId: newSpanId(), sampled: true };
+
+    expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(context.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(parseTraceparent(formatTraceparent(context))).toEqual(context);
+  });
+});
@@ -0,0 +1,54 @@
+import { randomBytes } from 'crypto';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+// Position of a span within a trace, as carried by the W3C `traceparent` header
+export interface SpanContext {
+  // 32 lowercase hex characters
+  traceId: string;
+  // 16 lowercase hex characters
+  spanId: string;
+  // Whether the trace is recorded and exported
+  sampled: boolean;
+}
+
+// version-traceid-parentid-flags; later versions may append fields
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+export const newTraceId = (): string => randomBytes(16).toString('hex');
+
+export const newSpanId = (): string => randomBytes(8).toString('hex');
+
+/**
+ * Parses a W3C traceparent header
+ * @param header - Header value; repeated headers are invalid
+ * @returns Remote span context, or null when the header is missing or malformed
+ */
+export function parseTraceparent(header: string | string[] | undefined): SpanContext | null {
+  if (typeof header !== 'string') {
+    return null;
+  }
+  const match = TRACEPARENT_PATTERN.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden, and version 00 has exactly four fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return null;
+  }
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return null;
+  }
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Formats a span context as a version 00 traceparent header
+ * @param context - Span context
+ * @returns Header value
+ */
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Tracer } from './tracer';
+import { InMemorySpanExporter } from './span-exporters';
+
+describe('Tracer', () => {
+  const createTracer = (options = {}) => {
+    const exporter = new InMemorySpanExporter();
+    return { exporter, tracer: new Tracer({ exporter, flushIntervalMs: 60_000, ...options }) };
+  };
+
+  it('should nest spans started inside withSpan and export them once ended', async () => {
+    const { exporter, tracer } = createTracer();
+
+    await tracer.withSpan('parent', { attributes: { step: 1 } }, async () => {
+      await tracer.withSpan('child', { kind: 'client' }, async () => undefined);
+    });
+    await tracer.flush();
+
+    const [child, parent] = exporter.spans;
+    expect(parent).toMatchObject({ name: 'parent', parentSpanId: null, attributes: { step: 1 }, status: 'unset' });
+    expect(child).toMatchObject({ name: 'child', kind: 'client', traceId: parent.traceId, parentSpanId: parent.spanId });
+    expect(child.endTime).toBeGreaterThanOrEqual(child.startTime);
+  });
+
+  it('should continue a remote parent and keep its sampling decision', async () => {
+    const { exporter, tracer } = createTracer();
+    const remote = { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: false };
+
+    tracer.startSpan('unsampled', { parent: remote }).end();
+    tracer.startSpan('sampled', { parent: { ...remote, sampled: true } }).end();
+    await tracer.flush();
+
+    expect(exporter.spans).toEqual([expect.objectContaining({ name: 'sampled', traceId: remote.traceId, parentSpanId: remote.spanId })]);
+  });
+
+  it('should sample new traces by ratio', async () => {
+    const { exporter, tracer } = createTracer({ sampleRatio: 0 });
+
+    const span = tracer.startSpan('root');
+    span.end();
+    await tracer.flush();
+
+    expect(span.context.sampled).toBe(false);
+    expect(exporter.spans).toHaveLength(0);
+  });
+
+  it('should record errors thrown inside a span', async () => {
+    const { exporter, tracer } = createTracer();
+
+    await expect(tracer.withSpan('failing', {}, async () => {
+      throw new TypeError('boom');
+    })).rejects.toThrow('boom');
+    await tracer.flush();
+
+    expect(exporter.spans[0]).toMatchObject({
+      status: 'error',
+      statusMessage: 'boom',
+      attributes: { 'exception.type': 'TypeError', 'exception.message': 'boom' },
+    });
+  });
+
+  it('should expose ids of the active span for logs and later work', async () => {
+    const { tracer } = createTracer();
+    const span = tracer.startSpan('request', { kind: 'server' });
+
+    await new Promise<void>((resolve) => {
+      setImmediate(() => {
+        tracer.enter(span, 'req-1');
+        expect(tracer.logBindings()).toEqual({ traceId: span.context.traceId, spanId: span.context.spanId, reqId: 'req-1' });
+        expect(tracer.logBindings(false)).not.toHaveProperty('reqId');
+        expect(tracer.currentTraceparent()).toBe(`00-${span.context.traceId}-${span.context.spanId}-01`);
+        expect(tracer.detach(() => tracer.activeSpan())).toBeNull();
+        resolve();
+      });
+    });
+    expect(tracer.logBindings()).toEqual({});
+  });
+
+  it('should export in batches and drop spans when the exporter fails', async () => {
+    const exporter = { export: vi.fn().mockRejectedValueOnce(new Error('collector down')).mockResolvedValue(undefined) };
+    const logger = { error: vi.fn() };
+    const tracer = new Tracer({ exporter, batchSize: 2, flushIntervalMs: 60_000, logger });
+
+    for (let i = 0; i < 3; i++) {
+      tracer.startSpan(`span-${i}`).end();
+    }
+    await tracer.shutdown();
+
+    expect(exporter.export).toHaveBeenCalledTimes(2);
+    expect(exporter.export.mock.calls[1][0]).toEqual([expect.objectContaining({ name: 'span-2' })]);
+    expect(logger.error).toHaveBeenCalledWith('Exporting 2 spans failed', expect.any(Error));
+  });
+});
@@ -0,0 +1,276 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { performance } from 'perf_hooks';
+import { formatTraceparent, newSpanId, newTraceId, SpanContext } from './trace-context';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+// Ended span as handed to exporters
+export interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  // Milliseconds since the epoch, with sub-millisecond precision
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+}
+
+/**
+ * Receives batches of ended, sampled spans
+ */
+export interface SpanExporter {
+  export(spans: FinishedSpan[]): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  // Remote or explicit parent; defaults to the active span, null starts a new trace
+  parent?: SpanContext | null;
+}
+
+interface TracerLogger {
+  error(message: string, error?: unknown): void;
+}
+
+export interface TracerOptions {
+  // Where sampled spans go; without one spans only provide ids
+  exporter?: SpanExporter | null;
+  // Share of new traces that are recorded; child spans follow their parent
+  sampleRatio?: number;
+  // Spans exported per request to the exporter
+  batchSize?: number;
+  flushIntervalMs?: number;
+  // Ended spans kept while the exporter is slow or down; newer ones are dropped
+  maxQueueSize?: number;
+  logger?: TracerLogger;
+}
+
+// What the active async context knows about the current request
+interface TraceScope {
+  span: Span;
+  requestId: string | null;
+}
+
+// Current time in epoch milliseconds with sub-millisecond precision
+const now = (): number => performance.timeOrigin + performance.now();
+
+/**
+ * A timed operation within a trace. Call end() exactly once; later calls
+ * are ignored.
+ */
+export class Span {
+  private readonly startTime = now();
+  private status: SpanStatus = 'unset';
+  private statusMessage: string | undefined;
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly context: SpanContext,
+    readonly parentSpanId: string | null,
+    private readonly attributes: SpanAttributes
+  ) {}
+
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: SpanStatus, message?: string): this {
+    this.status = status;
+    this.statusMessage = message;
+    return this;
+  }
+
+  // Marks the span as failed with the error's type and message
+  recordError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.setAttribute('exception.type', error instanceof Error ? error.name : typeof error);
+    this.setAttribute('exception.message', message);
+    return this.setStatus('error', message);
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    if (this.context.sampled) {
+      this.tracer.record({
+        name: this.name,
+        kind: this.kind,
+        traceId: this.context.traceId,
+        spanId: this.context.spanId,
+        parentSpanId: this.parentSpanId,
+        startTime: this.startTime,
+        endTime: now(),
+        attributes: { ...this.attributes },
+        status: this.status,
+        statusMessage: this.statusMessage,
+      });
+    }
+  }
+}
+
+/**
+ * Creates spans and tracks the active one per async context, so code deep in
+ * a request (database queries, bcrypt, event publishing) joins the request's
+ * trace without passing it around. Sampled spans are exported in batches.
+ */
+export class Tracer {
+  private readonly storage = new AsyncLocalStorage<TraceScope>();
+  private readonly exporter: SpanExporter | null;
+  private readonly sampleRatio: number;
+  private readonly batchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly logger: TracerLogger;
+  private queue: FinishedSpan[] = [];
+  private exporting: Promise<void> = Promise.resolve();
+  private readonly timer: NodeJS.Timeout | null = null;
+
+  constructor(options: TracerOptions = {}) {
+    this.exporter = options.exporter ?? null;
+    this.sampleRatio = options.sampleRatio ?? 1;
+    this.batchSize = options.batchSize ?? 512;
+    this.maxQueueSize = options.maxQueueSize ?? 2048;
+    this.logger = options.logger ?? console;
+    if (this.exporter) {
+      this.timer = setInterval(() => void this.flush(), options.flushIntervalMs ?? 5000);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Starts a span; it becomes active only inside withSpan() or enter()
+   * @param name - Operation, e.g. `GET /api/users/:id` or `db.query`
+   * @param options - Kind, attributes and parent
+   * @returns Started span
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.activeSpan()?.context ?? null : options.parent;
+    const context: SpanContext = parent
+      ? { traceId: parent.traceId, spanId: newSpanId(), sampled: parent.sampled }
+      : { traceId: newTraceId(), spanId: newSpanId(), sampled: Math.random() < this.sampleRatio };
+    return new Span(this, name, options.kind ?? 'internal', context, parent?.spanId ?? null, { ...options.attributes });
+  }
+
+  /**
+   * Runs work in a new child span of the active one, ending it afterwards
+   * and marking it failed when the work throws
+   * @param name - Operation name
+   * @param options - Kind and attributes
+   * @param work - Receives the span, e.g. to add attributes
+   * @returns Result of work
+   */
+  async withSpan<T>(name: string, options: StartSpanOptions, work: (span: Span) => Promise<T> | T): Promise<T> {
+    const span = this.startSpan(name, options);
+    const requestId = this.storage.getStore()?.requestId ?? null;
+    try {
+      return await this.storage.run({ span, requestId }, () => work(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Makes a span active for the rest of the current async context, for
+   * hooks that cannot wrap the work that follows them
+   * @param span - Span to activate
+   * @param requestId - Request id attached to log lines
+   */
+  enter(span: Span, requestId: string | null = null): void {
+    this.storage.enterWith({ span, requestId });
+  }
+
+  /**
+   * Runs work outside any trace, e.g. background work scheduled from a
+   * request that must not become part of it
+   */
+  detach<T>(work: () => T): T {
+    return this.storage.exit(work);
+  }
+
+  activeSpan(): Span | null {
+    return this.storage.getStore()?.span ?? null;
+  }
+
+  // traceparent of the active span, for work that continues the trace later
+  currentTraceparent(): string | null {
+    const span = this.activeSpan();
+    return span ? formatTraceparent(span.context) : null;
+  }
+
+  /**
+   * Ids for log lines written in the active context
+   * @param includeRequestId - False for loggers that already bind the request id
+   * @returns traceId, spanId and the request's reqId, or nothing outside a trace
+   */
+  logBindings(includeRequestId = true): Record<string, string> {
+    const scope = this.storage.getStore();
+    if (!scope) {
+      return {};
+    }
+    const bindings: Record<string, string> = { traceId: scope.span.context.traceId, spanId: scope.span.context.spanId };
+    if (includeRequestId && scope.requestId) {
+      bindings['reqId'] = scope.requestId;
+    }
+    return bindings;
+  }
+
+  // Queues an ended span; called by Span.end()
+  record(span: FinishedSpan): void {
+    if (!this.exporter || this.queue.length >= this.maxQueueSize) {
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Exports queued spans; export failures are logged and the spans dropped
+   * @returns Resolves when every queued span was handed to the exporter
+   */
+  flush(): Promise<void> {
+    const exporter = this.exporter;
+    if (!exporter) {
+      return Promise.resolve();
+    }
+    this.exporting = this.exporting.then(async () => {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.batchSize);
+        try {
+          await exporter.export(batch);
+        } catch (error) {
+          this.logger.error(`Exporting ${batch.length} spans failed`, error);
+        }
+      }
+    });
+    return this.exporting;
+  }
+
+  // Exports what is queued and stops the flush timer
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    await this.flush();
+    await this.exporter?.shutdown?.();
+  }
+}
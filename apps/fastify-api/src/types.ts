@@ -1,7 +1,32 @@
+// Roles a user can hold; each grants a fixed set of permissions
+export type Role = 'admin' | 'fleet_manager' | 'branch_staff' | 'customer';
+
+// Fine-grained permissions checked by requirePermission
+export type Permission =
+  | 'equipment:read'
+  | 'equipment:write'
+  | 'events:publish'
+  | 'events:read'
+  | 'events:admin'
+  | 'users:read'
+  | 'users:write'
+  | 'system:admin';
+
+// What users who have not verified their email may do: `allow` everything,
+// `limited` to routes marked allowUnverified, or `block` sign-in entirely
+export type UnverifiedAccessPolicy = 'allow' | 'limited' | 'block';
+
 // JWT payload interface
 export interface JwtPayload {
   id: string;
   email: string;
+  // Unique token id used for revocation
+  jti?: string;
+  roles?: Role[];
+  // Effective permissions: role permissions plus direct grants
+  permissions?: Permission[];
+  // Set only on MFA challenge tokens, which are not access tokens
+  purpose?: 'mfa_challenge';
   iat?: number;
   exp?: number;
 }
@@ -10,9 +35,15 @@ export interface JwtPayload {
 export interface User {
   id: string;
   email: string;
-  password: string;
+  passwordHash: string;
   name: string;
+  isActive: boolean;
+  emailVerifiedAt: string | null;
+  roles: Role[];
+  // Permissions granted directly, in addition to those of the user's roles
+  permissions: Permission[];
   createdAt: string;
+  updatedAt: string;
 }
 
 // Login request body
@@ -35,6 +66,181 @@ export interface ProfileUpdateRequest {
 
 // Kafka event request body
 export interface EventRequest {
+  // Versioned type from the event schema registry, e.g. `equipment.checked_out.v1`
   event: string;
   data: Record<string, unknown>;
 }
+
+// GET /api/events query string
+export interface EventListQuery {
+  // Comma-separated versioned types
+  types?: string;
+  userId?: string;
+  // Inclusive lower and exclusive upper bound on createdAt
+  from?: string;
+  to?: string;
+  // Predicates on `data` as `path:operator[:value]`
+  where?: string[];
+  order?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+  format?: 'json' | 'csv' | 'ndjson';
+}
+
+// POST /api/events/replay body
+export interface EventReplayRequest {
+  types?: string[];
+  userId?: string;
+  from?: string;
+  to?: string;
+  where?: string[];
+  // nextCursor of a previous replay that stopped at maxEvents
+  cursor?: string;
+  maxEvents?: number;
+}
+
+// GET /api/events/stream query string
+export interface EventStreamQuery {
+  // `all` streams every user's events and needs events:read
+  scope?: 'own' | 'all';
+  // Comma-separated versioned types
+  types?: string;
+  // For clients that cannot send the Last-Event-ID header
+  lastEventId?: string;
+}
+
+// First message on /api/events/ws, and later to renew the token
+export interface EventStreamAuthMessage {
+  type: 'authenticate';
+  token: string;
+  scope?: 'own' | 'all';
+  types?: string[];
+  lastEventId?: string;
+}
+
+// GET /api/events/dead-letters query string
+export interface DeadLetterListQuery {
+  status?: DeadLetterStatus;
+  consumerGroup?: string;
+  eventType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// GET /api/system/usage query string
+export interface UsageQuery {
+  // Inclusive lower and exclusive upper bound; defaults to the last 24 hours
+  from?: string;
+  to?: string;
+  // Rows of the per-route and per-user breakdowns
+  limit?: number;
+}
+
+// Application event; kafka fields stay null until the outbox relay publishes it
+export interface EventRecord {
+  id: string;
+  type: string;
+  userId: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+  publishedAt: string | null;
+  kafkaPartition: number | null;
+  // BIGINT, kept as a string to avoid precision loss
+  kafkaOffset: string | null;
+}
+
+export type DeadLetterStatus = 'pending' | 'replayed';
+
+// Consumed message a consumer group could not process
+export interface DeadLetter {
+  id: string;
+  consumerGroup: string;
+  topic: string;
+  partition: number;
+  offset: string;
+  // Null when the payload could not be parsed
+  eventId: string | null;
+  eventType: string | null;
+  payload: string;
+  headers: Record<string, string>;
+  error: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  replayedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Server-side session; one row per issued refresh token
+export interface UserSession {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  replacedBy: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+// Refresh token request body
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+// Single-use password reset token; only its hash is stored
+export interface PasswordResetToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+// Forgot password request body
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+// Password reset request body
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+// Email verification request body
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+// Verification email resend request body
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+// TOTP second factor of a user; enabledAt is null until enrollment is confirmed
+export interface UserMfa {
+  userId: string;
+  // Base32 shared secret
+  secret: string;
+  enabledAt: string | null;
+  // Last accepted TOTP time step, so a code cannot be used twice
+  lastUsedStep: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Second login step: challenge token from /api/auth/login plus a TOTP or recovery code
+export interface MfaVerifyRequest {
+  challengeToken: string;
+  code: string;
+}
+
+// Body of MFA management requests that must be confirmed with a current code
+export interface MfaCodeRequest {
+  code: string;
+}
@@ -6,6 +6,9 @@ import { Dashboard } from '../components/Dashboard';
 import { LoginForm } from '../components/LoginForm';
 import { RegisterForm } from '../components/RegisterForm';
 import { ProfilePage } from '../components/ProfilePage';
+import { ForgotPasswordForm } from '../components/ForgotPasswordForm';
+import { ResetPasswordForm } from '../components/ResetPasswordForm';
+import { VerifyEmailPage } from '../components/VerifyEmailPage';
 import { isLocalOnlyMode } from '../utils/api-url';
 import * as styles from '../styles/theme.css';
 
@@ -168,6 +171,30 @@ function AppContent() {
             </div>
           }
         />
+        <Route
+          path="/forgot-password"
+          element={
+            <div className={styles.main}>
+              <ForgotPasswordForm />
+            </div>
+          }
+        />
+        <Route
+          path="/reset-password"
+          element={
+            <div className={styles.main}>
+              <ResetPasswordForm />
+            </div>
+          }
+        />
+        <Route
+          path="/verify-email"
+          element={
+            <div className={styles.main}>
+              <VerifyEmailPage />
+            </div>
+          }
+        />
       </Routes>
     </div>
   );
@@ -0,0 +1,16 @@
+import React, { ReactNode } from 'react';
+import { usePermission, Permission } from '../hooks/usePermission';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only when the signed-in user holds the permission
+ */
+export const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
@@ -0,0 +1,55 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { vi, beforeEach, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+
+global.fetch = vi.fn() as typeof fetch;
+
+describe('ForgotPasswordForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should request a reset link and show the confirmation', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, message: 'If an account exists for that email, a reset link has been sent.' }),
+    });
+    render(
+      <MemoryRouter>
+        <ForgotPasswordForm />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'demo@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Reset Link' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('If an account exists for that email, a reset link has been sent.')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/password/forgot', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ email: 'demo@example.com' }),
+    }));
+  });
+
+  it('should show rate limit errors', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Too many password reset requests. Please try again later.', code: 'RATE_LIMITED' }),
+    });
+    render(
+      <MemoryRouter>
+        <ForgotPasswordForm />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'demo@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Reset Link' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Too many password reset requests. Please try again later.')).toBeInTheDocument();
+    });
+  });
+});
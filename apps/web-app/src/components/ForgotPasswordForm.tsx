@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import * as styles from '../styles/theme.css';
+import { getApiUrl, isLocalOnlyMode } from '../utils/api-url';
+
+export const ForgotPasswordForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      if (isLocalOnlyMode()) {
+        throw new Error('Password reset is not available in demo mode');
+      }
+
+      const response = await fetch(`${getApiUrl()}/api/auth/password/forgot`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Password reset request failed');
+      }
+
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password reset request failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form className={styles.authForm} onSubmit={handleSubmit}>
+      <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Forgot Password</h2>
+
+      <p style={{ fontSize: '0.875rem', color: '#666', marginBottom: '1rem' }}>
+        Enter your account email and we will send you a link to choose a new password.
+      </p>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor="email">
+          Email
+        </label>
+        <input
+          className={styles.input}
+          type="email"
+          id="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          placeholder="Enter your email"
+        />
+      </div>
+
+      {error && <div className={styles.errorMessage}>{error}</div>}
+      {message && <div className={styles.successMessage}>{message}</div>}
+
+      <button
+        className={styles.button}
+        type="submit"
+        disabled={loading}
+        style={{ width: '100%', marginTop: '1rem' }}
+      >
+        {loading ? 'Sending...' : 'Send Reset Link'}
+      </button>
+
+      <p style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem' }}>
+        <Link to="/login">Back to login</Link>
+      </p>
+    </form>
+  );
+};
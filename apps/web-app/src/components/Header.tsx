@@ -1,8 +1,65 @@
-import React, { useContext } from 'react';
+import React, { useContext, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { AuthContext } from '../context/AuthContext';
+import { getApiUrl } from '../utils/api-url';
 import * as styles from '../styles/theme.css';
 
+// Prompts a signed-in user with an unverified email to open their
+// verification link, and lets them request a new one
+const VerifyEmailBanner: React.FC<{ email: string }> = ({ email }) => {
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'error'>('idle');
+
+  const handleResend = async () => {
+    setStatus('sending');
+    try {
+      const response = await fetch(`${getApiUrl()}/api/auth/verify-email/resend`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+      setStatus(response.ok ? 'sent' : 'error');
+    } catch {
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      style={{
+        background: '#fff3cd',
+        color: '#856404',
+        padding: '8px 16px',
+        textAlign: 'center',
+        fontSize: '14px'
+      }}
+    >
+      Please verify your email address. We sent a link to {email}.
+      {status === 'sent' ? (
+        <span style={{ marginLeft: '8px' }}>A new link is on its way.</span>
+      ) : (
+        <button
+          onClick={handleResend}
+          disabled={status === 'sending'}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'inherit',
+            textDecoration: 'underline',
+            cursor: 'pointer',
+            marginLeft: '8px'
+          }}
+        >
+          {status === 'sending' ? 'Sending...' : 'Resend email'}
+        </button>
+      )}
+      {status === 'error' && <span style={{ marginLeft: '8px' }}>Could not send the email. Try again later.</span>}
+    </div>
+  );
+};
+
 export const Header: React.FC = () => {
   const { user, logout } = useContext(AuthContext);
 
@@ -49,6 +106,7 @@ export const Header: React.FC = () => {
           )}
         </ul>
       </nav>
+      {user && user.emailVerified === false && <VerifyEmailBanner email={user.email} />}
     </header>
   );
 };
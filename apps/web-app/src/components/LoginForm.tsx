@@ -1,4 +1,5 @@
 import React, { useState, useContext } from 'react';
+import { Link } from 'react-router-dom';
 import { AuthContext } from '../context/AuthContext';
 import * as styles from '../styles/theme.css';
 
@@ -10,8 +11,9 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login } = useContext(AuthContext);
+  const { login, mfaPending, verifyMfa, cancelMfa } = useContext(AuthContext);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,8 +21,10 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
     setError('');
 
     try {
-      await login(email, password);
-      onSuccess?.();
+      const { mfaRequired } = await login(email, password);
+      if (!mfaRequired) {
+        onSuccess?.();
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -28,6 +32,69 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
     }
   };
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      await verifyMfa(code);
+      onSuccess?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (mfaPending) {
+    return (
+      <form className={styles.authForm} onSubmit={handleVerifyCode}>
+        <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Two-Factor Authentication</h2>
+
+        <div className={styles.formGroup}>
+          <label className={styles.label} htmlFor="mfaCode">
+            Authentication Code
+          </label>
+          <input
+            className={styles.input}
+            type="text"
+            id="mfaCode"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            autoComplete="one-time-code"
+            placeholder="6-digit code or recovery code"
+          />
+        </div>
+
+        {error && <div className={styles.errorMessage}>{error}</div>}
+
+        <button
+          className={styles.button}
+          type="submit"
+          disabled={loading}
+          style={{ width: '100%', marginTop: '1rem' }}
+        >
+          {loading ? 'Verifying...' : 'Verify'}
+        </button>
+
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => {
+            setCode('');
+            setError('');
+            cancelMfa();
+          }}
+          style={{ width: '100%', marginTop: '0.5rem' }}
+        >
+          Back to login
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form className={styles.authForm} onSubmit={handleSubmit}>
       <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Login</h2>
@@ -60,6 +127,9 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
           required
           placeholder="password"
         />
+        <Link to="/forgot-password" style={{ fontSize: '0.8rem', marginTop: '0.25rem', display: 'inline-block' }}>
+          Forgot password?
+        </Link>
       </div>
 
       {error && <div className={styles.errorMessage}>{error}</div>}
@@ -3,6 +3,7 @@ import { AuthContext } from '../context/AuthContext';
 import * as styles from '../styles/theme.css';
 import { getApiUrl, isLocalOnlyMode } from '../utils/api-url';
 import { localAuth } from '../utils/local-auth';
+import { TwoFactorSettings } from './TwoFactorSettings';
 
 interface UserProfile {
   id: string;
@@ -246,6 +247,8 @@ export const ProfilePage: React.FC = () => {
             </div>
           </form>
         )}
+
+        {!isLocalOnlyMode() && <TwoFactorSettings />}
       </div>
     </div>
   );
@@ -0,0 +1,82 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { vi, beforeEach, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { ResetPasswordForm } from './ResetPasswordForm';
+
+global.fetch = vi.fn() as typeof fetch;
+
+const renderAt = (url: string) =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <ResetPasswordForm />
+    </MemoryRouter>
+  );
+
+const fillPasswords = (password: string, confirmPassword = password) => {
+  fireEvent.change(screen.getByLabelText('New Password'), { target: { value: password } });
+  fireEvent.change(screen.getByLabelText('Confirm Password'), { target: { value: confirmPassword } });
+  fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+};
+
+describe('ResetPasswordForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should explain when the link has no token', () => {
+    renderAt('/reset-password');
+
+    expect(screen.getByText('This reset link is missing its token.')).toBeInTheDocument();
+    expect(screen.getByText('Request a new link')).toBeInTheDocument();
+  });
+
+  it('should apply the API password rules before submitting', () => {
+    renderAt('/reset-password?token=abc');
+
+    fillPasswords('lowercase1');
+
+    expect(screen.getByText('Password must contain at least one uppercase letter')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject mismatched passwords', () => {
+    renderAt('/reset-password?token=abc');
+
+    fillPasswords('NewPassword1', 'NewPassword2');
+
+    expect(screen.getByText('Passwords do not match')).toBeInTheDocument();
+  });
+
+  it('should submit the token and new password', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true }),
+    });
+    renderAt('/reset-password?token=abc');
+
+    fillPasswords('NewPassword1');
+
+    await waitFor(() => {
+      expect(screen.getByText('Your password has been reset. You can now log in.')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/password/reset', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ token: 'abc', password: 'NewPassword1' }),
+    }));
+  });
+
+  it('should show API errors such as expired tokens', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Reset token expired', code: 'RESET_TOKEN_EXPIRED' }),
+    });
+    renderAt('/reset-password?token=abc');
+
+    fillPasswords('NewPassword1');
+
+    await waitFor(() => {
+      expect(screen.getByText('Reset token expired')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import * as styles from '../styles/theme.css';
+import { getApiUrl } from '../utils/api-url';
+import { validatePassword } from '../utils/password-rules';
+
+export const ResetPasswordForm: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [completed, setCompleted] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    // Same rules the API enforces
+    const validation = validatePassword(password);
+    if (!validation.valid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`${getApiUrl()}/api/auth/password/reset`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Password reset failed');
+      }
+
+      setCompleted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Password reset failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className={styles.authForm}>
+        <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Reset Password</h2>
+        <div className={styles.errorMessage}>This reset link is missing its token.</div>
+        <p style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem' }}>
+          <Link to="/forgot-password">Request a new link</Link>
+        </p>
+      </div>
+    );
+  }
+
+  if (completed) {
+    return (
+      <div className={styles.authForm}>
+        <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Reset Password</h2>
+        <div className={styles.successMessage}>Your password has been reset. You can now log in.</div>
+        <p style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem' }}>
+          <Link to="/login">Go to login</Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form className={styles.authForm} onSubmit={handleSubmit}>
+      <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Reset Password</h2>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor="password">
+          New Password
+        </label>
+        <input
+          className={styles.input}
+          type="password"
+          id="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          placeholder="Min 6 chars, uppercase, lowercase, number"
+        />
+      </div>
+
+      <div className={styles.formGroup}>
+        <label className={styles.label} htmlFor="confirmPassword">
+          Confirm Password
+        </label>
+        <input
+          className={styles.input}
+          type="password"
+          id="confirmPassword"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          placeholder="Confirm your new password"
+        />
+      </div>
+
+      {error && <div className={styles.errorMessage}>{error}</div>}
+
+      <button
+        className={styles.button}
+        type="submit"
+        disabled={loading}
+        style={{ width: '100%', marginTop: '1rem' }}
+      >
+        {loading ? 'Resetting...' : 'Reset Password'}
+      </button>
+    </form>
+  );
+};
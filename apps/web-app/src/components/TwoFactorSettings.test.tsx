@@ -0,0 +1,88 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, beforeEach, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { AuthContext } from '../context/AuthContext';
+import { TwoFactorSettings } from './TwoFactorSettings';
+
+global.fetch = vi.fn() as typeof fetch;
+
+const mockFetch = global.fetch as ReturnType<typeof vi.fn>;
+
+const respond = (body: unknown, ok = true) => ({ ok, json: () => Promise.resolve(body) });
+
+const renderSettings = () =>
+  render(
+    <AuthContext.Provider
+      value={{
+        user: { id: '1', email: 'admin@example.com', name: 'Admin' },
+        token: 'test-token',
+        login: async () => ({ mfaRequired: false }),
+        register: async () => undefined,
+        logout: () => undefined,
+        refreshSession: async () => false,
+        markEmailVerified: () => undefined,
+        mfaPending: false,
+        verifyMfa: async () => undefined,
+        cancelMfa: () => undefined,
+        loading: false,
+      }}
+    >
+      <TwoFactorSettings />
+    </AuthContext.Provider>
+  );
+
+describe('TwoFactorSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should enroll and show recovery codes once confirmed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond({ enabled: false, recoveryCodesRemaining: 0 }))
+      .mockResolvedValueOnce(respond({ secret: 'JBSWY3DPEHPK3PXP', otpauthUri: 'otpauth://totp/App:admin?secret=JBSWY3DPEHPK3PXP' }))
+      .mockResolvedValueOnce(respond({ success: true, recoveryCodes: ['AAAAA-BBBBB', 'CCCCC-DDDDD'] }))
+      .mockResolvedValueOnce(respond({ enabled: true, recoveryCodesRemaining: 2 }));
+    renderSettings();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Enable Two-Factor Authentication' }));
+    expect(await screen.findByText('JBSWY3DPEHPK3PXP')).toBeInTheDocument();
+    expect(screen.getByText('Open in authenticator app')).toHaveAttribute('href', 'otpauth://totp/App:admin?secret=JBSWY3DPEHPK3PXP');
+
+    fireEvent.change(screen.getByLabelText('Authentication Code'), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm' }));
+
+    expect(await screen.findByText('AAAAA-BBBBB')).toBeInTheDocument();
+    expect(await screen.findByText(/2 recovery codes remaining/)).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/mfa/enroll/confirm', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ code: '123456' }),
+    }));
+  });
+
+  it('should show the API error for a wrong code', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond({ enabled: true, recoveryCodesRemaining: 10 }))
+      .mockResolvedValueOnce(respond({ error: 'Invalid authentication code', code: 'MFA_INVALID_CODE' }, false));
+    renderSettings();
+
+    fireEvent.change(await screen.findByLabelText('Authentication Code'), { target: { value: '000000' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Disable' }));
+
+    expect(await screen.findByText('Invalid authentication code')).toBeInTheDocument();
+  });
+
+  it('should disable two-factor authentication', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond({ enabled: true, recoveryCodesRemaining: 10 }))
+      .mockResolvedValueOnce(respond({ success: true }))
+      .mockResolvedValueOnce(respond({ enabled: false, recoveryCodesRemaining: 0 }));
+    renderSettings();
+
+    fireEvent.change(await screen.findByLabelText('Authentication Code'), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Disable' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Enable Two-Factor Authentication' })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import React, { useCallback, useContext, useEffect, useState } from 'react';
+import { AuthContext } from '../context/AuthContext';
+import * as styles from '../styles/theme.css';
+import { getApiUrl } from '../utils/api-url';
+
+interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const codeBoxStyle: React.CSSProperties = {
+  padding: '0.75rem',
+  backgroundColor: '#f8f9fa',
+  border: '1px solid #dee2e6',
+  borderRadius: '0.375rem',
+  fontFamily: 'monospace',
+  wordBreak: 'break-all'
+};
+
+// Enrollment, recovery codes and disabling of TOTP two-factor authentication
+export const TwoFactorSettings: React.FC = () => {
+  const { token } = useContext(AuthContext);
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const request = useCallback(async <T,>(path: string, method: 'GET' | 'POST', body?: unknown): Promise<T> => {
+    const response = await fetch(`${getApiUrl()}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data as T;
+  }, [token]);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await request<MfaStatus>('/api/auth/mfa', 'GET'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  }, [request]);
+
+  useEffect(() => {
+    if (token) {
+      void loadStatus();
+    }
+  }, [token, loadStatus]);
+
+  // Runs an action, showing its error and clearing the code on success
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await request<Enrollment>('/api/auth/mfa/enroll', 'POST'));
+  });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const data = await request<{ recoveryCodes: string[] }>('/api/auth/mfa/enroll/confirm', 'POST', { code });
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      await loadStatus();
+    });
+  };
+
+  const handleRegenerate = () => run(async () => {
+    const data = await request<{ recoveryCodes: string[] }>('/api/auth/mfa/recovery-codes', 'POST', { code });
+    setRecoveryCodes(data.recoveryCodes);
+    await loadStatus();
+  });
+
+  const handleDisable = () => run(async () => {
+    await request('/api/auth/mfa/disable', 'POST', { code });
+    setRecoveryCodes(null);
+    await loadStatus();
+  });
+
+  const codeInput = (
+    <div className={styles.formGroup}>
+      <label className={styles.label} htmlFor="mfaSettingsCode">
+        Authentication Code
+      </label>
+      <input
+        className={styles.input}
+        type="text"
+        id="mfaSettingsCode"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoComplete="one-time-code"
+        placeholder="6-digit code"
+      />
+    </div>
+  );
+
+  return (
+    <section style={{ marginTop: '2rem', paddingTop: '1.5rem', borderTop: '1px solid #dee2e6' }}>
+      <h2 style={{ marginBottom: '1rem' }}>Two-Factor Authentication</h2>
+
+      {error && <div className={styles.errorMessage}>{error}</div>}
+
+      {recoveryCodes && (
+        <div className={styles.formGroup}>
+          <div className={styles.successMessage}>
+            Save these recovery codes somewhere safe. Each works once if you lose your authenticator, and they will not be shown again.
+          </div>
+          <ul style={{ ...codeBoxStyle, listStyle: 'none', columns: 2 }}>
+            {recoveryCodes.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {!status ? (
+        <p>Loading two-factor status...</p>
+      ) : status.enabled ? (
+        <div>
+          <p style={{ marginBottom: '1rem' }}>
+            Two-factor authentication is <strong>enabled</strong>. {status.recoveryCodesRemaining} recovery codes remaining.
+          </p>
+          {codeInput}
+          <div style={{ display: 'flex', gap: '1rem' }}>
+            <button className={styles.secondaryButton} onClick={handleRegenerate} disabled={busy || !code}>
+              New Recovery Codes
+            </button>
+            <button className={styles.secondaryButton} onClick={handleDisable} disabled={busy || !code}>
+              Disable
+            </button>
+          </div>
+        </div>
+      ) : enrollment ? (
+        <form onSubmit={handleConfirm}>
+          <p style={{ marginBottom: '1rem' }}>
+            Add this account to your authenticator app by opening the setup link on your phone or entering the key, then enter the code it shows.
+          </p>
+          <div className={styles.formGroup}>
+            <label className={styles.label}>Setup Key</label>
+            <div style={codeBoxStyle}>{enrollment.secret}</div>
+            <a href={enrollment.otpauthUri} style={{ fontSize: '0.875rem' }}>Open in authenticator app</a>
+          </div>
+          {codeInput}
+          <button className={styles.button} type="submit" disabled={busy || !code}>
+            {busy ? 'Confirming...' : 'Confirm'}
+          </button>
+        </form>
+      ) : (
+        <div>
+          <p style={{ marginBottom: '1rem' }}>
+            Protect your account with a code from an authenticator app in addition to your password.
+          </p>
+          <button className={styles.button} onClick={handleStart} disabled={busy}>
+            Enable Two-Factor Authentication
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,76 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { vi, beforeEach, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { AuthContext } from '../context/AuthContext';
+import { VerifyEmailPage } from './VerifyEmailPage';
+
+global.fetch = vi.fn() as typeof fetch;
+
+const markEmailVerified = vi.fn();
+
+const renderAt = (url: string) =>
+  render(
+    <AuthContext.Provider
+      value={{
+        user: { id: '1', email: 'test@example.com', name: 'Test User', emailVerified: false },
+        token: 'test-token',
+        login: async () => ({ mfaRequired: false }),
+        register: async () => undefined,
+        logout: () => undefined,
+        refreshSession: async () => false,
+        markEmailVerified,
+        mfaPending: false,
+        verifyMfa: async () => undefined,
+        cancelMfa: () => undefined,
+        loading: false,
+      }}
+    >
+      <MemoryRouter initialEntries={[url]}>
+        <VerifyEmailPage />
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+
+describe('VerifyEmailPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should explain when the link has no token', () => {
+    renderAt('/verify-email');
+
+    expect(screen.getByText('This verification link is missing its token.')).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should verify the token and update the signed-in user', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true, email: 'test@example.com' }),
+    });
+    renderAt('/verify-email?token=abc.def');
+
+    await waitFor(() => {
+      expect(screen.getByText('Your email address has been verified.')).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/verify-email', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ token: 'abc.def' }),
+    }));
+    expect(markEmailVerified).toHaveBeenCalled();
+  });
+
+  it('should show the API error for a rejected token', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Verification link expired', code: 'VERIFICATION_TOKEN_EXPIRED' }),
+    });
+    renderAt('/verify-email?token=abc.def');
+
+    await waitFor(() => {
+      expect(screen.getByText('Verification link expired')).toBeInTheDocument();
+    });
+    expect(markEmailVerified).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AuthContext } from '../context/AuthContext';
+import * as styles from '../styles/theme.css';
+import { getApiUrl } from '../utils/api-url';
+
+export const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const { user, markEmailVerified } = useContext(AuthContext);
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const [verifiedEmail, setVerifiedEmail] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      return;
+    }
+
+    let cancelled = false;
+    const verify = async () => {
+      try {
+        const response = await fetch(`${getApiUrl()}/api/auth/verify-email`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Email verification failed');
+        }
+
+        if (!cancelled) {
+          setVerifiedEmail(data.email);
+          setStatus('verified');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Email verification failed');
+          setStatus('failed');
+        }
+      }
+    };
+
+    void verify();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Hide the Header banner when the link was opened in the signed-in browser
+  useEffect(() => {
+    if (status === 'verified' && user && user.email === verifiedEmail) {
+      markEmailVerified();
+    }
+  }, [status, user, verifiedEmail, markEmailVerified]);
+
+  if (!token) {
+    return (
+      <div className={styles.authForm}>
+        <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Verify Email</h2>
+        <div className={styles.errorMessage}>This verification link is missing its token.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.authForm}>
+      <h2 style={{ textAlign: 'center', marginBottom: '1.5rem' }}>Verify Email</h2>
+      {status === 'verifying' && <p style={{ textAlign: 'center' }}>Verifying your email address...</p>}
+      {status === 'verified' && (
+        <div className={styles.successMessage}>Your email address has been verified.</div>
+      )}
+      {status === 'failed' && <div className={styles.errorMessage}>{error}</div>}
+      {status !== 'verifying' && (
+        <p style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem' }}>
+          <Link to={user ? '/' : '/login'}>{user ? 'Continue' : 'Go to login'}</Link>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -88,6 +88,7 @@ const TestComponent = () => {
       <div data-testid="user">{auth.user?.name || 'No user'}</div>
       <div data-testid="token">{auth.token || 'No token'}</div>
       <div data-testid="loading">{auth.loading ? 'Loading' : 'Not loading'}</div>
+      <div data-testid="mfa">{auth.mfaPending ? 'MFA pending' : 'No MFA'}</div>
       <button onClick={() => auth.login('test@example.com', 'password')}>
         Login
       </button>
@@ -95,6 +96,7 @@ const TestComponent = () => {
         Register
       </button>
       <button onClick={auth.logout}>Logout</button>
+      <button onClick={() => auth.verifyMfa('123456')}>Verify MFA</button>
     </div>
   );
 };
@@ -218,6 +220,40 @@ describe('AuthContext with Idle Timer', () => {
     );
   });
 
+  it('should finish an MFA login with the challenge token', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ mfaRequired: true, challengeToken: 'challenge-1', expiresIn: 300 }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          user: { id: '1', name: 'Test User', email: 'test@example.com' },
+          token: 'test-token'
+        }),
+      });
+
+    renderWithAuthProvider(<TestComponent />);
+
+    fireEvent.click(screen.getByText('Login'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('mfa')).toHaveTextContent('MFA pending');
+    });
+    expect(screen.getByTestId('user')).toHaveTextContent('No user');
+
+    fireEvent.click(screen.getByText('Verify MFA'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+    expect(screen.getByTestId('mfa')).toHaveTextContent('No MFA');
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/auth/mfa/verify', expect.objectContaining({
+      body: JSON.stringify({ challengeToken: 'challenge-1', code: '123456' }),
+    }));
+  });
+
   it('should handle logout correctly', async () => {
     // Start with authenticated user
     localStorageMock.getItem.mockImplementation((key) => {
@@ -241,6 +277,35 @@ describe('AuthContext with Idle Timer', () => {
     expect(localStorageMock.removeItem).toHaveBeenCalledWith('user');
   });
 
+  it('should revoke the session on the server when logging out', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'refresh-1';
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true }),
+    });
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+
+    fireEvent.click(screen.getByText('Logout'));
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/logout', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Authorization': 'Bearer test-token' }),
+      body: JSON.stringify({ refreshToken: 'refresh-1' }),
+    }));
+    expect(screen.getByTestId('token')).toHaveTextContent('No token');
+    expect(localStorageMock.removeItem).toHaveBeenCalledWith('refreshToken');
+  });
+
   it('should auto-logout on idle timeout', async () => {
     // Mock stored user data
     localStorageMock.getItem.mockImplementation((key) => {
@@ -274,6 +339,39 @@ describe('AuthContext with Idle Timer', () => {
     expect(localStorageMock.removeItem).toHaveBeenCalledWith('user');
   });
 
+  it('should revoke the session on the server on idle timeout', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'refresh-1';
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true }),
+    });
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+
+    await act(async () => {
+      if (mockIdleCallback) {
+        mockIdleCallback();
+      }
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/logout', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Authorization': 'Bearer test-token' }),
+      body: JSON.stringify({ refreshToken: 'refresh-1' }),
+    }));
+    expect(screen.getByTestId('token')).toHaveTextContent('No token');
+    expect(localStorageMock.removeItem).toHaveBeenCalledWith('refreshToken');
+  });
+
   it('should show session warning when onWarning is triggered', async () => {
     // Mock stored user data
     localStorageMock.getItem.mockImplementation((key) => {
@@ -329,6 +427,173 @@ describe('AuthContext with Idle Timer', () => {
     expect(screen.queryByTestId('session-warning')).not.toBeInTheDocument();
   });
 
+  it('should refresh the access token when "Stay Logged In" is clicked', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'refresh-1';
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ token: 'new-token', refreshToken: 'refresh-2', expiresIn: 900 }),
+    });
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+
+    act(() => {
+      if (mockWarningCallback) {
+        mockWarningCallback(120);
+      }
+    });
+
+    fireEvent.click(screen.getByText('Stay Logged In'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('token')).toHaveTextContent('new-token');
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/refresh', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ refreshToken: 'refresh-1' }),
+    }));
+    expect(localStorageMock.setItem).toHaveBeenCalledWith('refreshToken', 'refresh-2');
+  });
+
+  it('should silently refresh a token that is about to expire', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'refresh-1';
+      if (key === 'tokenExpiresAt') return String(Date.now() + 30 * 1000);
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ token: 'new-token', refreshToken: 'refresh-2', expiresIn: 900 }),
+    });
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('token')).toHaveTextContent('new-token');
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log out when the refresh token is rejected', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'reused-token';
+      if (key === 'tokenExpiresAt') return String(Date.now());
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+      ok: false,
+      status: 401,
+      json: () => Promise.resolve({ error: 'Refresh token has already been used', code: 'REFRESH_TOKEN_REUSED' }),
+    });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('No user');
+    });
+    expect(localStorageMock.removeItem).toHaveBeenCalledWith('refreshToken');
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should keep the session when a refresh fails on the network', async () => {
+    localStorageMock.getItem.mockImplementation((key) => {
+      if (key === 'token') return 'test-token';
+      if (key === 'refreshToken') return 'refresh-1';
+      if (key === 'tokenExpiresAt') return String(Date.now());
+      if (key === 'user') return JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' });
+      return null;
+    });
+    (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValue(new TypeError('Failed to fetch'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(consoleSpy).toHaveBeenCalledWith('Session refresh failed:', expect.any(TypeError));
+    });
+    expect(screen.getByTestId('token')).toHaveTextContent('test-token');
+    expect(localStorageMock.removeItem).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should refresh while holding the cross-tab lock and adopt a token another tab rotated', async () => {
+    const request = vi.fn((_name: string, refresh: () => Promise<unknown>) => refresh());
+    Object.defineProperty(globalThis.navigator, 'locks', { value: { request }, configurable: true });
+    const stored: Record<string, string> = {
+      token: 'test-token',
+      refreshToken: 'refresh-1',
+      user: JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' }),
+    };
+    localStorageMock.getItem.mockImplementation((key) => stored[key] ?? null);
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+
+    // Another tab refreshed while this one waited for the lock
+    stored['token'] = 'other-tab-token';
+    stored['refreshToken'] = 'refresh-2';
+    act(() => {
+      if (mockWarningCallback) {
+        mockWarningCallback(120);
+      }
+    });
+    fireEvent.click(screen.getByText('Stay Logged In'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('token')).toHaveTextContent('other-tab-token');
+    });
+    expect(request).toHaveBeenCalledWith('auth-token-refresh', expect.any(Function));
+    expect(global.fetch).not.toHaveBeenCalledWith('/api/auth/refresh', expect.anything());
+
+    Reflect.deleteProperty(globalThis.navigator, 'locks');
+  });
+
+  it('should follow logins and logouts of other tabs', async () => {
+    const stored: Record<string, string> = {
+      token: 'test-token',
+      refreshToken: 'refresh-1',
+      user: JSON.stringify({ id: '1', name: 'Test User', email: 'test@example.com' }),
+    };
+    localStorageMock.getItem.mockImplementation((key) => stored[key] ?? null);
+
+    renderWithAuthProvider(<TestComponent />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('user')).toHaveTextContent('Test User');
+    });
+
+    stored['token'] = 'rotated-token';
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'token', newValue: 'rotated-token' }));
+    });
+    expect(screen.getByTestId('token')).toHaveTextContent('rotated-token');
+
+    delete stored['token'];
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'token', newValue: null }));
+    });
+    expect(screen.getByTestId('user')).toHaveTextContent('No user');
+  });
+
   it('should request notification permission on mount', async () => {
     // First login to trigger notification permission request
     localStorageMock.getItem.mockImplementation((key) => {
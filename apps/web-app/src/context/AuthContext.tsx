@@ -1,4 +1,4 @@
-import React, { createContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
+import React, { createContext, useState, useEffect, ReactNode, useMemo, useCallback, useRef } from 'react';
 import 'isomorphic-fetch'; // For SSR compatibility
 import { isLocalOnlyMode } from '../utils/api-url';
 import { localAuth } from '../utils/local-auth';
@@ -9,14 +9,37 @@ interface User {
   id: string;
   email: string;
   name: string;
+  roles?: string[];
+  // Effective permissions returned by the API; see usePermission
+  permissions?: string[];
+  // False until the user opens the link from the verification email
+  emailVerified?: boolean;
+}
+
+interface TokenResponse {
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+// Outcome of the password step; with mfaRequired the user is not signed in
+// until verifyMfa succeeds
+export interface LoginResult {
+  mfaRequired: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => void;
+  refreshSession: () => Promise<boolean>;
+  markEmailVerified: () => void;
+  // True after a correct password when the account still needs its second factor
+  mfaPending: boolean;
+  verifyMfa: (code: string) => Promise<void>;
+  cancelMfa: () => void;
   loading: boolean;
 }
 
@@ -32,9 +55,42 @@ export const AuthContext = createContext<AuthContextType>({
   logout: () => {
     throw new Error('AuthContext not initialized');
   },
+  refreshSession: async () => false,
+  markEmailVerified: () => undefined,
+  mfaPending: false,
+  verifyMfa: async () => {
+    throw new Error('AuthContext not initialized');
+  },
+  cancelMfa: () => undefined,
   loading: false,
 });
 
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN = 60 * 1000; // 1 minute
+
+// Web Lock held while refreshing, so only one tab rotates the refresh token
+// at a time; a second tab would present the rotated token and be treated as
+// reuse, which revokes the whole session
+const REFRESH_LOCK = 'auth-token-refresh';
+
+const SESSION_KEYS = ['token', 'user', 'refreshToken', 'tokenExpiresAt'];
+
+const withRefreshLock = <T,>(refresh: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK, refresh);
+  }
+  return refresh();
+};
+
+const clearStoredSession = () => {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem('token');
+    localStorage.removeItem('user');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('tokenExpiresAt');
+  }
+};
+
 interface AuthProviderProps {
   children: ReactNode;
   isSSR?: boolean;
@@ -45,6 +101,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [showSessionWarning, setShowSessionWarning] = useState(false);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<string | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+
+  const logout = useCallback(() => {
+    const refreshToken = refreshTokenRef.current;
+
+    // Revoke the session server-side; local state is cleared regardless
+    if (token && !isLocalOnlyMode()) {
+      const apiUrl = typeof window !== 'undefined'
+        ? '/api/auth/logout'
+        : `${process.env['VITE_API_URL'] || 'http://localhost:3334'}/api/auth/logout`;
+
+      fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+      }).catch((error) => {
+        console.error('Logout request failed:', error);
+      });
+    }
+
+    setUser(null);
+    setToken(null);
+    setTokenExpiresAt(null);
+    refreshTokenRef.current = null;
+
+    // Clear localStorage only on client side
+    clearStoredSession();
+  }, [token]);
 
   // Auto-logout after 15 minutes of idle time
   const IDLE_TIMEOUT = 15 * 60 * 1000; // 15 minutes in milliseconds
@@ -53,13 +142,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
   const handleIdleLogout = useCallback(() => {
     if (user && token) {
       console.log('Auto-logout due to inactivity');
-      // We'll call logout function defined below
-      setUser(null);
-      setToken(null);
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
-      }
+      // Same as an explicit logout, so the session is revoked server-side too
+      logout();
       setShowSessionWarning(false);
 
       // Show notification to user if possible
@@ -72,12 +156,109 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
         }
       }
     }
-  }, [user, token]);
+  }, [user, token, logout]);
 
-  const handleSessionWarning = useCallback((timeRemaining: number) => {
+  const handleSessionWarning = useCallback((_timeRemaining: number) => {
     setShowSessionWarning(true);
   }, []);
 
+  // Store a freshly issued access/refresh token pair
+  const storeTokens = useCallback((data: TokenResponse) => {
+    const expiresAt = data.expiresIn ? Date.now() + data.expiresIn * 1000 : null;
+    setToken(data.token);
+    setTokenExpiresAt(expiresAt);
+    refreshTokenRef.current = data.refreshToken ?? null;
+
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('token', data.token);
+      if (data.refreshToken) {
+        localStorage.setItem('refreshToken', data.refreshToken);
+      }
+      if (expiresAt) {
+        localStorage.setItem('tokenExpiresAt', String(expiresAt));
+      }
+    }
+  }, []);
+
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setToken(null);
+    setTokenExpiresAt(null);
+    refreshTokenRef.current = null;
+  }, []);
+
+  // Take over the session another tab stored, or end this one if it logged out
+  const adoptStoredSession = useCallback(() => {
+    const storedToken = localStorage.getItem('token');
+    const storedUser = localStorage.getItem('user');
+    if (!storedToken || !storedUser) {
+      clearSession();
+      return;
+    }
+
+    try {
+      const storedExpiresAt = Number(localStorage.getItem('tokenExpiresAt'));
+      setUser(JSON.parse(storedUser));
+      setToken(storedToken);
+      setTokenExpiresAt(storedExpiresAt > 0 ? storedExpiresAt : null);
+      refreshTokenRef.current = localStorage.getItem('refreshToken');
+    } catch (error) {
+      console.error('Error parsing stored user:', error);
+    }
+  }, [clearSession]);
+
+  // Exchange the refresh token for a new access token; ends the session only
+  // if the API rejects it (expired, revoked or reused), not on network errors
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    if (isLocalOnlyMode()) {
+      return false;
+    }
+
+    return withRefreshLock(async () => {
+      // Read the token only now: another tab may have rotated it meanwhile
+      const storedRefreshToken = typeof window !== 'undefined' ? localStorage.getItem('refreshToken') : null;
+      const refreshToken = storedRefreshToken ?? refreshTokenRef.current;
+      if (!refreshToken) {
+        return false;
+      }
+      if (storedRefreshToken && storedRefreshToken !== refreshTokenRef.current) {
+        adoptStoredSession();
+        return true;
+      }
+
+      try {
+        const apiUrl = typeof window !== 'undefined'
+          ? '/api/auth/refresh'
+          : `${process.env['VITE_API_URL'] || 'http://localhost:3334'}/api/auth/refresh`;
+
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (response.status === 401) {
+          console.error('Session refresh rejected');
+          clearSession();
+          clearStoredSession();
+          return false;
+        }
+        if (!response.ok) {
+          throw new Error(`Session refresh failed with status ${response.status}`);
+        }
+
+        storeTokens(await response.json() as TokenResponse);
+        return true;
+      } catch (error) {
+        // Keep the session on network and server errors; only a rejected token ends it
+        console.error('Session refresh failed:', error);
+        return false;
+      }
+    });
+  }, [storeTokens, clearSession, adoptStoredSession]);
+
   // Initialize idle timer - only when user is logged in and not in SSR
   const idleTimer = useIdleTimer({
     timeout: IDLE_TIMEOUT,
@@ -93,7 +274,38 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
     if (idleTimer) {
       idleTimer.reset();
     }
-  }, [idleTimer]);
+    // Renew the access token too, otherwise it still expires underneath the user
+    void refreshSession();
+  }, [idleTimer, refreshSession]);
+
+  // Silently refresh the access token shortly before it expires
+  useEffect(() => {
+    if (isSSR || !token || !tokenExpiresAt) {
+      return undefined;
+    }
+
+    const delay = Math.max(tokenExpiresAt - Date.now() - REFRESH_MARGIN, 0);
+    const timeoutId = setTimeout(() => {
+      void refreshSession();
+    }, delay);
+
+    return () => clearTimeout(timeoutId);
+  }, [isSSR, token, tokenExpiresAt, refreshSession]);
+
+  // Follow logins, refreshes and logouts of other tabs
+  useEffect(() => {
+    if (isSSR || typeof window === 'undefined') {
+      return undefined;
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || SESSION_KEYS.includes(event.key)) {
+        adoptStoredSession();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [isSSR, adoptStoredSession]);
 
   useEffect(() => {
     // Only run on client side
@@ -104,12 +316,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
       if (storedToken && storedUser) {
         try {
           const parsedUser = JSON.parse(storedUser);
+          const storedExpiresAt = Number(localStorage.getItem('tokenExpiresAt'));
+          refreshTokenRef.current = localStorage.getItem('refreshToken');
           setToken(storedToken);
+          setTokenExpiresAt(storedExpiresAt > 0 ? storedExpiresAt : null);
           setUser(parsedUser);
         } catch (error) {
           console.error('Error parsing stored user:', error);
           localStorage.removeItem('user');
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
+          localStorage.removeItem('tokenExpiresAt');
           // Don't set the token or user if parsing failed
         }
       }
@@ -121,7 +338,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
     }
   }, []);
 
-  const login = useCallback(async (email: string, password: string) => {
+  const login = useCallback(async (email: string, password: string): Promise<LoginResult> => {
     setLoading(true);
     try {
       // Use local auth for GitHub Pages, API for development
@@ -152,19 +369,71 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
           throw new Error(error.error || error.message || 'Login failed');
         }
 
-        const data = await response.json() as { token: string; user: User };
-        setToken(data.token);
+        const data = await response.json() as (TokenResponse & { user: User }) | { mfaRequired: true; challengeToken: string };
+
+        // Accounts with two-factor authentication finish signing in through verifyMfa
+        if ('mfaRequired' in data) {
+          setMfaChallenge(data.challengeToken);
+          return { mfaRequired: true };
+        }
+
+        storeTokens(data);
         setUser(data.user);
 
         // Store in localStorage only on client side
         if (typeof window !== 'undefined') {
-          localStorage.setItem('token', data.token);
           localStorage.setItem('user', JSON.stringify(data.user));
         }
       }
+      return { mfaRequired: false };
     } finally {
       setLoading(false);
     }
+  }, [storeTokens]);
+
+  const verifyMfa = useCallback(async (code: string) => {
+    if (!mfaChallenge) {
+      throw new Error('Please log in again');
+    }
+
+    setLoading(true);
+    try {
+      const apiUrl = typeof window !== 'undefined'
+        ? '/api/auth/mfa/verify'
+        : `${process.env['VITE_API_URL'] || 'http://localhost:3334'}/api/auth/mfa/verify`;
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken: mfaChallenge, code }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json() as { error?: string; code?: string };
+        // An expired challenge cannot be retried; start over at the password step
+        if (error.code === 'MFA_CHALLENGE_INVALID') {
+          setMfaChallenge(null);
+        }
+        throw new Error(error.error || 'Verification failed');
+      }
+
+      const data = await response.json() as TokenResponse & { user: User };
+      setMfaChallenge(null);
+      storeTokens(data);
+      setUser(data.user);
+
+      if (typeof window !== 'undefined') {
+        localStorage.setItem('user', JSON.stringify(data.user));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [mfaChallenge, storeTokens]);
+
+  const cancelMfa = useCallback(() => {
+    setMfaChallenge(null);
   }, []);
 
   const register = useCallback(async (email: string, password: string, name: string) => {
@@ -198,30 +467,38 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
           throw new Error(error.error || error.message || 'Registration failed');
         }
 
-        const data = await response.json() as { token: string; user: User };
-        setToken(data.token);
+        const data = await response.json() as Partial<TokenResponse> & { user: User };
+
+        // The API withholds tokens when unverified accounts may not sign in
+        if (!data.token) {
+          throw new Error('Account created. Check your email for a verification link, then log in.');
+        }
+
+        storeTokens({ ...data, token: data.token });
         setUser(data.user);
 
         // Store in localStorage only on client side
         if (typeof window !== 'undefined') {
-          localStorage.setItem('token', data.token);
           localStorage.setItem('user', JSON.stringify(data.user));
         }
       }
     } finally {
       setLoading(false);
     }
-  }, []);
-
-  const logout = useCallback(() => {
-    setUser(null);
-    setToken(null);
+  }, [storeTokens]);
 
-    // Clear localStorage only on client side
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-    }
+  // Called after the verification link was redeemed in this browser
+  const markEmailVerified = useCallback(() => {
+    setUser((current) => {
+      if (!current) {
+        return current;
+      }
+      const verified = { ...current, emailVerified: true };
+      if (typeof window !== 'undefined') {
+        localStorage.setItem('user', JSON.stringify(verified));
+      }
+      return verified;
+    });
   }, []);
 
   // Memoize the context value to prevent unnecessary re-renders
@@ -231,8 +508,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, isSSR = fa
     login,
     register,
     logout,
+    refreshSession,
+    markEmailVerified,
+    mfaPending: mfaChallenge !== null,
+    verifyMfa,
+    cancelMfa,
     loading
-  }), [user, token, login, register, logout, loading]);
+  }), [user, token, login, register, logout, refreshSession, markEmailVerified, mfaChallenge, verifyMfa, cancelMfa, loading]);
 
   return (
     <AuthContext.Provider value={contextValue}>
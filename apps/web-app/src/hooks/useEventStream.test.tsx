@@ -0,0 +1,138 @@
+import { ReactNode } from 'react';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthContext } from '../context/AuthContext';
+import { useEventStream } from './useEventStream';
+
+const createWrapper = (overrides: { token?: string | null; refreshSession?: () => Promise<boolean> } = {}) => {
+  const value = {
+    user: { id: 'user-1', email: 'test@example.com', name: 'Test User' },
+    token: 'test-token',
+    login: async () => ({ mfaRequired: false }),
+    register: async () => undefined,
+    logout: () => undefined,
+    refreshSession: async () => false,
+    markEmailVerified: () => undefined,
+    mfaPending: false,
+    verifyMfa: async () => undefined,
+    cancelMfa: () => undefined,
+    loading: false,
+    ...overrides,
+  };
+  return ({ children }: { children: ReactNode }) => (
+    <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  );
+};
+
+// Response whose body the test writes to
+const createStream = () => {
+  let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+  });
+  const encoder = new TextEncoder();
+  return {
+    response: { ok: true, status: 200, body },
+    push: (text: string) => controller?.enqueue(encoder.encode(text)),
+    close: () => controller?.close(),
+  };
+};
+
+const message = (id: string) =>
+  `id: ${id}\ndata: ${JSON.stringify({ id, type: 'equipment.returned.v1', userId: 'user-1', data: {}, createdAt: '2024-01-01T00:00:00.000Z' })}\n\n`;
+
+describe('useEventStream', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it('should authenticate and deliver events split across chunks', async () => {
+    const stream = createStream();
+    fetchMock.mockResolvedValueOnce(stream.response);
+    const onEvent = vi.fn();
+
+    const { result } = renderHook(() => useEventStream({ types: ['equipment.returned.v1'], onEvent }), {
+      wrapper: createWrapper(),
+    });
+    await waitFor(() => expect(result.current.status).toBe('open'));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/events/stream?scope=own&types=equipment.returned.v1');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer test-token' });
+
+    act(() => {
+      const text = message('event-1');
+      stream.push(': heartbeat\n\n' + text.slice(0, 20));
+      stream.push(text.slice(20));
+    });
+
+    await waitFor(() => expect(result.current.events.map(({ id }) => id)).toEqual(['event-1']));
+    expect(onEvent).toHaveBeenCalledWith(expect.objectContaining({ id: 'event-1' }));
+  });
+
+  it('should reconnect with Last-Event-ID after the stream ends', async () => {
+    const first = createStream();
+    const second = createStream();
+    fetchMock.mockResolvedValueOnce(first.response).mockResolvedValueOnce(second.response);
+
+    const { result } = renderHook(() => useEventStream({ retryDelay: 5 }), { wrapper: createWrapper() });
+    await waitFor(() => expect(result.current.status).toBe('open'));
+    act(() => {
+      first.push(message('event-1'));
+      first.close();
+    });
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'Last-Event-ID': 'event-1' });
+  });
+
+  it('should back off after failed connections', async () => {
+    fetchMock.mockRejectedValue(new Error('Failed to fetch'));
+
+    const { result } = renderHook(() => useEventStream({ retryDelay: 5, maxRetryDelay: 20 }), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(fetchMock.mock.calls.length).toBeGreaterThanOrEqual(3));
+    expect(result.current.status).toBe('reconnecting');
+    expect(result.current.error).toBe('Failed to fetch');
+  });
+
+  it('should refresh the session when the token is rejected', async () => {
+    const refreshSession = vi.fn().mockResolvedValue(true);
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 401, body: null })
+      .mockResolvedValueOnce(createStream().response);
+
+    const { result } = renderHook(() => useEventStream({ retryDelay: 5 }), { wrapper: createWrapper({ refreshSession }) });
+
+    await waitFor(() => expect(result.current.status).toBe('open'));
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up when the session cannot be refreshed or access is denied', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 401, body: null });
+    const { result: unauthorized } = renderHook(() => useEventStream(), { wrapper: createWrapper() });
+    await waitFor(() => expect(unauthorized.current.status).toBe('closed'));
+
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 403, body: null });
+    const { result: forbidden } = renderHook(() => useEventStream({ scope: 'all' }), { wrapper: createWrapper() });
+    await waitFor(() => expect(forbidden.current.status).toBe('closed'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stay idle when signed out', () => {
+    const { result } = renderHook(() => useEventStream(), { wrapper: createWrapper({ token: null }) });
+
+    expect(result.current.status).toBe('idle');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import { useContext, useEffect, useRef, useState } from 'react';
+import { AuthContext } from '../context/AuthContext';
+import { getApiUrl, isLocalOnlyMode } from '../utils/api-url';
+
+// Event as pushed by GET /api/events/stream
+export interface StreamEvent<T = unknown> {
+  id: string;
+  type: string;
+  userId: string | null;
+  data: T;
+  createdAt: string;
+}
+
+export type EventStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+interface UseEventStreamOptions {
+  // Versioned event types to receive; all types when omitted
+  types?: string[];
+  // `all` streams every user's events and needs the events:read permission
+  scope?: 'own' | 'all';
+  enabled?: boolean;
+  onEvent?: (event: StreamEvent) => void;
+  // Events kept in the returned list, newest last
+  maxEvents?: number;
+  // First reconnect delay in milliseconds; doubles per failed attempt
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  // Reconnect when not even a heartbeat arrived for this long
+  idleTimeout?: number;
+}
+
+// The API refused the token; refresh the session before reconnecting
+class StreamUnauthorizedError extends Error {}
+
+// The user may not open this stream; reconnecting will not help
+class StreamForbiddenError extends Error {}
+
+// Splits complete Server-Sent Events messages off the buffer
+const parseMessages = (buffer: string): { messages: { id: string | null; data: string }[]; rest: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+  const messages = blocks.flatMap((block) => {
+    let id: string | null = null;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      // Lines starting with a colon are comments, used for heartbeats
+      if (line.startsWith('id:')) {
+        id = line.slice(3).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    return data.length > 0 ? [{ id, data: data.join('\n') }] : [];
+  });
+  return { messages, rest };
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Subscribes to the API's event stream while the user is signed in. Drops
+ * are retried with exponential backoff and resume after the last received
+ * event; a rejected token refreshes the session through AuthContext first.
+ * @returns Connection status, received events and the last error
+ */
+export const useEventStream = ({
+  types,
+  scope = 'own',
+  enabled = true,
+  onEvent,
+  maxEvents = 100,
+  retryDelay = 1000,
+  maxRetryDelay = 30000,
+  idleTimeout = 45000,
+}: UseEventStreamOptions = {}) => {
+  const { token, refreshSession } = useContext(AuthContext);
+  const [status, setStatus] = useState<EventStreamStatus>('idle');
+  const [events, setEvents] = useState<StreamEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read when (re)connecting, so a refreshed token is picked up without
+  // tearing the stream down
+  const tokenRef = useRef(token);
+  const refreshSessionRef = useRef(refreshSession);
+  const onEventRef = useRef(onEvent);
+  const lastEventIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    tokenRef.current = token;
+  }, [token]);
+
+  useEffect(() => {
+    refreshSessionRef.current = refreshSession;
+  }, [refreshSession]);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const signedIn = !!token;
+  const typesKey = types?.join(',') ?? '';
+
+  useEffect(() => {
+    if (!enabled || !signedIn || isLocalOnlyMode()) {
+      setStatus('idle');
+      return;
+    }
+
+    const stopped = new AbortController();
+
+    const readStream = async (onOpen: () => void) => {
+      // Aborted by the idle watchdog or when the hook stops
+      const attempt = new AbortController();
+      const abort = () => attempt.abort();
+      stopped.signal.addEventListener('abort', abort, { once: true });
+      let watchdog: ReturnType<typeof setTimeout> | null = null;
+      const resetWatchdog = () => {
+        if (watchdog) clearTimeout(watchdog);
+        watchdog = setTimeout(abort, idleTimeout);
+      };
+
+      try {
+        const params = new URLSearchParams({ scope });
+        if (typesKey) params.set('types', typesKey);
+        const headers: Record<string, string> = {
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${tokenRef.current}`,
+        };
+        if (lastEventIdRef.current) headers['Last-Event-ID'] = lastEventIdRef.current;
+
+        const response = await fetch(`${getApiUrl()}/api/events/stream?${params}`, {
+          headers,
+          cache: 'no-store',
+          signal: attempt.signal,
+        });
+        if (response.status === 401) throw new StreamUnauthorizedError('Event stream token rejected');
+        if (response.status === 403) throw new StreamForbiddenError('Not allowed to stream these events');
+        if (!response.ok || !response.body) throw new Error(`Event stream failed with status ${response.status}`);
+
+        setStatus('open');
+        setError(null);
+        onOpen();
+        resetWatchdog();
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) return;
+          resetWatchdog();
+
+          const parsed = parseMessages(buffer + decoder.decode(value, { stream: true }));
+          buffer = parsed.rest;
+          for (const message of parsed.messages) {
+            const event = JSON.parse(message.data) as StreamEvent;
+            lastEventIdRef.current = message.id ?? event.id;
+            setEvents((previous) => [...previous, event].slice(-maxEvents));
+            onEventRef.current?.(event);
+          }
+        }
+      } finally {
+        if (watchdog) clearTimeout(watchdog);
+        stopped.signal.removeEventListener('abort', abort);
+      }
+    };
+
+    const run = async () => {
+      let failures = 0;
+      // Whether the session was refreshed since the stream was last open
+      let refreshed = false;
+      setStatus('connecting');
+
+      while (!stopped.signal.aborted) {
+        try {
+          // Ends cleanly when the server closes the stream, e.g. on token expiry
+          await readStream(() => {
+            failures = 0;
+            refreshed = false;
+          });
+        } catch (caught) {
+          if (stopped.signal.aborted) return;
+          if (caught instanceof StreamForbiddenError) {
+            setError(caught.message);
+            setStatus('closed');
+            return;
+          }
+          if (caught instanceof StreamUnauthorizedError) {
+            // Reconnect after the usual delay, by which the new token is in context
+            if (refreshed || !await refreshSessionRef.current()) {
+              setError(caught.message);
+              setStatus('closed');
+              return;
+            }
+            refreshed = true;
+          } else {
+            failures++;
+          }
+          setError(caught instanceof Error ? caught.message : String(caught));
+        }
+
+        if (stopped.signal.aborted) return;
+        setStatus('reconnecting');
+        await wait(Math.min(maxRetryDelay, retryDelay * 2 ** Math.max(0, failures - 1)), stopped.signal);
+      }
+    };
+
+    void run();
+
+    return () => {
+      stopped.abort();
+    };
+  }, [enabled, signedIn, scope, typesKey, maxEvents, retryDelay, maxRetryDelay, idleTimeout]);
+
+  return { status, events, error };
+};
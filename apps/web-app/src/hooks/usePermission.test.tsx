@@ -0,0 +1,83 @@
+import { ReactNode } from 'react';
+import { render, renderHook, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { AuthContext } from '../context/AuthContext';
+import { Can } from '../components/Can';
+import { usePermission } from './usePermission';
+
+const createWrapper = (permissions?: string[]) => {
+  const value = {
+    user: { id: '1', email: 'test@example.com', name: 'Test User', roles: ['branch_staff'], permissions },
+    token: 'test-token',
+    login: async () => ({ mfaRequired: false }),
+    register: async () => undefined,
+    logout: () => undefined,
+    refreshSession: async () => false,
+    markEmailVerified: () => undefined,
+    mfaPending: false,
+    verifyMfa: async () => undefined,
+    cancelMfa: () => undefined,
+    loading: false,
+  };
+  return ({ children }: { children: ReactNode }) => (
+    <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+  );
+};
+
+describe('usePermission', () => {
+  it('should report held permissions', () => {
+    const { result } = renderHook(() => usePermission('equipment:write'), {
+      wrapper: createWrapper(['equipment:read', 'equipment:write']),
+    });
+
+    expect(result.current).toBe(true);
+  });
+
+  it('should require every permission in a list', () => {
+    const { result } = renderHook(() => usePermission(['equipment:write', 'users:write']), {
+      wrapper: createWrapper(['equipment:write']),
+    });
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should deny everything when signed out', () => {
+    const { result } = renderHook(() => usePermission('equipment:read'));
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should deny users without permission data', () => {
+    const { result } = renderHook(() => usePermission('equipment:read'), {
+      wrapper: createWrapper(undefined),
+    });
+
+    expect(result.current).toBe(false);
+  });
+});
+
+describe('Can', () => {
+  it('should render children when permitted', () => {
+    render(
+      <Can permission="equipment:write">
+        <button>Edit equipment</button>
+      </Can>,
+      { wrapper: createWrapper(['equipment:write']) }
+    );
+
+    expect(screen.getByText('Edit equipment')).toBeInTheDocument();
+  });
+
+  it('should render the fallback when not permitted', () => {
+    render(
+      <Can permission="users:write" fallback={<span>Read only</span>}>
+        <button>Manage users</button>
+      </Can>,
+      { wrapper: createWrapper(['equipment:read']) }
+    );
+
+    expect(screen.queryByText('Manage users')).not.toBeInTheDocument();
+    expect(screen.getByText('Read only')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,26 @@
+import { useContext } from 'react';
+import { AuthContext } from '../context/AuthContext';
+
+// Permissions enforced by the API's requirePermission preHandler
+export type Permission =
+  | 'equipment:read'
+  | 'equipment:write'
+  | 'events:publish'
+  | 'events:read'
+  | 'events:admin'
+  | 'users:read'
+  | 'users:write'
+  | 'system:admin';
+
+/**
+ * Checks whether the signed-in user holds permissions. Only hides UI; the
+ * API still enforces every permission server-side.
+ * @param required - One permission or a list that must all be held
+ * @returns True if the user holds every required permission
+ */
+export const usePermission = (required: Permission | Permission[]): boolean => {
+  const { user } = useContext(AuthContext);
+  const granted = user?.permissions ?? [];
+  const permissions = Array.isArray(required) ? required : [required];
+  return permissions.every((permission) => granted.includes(permission));
+};
@@ -3,6 +3,10 @@ import { createServer as createViteServer } from 'vite';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { formatTraceparent, REQUEST_ID_HEADER, RequestTrace, startRequestTrace, traceHeaders } from './trace-context';
+import { isMetricsRequestAllowed, MetricsRegistry, PROMETHEUS_CONTENT_TYPE, registerRuntimeMetrics } from './metrics';
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -10,12 +14,55 @@ const __dirname = path.dirname(__filename);
 
 const isProduction = process.env['NODE_ENV'] === 'production';
 const port = parseInt(process.env['PORT'] || '4201', 10);
+// Scrapers send this as a bearer token; unset, only loopback clients may read /metrics
+const metricsToken = process.env['METRICS_TOKEN'];
 
 async function createServer() {
   console.log('Creating SSR server...');
-  const app = fastify({ logger: true });
+  // Trace per raw request, started in genReqId so every request log line carries it
+  const traces = new WeakMap<object, RequestTrace>();
+  const app = fastify({
+    logger: true,
+    genReqId: (raw) => {
+      const trace = startRequestTrace(raw.headers);
+      traces.set(raw, trace);
+      return trace.requestId;
+    },
+    childLoggerFactory: (logger, bindings, options, raw) => {
+      const trace = traces.get(raw);
+      return logger.child(trace ? { ...bindings, traceId: trace.traceId, spanId: trace.spanId } : bindings, options);
+    },
+  });
   let vite: import('vite').ViteDevServer | null = null;
 
+  app.addHook('onRequest', async (request, reply) => {
+    const trace = traces.get(request.raw);
+    if (trace) {
+      reply.header(REQUEST_ID_HEADER, trace.requestId).header('traceresponse', formatTraceparent(trace));
+    }
+  });
+
+  // Request counts and latency by route template, so page URLs add no series
+  const metrics = new MetricsRegistry();
+  registerRuntimeMetrics(metrics);
+  const httpLabels = ['method', 'route', 'status_code'];
+  const httpRequests = metrics.counter('http_requests_total', 'HTTP requests served', httpLabels);
+  const httpDuration = metrics.histogram('http_request_duration_seconds', 'HTTP request latency in seconds', httpLabels);
+  const renderDuration = metrics.histogram('ssr_render_duration_seconds', 'Time to load the template and render a page in seconds', ['result']);
+
+  app.addHook('onResponse', async (request, reply) => {
+    const labels = { method: request.method, route: request.routeOptions.url ?? 'unmatched', status_code: reply.statusCode };
+    httpRequests.inc(labels);
+    httpDuration.observe(labels, reply.elapsedTime / 1000);
+  });
+
+  app.get('/metrics', async (request, reply) => {
+    if (!isMetricsRequestAllowed(request.headers, request.ip, metricsToken)) {
+      return reply.code(metricsToken ? 401 : 403).send({ error: 'Metrics are not available to this client' });
+    }
+    return reply.type(PROMETHEUS_CONTENT_TYPE).send(metrics.metrics());
+  });
+
   if (isProduction && process.env['CI'] !== 'true') {
     // For production, skip Vite and static file serving for now
     console.log('Running in production mode - simplified SSR');
@@ -82,18 +129,37 @@ async function createServer() {
             requestHeaders[key] = value[0];
           }
         });
+        // Continue this request's trace in the API
+        const trace = traces.get(request.raw);
+        if (trace) {
+          Object.assign(requestHeaders, traceHeaders(trace));
+        }
+
+        // Stop the upstream request when the browser goes away
+        const upstream = new AbortController();
+        reply.raw.on('close', () => upstream.abort());
 
         const response = await fetch(apiUrl, {
           method: request.method,
           headers: requestHeaders,
           body: request.method !== 'GET' && request.method !== 'HEAD' ? JSON.stringify(request.body) : undefined,
+          signal: upstream.signal,
         });
 
-        const data = await response.text();
         const headers: Record<string, string> = {};
         response.headers.forEach((value, key) => {
           headers[key] = value;
         });
+
+        // Event streams stay open, so pass them through instead of buffering
+        if (response.headers.get('content-type')?.startsWith('text/event-stream') && response.body) {
+          return reply
+            .code(response.status)
+            .headers(headers)
+            .send(Readable.fromWeb(response.body as NodeReadableStream));
+        }
+
+        const data = await response.text();
         reply
           .code(response.status)
           .headers(headers)
@@ -144,6 +210,7 @@ async function createServer() {
   // SSR route handler for all routes (except health and assets)
   app.get('/*', async (request, reply) => {
     const url = request.url;
+    const renderStart = performance.now();
 
     try {
       let template: string;
@@ -217,8 +284,10 @@ async function createServer() {
       // Replace the placeholder with the rendered app HTML
       const html = template.replace('<!--ssr-outlet-->', appHtml);
 
+      renderDuration.observe({ result: 'success' }, (performance.now() - renderStart) / 1000);
       reply.type('text/html').code(200).send(html);
     } catch (error) {
+      renderDuration.observe({ result: 'error' }, (performance.now() - renderStart) / 1000);
       if (!(isProduction && process.env['CI'] !== 'true') && vite) {
         vite.ssrFixStacktrace(error as Error);
       }
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { isMetricsRequestAllowed, MetricsRegistry, registerRuntimeMetrics } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('should serialize counters and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('http_requests_total', 'HTTP requests served', ['route', 'status_code']);
+    const render = registry.histogram('ssr_render_duration_seconds', 'Render time', ['result'], [0.1, 1]);
+
+    requests.inc({ route: '/*', status_code: 200 });
+    requests.inc({ route: '/*', status_code: 200 });
+    render.observe({ result: 'success' }, 0.05);
+    render.observe({ result: 'success' }, 3);
+
+    expect(registry.metrics()).toBe([
+      '# HELP http_requests_total HTTP requests served',
+      '# TYPE http_requests_total counter',
+      'http_requests_total{route="/*",status_code="200"} 2',
+      '# HELP ssr_render_duration_seconds Render time',
+      '# TYPE ssr_render_duration_seconds histogram',
+      'ssr_render_duration_seconds_bucket{result="success",le="0.1"} 1',
+      'ssr_render_duration_seconds_bucket{result="success",le="1"} 1',
+      'ssr_render_duration_seconds_bucket{result="success",le="+Inf"} 2',
+      'ssr_render_duration_seconds_sum{result="success"} 3.05',
+      'ssr_render_duration_seconds_count{result="success"} 2',
+      '',
+    ].join('\n'));
+  });
+
+  it('should read runtime metrics on every scrape', () => {
+    const registry = new MetricsRegistry();
+    registerRuntimeMetrics(registry);
+
+    const output = registry.metrics();
+
+    expect(output).toContain('# TYPE process_cpu_seconds_total counter');
+    expect(output).toMatch(/^process_resident_memory_bytes \d+$/m);
+  });
+});
+
+describe('isMetricsRequestAllowed', () => {
+  it('should allow only loopback clients without a token', () => {
+    expect(isMetricsRequestAllowed({}, '127.0.0.1', undefined)).toBe(true);
+    expect(isMetricsRequestAllowed({}, '10.0.0.5', undefined)).toBe(false);
+  });
+
+  it('should require the bearer token once configured', () => {
+    expect(isMetricsRequestAllowed({ authorization: 'Bearer secret' }, '10.0.0.5', 'secret')).toBe(true);
+    expect(isMetricsRequestAllowed({ authorization: 'Bearer other' }, '127.0.0.1', 'secret')).toBe(false);
+    expect(isMetricsRequestAllowed({}, '127.0.0.1', 'secret')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { monitorEventLoopDelay } from 'perf_hooks';
+
+// Metrics of the SSR server in the Prometheus text format. The API keeps its
+// own registry; the two servers share no code at runtime.
+
+export type Labels = Record<string, string | number>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Page renders and proxied requests, from 5ms to 10s
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : Number.isNaN(value) ? 'NaN' : '-Inf';
+
+interface Series<T> {
+  labels: string;
+  value: T;
+}
+
+/**
+ * One metric and its series. Counters hold a number, histograms bucket
+ * counts; collected metrics are read from the process on every scrape.
+ */
+abstract class Metric<T> {
+  protected readonly series = new Map<string, Series<T>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = []
+  ) {}
+
+  protected seriesFor(labels: Labels, initial: () => T): Series<T> {
+    const text = this.labelNames.map((label) => `${label}="${escapeLabelValue(String(labels[label] ?? ''))}"`).join(',');
+    let entry = this.series.get(text);
+    if (!entry) {
+      entry = { labels: text, value: initial() };
+      this.series.set(text, entry);
+    }
+    return entry;
+  }
+
+  abstract serialize(): string;
+}
+
+export class Counter extends Metric<number> {
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  serialize(): string {
+    const lines = [...this.series.values()].map(({ labels, value }) => `${this.name}${labels ? `{${labels}}` : ''} ${formatValue(value)}`);
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`, ...lines].join('\n');
+  }
+}
+
+export class CollectedMetric extends Metric<number> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly type: 'counter' | 'gauge',
+    private readonly collect: () => { labels: Labels; value: number }[]
+  ) {
+    super(name, help);
+  }
+
+  serialize(): string {
+    this.series.clear();
+    for (const sample of this.collect()) {
+      this.seriesFor(sample.labels, () => 0).value = sample.value;
+    }
+    const lines = [...this.series.values()].map(({ labels, value }) => `${this.name}${labels ? `{${labels}}` : ''} ${formatValue(value)}`);
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...lines].join('\n');
+  }
+}
+
+export class Histogram extends Metric<{ counts: number[]; sum: number }> {
+  constructor(name: string, help: string, labelNames?: string[], readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({ counts: new Array(this.buckets.length + 1).fill(0), sum: 0 }));
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    series.value.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    series.value.sum += value;
+  }
+
+  serialize(): string {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      const prefix = labels ? `${labels},` : '';
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, index) => {
+        cumulative += value.counts[index];
+        lines.push(`${this.name}_bucket{${prefix}le="${formatValue(bound)}"} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${labels ? `{${labels}}` : ''} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${labels ? `{${labels}}` : ''} ${cumulative}`);
+    }
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`, ...lines].join('\n');
+  }
+}
+
+export class MetricsRegistry {
+  private readonly registered: Metric<unknown>[] = [];
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.add(new Counter(name, help, labelNames));
+  }
+
+  // Counter or gauge whose value is read on every scrape
+  collected(name: string, help: string, type: 'counter' | 'gauge', collect: () => { labels: Labels; value: number }[]): CollectedMetric {
+    return this.add(new CollectedMetric(name, help, type, collect));
+  }
+
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, labelNames, buckets));
+  }
+
+  metrics(): string {
+    return this.registered.map((metric) => metric.serialize()).join('\n') + '\n';
+  }
+
+  private add<M extends Metric<unknown>>(metric: M): M {
+    this.registered.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Adds CPU, memory, heap and event loop delay metrics under prom-client's names
+ * @param registry - Registry to add the metrics to
+ */
+export function registerRuntimeMetrics(registry: MetricsRegistry): void {
+  const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+  eventLoopDelay.enable();
+  const single = (value: number) => [{ labels: {}, value }];
+
+  registry.collected('process_cpu_seconds_total', 'Total user and system CPU time spent in seconds', 'counter', () => {
+    const { user, system } = process.cpuUsage();
+    return single((user + system) / 1e6);
+  });
+  registry.collected('process_resident_memory_bytes', 'Resident memory size in bytes', 'gauge', () => single(process.memoryUsage.rss()));
+  registry.collected('nodejs_heap_size_used_bytes', 'Process heap size used from Node.js in bytes', 'gauge', () => single(process.memoryUsage().heapUsed));
+  registry.collected('nodejs_eventloop_lag_p99_seconds', 'Event loop delay since the previous scrape, 99th percentile, in seconds', 'gauge', () => {
+    const samples = eventLoopDelay.count === 0 ? [] : single(eventLoopDelay.percentile(99) / 1e9);
+    eventLoopDelay.reset();
+    return samples;
+  });
+  registry.collected('process_uptime_seconds', 'Process uptime in seconds', 'gauge', () => single(process.uptime()));
+}
+
+/**
+ * Whether a client may read /metrics: with METRICS_TOKEN set it must send
+ * `Authorization: Bearer <token>`, otherwise it must connect from loopback
+ * @param headers - Request headers
+ * @param ip - Socket address of the client
+ * @param token - Configured token, if any
+ * @returns True when the metrics may be served
+ */
+export function isMetricsRequestAllowed(headers: IncomingHttpHeaders, ip: string, token: string | undefined): boolean {
+  if (!token) {
+    return LOOPBACK_ADDRESSES.has(ip);
+  }
+  const [scheme, value] = (headers.authorization ?? '').split(' ');
+  const digest = (text: string) => createHash('sha256').update(text).digest();
+  return scheme?.toLowerCase() === 'bearer' && !!value && timingSafeEqual(digest(value), digest(token));
+}
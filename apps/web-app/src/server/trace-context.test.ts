@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { formatTraceparent, startRequestTrace, traceHeaders } from './trace-context';
+
+describe('startRequestTrace', () => {
+  const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const callerSpanId = '00f067aa0ba902b7';
+
+  it('should continue the caller\'s trace with a new span', () => {
+    const trace = startRequestTrace({
+      traceparent: `00-${traceId}-${callerSpanId}-00`,
+      tracestate: 'vendor=abc',
+      'x-request-id': 'req-1',
+    });
+
+    expect(trace).toMatchObject({ traceId, parentSpanId: callerSpanId, sampled: false, traceState: 'vendor=abc', requestId: 'req-1' });
+    expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(trace.spanId).not.toBe(callerSpanId);
+    expect(formatTraceparent(trace)).toBe(`00-${traceId}-${trace.spanId}-00`);
+  });
+
+  it('should start a new trace when the traceparent is missing or malformed', () => {
+    for (const traceparent of [undefined, 'garbage', `ff-${traceId}-${callerSpanId}-01`, `00-${'0'.repeat(32)}-${callerSpanId}-01`]) {
+      const trace = startRequestTrace({ traceparent, tracestate: 'vendor=abc' });
+
+      expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(trace.traceId).not.toBe(traceId);
+      expect(trace).toMatchObject({ parentSpanId: null, sampled: true, traceState: null });
+    }
+  });
+
+  it('should replace request ids that are unsafe to log', () => {
+    expect(startRequestTrace({ 'x-request-id': 'bad id\n' }).requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should build the headers forwarded to the API', () => {
+    const trace = startRequestTrace({ traceparent: `00-${traceId}-${callerSpanId}-01`, 'x-request-id': 'req-2' });
+
+    expect(traceHeaders(trace)).toEqual({ traceparent: `00-${traceId}-${trace.spanId}-01`, 'x-request-id': 'req-2' });
+  });
+});
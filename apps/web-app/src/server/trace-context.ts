@@ -0,0 +1,75 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+// W3C Trace Context headers, plus the request id shared with the API
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * This server's hop in a trace. The SSR server does not export spans; its
+ * span id only links the API's spans to the request that reached it here.
+ */
+export interface RequestTrace {
+  traceId: string;
+  spanId: string;
+  // Caller's span, when the request arrived with a traceparent
+  parentSpanId: string | null;
+  sampled: boolean;
+  // Vendor trace state, forwarded untouched
+  traceState: string | null;
+  requestId: string;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const single = (value: string | string[] | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Continues the caller's trace from its traceparent header, or starts a new
+ * sampled trace when there is none or it is malformed
+ * @param headers - Incoming request headers
+ * @returns Trace context for this request
+ */
+export function startRequestTrace(headers: IncomingHttpHeaders): RequestTrace {
+  const match = TRACEPARENT_PATTERN.exec(single(headers[TRACEPARENT_HEADER])?.trim() ?? '');
+  const [, version, traceId, parentSpanId, flags, rest] = match ?? [];
+  const valid = match !== null
+    && version !== 'ff'
+    && !(version === '00' && rest !== undefined)
+    && !/^0+$/.test(traceId)
+    && !/^0+$/.test(parentSpanId);
+  const requestId = single(headers[REQUEST_ID_HEADER]);
+
+  return {
+    traceId: valid ? traceId : randomBytes(16).toString('hex'),
+    spanId: randomBytes(8).toString('hex'),
+    parentSpanId: valid ? parentSpanId : null,
+    sampled: valid ? (parseInt(flags, 16) & 1) === 1 : true,
+    traceState: valid ? single(headers[TRACESTATE_HEADER]) ?? null : null,
+    requestId: requestId && REQUEST_ID_PATTERN.test(requestId) ? requestId : randomUUID(),
+  };
+}
+
+/**
+ * Formats this server's hop as a traceparent header value
+ * @param trace - Request trace
+ * @returns Header value
+ */
+export const formatTraceparent = (trace: RequestTrace): string =>
+  `00-${trace.traceId}-${trace.spanId}-${trace.sampled ? '01' : '00'}`;
+
+/**
+ * Headers continuing the trace on a request to another service
+ * @param trace - Request trace
+ * @returns traceparent, tracestate and X-Request-ID headers
+ */
+export function traceHeaders(trace: RequestTrace): Record<string, string> {
+  return {
+    [TRACEPARENT_HEADER]: formatTraceparent(trace),
+    ...(trace.traceState ? { [TRACESTATE_HEADER]: trace.traceState } : {}),
+    [REQUEST_ID_HEADER]: trace.requestId,
+  };
+}
@@ -20,6 +20,8 @@ export default defineConfig(({ mode }) => ({
         target: 'http://localhost:3334',
         changeOrigin: true,
         secure: false,
+        // For the /api/events/ws event stream
+        ws: true,
       },
     },
   },
@@ -1,5 +1,7 @@
 -- Enterprise Application Database Schema
 -- This file initializes the database with required tables and data
+-- NOTE: The API now owns the schema through versioned migrations in
+-- apps/fastify-api/src/database/migrations (0001_baseline mirrors this file)
 
 -- Create extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -72,9 +74,10 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Insert default admin user (password: "password")
+-- Insert default admin and demo users (password: "password")
 INSERT INTO users (email, password_hash, name) VALUES
-    ('admin@example.com', '$2a$10$K9g5q8vGzHJ7nQ2xM3L4AeKtVzDj7eGbOvW4hL9pK8xC2vJ1hT6I6', 'Admin User')
+    ('admin@example.com', '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', 'Admin User'),
+    ('demo@example.com', '$2a$10$9v8ezzQoCjPvTpLB8FvGq.KxsetvZ/rT4dFLBJ1z4Q7d..tEEgK32', 'Demo User')
 ON CONFLICT (email) DO NOTHING;
 
 -- Insert sample events
@@ -1 +1,12 @@
-export * from './lib/secrets.js';
+export * from './lib/secret-provider.js';
+export * from './lib/aws-secrets-manager-provider.js';
+export * from './lib/ssm-parameter-provider.js';
+export * from './lib/env-provider.js';
+export * from './lib/encrypted-file-provider.js';
+export * from './lib/secret-chain.js';
+export * from './lib/secret-cache.js';
+export * from './lib/secrets-config.js';
+export * from './lib/secrets-manager.js';
+export * from './lib/jwt-key-set.js';
+export * from './lib/field-encryption.js';
+export * from './lib/encrypted-columns.js';
@@ -0,0 +1,106 @@
+import {
+  CreateSecretCommand,
+  GetSecretValueCommand,
+  ListSecretsCommand,
+  PutSecretValueCommand,
+  UpdateSecretVersionStageCommand,
+} from '@aws-sdk/client-secrets-manager';
+import { AwsSecretsManagerProvider } from './aws-secrets-manager-provider.js';
+
+const awsError = (name: string) => Object.assign(new Error(name), { name });
+
+describe('AwsSecretsManagerProvider', () => {
+  const send = vi.fn();
+  const provider = new AwsSecretsManagerProvider({ environment: 'production', client: { send } });
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it('reads /<env>/secrets/<name>', async () => {
+    send.mockResolvedValue({ SecretString: 's3cret' });
+
+    expect(await provider.get('jwt-secret')).toBe('s3cret');
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetSecretValueCommand);
+    expect(command.input).toEqual({ SecretId: '/production/secrets/jwt-secret' });
+  });
+
+  it('returns null for missing secrets and rethrows other errors', async () => {
+    send.mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+    expect(await provider.get('jwt-secret')).toBeNull();
+
+    send.mockRejectedValueOnce(awsError('AccessDeniedException'));
+    await expect(provider.get('jwt-secret')).rejects.toThrow('AccessDeniedException');
+  });
+
+  it('creates the secret when there is none to update', async () => {
+    send.mockRejectedValueOnce(awsError('ResourceNotFoundException')).mockResolvedValueOnce({});
+
+    await provider.put('api-keys/maps', 'key-1');
+
+    expect(send.mock.calls[0][0]).toBeInstanceOf(PutSecretValueCommand);
+    const create = send.mock.calls[1][0];
+    expect(create).toBeInstanceOf(CreateSecretCommand);
+    expect(create.input).toMatchObject({ Name: '/production/secrets/api-keys/maps', SecretString: 'key-1' });
+  });
+
+  it('lists secrets under the environment prefix across pages', async () => {
+    send
+      .mockResolvedValueOnce({
+        SecretList: [{
+          Name: '/production/secrets/jwt-secret',
+          Description: 'JWT secret',
+          SecretVersionsToStages: { v1: ['AWSPREVIOUS'], v2: ['AWSCURRENT'] },
+          LastChangedDate: new Date('2026-01-02T00:00:00Z'),
+        }],
+        NextToken: 'page-2',
+      })
+      .mockResolvedValueOnce({ SecretList: [{ Name: '/production/secrets/api-keys/maps' }] });
+
+    expect(await provider.list()).toEqual([
+      expect.objectContaining({ name: 'api-keys/maps', provider: 'aws-secrets-manager' }),
+      expect.objectContaining({ name: 'jwt-secret', description: 'JWT secret', version: 'v2', updatedAt: '2026-01-02T00:00:00.000Z' }),
+    ]);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(ListSecretsCommand);
+    expect(send.mock.calls[1][0].input).toMatchObject({ NextToken: 'page-2' });
+  });
+
+  it('rolls back by moving AWSCURRENT to an earlier version', async () => {
+    send
+      .mockResolvedValueOnce({
+        Versions: [
+          { VersionId: 'v1', CreatedDate: new Date('2026-01-01T00:00:00Z'), VersionStages: ['AWSPREVIOUS'] },
+          { VersionId: 'v2', CreatedDate: new Date('2026-01-02T00:00:00Z'), VersionStages: ['AWSCURRENT'] },
+        ],
+      })
+      .mockResolvedValueOnce({});
+
+    await provider.rollback('jwt-secret', 'v1');
+
+    const command = send.mock.calls[1][0];
+    expect(command).toBeInstanceOf(UpdateSecretVersionStageCommand);
+    expect(command.input).toEqual({
+      SecretId: '/production/secrets/jwt-secret',
+      VersionStage: 'AWSCURRENT',
+      MoveToVersionId: 'v1',
+      RemoveFromVersionId: 'v2',
+    });
+  });
+
+  it('refuses to roll back to an unknown version', async () => {
+    send.mockResolvedValueOnce({ Versions: [{ VersionId: 'v2', VersionStages: ['AWSCURRENT'] }] });
+
+    await expect(provider.rollback('jwt-secret', 'v9')).rejects.toMatchObject({ code: 'VERSION_NOT_FOUND' });
+  });
+
+  it('checks health by listing one secret under the prefix', async () => {
+    send.mockResolvedValueOnce({ SecretList: [] });
+    await provider.healthCheck();
+    expect(send.mock.calls[0][0]).toBeInstanceOf(ListSecretsCommand);
+    expect(send.mock.calls[0][0].input).toMatchObject({ MaxResults: 1 });
+
+    send.mockRejectedValueOnce(awsError('AccessDeniedException'));
+    await expect(provider.healthCheck()).rejects.toThrow('AccessDeniedException');
+  });
+});
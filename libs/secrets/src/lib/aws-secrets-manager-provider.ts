@@ -0,0 +1,152 @@
+import {
+  CreateSecretCommand,
+  GetSecretValueCommand,
+  ListSecretsCommand,
+  ListSecretVersionIdsCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand,
+} from '@aws-sdk/client-secrets-manager';
+import {
+  type PutSecretOptions,
+  type SecretMetadata,
+  type SecretProvider,
+  SecretsError,
+  type SecretVersion,
+} from './secret-provider.js';
+
+export interface AwsSecretsManagerProviderOptions {
+  environment: string;
+  // Secret ids are `<prefix>/<name>`; defaults to `/<environment>/secrets`
+  prefix?: string;
+  region?: string;
+  client?: Pick<SecretsManagerClient, 'send'>;
+}
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'ResourceNotFoundException';
+
+// Staging label of the version reads return
+const CURRENT_STAGE = 'AWSCURRENT';
+
+/**
+ * Reads and writes secrets in AWS Secrets Manager. Credentials come from the
+ * default AWS provider chain, i.e. the IAM role in deployed environments.
+ */
+export class AwsSecretsManagerProvider implements SecretProvider {
+  readonly name = 'aws-secrets-manager';
+  private readonly client: Pick<SecretsManagerClient, 'send'>;
+  private readonly prefix: string;
+
+  constructor(private readonly options: AwsSecretsManagerProviderOptions) {
+    this.client = options.client ?? new SecretsManagerClient({ region: options.region });
+    this.prefix = options.prefix ?? `/${options.environment}/secrets`;
+  }
+
+  secretId(secretName: string): string {
+    return `${this.prefix}/${secretName}`;
+  }
+
+  async get(secretName: string): Promise<string | null> {
+    try {
+      const response = await this.client.send(new GetSecretValueCommand({ SecretId: this.secretId(secretName) }));
+      return response.SecretString || null;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(secretName: string, value: string, options: PutSecretOptions = {}): Promise<void> {
+    const secretId = this.secretId(secretName);
+    try {
+      await this.client.send(new PutSecretValueCommand({ SecretId: secretId, SecretString: value }));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+      await this.client.send(new CreateSecretCommand({
+        Name: secretId,
+        SecretString: value,
+        Description: options.description ?? `${secretName} for ${this.options.environment} environment`,
+      }));
+    }
+  }
+
+  async list(): Promise<SecretMetadata[]> {
+    const secrets: SecretMetadata[] = [];
+    let nextToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListSecretsCommand({
+        Filters: [{ Key: 'name', Values: [`${this.prefix}/`] }],
+        NextToken: nextToken,
+      }));
+      for (const secret of response.SecretList ?? []) {
+        if (!secret.Name?.startsWith(`${this.prefix}/`)) {
+          continue;
+        }
+        const stages = Object.entries(secret.SecretVersionsToStages ?? {});
+        secrets.push({
+          name: secret.Name.slice(this.prefix.length + 1),
+          provider: this.name,
+          description: secret.Description,
+          version: stages.find(([, labels]) => labels.includes(CURRENT_STAGE))?.[0],
+          createdAt: secret.CreatedDate?.toISOString(),
+          updatedAt: (secret.LastRotatedDate ?? secret.LastChangedDate)?.toISOString(),
+        });
+      }
+      nextToken = response.NextToken;
+    } while (nextToken);
+    return secrets.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Lists at most one secret under the prefix, which needs the same permission as list()
+  async healthCheck(): Promise<void> {
+    await this.client.send(new ListSecretsCommand({ Filters: [{ Key: 'name', Values: [`${this.prefix}/`] }], MaxResults: 1 }));
+  }
+
+  async history(secretName: string): Promise<SecretVersion[]> {
+    const versions: SecretVersion[] = [];
+    let nextToken: string | undefined;
+    try {
+      do {
+        const response = await this.client.send(new ListSecretVersionIdsCommand({
+          SecretId: this.secretId(secretName),
+          // Versions without a staging label are kept for a while and can be restored
+          IncludeDeprecated: true,
+          NextToken: nextToken,
+        }));
+        for (const version of response.Versions ?? []) {
+          versions.push({
+            version: version.VersionId as string,
+            createdAt: version.CreatedDate?.toISOString(),
+            current: version.VersionStages?.includes(CURRENT_STAGE) ?? false,
+          });
+        }
+        nextToken = response.NextToken;
+      } while (nextToken);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+    return versions.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+  }
+
+  // Moves the AWSCURRENT label back to an earlier version id
+  async rollback(secretName: string, version: number | string): Promise<void> {
+    const versions = await this.history(secretName);
+    if (!versions.some((candidate) => candidate.version === version)) {
+      throw new SecretsError(`Version ${version} of ${secretName} not found`, 'VERSION_NOT_FOUND');
+    }
+    await this.client.send(new UpdateSecretVersionStageCommand({
+      SecretId: this.secretId(secretName),
+      VersionStage: CURRENT_STAGE,
+      MoveToVersionId: String(version),
+      RemoveFromVersionId: versions.find((candidate) => candidate.current)?.version as string | undefined,
+    }));
+  }
+}
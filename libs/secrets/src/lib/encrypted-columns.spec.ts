@@ -0,0 +1,80 @@
+import { EncryptedColumns, type SqlClient } from './encrypted-columns.js';
+import { FieldEncryptor, type FieldKeyStore, generateFieldKeySet, rotateFieldKeySet } from './field-encryption.js';
+
+describe('EncryptedColumns', () => {
+  let keySet: ReturnType<typeof generateFieldKeySet>;
+  let encryptor: FieldEncryptor;
+
+  const columns = (fieldEncryptor: FieldEncryptor | null = encryptor) =>
+    new EncryptedColumns(fieldEncryptor, { table: 'customers', idColumn: 'id', columns: ['tax_id', 'notes'] });
+
+  beforeEach(async () => {
+    keySet = generateFieldKeySet();
+    const store = { getSecret: vi.fn(async () => JSON.stringify(keySet)), watch: vi.fn() } as unknown as FieldKeyStore;
+    encryptor = new FieldEncryptor(store);
+    await encryptor.load();
+  });
+
+  it('encrypts on write and decrypts on read, keeping nulls', () => {
+    const helper = columns();
+
+    const stored = helper.encrypt('c-1', { tax_id: '123-45-6789', notes: null });
+
+    expect(helper.columnList).toBe('tax_id, tax_id_key_version, notes, notes_key_version');
+    expect(stored).toMatchObject({ tax_id_key_version: 1, notes: null, notes_key_version: null });
+    expect(stored.tax_id).not.toContain('6789');
+    expect(helper.decrypt({ id: 'c-1', name: 'Acme', ...stored })).toEqual({
+      id: 'c-1',
+      name: 'Acme',
+      tax_id: '123-45-6789',
+      tax_id_key_version: 1,
+      notes: null,
+      notes_key_version: null,
+    });
+    expect(() => helper.decrypt({ id: 'c-2', ...stored })).toThrow('cannot be decrypted');
+  });
+
+  it('passes plaintext rows through and writes plaintext without keys', () => {
+    const row = { id: 'c-1', tax_id: 'legacy', tax_id_key_version: null, notes: null, notes_key_version: null };
+
+    expect(columns().decrypt(row)).toEqual(row);
+    expect(columns(null).encrypt('c-1', { tax_id: 'plain', notes: null })).toMatchObject({ tax_id: 'plain', tax_id_key_version: null });
+    expect(() => columns(null).decrypt({ ...row, tax_id_key_version: 1 })).toThrow('no field encryption keys');
+  });
+
+  it('rejects table and column names that are not plain identifiers', () => {
+    expect(() => new EncryptedColumns(encryptor, { table: 'users; DROP', idColumn: 'id', columns: ['x'] })).toThrow('Invalid SQL identifier');
+  });
+
+  it('re-encrypts outdated and plaintext rows in batches', async () => {
+    const helper = columns();
+    const old = helper.encrypt('c-1', { tax_id: 'one', notes: 'note' });
+    keySet = rotateFieldKeySet(keySet);
+    await encryptor.load();
+
+    const rows = [
+      { id: 'c-1', ...old },
+      { id: 'c-2', tax_id: 'two', tax_id_key_version: null, notes: null, notes_key_version: null },
+      { id: 'c-3', tax_id: 'ev1.1.broken.value', tax_id_key_version: 1, notes: null, notes_key_version: null },
+    ];
+    const updates: unknown[][] = [];
+    const query = vi.fn(async (sql: string, values: unknown[] = []) => {
+      if (sql.startsWith('SELECT')) {
+        const after = values[2] as string | null;
+        return { rows: rows.filter((row) => after === null || row.id > after).slice(0, values[1] as number), rowCount: null };
+      }
+      updates.push(values);
+      // The second row changed after it was read
+      return { rows: [], rowCount: values[0] === 'c-2' ? 0 : 1 };
+    });
+
+    const result = await helper.reencrypt({ query } as unknown as SqlClient, { batchSize: 2 });
+
+    expect(result).toEqual({ table: 'customers', scanned: 3, reencrypted: 1, skipped: 1, failed: ['c-3'] });
+    expect(query.mock.calls[0][0]).toContain('tax_id_key_version IS DISTINCT FROM $1');
+    expect(query.mock.calls[0][1]).toEqual([2, 2, null]);
+    const [id, taxId, taxIdVersion, notes, notesVersion, ...previous] = updates[0];
+    expect([id, taxIdVersion, notesVersion, previous]).toEqual(['c-1', 2, 2, [old.tax_id, old.notes]]);
+    expect(helper.decrypt({ id: 'c-1', tax_id: taxId, tax_id_key_version: 2, notes, notes_key_version: 2 } as typeof rows[0]).tax_id).toBe('one');
+  });
+});
@@ -0,0 +1,187 @@
+import type { FieldEncryptor } from './field-encryption.js';
+
+// Query surface of pg.Pool and pg.PoolClient
+export interface SqlClient {
+  query<R extends Record<string, unknown>>(text: string, values?: unknown[]): Promise<{ rows: R[]; rowCount: number | null }>;
+}
+
+// Each encrypted column has a companion column with its master key version
+export type KeyVersionColumn<C extends string> = `${C}_key_version`;
+
+// Stored form of the encrypted columns of one row
+export type EncryptedColumnValues<C extends string> =
+  { [K in C]: string | null } & { [K in KeyVersionColumn<C>]: number | null };
+
+export interface EncryptedColumnsOptions<C extends string> {
+  table: string;
+  // Primary key; its value is authenticated with every ciphertext of the row
+  idColumn: string;
+  columns: readonly C[];
+}
+
+export interface ReencryptOptions {
+  // Rows read and rewritten per query
+  batchSize?: number;
+  // Called after every batch with the totals so far
+  onBatch?: (result: ReencryptResult) => void;
+}
+
+export interface ReencryptResult {
+  table: string;
+  // Rows whose key version was older than the current one, or missing
+  scanned: number;
+  reencrypted: number;
+  // Rows written by someone else between read and update; they already use the current key
+  skipped: number;
+  // Ids of rows that could not be decrypted
+  failed: string[];
+}
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+/**
+ * Typed helper for repositories with encrypted columns. Writes store the
+ * ciphertext in the column and the master key version in
+ * `<column>_key_version`; reads return plaintext. A row with a value but no
+ * key version is plaintext written before encryption was enabled, and is
+ * returned as is until reencrypt() encrypts it. Without an encryptor, values
+ * are written as plaintext, so a deployment can add keys later.
+ */
+export class EncryptedColumns<C extends string> {
+  constructor(
+    private readonly encryptor: FieldEncryptor | null,
+    readonly options: EncryptedColumnsOptions<C>
+  ) {
+    for (const identifier of [options.table, options.idColumn, ...options.columns]) {
+      if (!IDENTIFIER.test(identifier)) {
+        throw new Error(`Invalid SQL identifier: ${identifier}`);
+      }
+    }
+  }
+
+  // Encrypted and key version columns, for SELECT and RETURNING lists
+  get columnList(): string {
+    return this.options.columns.flatMap((column) => [column, keyVersionColumn(column)]).join(', ');
+  }
+
+  /**
+   * Encrypts the values of one row for an INSERT or UPDATE
+   * @param id - Primary key of the row
+   * @param values - Plaintext per column; null stays null
+   * @returns Ciphertext and key version per column
+   */
+  encrypt(id: string, values: { [K in C]: string | null }): EncryptedColumnValues<C> {
+    const stored: Record<string, string | number | null> = {};
+    for (const column of this.options.columns) {
+      const value = values[column];
+      if (value === null || !this.encryptor) {
+        stored[column] = value;
+        stored[keyVersionColumn(column)] = null;
+        continue;
+      }
+      const encrypted = this.encryptor.encrypt(value, this.context(column, id));
+      stored[column] = encrypted.ciphertext;
+      stored[keyVersionColumn(column)] = encrypted.keyVersion;
+    }
+    return stored as EncryptedColumnValues<C>;
+  }
+
+  /**
+   * Replaces the encrypted columns of a row read from the database with plaintext
+   * @param row - Row including the id and key version columns
+   * @returns The same row with plaintext values
+   * @throws Error if a value is encrypted and cannot be decrypted
+   */
+  decrypt<R extends EncryptedColumnValues<C>>(row: R): R {
+    const id = String((row as Record<string, unknown>)[this.options.idColumn]);
+    const decrypted: Record<string, unknown> = { ...row };
+    for (const column of this.options.columns) {
+      const value = row[column] as string | null;
+      if (value === null || row[keyVersionColumn(column)] === null) {
+        continue;
+      }
+      if (!this.encryptor) {
+        throw new Error(`${this.options.table}.${column} is encrypted but no field encryption keys are loaded`);
+      }
+      decrypted[column] = this.encryptor.decrypt(value, this.context(column, id));
+    }
+    return decrypted as R;
+  }
+
+  /**
+   * Re-encrypts rows whose values use an older master key or none, in
+   * batches ordered by id. Each update only applies if the row still holds
+   * what was read, so it can run while the application writes.
+   * @param db - Connection or pool
+   * @param options - Batch size and progress callback
+   * @returns Counts of rewritten, skipped and failed rows
+   */
+  async reencrypt(db: SqlClient, options: ReencryptOptions = {}): Promise<ReencryptResult> {
+    if (!this.encryptor) {
+      throw new Error('Re-encryption needs field encryption keys');
+    }
+    const { table, idColumn, columns } = this.options;
+    const batchSize = options.batchSize ?? 500;
+    const currentVersion = this.encryptor.currentKeyVersion;
+    const outdated = columns
+      .map((column) => `(${column} IS NOT NULL AND ${keyVersionColumn(column)} IS DISTINCT FROM $1)`)
+      .join(' OR ');
+    const result: ReencryptResult = { table, scanned: 0, reencrypted: 0, skipped: 0, failed: [] };
+
+    let after: unknown = null;
+    for (;;) {
+      const batch = await db.query<EncryptedColumnValues<C> & Record<string, unknown>>(
+        `SELECT ${idColumn}, ${this.columnList} FROM ${table}
+         WHERE (${outdated}) AND ($3::text IS NULL OR ${idColumn}::text > $3::text)
+         ORDER BY ${idColumn}::text
+         LIMIT $2`,
+        [currentVersion, batchSize, after]
+      );
+
+      for (const row of batch.rows) {
+        const id = String(row[idColumn]);
+        result.scanned += 1;
+        let stored: EncryptedColumnValues<C>;
+        try {
+          stored = this.encrypt(id, this.decrypt(row));
+        } catch {
+          result.failed.push(id);
+          continue;
+        }
+
+        const assignments = columns.flatMap((column, index) => [
+          `${column} = $${index * 2 + 2}`,
+          `${keyVersionColumn(column)} = $${index * 2 + 3}`,
+        ]);
+        const unchanged = columns.map((column, index) => `${column} IS NOT DISTINCT FROM $${columns.length * 2 + index + 2}`);
+        const update = await db.query(
+          `UPDATE ${table} SET ${assignments.join(', ')}
+           WHERE ${idColumn} = $1 AND ${unchanged.join(' AND ')}`,
+          [
+            row[idColumn],
+            ...columns.flatMap((column) => [stored[column], stored[keyVersionColumn(column)]]),
+            ...columns.map((column) => row[column]),
+          ]
+        );
+        if ((update.rowCount ?? 0) > 0) {
+          result.reencrypted += 1;
+        } else {
+          result.skipped += 1;
+        }
+      }
+
+      options.onBatch?.({ ...result, failed: [...result.failed] });
+      if (batch.rows.length < batchSize) {
+        return result;
+      }
+      after = String(batch.rows[batch.rows.length - 1][idColumn]);
+    }
+  }
+
+  // Table, column and row, so a ciphertext copied elsewhere does not decrypt
+  private context(column: C, id: string): string {
+    return `${this.options.table}.${column}:${id}`;
+  }
+}
+
+const keyVersionColumn = <C extends string>(column: C): KeyVersionColumn<C> => `${column}_key_version`;
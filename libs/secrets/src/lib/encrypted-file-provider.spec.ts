@@ -0,0 +1,129 @@
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createVaultKeyFile, EncryptedFileProvider } from './encrypted-file-provider.js';
+
+describe('EncryptedFileProvider', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'secrets-'));
+    path = join(directory, 'nested', 'development.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('treats a missing file as empty', async () => {
+    const provider = new EncryptedFileProvider({ path, passphrase: 'correct horse' });
+
+    expect(await provider.get('jwt-secret')).toBeNull();
+  });
+
+  it('round-trips secrets without storing them in cleartext', async () => {
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).put('jwt-secret', 'dev-jwt-secret');
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).put('redis-url', 'redis://localhost:6379');
+
+    const provider = new EncryptedFileProvider({ path, passphrase: 'correct horse' });
+    expect(await provider.get('jwt-secret')).toBe('dev-jwt-secret');
+    expect(await provider.get('redis-url')).toBe('redis://localhost:6379');
+    expect(await readFile(path, 'utf8')).not.toContain('dev-jwt-secret');
+  });
+
+  it('keeps a version, description and timestamps per secret', async () => {
+    const provider = new EncryptedFileProvider({ path, passphrase: 'correct horse' });
+    await provider.put('jwt-secret', 'v1', { description: 'JWT secret' });
+    await provider.put('jwt-secret', 'v2');
+    await provider.put('api-keys/maps', 'maps-key');
+
+    expect(await provider.list()).toEqual([
+      expect.objectContaining({ name: 'api-keys/maps', provider: 'encrypted-file', version: 1 }),
+      expect.objectContaining({ name: 'jwt-secret', description: 'JWT secret', version: 2, updatedAt: expect.any(String) }),
+    ]);
+    expect(JSON.stringify(await provider.list())).not.toContain('v2');
+  });
+
+  it('encrypts with a key file', async () => {
+    const keyFile = join(directory, 'development.key');
+    expect(await createVaultKeyFile(keyFile)).toBe(true);
+    expect(await createVaultKeyFile(keyFile)).toBe(false);
+
+    await new EncryptedFileProvider({ path, keyFile }).put('jwt-secret', 'dev-jwt-secret');
+
+    expect(await new EncryptedFileProvider({ path, keyFile }).get('jwt-secret')).toBe('dev-jwt-secret');
+    expect(JSON.parse(await readFile(path, 'utf8'))).toMatchObject({ version: 2, kdf: 'key-file' });
+    await expect(new EncryptedFileProvider({ path, passphrase: 'correct horse' }).get('jwt-secret'))
+      .rejects.toMatchObject({ code: 'INVALID_SECRETS_FILE' });
+  });
+
+  it('rotates the master key', async () => {
+    const keyFile = join(directory, 'next.key');
+    await createVaultKeyFile(keyFile);
+    const provider = new EncryptedFileProvider({ path, passphrase: 'correct horse' });
+    await provider.put('jwt-secret', 'dev-jwt-secret');
+
+    await provider.rotateKey({ keyFile });
+
+    expect(await provider.get('jwt-secret')).toBe('dev-jwt-secret');
+    expect(await new EncryptedFileProvider({ path, keyFile }).get('jwt-secret')).toBe('dev-jwt-secret');
+    await expect(new EncryptedFileProvider({ path, passphrase: 'correct horse' }).get('jwt-secret')).rejects.toThrow();
+  });
+
+  it('reads version 1 files', async () => {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', scryptSync('correct horse', salt, 32), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify({ 'jwt-secret': 'old' })), cipher.final()]);
+    const v1Path = join(directory, 'v1.json');
+    await writeFile(v1Path, JSON.stringify({
+      version: 1,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    }));
+    const provider = new EncryptedFileProvider({ path: v1Path, passphrase: 'correct horse' });
+
+    expect(await provider.get('jwt-secret')).toBe('old');
+    await provider.put('jwt-secret', 'new');
+    expect(await provider.list()).toEqual([expect.objectContaining({ name: 'jwt-secret', version: 2 })]);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).put('jwt-secret', 'dev-jwt-secret');
+
+    await expect(new EncryptedFileProvider({ path, passphrase: 'battery staple' }).get('jwt-secret'))
+      .rejects.toMatchObject({ code: 'INVALID_SECRETS_FILE' });
+  });
+
+  it('is healthy when the file decrypts or does not exist yet', async () => {
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).healthCheck();
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).put('jwt-secret', 'dev-jwt-secret');
+
+    await new EncryptedFileProvider({ path, passphrase: 'correct horse' }).healthCheck();
+    await expect(new EncryptedFileProvider({ path, passphrase: 'battery staple' }).healthCheck())
+      .rejects.toMatchObject({ code: 'INVALID_SECRETS_FILE' });
+  });
+
+  it('keeps earlier versions for rollback', async () => {
+    const provider = new EncryptedFileProvider({ path, passphrase: 'correct horse' });
+    await provider.put('jwt-secret', 'v1');
+    await provider.put('jwt-secret', 'v2');
+
+    expect(await provider.history('jwt-secret')).toEqual([
+      expect.objectContaining({ version: 2, current: true }),
+      expect.objectContaining({ version: 1, current: false }),
+    ]);
+
+    await provider.rollback('jwt-secret', 1);
+
+    expect(await provider.get('jwt-secret')).toBe('v1');
+    expect((await provider.history('jwt-secret')).map((version) => version.version)).toEqual([3, 2, 1]);
+    await expect(provider.rollback('jwt-secret', 7)).rejects.toMatchObject({ code: 'VERSION_NOT_FOUND' });
+    expect(await provider.history('redis-url')).toEqual([]);
+  });
+});
@@ -0,0 +1,293 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes, scrypt } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { promisify } from 'util';
+import {
+  type PutSecretOptions,
+  type SecretMetadata,
+  type SecretProvider,
+  SecretsError,
+  type SecretVersion,
+} from './secret-provider.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Key files must hold at least this many bytes of random data
+const MIN_KEY_FILE_BYTES = 32;
+// Earlier values kept per secret for rollback
+const MAX_PREVIOUS_VERSIONS = 10;
+
+type KeyDerivation = 'scrypt' | 'key-file';
+
+// On-disk format; every binary field is base64. Version 1 files, which hold
+// bare values, are read and rewritten as version 2 on the next write.
+interface SecretsFile {
+  version: 1 | 2;
+  kdf: KeyDerivation;
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+interface StoredVersion {
+  value: string;
+  version: number;
+  updatedAt?: string;
+}
+
+interface VaultEntry extends StoredVersion {
+  description?: string;
+  createdAt?: string;
+  // Earlier versions, newest first
+  previous?: StoredVersion[];
+}
+
+interface VaultContents {
+  entries: Record<string, VaultEntry>;
+  salt: Buffer;
+}
+
+// Master key source: a passphrase (scrypt) or a file of random bytes (HKDF)
+export interface VaultKeyOptions {
+  passphrase?: string;
+  keyFile?: string;
+}
+
+export interface EncryptedFileProviderOptions extends VaultKeyOptions {
+  path: string;
+}
+
+/**
+ * Writes a new random key file for a vault, readable only by its owner
+ * @param path - Where to create the key file; an existing file is kept
+ * @returns True if a key file was created
+ */
+export async function createVaultKeyFile(path: string): Promise<boolean> {
+  await mkdir(dirname(path), { recursive: true });
+  try {
+    await writeFile(path, randomBytes(64).toString('base64') + '\n', { mode: 0o600, flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Local secrets vault: a file encrypted with AES-256-GCM under a master key
+ * derived from a passphrase (scrypt) or a key file (HKDF). Stores a
+ * description, version and timestamps per secret, so development machines
+ * and installations without AWS get the same get/put/list/rotate semantics.
+ * A missing file holds no secrets.
+ */
+export class EncryptedFileProvider implements SecretProvider {
+  readonly name = 'encrypted-file';
+  // Derived keys by derivation and salt, since scrypt is deliberately slow
+  private readonly keys = new Map<string, Buffer>();
+  private credentials: VaultKeyOptions;
+  // Serializes read-modify-write cycles within this process
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: EncryptedFileProviderOptions) {
+    this.credentials = { passphrase: options.passphrase, keyFile: options.keyFile };
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  async get(secretName: string): Promise<string | null> {
+    const contents = await this.load();
+    return contents?.entries[secretName]?.value ?? null;
+  }
+
+  async put(secretName: string, value: string, options: PutSecretOptions = {}): Promise<void> {
+    await this.update(async (contents) => {
+      const entries = contents?.entries ?? {};
+      const previous = entries[secretName];
+      const now = new Date().toISOString();
+      entries[secretName] = {
+        value,
+        description: options.description ?? previous?.description,
+        version: (previous?.version ?? 0) + 1,
+        createdAt: previous?.createdAt ?? now,
+        updatedAt: now,
+        previous: previous
+          ? [{ value: previous.value, version: previous.version, updatedAt: previous.updatedAt }, ...(previous.previous ?? [])].slice(0, MAX_PREVIOUS_VERSIONS)
+          : [],
+      };
+      await this.save(entries, contents?.salt ?? randomBytes(16), this.credentials);
+    });
+  }
+
+  async list(): Promise<SecretMetadata[]> {
+    const contents = await this.load();
+    return Object.entries(contents?.entries ?? {})
+      .map(([name, entry]) => ({
+        name,
+        provider: this.name,
+        description: entry.description,
+        version: entry.version,
+        createdAt: entry.createdAt,
+        updatedAt: entry.updatedAt,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Decrypts the file; a missing file is healthy, like an empty vault
+  async healthCheck(): Promise<void> {
+    await this.load();
+  }
+
+  async history(secretName: string): Promise<SecretVersion[]> {
+    const entry = (await this.load())?.entries[secretName];
+    if (!entry) {
+      return [];
+    }
+    return [entry, ...(entry.previous ?? [])].map((stored) => ({
+      version: stored.version,
+      createdAt: stored.updatedAt,
+      current: stored === entry,
+    }));
+  }
+
+  // Writes an earlier value as a new version, keeping the history linear
+  async rollback(secretName: string, version: number | string): Promise<void> {
+    const entry = (await this.load())?.entries[secretName];
+    if (entry?.version === Number(version)) {
+      return;
+    }
+    const stored = entry?.previous?.find((candidate) => candidate.version === Number(version));
+    if (!stored) {
+      throw new SecretsError(`Version ${version} of ${secretName} not found`, 'VERSION_NOT_FOUND');
+    }
+    await this.put(secretName, stored.value);
+  }
+
+  /**
+   * Re-encrypts the vault under a new master key. Afterwards only the new
+   * passphrase or key file opens it.
+   * @param next - New passphrase or key file
+   * @throws SecretsError if the vault cannot be opened with the current key
+   */
+  async rotateKey(next: VaultKeyOptions): Promise<void> {
+    await this.update(async (contents) => {
+      await this.save(contents?.entries ?? {}, randomBytes(16), next);
+      this.credentials = { ...next };
+      this.keys.clear();
+    });
+  }
+
+  private update(change: (contents: VaultContents | null) => Promise<void>): Promise<void> {
+    const run = this.writes.then(async () => change(await this.load()));
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<VaultContents | null> {
+    let content: string;
+    try {
+      content = await readFile(this.options.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    let file: SecretsFile;
+    try {
+      file = JSON.parse(content) as SecretsFile;
+    } catch {
+      throw new SecretsError(`${this.options.path} is not a secrets file`, 'INVALID_SECRETS_FILE');
+    }
+    if (!(file.version === 1 && file.kdf === 'scrypt') && !(file.version === 2 && (file.kdf === 'scrypt' || file.kdf === 'key-file'))) {
+      throw new SecretsError(`${this.options.path} has an unsupported format`, 'INVALID_SECRETS_FILE');
+    }
+
+    const salt = Buffer.from(file.salt, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', await this.deriveKey(file.kdf, salt, this.credentials), Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    if (file.version === 2) {
+      decipher.setAAD(headerOf(file.kdf, salt));
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      const source = file.kdf === 'key-file' ? 'key file' : 'passphrase';
+      throw new SecretsError(`Cannot decrypt ${this.options.path}; check the ${source}`, 'INVALID_SECRETS_FILE');
+    }
+
+    if (file.version === 1) {
+      const values = JSON.parse(plaintext) as Record<string, string>;
+      const entries = Object.fromEntries(Object.entries(values).map(([name, value]) => [name, { value, version: 1 }]));
+      return { entries, salt };
+    }
+    return { entries: (JSON.parse(plaintext) as { entries: Record<string, VaultEntry> }).entries, salt };
+  }
+
+  private async save(entries: Record<string, VaultEntry>, salt: Buffer, credentials: VaultKeyOptions): Promise<void> {
+    const kdf: KeyDerivation = credentials.keyFile ? 'key-file' : 'scrypt';
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.deriveKey(kdf, salt, credentials), iv);
+    // The header is authenticated, so the derivation cannot be swapped
+    cipher.setAAD(headerOf(kdf, salt));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify({ entries }), 'utf8'), cipher.final()]);
+    const file: SecretsFile = {
+      version: 2,
+      kdf,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+
+    // Write then rename, so readers never see half a file
+    await mkdir(dirname(this.options.path), { recursive: true });
+    const temporaryPath = `${this.options.path}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    await rename(temporaryPath, this.options.path);
+  }
+
+  private async deriveKey(kdf: KeyDerivation, salt: Buffer, credentials: VaultKeyOptions): Promise<Buffer> {
+    const cacheKey = `${kdf}:${salt.toString('base64')}`;
+    const cached = credentials === this.credentials ? this.keys.get(cacheKey) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    let key: Buffer;
+    if (kdf === 'key-file') {
+      if (!credentials.keyFile) {
+        throw new SecretsError(`${this.options.path} is encrypted with a key file; set SECRETS_KEY_FILE`, 'INVALID_SECRETS_FILE');
+      }
+      const material = await readFile(credentials.keyFile).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          throw new SecretsError(`Key file ${credentials.keyFile} not found`, 'INVALID_SECRETS_FILE');
+        }
+        throw error;
+      });
+      if (material.length < MIN_KEY_FILE_BYTES) {
+        throw new SecretsError(`Key file ${credentials.keyFile} holds fewer than ${MIN_KEY_FILE_BYTES} bytes`, 'INVALID_SECRETS_FILE');
+      }
+      key = Buffer.from(hkdfSync('sha256', material, salt, 'secrets-vault', 32));
+    } else {
+      if (!credentials.passphrase) {
+        throw new SecretsError(`No passphrase configured for ${this.options.path}`, 'INVALID_SECRETS_FILE');
+      }
+      key = await scryptAsync(credentials.passphrase, salt, 32);
+    }
+
+    if (credentials === this.credentials) {
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+const headerOf = (kdf: KeyDerivation, salt: Buffer): Buffer => Buffer.from(`2:${kdf}:${salt.toString('base64')}`);
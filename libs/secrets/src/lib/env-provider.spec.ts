@@ -0,0 +1,27 @@
+import { EnvSecretProvider, envVarName } from './env-provider.js';
+
+describe('envVarName', () => {
+  it('uses the mapped variable for legacy names', () => {
+    expect(envVarName('database-credentials')).toBe('DATABASE_URL');
+    expect(envVarName('jwt-secret')).toBe('JWT_SECRET');
+  });
+
+  it('maps api keys to <SERVICE>_API_KEY', () => {
+    expect(envVarName('api-keys/maps')).toBe('MAPS_API_KEY');
+    expect(envVarName('api-keys/fleet-tracker')).toBe('FLEET_TRACKER_API_KEY');
+  });
+
+  it('converts other names to upper snake case', () => {
+    expect(envVarName('cors-origins')).toBe('CORS_ORIGINS');
+  });
+});
+
+describe('EnvSecretProvider', () => {
+  it('reads the variable and treats empty ones as unset', async () => {
+    const provider = new EnvSecretProvider({ JWT_SECRET: 'from-env', CORS_ORIGINS: '' });
+
+    expect(await provider.get('jwt-secret')).toBe('from-env');
+    expect(await provider.get('cors-origins')).toBeNull();
+    expect(await provider.get('redis-url')).toBeNull();
+  });
+});
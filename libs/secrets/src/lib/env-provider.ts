@@ -0,0 +1,42 @@
+import type { SecretProvider } from './secret-provider.js';
+
+// Variables whose names predate the logical secret names
+export const DEFAULT_ENV_MAPPINGS: Readonly<Record<string, string>> = {
+  'database-credentials': 'DATABASE_URL',
+  'jwt-secret': 'JWT_SECRET',
+  'redis-url': 'REDIS_URL',
+};
+
+/**
+ * Environment variable a secret is read from: the mapped name if there is
+ * one, `<SERVICE>_API_KEY` for `api-keys/<service>`, otherwise the name in
+ * upper snake case (`cors-origins` → `CORS_ORIGINS`)
+ * @param secretName - Logical secret name
+ * @param mappings - Explicit secret name to variable mappings
+ * @returns Variable name
+ */
+export function envVarName(secretName: string, mappings: Readonly<Record<string, string>> = DEFAULT_ENV_MAPPINGS): string {
+  const mapped = mappings[secretName];
+  if (mapped) {
+    return mapped;
+  }
+  const apiKey = /^api-keys\/(.+)$/.exec(secretName);
+  const base = apiKey ? `${apiKey[1]}-api-key` : secretName;
+  return base.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Reads secrets from environment variables. Empty variables count as unset.
+ */
+export class EnvSecretProvider implements SecretProvider {
+  readonly name = 'env';
+
+  constructor(
+    private readonly env: NodeJS.ProcessEnv = process.env,
+    private readonly mappings: Readonly<Record<string, string>> = DEFAULT_ENV_MAPPINGS
+  ) {}
+
+  async get(secretName: string): Promise<string | null> {
+    return this.env[envVarName(secretName, this.mappings)] || null;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  FIELD_ENCRYPTION_KEYS_SECRET,
+  FieldEncryptor,
+  type FieldKeyStore,
+  generateFieldKeySet,
+  parseFieldKeySet,
+  retireFieldKeys,
+  rotateFieldKeySet,
+} from './field-encryption.js';
+import type { SecretWatcher } from './secret-cache.js';
+
+describe('FieldEncryptor', () => {
+  let stored: string;
+  let watcher: SecretWatcher | null;
+  let store: FieldKeyStore;
+
+  const createEncryptor = async () => {
+    const encryptor = new FieldEncryptor(store);
+    await encryptor.load();
+    return encryptor;
+  };
+
+  beforeEach(() => {
+    stored = JSON.stringify(generateFieldKeySet());
+    watcher = null;
+    store = {
+      getSecret: vi.fn(async () => stored),
+      watch: vi.fn((_name: string, callback: SecretWatcher) => {
+        watcher = callback;
+        return () => {
+          watcher = null;
+        };
+      }),
+    } as unknown as FieldKeyStore;
+  });
+
+  it('encrypts every value under its own data key', async () => {
+    const encryptor = await createEncryptor();
+
+    const first = encryptor.encrypt('123-45-6789', 'customers.tax_id:1');
+    const second = encryptor.encrypt('123-45-6789', 'customers.tax_id:1');
+
+    expect(first.keyVersion).toBe(1);
+    expect(first.ciphertext).toMatch(/^ev1\.1\./);
+    expect(first.ciphertext).not.toContain('123-45-6789');
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(encryptor.decrypt(first.ciphertext, 'customers.tax_id:1')).toBe('123-45-6789');
+  });
+
+  it('refuses ciphertexts moved to another context or tampered with', async () => {
+    const encryptor = await createEncryptor();
+    const { ciphertext } = encryptor.encrypt('secret', 'user_mfa.secret:a');
+    const parts = ciphertext.split('.');
+    parts[3] = Buffer.from('x'.repeat(40)).toString('base64url');
+
+    expect(() => encryptor.decrypt(ciphertext, 'user_mfa.secret:b')).toThrow('cannot be decrypted');
+    expect(() => encryptor.decrypt(parts.join('.'), 'user_mfa.secret:a')).toThrow('cannot be decrypted');
+    expect(() => encryptor.decrypt('plaintext')).toThrow('not an encrypted field');
+  });
+
+  it('keeps decrypting older versions after a rotation picked up by the watcher', async () => {
+    const encryptor = await createEncryptor();
+    encryptor.start();
+    const old = encryptor.encrypt('value');
+
+    stored = JSON.stringify(rotateFieldKeySet(parseFieldKeySet(stored)));
+    watcher?.(stored, null, FIELD_ENCRYPTION_KEYS_SECRET);
+
+    expect(encryptor.currentKeyVersion).toBe(2);
+    expect(encryptor.encrypt('value').keyVersion).toBe(2);
+    expect(encryptor.decrypt(old.ciphertext)).toBe('value');
+
+    stored = JSON.stringify(retireFieldKeys(parseFieldKeySet(stored), 2));
+    watcher?.(stored, null, FIELD_ENCRYPTION_KEYS_SECRET);
+    expect(() => encryptor.decrypt(old.ciphertext)).toThrow(expect.objectContaining({ code: 'VERSION_NOT_FOUND' }));
+
+    encryptor.stop();
+    expect(watcher).toBeNull();
+  });
+
+  it('rejects broken key sets', () => {
+    const set = generateFieldKeySet();
+
+    expect(() => parseFieldKeySet('{"keys":[]}')).toThrow('no keys');
+    expect(() => parseFieldKeySet(JSON.stringify({ keys: [...set.keys, ...set.keys] }))).toThrow('repeated');
+    expect(() => parseFieldKeySet(JSON.stringify({ keys: [{ ...set.keys[0], key: 'c2hvcnQ=' }] }))).toThrow('not 32 bytes');
+  });
+});
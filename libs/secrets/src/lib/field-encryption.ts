@@ -0,0 +1,234 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { SecretsError } from './secret-provider.js';
+import type { EnterpriseSecretsManager } from './secrets-manager.js';
+
+// Secret holding the master keys that wrap data keys
+export const FIELD_ENCRYPTION_KEYS_SECRET = 'field-encryption-keys';
+
+// Prefix and format version of serialized envelopes
+const ENVELOPE_PREFIX = 'ev1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface FieldMasterKey {
+  // Increases by one per rotation; stored next to every ciphertext
+  version: number;
+  // 32 random bytes, base64
+  key: string;
+  createdAt: string;
+}
+
+// New values are encrypted with the highest version; older keys stay until
+// no row uses them
+export interface FieldKeySet {
+  keys: FieldMasterKey[];
+}
+
+export interface EncryptedValue {
+  // Serialized envelope: wrapped data key, IV, tag and ciphertext
+  ciphertext: string;
+  // Master key version that wraps the data key
+  keyVersion: number;
+}
+
+// Secrets manager calls the encryptor needs
+export type FieldKeyStore = Pick<EnterpriseSecretsManager, 'getSecret' | 'watch'>;
+
+interface EncryptorLogger {
+  info(message: string): void;
+  error(message: string, error?: unknown): void;
+}
+
+export interface FieldEncryptorOptions {
+  logger?: EncryptorLogger;
+}
+
+const generateFieldMasterKey = (version: number): FieldMasterKey => ({
+  version,
+  key: randomBytes(KEY_BYTES).toString('base64'),
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Key set with a single master key, for the first deployment
+ * @returns Key set with version 1
+ */
+export const generateFieldKeySet = (): FieldKeySet => ({ keys: [generateFieldMasterKey(1)] });
+
+/**
+ * Adds a master key with the next version. Existing keys are kept, since
+ * rows encrypted with them stay readable until they are re-encrypted.
+ * @param set - Current key set
+ * @returns New key set
+ */
+export function rotateFieldKeySet(set: FieldKeySet): FieldKeySet {
+  const next = generateFieldMasterKey(currentFieldKey(set).version + 1);
+  return { keys: [...set.keys, next] };
+}
+
+/**
+ * Drops master keys older than a version, once re-encryption has moved
+ * every row past them
+ * @param set - Current key set
+ * @param minimumVersion - Oldest version to keep
+ * @returns Key set without the retired keys; the current key is always kept
+ */
+export function retireFieldKeys(set: FieldKeySet, minimumVersion: number): FieldKeySet {
+  const current = currentFieldKey(set);
+  return { keys: set.keys.filter((key) => key === current || key.version >= minimumVersion) };
+}
+
+/**
+ * Parses and checks a stored key set
+ * @param value - JSON of the `field-encryption-keys` secret
+ * @returns Key set
+ * @throws Error if the value is not a key set
+ */
+export function parseFieldKeySet(value: string): FieldKeySet {
+  const set = JSON.parse(value) as FieldKeySet;
+  if (!Array.isArray(set?.keys) || set.keys.length === 0) {
+    throw new Error('Field encryption key set has no keys');
+  }
+  const versions = new Set<number>();
+  for (const key of set.keys) {
+    if (!Number.isInteger(key.version) || key.version < 1 || versions.has(key.version)) {
+      throw new Error(`Field encryption key version ${key.version} is invalid or repeated`);
+    }
+    if (Buffer.from(key.key ?? '', 'base64').length !== KEY_BYTES) {
+      throw new Error(`Field encryption key ${key.version} is not ${KEY_BYTES} bytes`);
+    }
+    versions.add(key.version);
+  }
+  return set;
+}
+
+// The key that encrypts new values: the highest version
+export const currentFieldKey = (set: FieldKeySet): FieldMasterKey =>
+  set.keys.reduce((newest, key) => (key.version > newest.version ? key : newest));
+
+/**
+ * Short fingerprint of a master key for logs, never the key itself
+ * @param key - Master key
+ * @returns First 12 hex characters of the SHA-256 of the key
+ */
+export const fieldKeyFingerprint = (key: FieldMasterKey): string =>
+  createHash('sha256').update(key.key).digest('hex').slice(0, 12);
+
+/**
+ * Envelope encryption for database columns. Every value gets its own random
+ * data key; the data key is encrypted ("wrapped") with the current master key
+ * from the `field-encryption-keys` secret and stored with the ciphertext, so
+ * rotating the master key only re-wraps data keys and never needs the old
+ * master key once rows are re-encrypted. AES-256-GCM throughout; the optional
+ * context (e.g. table, column and row id) is authenticated, so a ciphertext
+ * copied into another row does not decrypt.
+ */
+export class FieldEncryptor {
+  private keySet: FieldKeySet | null = null;
+  private stopWatching: (() => void) | null = null;
+
+  constructor(
+    private readonly store: FieldKeyStore,
+    private readonly options: FieldEncryptorOptions = {}
+  ) {}
+
+  /**
+   * Reads the master key set
+   * @throws SecretsError with SECRET_NOT_FOUND if no key set is stored
+   */
+  async load(): Promise<void> {
+    this.keySet = parseFieldKeySet(await this.store.getSecret(FIELD_ENCRYPTION_KEYS_SECRET));
+  }
+
+  // Reloads the key set when the secret changes, e.g. after a rotation
+  start(): void {
+    this.stopWatching ??= this.store.watch(FIELD_ENCRYPTION_KEYS_SECRET, (value) => {
+      if (value === null) {
+        return;
+      }
+      try {
+        this.keySet = parseFieldKeySet(value);
+        this.options.logger?.info(`Field encryption keys reloaded; current version ${this.currentKeyVersion}`);
+      } catch (error) {
+        this.options.logger?.error('Ignoring invalid field encryption key set', error);
+      }
+    });
+  }
+
+  stop(): void {
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+
+  // Version of the master key that encrypts new values
+  get currentKeyVersion(): number {
+    return currentFieldKey(this.requireKeySet()).version;
+  }
+
+  /**
+   * Encrypts a value under a new data key wrapped with the current master key
+   * @param plaintext - Value to protect
+   * @param context - Authenticated but not encrypted; must match on decrypt
+   * @returns Serialized envelope and master key version
+   */
+  encrypt(plaintext: string, context = ''): EncryptedValue {
+    const masterKey = currentFieldKey(this.requireKeySet());
+    const dataKey = randomBytes(KEY_BYTES);
+    const wrapped = seal(Buffer.from(masterKey.key, 'base64'), dataKey, `${ENVELOPE_PREFIX}:${masterKey.version}`);
+    const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'), context);
+    return {
+      ciphertext: [ENVELOPE_PREFIX, masterKey.version, wrapped.toString('base64url'), sealed.toString('base64url')].join('.'),
+      keyVersion: masterKey.version,
+    };
+  }
+
+  /**
+   * Decrypts an envelope written by encrypt()
+   * @param ciphertext - Serialized envelope
+   * @param context - Context given when the value was encrypted
+   * @returns Plaintext
+   * @throws SecretsError with VERSION_NOT_FOUND if its master key was retired
+   * @throws Error if the envelope or context does not match
+   */
+  decrypt(ciphertext: string, context = ''): string {
+    const [prefix, version, wrapped, sealed, ...rest] = ciphertext.split('.');
+    const keyVersion = Number(version);
+    if (prefix !== ENVELOPE_PREFIX || !Number.isInteger(keyVersion) || !wrapped || !sealed || rest.length > 0) {
+      throw new Error('Value is not an encrypted field');
+    }
+    const masterKey = this.requireKeySet().keys.find((key) => key.version === keyVersion);
+    if (!masterKey) {
+      throw new SecretsError(`Field encryption key version ${keyVersion} not found`, 'VERSION_NOT_FOUND');
+    }
+    const dataKey = open(Buffer.from(masterKey.key, 'base64'), Buffer.from(wrapped, 'base64url'), `${ENVELOPE_PREFIX}:${keyVersion}`);
+    return open(dataKey, Buffer.from(sealed, 'base64url'), context).toString('utf8');
+  }
+
+  private requireKeySet(): FieldKeySet {
+    if (!this.keySet) {
+      throw new Error('Field encryptor is not loaded');
+    }
+    return this.keySet;
+  }
+}
+
+// IV, tag and ciphertext of AES-256-GCM in one buffer
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_BYTES));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  } catch {
+    throw new Error('Encrypted field cannot be decrypted; wrong key or context');
+  }
+}
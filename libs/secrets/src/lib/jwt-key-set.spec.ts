@@ -0,0 +1,57 @@
+import {
+  currentJwtKey,
+  generateJwtKey,
+  legacyJwtKeySet,
+  parseJwtKeySet,
+  rotateJwtKeySet,
+  toJwks,
+  verifyingJwtKeys,
+} from './jwt-key-set.js';
+
+const MINUTE = 60_000;
+
+describe('JWT key sets', () => {
+  const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1) + minutes * MINUTE);
+
+  it('generates HMAC and asymmetric keys', () => {
+    const hs = generateJwtKey('HS256');
+    const es = generateJwtKey('ES256');
+
+    expect(hs.publicKey).toBeUndefined();
+    expect(hs.privateKey.length).toBeGreaterThanOrEqual(64);
+    expect(es.privateKey).toContain('BEGIN PRIVATE KEY');
+    expect(es.publicKey).toContain('BEGIN PUBLIC KEY');
+    expect(hs.kid).not.toBe(es.kid);
+  });
+
+  it('pre-publishes rotated keys and keeps replaced ones for the grace window', () => {
+    const initial = { keys: [generateJwtKey('HS256', at(0))] };
+    const rotated = rotateJwtKeySet(initial, { algorithm: 'HS256', activationDelayMs: 10 * MINUTE, graceMs: 60 * MINUTE, now: at(100) });
+    const [previous, next] = rotated.keys;
+
+    expect(rotated.keys).toHaveLength(2);
+    expect(currentJwtKey(rotated, at(105))).toBe(previous);
+    expect(currentJwtKey(rotated, at(110))).toBe(next);
+    expect(verifyingJwtKeys(rotated, 60 * MINUTE, at(169))).toEqual([previous, next]);
+    expect(verifyingJwtKeys(rotated, 60 * MINUTE, at(170))).toEqual([next]);
+
+    const again = rotateJwtKeySet(rotated, { algorithm: 'HS256', activationDelayMs: 10 * MINUTE, graceMs: 60 * MINUTE, now: at(200) });
+    expect(again.keys.map((key) => key.kid)).toEqual([next.kid, again.keys[1].kid]);
+  });
+
+  it('parses stored key sets and rejects broken ones', () => {
+    const set = legacyJwtKeySet('secret');
+
+    expect(parseJwtKeySet(JSON.stringify(set))).toEqual(set);
+    expect(() => parseJwtKeySet('{"keys":[]}')).toThrow('no keys');
+    expect(() => parseJwtKeySet(JSON.stringify({ keys: [{ ...generateJwtKey('RS256'), publicKey: undefined }] }))).toThrow('no public key');
+  });
+
+  it('publishes only asymmetric keys as JWKs', () => {
+    const es = generateJwtKey('ES256');
+    const jwks = toJwks([generateJwtKey('HS256'), es]);
+
+    expect(jwks.keys).toEqual([expect.objectContaining({ kid: es.kid, alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' })]);
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+  });
+});
@@ -0,0 +1,174 @@
+import { createHash, createPublicKey, generateKeyPairSync, randomBytes, randomUUID, type JsonWebKey } from 'crypto';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export const JWT_ALGORITHMS: readonly JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+// Secret holding the signing key set
+export const JWT_SIGNING_KEYS_SECRET = 'jwt-signing-keys';
+
+// Kid of the key derived from the single `jwt-secret`; tokens without a kid use it
+export const LEGACY_JWT_KID = 'legacy';
+
+export interface JwtSigningKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  // HMAC secret, or PEM private key for RS256 and ES256
+  privateKey: string;
+  // PEM public key; absent for HS256
+  publicKey?: string;
+  createdAt: string;
+  // Tokens are signed with the newest key whose activation time has passed
+  activatesAt: string;
+}
+
+export interface JwtKeySet {
+  keys: JwtSigningKey[];
+}
+
+export interface RotateJwtKeySetOptions {
+  algorithm: JwtAlgorithm;
+  // How long the new key is published before it signs tokens, so every
+  // instance knows it by then
+  activationDelayMs: number;
+  // How long a replaced key still verifies tokens; at least the longest token lifetime
+  graceMs: number;
+  now?: Date;
+}
+
+export type JwtPublicKey = JsonWebKey & { kid: string; alg: JwtAlgorithm; use: 'sig' };
+
+const byActivation = (a: JwtSigningKey, b: JwtSigningKey) => Date.parse(a.activatesAt) - Date.parse(b.activatesAt);
+
+/**
+ * Generates a signing key
+ * @param algorithm - HS256 (shared secret), RS256 (RSA 2048) or ES256 (P-256)
+ * @param activatesAt - When the key starts signing
+ * @returns New key with a random kid
+ */
+export function generateJwtKey(algorithm: JwtAlgorithm, activatesAt = new Date()): JwtSigningKey {
+  const base = { kid: randomUUID(), algorithm, createdAt: new Date().toISOString(), activatesAt: activatesAt.toISOString() };
+  if (algorithm === 'HS256') {
+    return { ...base, privateKey: randomBytes(64).toString('base64url') };
+  }
+  const { privateKey, publicKey } = algorithm === 'RS256'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return {
+    ...base,
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+  };
+}
+
+/**
+ * Key set holding only the HS256 key of a single shared `jwt-secret`, for
+ * deployments that have no key set yet
+ * @param secret - Current JWT secret
+ * @returns Key set with the legacy key
+ */
+export const legacyJwtKeySet = (secret: string): JwtKeySet => ({
+  keys: [{
+    kid: LEGACY_JWT_KID,
+    algorithm: 'HS256',
+    privateKey: secret,
+    createdAt: new Date(0).toISOString(),
+    activatesAt: new Date(0).toISOString(),
+  }],
+});
+
+/**
+ * Parses and checks a stored key set
+ * @param value - JSON of the `jwt-signing-keys` secret
+ * @returns Key set
+ * @throws Error if the value is not a key set
+ */
+export function parseJwtKeySet(value: string): JwtKeySet {
+  const set = JSON.parse(value) as JwtKeySet;
+  if (!Array.isArray(set?.keys) || set.keys.length === 0) {
+    throw new Error('JWT key set has no keys');
+  }
+  for (const key of set.keys) {
+    if (!key.kid || !JWT_ALGORITHMS.includes(key.algorithm) || !key.privateKey || Number.isNaN(Date.parse(key.activatesAt))) {
+      throw new Error(`JWT key ${key.kid ?? '(without kid)'} is invalid`);
+    }
+    if (key.algorithm !== 'HS256' && !key.publicKey) {
+      throw new Error(`JWT key ${key.kid} has no public key`);
+    }
+  }
+  return set;
+}
+
+/**
+ * The key that signs tokens: the newest key whose activation time has passed
+ * @param set - Key set
+ * @param now - Current time
+ * @returns Signing key
+ */
+export function currentJwtKey(set: JwtKeySet, now = new Date()): JwtSigningKey {
+  const sorted = [...set.keys].sort(byActivation);
+  const active = sorted.filter((key) => Date.parse(key.activatesAt) <= now.getTime());
+  return active[active.length - 1] ?? sorted[0];
+}
+
+/**
+ * Keys that verify tokens: the current key, keys not yet active, and
+ * replaced keys for `graceMs` after their successor took over
+ * @param set - Key set
+ * @param graceMs - How long replaced keys stay valid
+ * @param now - Current time
+ * @returns Verifying keys
+ */
+export function verifyingJwtKeys(set: JwtKeySet, graceMs: number, now = new Date()): JwtSigningKey[] {
+  const sorted = [...set.keys].sort(byActivation);
+  const current = currentJwtKey(set, now);
+  return sorted.filter((key, index) => {
+    if (key === current || Date.parse(key.activatesAt) > now.getTime()) {
+      return true;
+    }
+    const successor = sorted[index + 1];
+    return successor !== undefined && Date.parse(successor.activatesAt) + graceMs > now.getTime();
+  });
+}
+
+/**
+ * Adds a new key that takes over after `activationDelayMs` and drops keys
+ * past their grace window. Tokens signed with the previous key keep
+ * verifying for `graceMs` after the new key activates.
+ * @param set - Current key set
+ * @param options - Algorithm, activation delay and grace window
+ * @returns New key set
+ */
+export function rotateJwtKeySet(set: JwtKeySet, options: RotateJwtKeySetOptions): JwtKeySet {
+  const now = options.now ?? new Date();
+  const next = generateJwtKey(options.algorithm, new Date(now.getTime() + options.activationDelayMs));
+  const kept = verifyingJwtKeys(set, options.graceMs, now);
+  return { keys: [...kept, next].sort(byActivation) };
+}
+
+/**
+ * Public keys for a JWKS document. HS256 keys are shared secrets and are
+ * never published.
+ * @param keys - Keys that verify tokens
+ * @returns JWKs with kid, alg and use
+ */
+export function toJwks(keys: readonly JwtSigningKey[]): { keys: JwtPublicKey[] } {
+  return {
+    keys: keys
+      .filter((key) => key.algorithm !== 'HS256' && key.publicKey)
+      .map((key) => ({
+        ...createPublicKey(key.publicKey as string).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig' as const,
+      })),
+  };
+}
+
+/**
+ * Short fingerprint of a key for logs, never the key itself
+ * @param key - Signing key
+ * @returns First 12 hex characters of the SHA-256 of the public part
+ */
+export const jwtKeyFingerprint = (key: JwtSigningKey): string =>
+  createHash('sha256').update(key.publicKey ?? key.privateKey).digest('hex').slice(0, 12);
@@ -0,0 +1,128 @@
+import { SecretCache } from './secret-cache.js';
+import type { SecretProvider } from './secret-provider.js';
+
+describe('SecretCache', () => {
+  let now: number;
+  let values: Record<string, string>;
+  let provider: SecretProvider & { get: ReturnType<typeof vi.fn> };
+
+  const createCache = (options = {}) =>
+    new SecretCache(provider, { ttlMs: 1000, staleMs: 5000, refreshIntervalMs: 0, now: () => now, ...options });
+
+  beforeEach(() => {
+    now = 0;
+    values = { 'jwt-secret': 'v1' };
+    provider = { name: 'test', get: vi.fn(async (secretName: string) => values[secretName] ?? null) };
+  });
+
+  it('serves fresh values from the cache, including missing secrets', async () => {
+    const cache = createCache();
+
+    expect(await cache.get('jwt-secret')).toBe('v1');
+    expect(await cache.get('jwt-secret')).toBe('v1');
+    expect(await cache.get('redis-url')).toBeNull();
+    expect(await cache.get('redis-url')).toBeNull();
+
+    expect(provider.get).toHaveBeenCalledTimes(2);
+    expect(cache.metrics()).toMatchObject({ hits: 2, misses: 2, loads: 2 });
+  });
+
+  it('serves stale values while reloading them in the background', async () => {
+    const cache = createCache();
+    await cache.get('jwt-secret');
+    values['jwt-secret'] = 'v2';
+    now = 1500;
+
+    expect(await cache.get('jwt-secret')).toBe('v1');
+    await vi.waitFor(() => expect(provider.get).toHaveBeenCalledTimes(2));
+    expect(await cache.get('jwt-secret')).toBe('v2');
+    expect(cache.metrics()).toMatchObject({ staleHits: 1, hits: 1, changes: 1 });
+  });
+
+  it('waits for the provider past the stale window and keeps the old value if it fails', async () => {
+    const onError = vi.fn();
+    const cache = createCache({ onError });
+    await cache.get('jwt-secret');
+    now = 10_000;
+    provider.get.mockRejectedValueOnce(new Error('AWS is down'));
+
+    expect(await cache.get('jwt-secret')).toBe('v1');
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), 'jwt-secret');
+    expect(cache.metrics()).toMatchObject({ misses: 2, loadErrors: 1 });
+  });
+
+  it('rethrows provider errors when nothing is cached', async () => {
+    provider.get.mockRejectedValueOnce(new Error('AWS is down'));
+
+    await expect(createCache().get('jwt-secret')).rejects.toThrow('AWS is down');
+  });
+
+  it('uses per-secret TTLs', async () => {
+    const cache = createCache({ ttls: { 'jwt-secret': 100 } });
+    await cache.get('jwt-secret');
+    now = 200;
+
+    await cache.get('jwt-secret');
+    expect(cache.metrics().staleHits).toBe(1);
+  });
+
+  it('shares one provider read between concurrent misses', async () => {
+    const cache = createCache();
+
+    await Promise.all([cache.get('jwt-secret'), cache.get('jwt-secret'), cache.get('jwt-secret')]);
+    expect(provider.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('notifies watchers when a refresh finds a new value', async () => {
+    const cache = createCache();
+    const watcher = vi.fn();
+    const stop = cache.watch('jwt-secret', watcher);
+    await vi.waitFor(() => expect(provider.get).toHaveBeenCalledTimes(1));
+
+    values['jwt-secret'] = 'v2';
+    await cache.refresh();
+    expect(watcher).not.toHaveBeenCalled();
+
+    now = 1000;
+    await cache.refresh();
+    expect(watcher).toHaveBeenCalledWith('v2', 'v1', 'jwt-secret');
+
+    stop();
+    values['jwt-secret'] = 'v3';
+    now = 2000;
+    await cache.refresh();
+    expect(watcher).toHaveBeenCalledTimes(1);
+    cache.stop();
+  });
+
+  it('refreshes watched secrets on a timer', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new SecretCache(provider, { ttlMs: 1000, refreshIntervalMs: 1000 });
+      const watcher = vi.fn();
+      cache.watch('jwt-secret', watcher);
+      await vi.advanceTimersByTimeAsync(0);
+
+      values['jwt-secret'] = 'v2';
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(watcher).toHaveBeenCalledWith('v2', 'v1', 'jwt-secret');
+      cache.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reads a secret back after writing it', async () => {
+    const writable = { ...provider, put: vi.fn(async (secretName: string, value: string) => { values[secretName] = value; }) };
+    const cache = new SecretCache(writable, { ttlMs: 1000, refreshIntervalMs: 0, now: () => now });
+    const watcher = vi.fn();
+    cache.watch('jwt-secret', watcher);
+    await vi.waitFor(() => expect(writable.get).toHaveBeenCalledTimes(1));
+
+    await cache.put('jwt-secret', 'rotated');
+
+    expect(await cache.get('jwt-secret')).toBe('rotated');
+    expect(watcher).toHaveBeenCalledWith('rotated', 'v1', 'jwt-secret');
+  });
+});
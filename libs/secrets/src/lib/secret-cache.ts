@@ -0,0 +1,256 @@
+import {
+  type PutSecretOptions,
+  type SecretMetadata,
+  type SecretProvider,
+  SecretsError,
+  type SecretVersion,
+} from './secret-provider.js';
+
+export interface SecretCacheOptions {
+  // How long a value is served without asking the provider
+  ttlMs?: number;
+  // TTLs of individual secrets, e.g. shorter ones for secrets rotated often
+  ttls?: Readonly<Record<string, number>>;
+  // How long past its TTL a value is still served while it is refreshed
+  staleMs?: number;
+  // How often expired and watched secrets are reloaded in the background; 0 disables
+  refreshIntervalMs?: number;
+  // Called when a background reload or a watcher fails
+  onError?: (error: unknown, secretName: string) => void;
+  now?: () => number;
+}
+
+// Counters since the cache was created
+export interface SecretCacheMetrics {
+  // Fresh values served from the cache
+  hits: number;
+  // Expired values served while a reload ran
+  staleHits: number;
+  // Reads that waited for the provider
+  misses: number;
+  // Provider reads, in the foreground or background
+  loads: number;
+  // Provider reads that failed
+  loadErrors: number;
+  // Values that changed on reload
+  changes: number;
+}
+
+export type SecretWatcher = (value: string | null, previous: string | null, secretName: string) => void;
+
+interface CacheEntry {
+  value: string | null;
+  loadedAt: number;
+}
+
+/**
+ * Caches what a provider returns, including missing secrets. Values are
+ * fresh for their TTL; within the following `staleMs` they are still served
+ * while a reload runs (stale-while-revalidate). A reload that fails keeps
+ * the last value, so a provider outage does not take a running service down.
+ * Watchers are told when a reload returns a different value.
+ */
+export class SecretCache implements SecretProvider {
+  readonly name: string;
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly loading = new Map<string, Promise<string | null>>();
+  private readonly watchers = new Map<string, Set<SecretWatcher>>();
+  private readonly counters: SecretCacheMetrics = { hits: 0, staleHits: 0, misses: 0, loads: 0, loadErrors: 0, changes: 0 };
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+  private readonly now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly provider: SecretProvider,
+    private readonly options: SecretCacheOptions = {}
+  ) {
+    this.name = provider.name;
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.staleMs = options.staleMs ?? 60 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(secretName: string): Promise<string | null> {
+    const entry = this.entries.get(secretName);
+    const age = entry ? this.now() - entry.loadedAt : Infinity;
+    const ttl = this.ttlFor(secretName);
+
+    if (entry && age < ttl) {
+      this.counters.hits++;
+      return entry.value;
+    }
+    if (entry && age < ttl + this.staleMs) {
+      this.counters.staleHits++;
+      this.load(secretName).catch((error) => this.options.onError?.(error, secretName));
+      return entry.value;
+    }
+
+    this.counters.misses++;
+    try {
+      return await this.load(secretName);
+    } catch (error) {
+      // Past the stale window, but better than failing
+      if (entry) {
+        this.options.onError?.(error, secretName);
+        return entry.value;
+      }
+      throw error;
+    }
+  }
+
+  async put(secretName: string, value: string, options?: PutSecretOptions): Promise<void> {
+    if (!this.provider.put) {
+      throw new SecretsError(`Provider ${this.provider.name} is read-only`, 'READ_ONLY');
+    }
+    await this.provider.put(secretName, value, options);
+    // Read back rather than caching `value`: the chain may serve another provider's copy
+    await this.load(secretName).catch((error) => this.options.onError?.(error, secretName));
+  }
+
+  // Listings and histories are not cached; they serve tooling, not request paths
+  async list(): Promise<SecretMetadata[]> {
+    if (!this.provider.list) {
+      return [];
+    }
+    return this.provider.list();
+  }
+
+  async history(secretName: string): Promise<SecretVersion[]> {
+    if (!this.provider.history) {
+      return [];
+    }
+    return this.provider.history(secretName);
+  }
+
+  async rollback(secretName: string, version: number | string): Promise<void> {
+    if (!this.provider.rollback) {
+      throw new SecretsError(`Provider ${this.provider.name} keeps no history`, 'READ_ONLY');
+    }
+    await this.provider.rollback(secretName, version);
+    await this.load(secretName).catch((error) => this.options.onError?.(error, secretName));
+  }
+
+  /**
+   * Calls `watcher` whenever a reload returns a different value for the
+   * secret. Watched secrets are reloaded in the background once their TTL
+   * has passed, so a change is noticed within about TTL plus the refresh
+   * interval even if nothing reads the secret.
+   * @param secretName - Secret to watch
+   * @param watcher - Receives the new and the previous value
+   * @returns Function that stops watching
+   */
+  watch(secretName: string, watcher: SecretWatcher): () => void {
+    let watchers = this.watchers.get(secretName);
+    if (!watchers) {
+      watchers = new Set();
+      this.watchers.set(secretName, watchers);
+    }
+    watchers.add(watcher);
+    this.start();
+
+    // Load now so the first change is detected against a known value
+    if (!this.entries.has(secretName)) {
+      this.get(secretName).catch((error) => this.options.onError?.(error, secretName));
+    }
+    return () => {
+      watchers.delete(watcher);
+      if (watchers.size === 0) {
+        this.watchers.delete(secretName);
+      }
+    };
+  }
+
+  /**
+   * Forgets cached values so the next read asks the provider
+   * @param secretName - Secret to forget; all when omitted
+   */
+  invalidate(secretName?: string): void {
+    if (secretName === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(secretName);
+    }
+  }
+
+  /**
+   * Reloads expired and watched secrets now; the background timer calls this
+   * @returns Once every reload has settled
+   */
+  async refresh(): Promise<void> {
+    const due = new Set<string>();
+    for (const [secretName, entry] of this.entries) {
+      if (this.now() - entry.loadedAt >= this.ttlFor(secretName)) {
+        due.add(secretName);
+      }
+    }
+    for (const secretName of this.watchers.keys()) {
+      if (!this.entries.has(secretName)) {
+        due.add(secretName);
+      }
+    }
+    await Promise.all([...due].map((secretName) =>
+      this.load(secretName).catch((error) => this.options.onError?.(error, secretName))
+    ));
+  }
+
+  // Starts background refreshes; watch() calls it
+  start(): void {
+    const interval = this.options.refreshIntervalMs ?? 60_000;
+    if (this.timer || interval <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => void this.refresh(), interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  metrics(): SecretCacheMetrics {
+    return { ...this.counters };
+  }
+
+  private ttlFor(secretName: string): number {
+    return this.options.ttls?.[secretName] ?? this.ttlMs;
+  }
+
+  // Reads from the provider; concurrent reloads of a secret share one read
+  private load(secretName: string): Promise<string | null> {
+    let pending = this.loading.get(secretName);
+    if (!pending) {
+      this.counters.loads++;
+      pending = this.provider.get(secretName)
+        .then((value) => {
+          this.store(secretName, value);
+          return value;
+        }, (error: unknown) => {
+          this.counters.loadErrors++;
+          throw error;
+        })
+        .finally(() => this.loading.delete(secretName));
+      this.loading.set(secretName, pending);
+    }
+    return pending;
+  }
+
+  private store(secretName: string, value: string | null): void {
+    const previous = this.entries.get(secretName);
+    this.entries.set(secretName, { value, loadedAt: this.now() });
+    if (!previous || previous.value === value) {
+      return;
+    }
+    this.counters.changes++;
+    for (const watcher of this.watchers.get(secretName) ?? []) {
+      try {
+        watcher(value, previous.value, secretName);
+      } catch (error) {
+        this.options.onError?.(error, secretName);
+      }
+    }
+  }
+}
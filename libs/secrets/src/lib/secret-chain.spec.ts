@@ -0,0 +1,85 @@
+import { SecretChain } from './secret-chain.js';
+import type { SecretProvider } from './secret-provider.js';
+
+const staticProvider = (name: string, values: Record<string, string>): SecretProvider => ({
+  name,
+  get: async (secretName) => values[secretName] ?? null,
+});
+
+const failingProvider = (name: string): SecretProvider => ({
+  name,
+  get: async () => {
+    throw new Error(`${name} is down`);
+  },
+});
+
+describe('SecretChain', () => {
+  it('returns the first value found in order', async () => {
+    const chain = new SecretChain([
+      staticProvider('first', { 'jwt-secret': 'from-first' }),
+      staticProvider('second', { 'jwt-secret': 'from-second', 'redis-url': 'redis://second' }),
+    ]);
+
+    expect(await chain.get('jwt-secret')).toBe('from-first');
+    expect(await chain.get('redis-url')).toBe('redis://second');
+    expect(await chain.get('cors-origins')).toBeNull();
+  });
+
+  it('falls through failing providers and reports them', async () => {
+    const onProviderError = vi.fn();
+    const chain = new SecretChain(
+      [failingProvider('aws-secrets-manager'), staticProvider('env', { 'jwt-secret': 'from-env' })],
+      { onProviderError }
+    );
+
+    expect(await chain.get('jwt-secret')).toBe('from-env');
+    expect(onProviderError).toHaveBeenCalledWith(expect.any(Error), chain.providers[0], 'jwt-secret');
+  });
+
+  it('fails instead of reporting a missing secret when a provider was unavailable', async () => {
+    const chain = new SecretChain([failingProvider('aws-secrets-manager'), staticProvider('env', {})]);
+
+    await expect(chain.get('jwt-secret')).rejects.toMatchObject({ code: 'PROVIDER_UNAVAILABLE' });
+  });
+
+  it('writes to the first writable provider or the one named', async () => {
+    const first = { ...staticProvider('aws-secrets-manager', {}), put: vi.fn() };
+    const second = { ...staticProvider('ssm', {}), put: vi.fn() };
+    const chain = new SecretChain([staticProvider('env', {}), first, second]);
+
+    await chain.put('jwt-secret', 'new');
+    await chain.put('redis-url', 'redis://new', { provider: 'ssm', secure: true });
+
+    expect(first.put).toHaveBeenCalledWith('jwt-secret', 'new', {});
+    expect(second.put).toHaveBeenCalledWith('redis-url', 'redis://new', { secure: true });
+    await expect(chain.put('x', 'y', { provider: 'env' })).rejects.toMatchObject({ code: 'READ_ONLY' });
+  });
+
+  it('lists secrets of providers that can list them, first provider first', async () => {
+    const listing = (name: string, names: string[]): SecretProvider => ({
+      ...staticProvider(name, {}),
+      list: async () => names.map((secretName) => ({ name: secretName, provider: name })),
+    });
+    const chain = new SecretChain([staticProvider('env', {}), listing('first', ['jwt-secret']), listing('second', ['jwt-secret', 'redis-url'])]);
+
+    expect(await chain.list()).toEqual([
+      { name: 'jwt-secret', provider: 'first' },
+      { name: 'redis-url', provider: 'second' },
+    ]);
+  });
+
+  it('reads history from and rolls back in the provider that has the secret', async () => {
+    const rollback = vi.fn();
+    const withHistory = (name: string, versions: number[]): SecretProvider => ({
+      ...staticProvider(name, {}),
+      history: async () => versions.map((version, index) => ({ version, current: index === 0 })),
+      rollback,
+    });
+    const chain = new SecretChain([withHistory('empty', []), withHistory('vault', [2, 1])]);
+
+    expect(await chain.history('jwt-secret')).toHaveLength(2);
+    await chain.rollback('jwt-secret', 1);
+    expect(rollback).toHaveBeenCalledWith('jwt-secret', 1);
+    await expect(new SecretChain([staticProvider('env', {})]).rollback('jwt-secret', 1)).rejects.toMatchObject({ code: 'SECRET_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  type PutSecretOptions,
+  type SecretMetadata,
+  type SecretProvider,
+  SecretsError,
+  type SecretVersion,
+} from './secret-provider.js';
+
+export interface SecretChainOptions {
+  // Called when a provider fails; the chain then moves on to the next one
+  onProviderError?: (error: unknown, provider: SecretProvider, secretName: string) => void;
+}
+
+export interface ChainPutOptions extends PutSecretOptions {
+  // Name of the provider to write to; defaults to the first writable one
+  provider?: string;
+}
+
+/**
+ * Asks providers in order and returns the first value found. A provider
+ * that fails does not end the lookup, but a secret is only reported missing
+ * when every provider answered; if any failed, the lookup fails instead so an
+ * outage is not mistaken for a missing secret.
+ */
+export class SecretChain implements SecretProvider {
+  readonly name = 'chain';
+
+  constructor(
+    readonly providers: readonly SecretProvider[],
+    private readonly options: SecretChainOptions = {}
+  ) {}
+
+  async get(secretName: string): Promise<string | null> {
+    const failed: string[] = [];
+    for (const provider of this.providers) {
+      try {
+        const value = await provider.get(secretName);
+        if (value !== null) {
+          return value;
+        }
+      } catch (error) {
+        failed.push(provider.name);
+        this.options.onProviderError?.(error, provider, secretName);
+      }
+    }
+    if (failed.length > 0) {
+      throw new SecretsError(
+        `Secret ${secretName} not found; unavailable providers: ${failed.join(', ')}`,
+        'PROVIDER_UNAVAILABLE'
+      );
+    }
+    return null;
+  }
+
+  async put(secretName: string, value: string, options: ChainPutOptions = {}): Promise<void> {
+    const { provider: providerName, ...putOptions } = options;
+    const provider = this.providers.find((candidate) =>
+      candidate.put && (providerName === undefined || candidate.name === providerName)
+    );
+    if (!provider?.put) {
+      throw new SecretsError(
+        providerName ? `Provider ${providerName} is not writable in this chain` : 'No writable secret provider configured',
+        'READ_ONLY'
+      );
+    }
+    await provider.put(secretName, value, putOptions);
+  }
+
+  /**
+   * Secrets of every provider that can list them. A name held by several
+   * providers is reported for the first, whose value get() returns.
+   * @throws SecretsError if a provider fails, so the list is never partial
+   */
+  async list(): Promise<SecretMetadata[]> {
+    const found = new Map<string, SecretMetadata>();
+    const failed: string[] = [];
+    for (const provider of this.providers) {
+      if (!provider.list) {
+        continue;
+      }
+      try {
+        for (const metadata of await provider.list()) {
+          if (!found.has(metadata.name)) {
+            found.set(metadata.name, metadata);
+          }
+        }
+      } catch (error) {
+        failed.push(provider.name);
+        this.options.onProviderError?.(error, provider, '*');
+      }
+    }
+    if (failed.length > 0) {
+      throw new SecretsError(`Cannot list secrets; unavailable providers: ${failed.join(', ')}`, 'PROVIDER_UNAVAILABLE');
+    }
+    return [...found.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Versions of a secret in the first provider that keeps history and has it
+   * @throws SecretsError if a provider fails before the secret was found
+   */
+  async history(secretName: string): Promise<SecretVersion[]> {
+    return (await this.holderOf(secretName))?.versions ?? [];
+  }
+
+  /**
+   * Makes an earlier version current in the provider history() reads from
+   * @throws SecretsError VERSION_NOT_FOUND, or SECRET_NOT_FOUND if no provider has its history
+   */
+  async rollback(secretName: string, version: number | string): Promise<void> {
+    const holder = await this.holderOf(secretName);
+    if (!holder?.provider.rollback) {
+      throw new SecretsError(`No provider keeps history of ${secretName}`, 'SECRET_NOT_FOUND');
+    }
+    await holder.provider.rollback(secretName, version);
+  }
+
+  private async holderOf(secretName: string): Promise<{ provider: SecretProvider; versions: SecretVersion[] } | null> {
+    for (const provider of this.providers) {
+      if (!provider.history) {
+        continue;
+      }
+      const versions = await provider.history(secretName);
+      if (versions.length > 0) {
+        return { provider, versions };
+      }
+    }
+    return null;
+  }
+}
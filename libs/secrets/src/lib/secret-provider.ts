@@ -0,0 +1,72 @@
+export type SecretsErrorCode =
+  | 'SECRET_NOT_FOUND'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'READ_ONLY'
+  | 'INVALID_SECRETS_FILE'
+  | 'UNKNOWN_PROVIDER'
+  | 'VERSION_NOT_FOUND';
+
+export class SecretsError extends Error {
+  constructor(message: string, public readonly code: SecretsErrorCode) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+export interface PutSecretOptions {
+  // Store encrypted where the backend distinguishes, e.g. SSM SecureString
+  secure?: boolean;
+  description?: string;
+}
+
+// What a provider knows about a stored secret, never its value
+export interface SecretMetadata {
+  name: string;
+  // Provider that holds the secret
+  provider: string;
+  description?: string;
+  // Current version: a counter for the vault and SSM, a version id for Secrets Manager
+  version?: number | string;
+  createdAt?: string;
+  // Last write or rotation
+  updatedAt?: string;
+}
+
+// One stored version of a secret, never its value
+export interface SecretVersion {
+  version: number | string;
+  createdAt?: string;
+  // Whether reads return this version
+  current: boolean;
+}
+
+/**
+ * A place secrets are read from, such as AWS Secrets Manager or environment
+ * variables. Secrets are addressed by logical names like `jwt-secret` or
+ * `api-keys/maps`; each provider maps them to its own naming scheme.
+ */
+export interface SecretProvider {
+  readonly name: string;
+  /**
+   * Reads a secret
+   * @returns The value, or null when this provider does not have it
+   * @throws when the backend cannot be reached; a chain then tries the next provider
+   */
+  get(secretName: string): Promise<string | null>;
+  // Creates or replaces a secret; read-only providers leave it out
+  put?(secretName: string, value: string, options?: PutSecretOptions): Promise<void>;
+  // Secrets this provider holds; providers that cannot enumerate leave it out
+  list?(): Promise<SecretMetadata[]>;
+  // Stored versions of a secret, newest first; empty when it does not exist
+  history?(secretName: string): Promise<SecretVersion[]>;
+  /**
+   * Makes an earlier version current again
+   * @throws SecretsError VERSION_NOT_FOUND if the version is not stored
+   */
+  rollback?(secretName: string, version: number | string): Promise<void>;
+  /**
+   * Confirms the backend can be reached with the configured credentials
+   * @throws when it cannot; providers without a remote backend leave it out
+   */
+  healthCheck?(): Promise<void>;
+}
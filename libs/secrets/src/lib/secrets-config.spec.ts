@@ -0,0 +1,22 @@
+import { createSecretProviders, parseProviderList, providerChainFor } from './secrets-config.js';
+
+describe('secrets config', () => {
+  it('uses AWS first in deployed environments and env locally', () => {
+    expect(providerChainFor('production')).toEqual(['aws-secrets-manager', 'ssm', 'env']);
+    expect(providerChainFor('test')).toEqual(['env']);
+    expect(providerChainFor('preview')).toEqual(providerChainFor('development'));
+  });
+
+  it('parses provider lists and rejects unknown providers', () => {
+    expect(parseProviderList('env, encrypted-file')).toEqual(['env', 'encrypted-file']);
+    expect(() => parseProviderList('env,vault')).toThrow(expect.objectContaining({ code: 'UNKNOWN_PROVIDER' }));
+  });
+
+  it('creates providers in chain order', () => {
+    const providers = createSecretProviders({ environment: 'staging', region: 'eu-west-1' });
+    expect(providers.map((provider) => provider.name)).toEqual(['aws-secrets-manager', 'ssm', 'env']);
+
+    const local = createSecretProviders({ environment: 'production', providers: ['encrypted-file', 'env'] });
+    expect(local.map((provider) => provider.name)).toEqual(['encrypted-file', 'env']);
+  });
+});
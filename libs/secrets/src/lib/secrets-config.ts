@@ -0,0 +1,96 @@
+import { AwsSecretsManagerProvider } from './aws-secrets-manager-provider.js';
+import { EncryptedFileProvider } from './encrypted-file-provider.js';
+import { EnvSecretProvider } from './env-provider.js';
+import { type SecretProvider, SecretsError } from './secret-provider.js';
+import { SsmParameterProvider } from './ssm-parameter-provider.js';
+
+export type SecretProviderType = 'aws-secrets-manager' | 'ssm' | 'env' | 'encrypted-file';
+
+export const SECRET_PROVIDER_TYPES: readonly SecretProviderType[] = ['aws-secrets-manager', 'ssm', 'env', 'encrypted-file'];
+
+/**
+ * Providers asked for a secret, in order, per environment. Deployed
+ * environments read AWS first and keep environment variables as a last
+ * resort during an AWS outage; locally, environment variables override the
+ * encrypted file. Other environments use the development chain.
+ */
+export const DEFAULT_PROVIDER_CHAINS: Readonly<Record<string, readonly SecretProviderType[]>> = {
+  production: ['aws-secrets-manager', 'ssm', 'env'],
+  staging: ['aws-secrets-manager', 'ssm', 'env'],
+  development: ['env', 'encrypted-file'],
+  test: ['env'],
+};
+
+export interface SecretProvidersOptions {
+  environment: string;
+  // Overrides the environment's default chain
+  providers?: readonly SecretProviderType[];
+  region?: string;
+  // Path of the encrypted secrets file and its passphrase or key file;
+  // without a passphrase the key file defaults to `.secrets/<env>.key`
+  secretsFile?: string;
+  passphrase?: string;
+  keyFile?: string;
+  // Variables read by the env provider
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Key file of an environment's vault when no passphrase or key file is configured
+ * @param environment - e.g. `development`
+ * @returns `.secrets/<env>.key`
+ */
+export const defaultKeyFile = (environment: string): string => `.secrets/${environment}.key`;
+
+/**
+ * Parses a comma-separated provider list such as `SECRETS_PROVIDERS`
+ * @param value - e.g. `aws-secrets-manager,env`
+ * @returns Provider types in order
+ * @throws SecretsError if a provider is unknown
+ */
+export function parseProviderList(value: string): SecretProviderType[] {
+  const types = value.split(',').map((type) => type.trim()).filter(Boolean);
+  for (const type of types) {
+    if (!SECRET_PROVIDER_TYPES.includes(type as SecretProviderType)) {
+      throw new SecretsError(
+        `Unknown secret provider "${type}"; use ${SECRET_PROVIDER_TYPES.join(', ')}`,
+        'UNKNOWN_PROVIDER'
+      );
+    }
+  }
+  return types as SecretProviderType[];
+}
+
+/**
+ * Default provider chain of an environment
+ * @param environment - e.g. `production`
+ * @returns Provider types in order
+ */
+export const providerChainFor = (environment: string): readonly SecretProviderType[] =>
+  DEFAULT_PROVIDER_CHAINS[environment] ?? DEFAULT_PROVIDER_CHAINS['development'];
+
+/**
+ * Creates the providers of a chain. AWS clients are only created for
+ * environments whose chain uses them.
+ * @param options - Environment and provider settings
+ * @returns Providers in lookup order
+ */
+export function createSecretProviders(options: SecretProvidersOptions): SecretProvider[] {
+  const { environment } = options;
+  return (options.providers ?? providerChainFor(environment)).map((type): SecretProvider => {
+    switch (type) {
+      case 'aws-secrets-manager':
+        return new AwsSecretsManagerProvider({ environment, region: options.region });
+      case 'ssm':
+        return new SsmParameterProvider({ environment, region: options.region });
+      case 'env':
+        return new EnvSecretProvider(options.env);
+      case 'encrypted-file':
+        return new EncryptedFileProvider({
+          path: options.secretsFile ?? `.secrets/${environment}.json`,
+          passphrase: options.passphrase,
+          keyFile: options.keyFile ?? (options.passphrase ? undefined : defaultKeyFile(environment)),
+        });
+    }
+  });
+}
@@ -1,5 +0,0 @@
-export * from './secrets-manager.js';
-
-export function secrets(): string {
-  return 'secrets';
-}
@@ -0,0 +1,76 @@
+import { DescribeParametersCommand, GetParameterCommand, PutParameterCommand } from '@aws-sdk/client-ssm';
+import { SsmParameterProvider } from './ssm-parameter-provider.js';
+
+describe('SsmParameterProvider', () => {
+  const send = vi.fn();
+  const provider = new SsmParameterProvider({ environment: 'staging', client: { send } });
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  it('reads and decrypts /<env>/config/<name>', async () => {
+    send.mockResolvedValue({ Parameter: { Value: 'redis://cache:6379' } });
+
+    expect(await provider.get('redis-url')).toBe('redis://cache:6379');
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetParameterCommand);
+    expect(command.input).toEqual({ Name: '/staging/config/redis-url', WithDecryption: true });
+  });
+
+  it('returns null for missing parameters', async () => {
+    send.mockRejectedValue(Object.assign(new Error('missing'), { name: 'ParameterNotFound' }));
+
+    expect(await provider.get('redis-url')).toBeNull();
+  });
+
+  it('writes SecureString unless told otherwise', async () => {
+    send.mockResolvedValue({});
+
+    await provider.put('redis-url', 'redis://cache:6379');
+    await provider.put('api-base-url', 'https://api.example.com', { secure: false });
+
+    expect(send.mock.calls[0][0]).toBeInstanceOf(PutParameterCommand);
+    expect(send.mock.calls[0][0].input).toMatchObject({ Type: 'SecureString', Overwrite: true });
+    expect(send.mock.calls[1][0].input).toMatchObject({ Name: '/staging/config/api-base-url', Type: 'String' });
+  });
+
+  it('lists parameters under the environment path', async () => {
+    send.mockResolvedValueOnce({
+      Parameters: [{ Name: '/staging/config/redis-url', Version: 3, LastModifiedDate: new Date('2026-01-02T00:00:00Z') }],
+    });
+
+    expect(await provider.list()).toEqual([
+      { name: 'redis-url', provider: 'ssm', description: undefined, version: 3, updatedAt: '2026-01-02T00:00:00.000Z' },
+    ]);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(DescribeParametersCommand);
+  });
+
+  it('reports the newest version as current', async () => {
+    send.mockResolvedValueOnce({ Parameters: [{ Version: 1 }, { Version: 2 }] });
+
+    expect(await provider.history('redis-url')).toEqual([
+      { version: 2, createdAt: undefined, current: true },
+      { version: 1, createdAt: undefined, current: false },
+    ]);
+  });
+
+  it('rolls back by writing the earlier value as a new version', async () => {
+    send.mockResolvedValueOnce({ Parameter: { Value: 'redis://old:6379', Type: 'SecureString' } }).mockResolvedValueOnce({});
+
+    await provider.rollback('redis-url', 1);
+
+    expect(send.mock.calls[0][0].input).toEqual({ Name: '/staging/config/redis-url:1', WithDecryption: true });
+    expect(send.mock.calls[1][0]).toBeInstanceOf(PutParameterCommand);
+    expect(send.mock.calls[1][0].input).toMatchObject({ Value: 'redis://old:6379', Type: 'SecureString', Overwrite: true });
+  });
+
+  it('checks health by describing one parameter under the path', async () => {
+    send.mockResolvedValueOnce({ Parameters: [] });
+
+    await provider.healthCheck();
+
+    expect(send.mock.calls[0][0]).toBeInstanceOf(DescribeParametersCommand);
+    expect(send.mock.calls[0][0].input).toMatchObject({ MaxResults: 1 });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  DescribeParametersCommand,
+  GetParameterCommand,
+  GetParameterHistoryCommand,
+  PutParameterCommand,
+  SSMClient,
+} from '@aws-sdk/client-ssm';
+import {
+  type PutSecretOptions,
+  type SecretMetadata,
+  type SecretProvider,
+  SecretsError,
+  type SecretVersion,
+} from './secret-provider.js';
+
+export interface SsmParameterProviderOptions {
+  environment: string;
+  // Parameter names are `<prefix>/<name>`; defaults to `/<environment>/config`
+  prefix?: string;
+  region?: string;
+  client?: Pick<SSMClient, 'send'>;
+}
+
+/**
+ * Reads and writes parameters in AWS Systems Manager Parameter Store.
+ * SecureString parameters are decrypted on read.
+ */
+export class SsmParameterProvider implements SecretProvider {
+  readonly name = 'ssm';
+  private readonly client: Pick<SSMClient, 'send'>;
+  private readonly prefix: string;
+
+  constructor(private readonly options: SsmParameterProviderOptions) {
+    this.client = options.client ?? new SSMClient({ region: options.region });
+    this.prefix = options.prefix ?? `/${options.environment}/config`;
+  }
+
+  parameterName(secretName: string): string {
+    return `${this.prefix}/${secretName}`;
+  }
+
+  async get(secretName: string): Promise<string | null> {
+    try {
+      const response = await this.client.send(new GetParameterCommand({
+        Name: this.parameterName(secretName),
+        WithDecryption: true,
+      }));
+      return response.Parameter?.Value || null;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ParameterNotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(secretName: string, value: string, options: PutSecretOptions = {}): Promise<void> {
+    await this.client.send(new PutParameterCommand({
+      Name: this.parameterName(secretName),
+      Value: value,
+      Type: options.secure === false ? 'String' : 'SecureString',
+      Overwrite: true,
+      Description: options.description ?? `${secretName} for ${this.options.environment} environment`,
+    }));
+  }
+
+  async list(): Promise<SecretMetadata[]> {
+    const parameters: SecretMetadata[] = [];
+    let nextToken: string | undefined;
+    do {
+      const response = await this.client.send(new DescribeParametersCommand({
+        ParameterFilters: [{ Key: 'Path', Option: 'Recursive', Values: [this.prefix] }],
+        NextToken: nextToken,
+      }));
+      for (const parameter of response.Parameters ?? []) {
+        parameters.push({
+          name: (parameter.Name as string).slice(this.prefix.length + 1),
+          provider: this.name,
+          description: parameter.Description,
+          version: parameter.Version,
+          updatedAt: parameter.LastModifiedDate?.toISOString(),
+        });
+      }
+      nextToken = response.NextToken;
+    } while (nextToken);
+    return parameters.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Describes at most one parameter under the prefix, which needs the same permission as list()
+  async healthCheck(): Promise<void> {
+    await this.client.send(new DescribeParametersCommand({
+      ParameterFilters: [{ Key: 'Path', Option: 'Recursive', Values: [this.prefix] }],
+      MaxResults: 1,
+    }));
+  }
+
+  async history(secretName: string): Promise<SecretVersion[]> {
+    const versions: SecretVersion[] = [];
+    let nextToken: string | undefined;
+    try {
+      do {
+        const response = await this.client.send(new GetParameterHistoryCommand({
+          Name: this.parameterName(secretName),
+          WithDecryption: false,
+          NextToken: nextToken,
+        }));
+        for (const parameter of response.Parameters ?? []) {
+          versions.push({
+            version: parameter.Version as number,
+            createdAt: parameter.LastModifiedDate?.toISOString(),
+            current: false,
+          });
+        }
+        nextToken = response.NextToken;
+      } while (nextToken);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ParameterNotFound') {
+        return [];
+      }
+      throw error;
+    }
+    versions.sort((a, b) => Number(b.version) - Number(a.version));
+    if (versions.length > 0) {
+      versions[0].current = true;
+    }
+    return versions;
+  }
+
+  // Parameter Store cannot relabel versions, so the old value is written as a new version
+  async rollback(secretName: string, version: number | string): Promise<void> {
+    let parameter;
+    try {
+      ({ Parameter: parameter } = await this.client.send(new GetParameterCommand({
+        Name: `${this.parameterName(secretName)}:${version}`,
+        WithDecryption: true,
+      })));
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'ParameterVersionNotFound' || error.name === 'ParameterNotFound')) {
+        throw new SecretsError(`Version ${version} of ${secretName} not found`, 'VERSION_NOT_FOUND');
+      }
+      throw error;
+    }
+    await this.client.send(new PutParameterCommand({
+      Name: this.parameterName(secretName),
+      Value: parameter?.Value,
+      Type: parameter?.Type,
+      Overwrite: true,
+    }));
+  }
+}
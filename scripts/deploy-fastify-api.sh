@@ -20,8 +20,9 @@ mkdir -p "$BUILD_DIR/node_modules"
 # Copy secrets workspace package to node_modules
 if [ -d "libs/secrets/dist" ]; then
   echo "Copying secrets workspace package..."
-  cp -r "libs/secrets/dist" "$BUILD_DIR/node_modules/secrets"
-  echo "Secrets package copied to $BUILD_DIR/node_modules/secrets"
+  mkdir -p "$BUILD_DIR/node_modules/@libs"
+  cp -r "libs/secrets/dist" "$BUILD_DIR/node_modules/@libs/secrets"
+  echo "Secrets package copied to $BUILD_DIR/node_modules/@libs/secrets"
 else
   echo "Warning: libs/secrets/dist not found. Run 'nx build secrets' first."
   exit 1